@@ -2,20 +2,34 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
 import { CalendarGrid, type Crew, type ScheduleItem } from "@/components/schedule/CalendarGrid";
 import { Sidebar, type Depot } from "@/components/schedule/Sidebar";
 import { DepotCrewModal } from "@/components/schedule/DepotCrewModal";
 import { TeamManagement } from "@/components/schedule/TeamManagement";
 import { UISettings } from "@/components/schedule/UISettings";
+import { ConflictDialog } from "@/components/schedule/ConflictDialog";
+import { VersionConflictDialog } from "@/components/schedule/VersionConflictDialog";
+import { SubscriptionBanner } from "@/components/schedule/SubscriptionBanner";
+import { QuotaUsage } from "@/components/schedule/QuotaUsage";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Users, Settings } from "lucide-react";
 import { useScheduleData } from "@/hooks/useScheduleData";
-import { useOrganization, canManageResources, canManageTeam } from "@/hooks/useOrganization";
-import { api } from "@/lib/api";
+import { useOrganization, useSubscriptionAccess, canManageResources, canManageTeam } from "@/hooks/useOrganization";
+import {
+  api,
+  type User,
+  type ScheduleItem as ApiScheduleItem,
+  type ScheduleSeriesRuleInput,
+  type ScheduleSeriesUpdate,
+  type JobInput,
+} from "@/lib/api";
+import type { ScheduleConflict } from "@/lib/conflicts";
 import { startOfWeek, startOfDay, isBefore, isAfter, isSameDay, addDays, format } from "date-fns";
-import { CANONICAL_VEHICLE_TYPES, mergeAndSortVehicleTypes, normalizeVehicleTypeName } from "@/lib/vehicleTypes";
+import { normalizeVehicleTypeName } from "@/lib/vehicleTypes";
 import { useVehicleCombinations } from "@/hooks/useVehicleCombinations";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
 
 const INITIAL_COLOR_LABELS: Record<string, string> = {
   blue: "Standard Job",
@@ -29,8 +43,6 @@ const INITIAL_COLOR_LABELS: Record<string, string> = {
   gray: "On Hold",
 };
 
-const INITIAL_VEHICLE_TYPES = CANONICAL_VEHICLE_TYPES.map((t) => t.type);
-
 // Available colors matching vehicle type colors
 const AVAILABLE_COLORS = [
   { value: "blue", hex: "#3B82F6" },
@@ -63,20 +75,15 @@ export default function SchedulePage() {
   const updateQueueRef = useRef<Promise<void>>(Promise.resolve());
   // Serialize deletes as well (some flows can delete multiple items at once).
   const deleteQueueRef = useRef<Promise<void>>(Promise.resolve());
-  // Vehicle types are normalized to object form for consistent updates.
-  const [vehicleTypes, setVehicleTypes] = useState<Array<{type: string; defaultColor?: string}>>(() => {
-    if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("scheduler_vehicle_types");
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        // Merge/sort to canonical order while preserving any custom types/colors
-        return mergeAndSortVehicleTypes(parsed);
-      }
-      // Default types with default colors (canonical)
-      return mergeAndSortVehicleTypes(INITIAL_VEHICLE_TYPES.map((t) => ({ type: t })));
-    }
-    return mergeAndSortVehicleTypes(INITIAL_VEHICLE_TYPES.map((t) => ({ type: t })));
-  });
+  // Vehicle types are an organization setting (normalized to object form for consistent updates).
+  const { settings: organizationSettings, updateSettings: updateOrganizationSettings } = useOrganizationSettings();
+  const vehicleTypes = organizationSettings.vehicleTypes;
+  const setVehicleTypes = useCallback(
+    (next: Array<{ type: string; defaultColor?: string }>) => {
+      updateOrganizationSettings({ vehicleTypes: next });
+    },
+    [updateOrganizationSettings]
+  );
   const [colorLabels, setColorLabels] = useState<Record<string, string>>(() => {
     if (typeof window !== "undefined") {
       const saved = localStorage.getItem("scheduler_color_labels");
@@ -132,9 +139,14 @@ export default function SchedulePage() {
     }
   }, [orgData, orgLoading, userRole]);
   
+  // Once a lapsed trial or subscription is past its grace period the API refuses changes,
+  // so lock the schedule for everyone until billing is updated
+  const { subscription } = useSubscriptionAccess();
+  const isSubscriptionLocked = subscription?.canWrite === false;
+
   // Determine if user can edit (admin and operations can edit, users can only view)
   // Default to false (editable) while loading to avoid blocking users
-  const isReadOnly = orgLoading ? false : !canManageResources(userRole);
+  const isReadOnly = orgLoading ? false : !canManageResources(userRole) || isSubscriptionLocked;
   
   // Check if user can access team management (admin only)
   const canAccessSettings = canManageTeam(userRole);
@@ -155,6 +167,72 @@ export default function SchedulePage() {
     fetchUserId();
   }, []);
 
+  // A change refused with 402 means the subscription lapsed while the page was open
+  const queryClient = useQueryClient();
+  useEffect(() => {
+    api.setSubscriptionLapseListener((latest) => {
+      queryClient.setQueryData<User>(["/api/me"], (me) => (me ? { ...me, subscription: latest } : me));
+    });
+    return () => api.setSubscriptionLapseListener(null);
+  }, [queryClient]);
+
+  // Saves rejected for scheduling conflicts wait here until the user cancels or gives an override reason
+  const [conflictPrompt, setConflictPrompt] = useState<{ conflicts: ScheduleConflict[]; canOverride: boolean } | null>(null);
+  const conflictResolveRef = useRef<((reason: string | null) => void) | null>(null);
+
+  const resolveConflictPrompt = useCallback((reason: string | null) => {
+    conflictResolveRef.current?.(reason);
+    conflictResolveRef.current = null;
+    setConflictPrompt(null);
+  }, []);
+
+  useEffect(() => {
+    api.setConflictResolver(
+      (conflicts, canOverride) =>
+        new Promise((resolve) => {
+          // Only one prompt at a time; a newer conflict cancels an unanswered one
+          conflictResolveRef.current?.(null);
+          conflictResolveRef.current = resolve;
+          setConflictPrompt({ conflicts, canOverride });
+        })
+    );
+    return () => {
+      api.setConflictResolver(null);
+      conflictResolveRef.current?.(null);
+      conflictResolveRef.current = null;
+    };
+  }, []);
+
+  // Saves refused because someone else changed the item first wait here for a merge, overwrite or discard
+  const [versionConflict, setVersionConflict] = useState<{
+    mine: Partial<ApiScheduleItem>;
+    current: ApiScheduleItem;
+    base?: Partial<ApiScheduleItem>;
+  } | null>(null);
+  const versionResolveRef = useRef<((changes: Partial<ApiScheduleItem> | null) => void) | null>(null);
+
+  const resolveVersionConflict = useCallback((changes: Partial<ApiScheduleItem> | null) => {
+    versionResolveRef.current?.(changes);
+    versionResolveRef.current = null;
+    setVersionConflict(null);
+  }, []);
+
+  useEffect(() => {
+    api.setVersionConflictResolver(
+      (mine, current, base) =>
+        new Promise((resolve) => {
+          versionResolveRef.current?.(null);
+          versionResolveRef.current = resolve;
+          setVersionConflict({ mine, current, base });
+        })
+    );
+    return () => {
+      api.setVersionConflictResolver(null);
+      versionResolveRef.current?.(null);
+      versionResolveRef.current = null;
+    };
+  }, []);
+
   // Select first depot if none selected
   useEffect(() => {
     if (!selectedDepotId && depots.length > 0) {
@@ -230,6 +308,11 @@ export default function SchedulePage() {
     employeeId: i.employeeId,
     vehicleId: i.vehicleId,
     noteContent: i.noteContent,
+    version: i.version,
+    seriesId: i.seriesId,
+    jobId: i.jobId,
+    customerId: i.customerId,
+    siteId: i.siteId,
   }));
 
 const transformedDepots: Depot[] = depots.map((d) => ({
@@ -374,6 +457,7 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
           await mutations.updateScheduleItem.mutateAsync({
             id: item.id,
             data: itemData,
+            base: previousItem,
           });
         } catch (error: unknown) {
           // Important: many call-sites don't await `onItemUpdate`, so a thrown error becomes an
@@ -630,6 +714,80 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
     [mutations, transformedItems, saveOperationToHistory]
   );
 
+  // Series changes go through the update queue, so an occurrence saved in the same submit
+  // reaches the server first
+  const handleSeriesCreate = useCallback(
+    (input: { rule: ScheduleSeriesRuleInput; item: ScheduleItem; fromItemId?: string }) => {
+      // The id and date are ignored: each occurrence gets its own from the rule
+      const { duration, status, ...itemData } = input.item;
+      const run = async () => {
+        try {
+          await mutations.createScheduleSeries.mutateAsync({
+            rule: input.rule,
+            item: {
+              ...itemData,
+              depotId: itemData.depotId || selectedDepotId,
+              duration: itemData.type === 'job' && duration ? Number(duration) : undefined,
+              // Only a provisional booking asks for a status; otherwise the server decides
+              ...(status === 'pending' ? { status } : {}),
+            },
+            fromItemId: input.fromItemId,
+          });
+        } catch (error) {
+          console.error("[handleSeriesCreate] Failed to create repeating booking:", error);
+        }
+      };
+      updateQueueRef.current = updateQueueRef.current.then(run, run);
+      return updateQueueRef.current;
+    },
+    [mutations, selectedDepotId]
+  );
+
+  const handleSeriesUpdate = useCallback(
+    (seriesId: string, update: ScheduleSeriesUpdate) => {
+      const run = async () => {
+        try {
+          await mutations.updateScheduleSeries.mutateAsync({ id: seriesId, update });
+        } catch (error) {
+          console.error("[handleSeriesUpdate] Failed to update repeating booking:", { seriesId, error });
+        }
+      };
+      updateQueueRef.current = updateQueueRef.current.then(run, run);
+      return updateQueueRef.current;
+    },
+    [mutations]
+  );
+
+  const handleJobUpdate = useCallback(
+    (jobId: string, changes: JobInput) => {
+      const run = async () => {
+        try {
+          await mutations.updateJob.mutateAsync({ id: jobId, changes });
+        } catch (error) {
+          console.error("[handleJobUpdate] Failed to update job:", { jobId, error });
+        }
+      };
+      updateQueueRef.current = updateQueueRef.current.then(run, run);
+      return updateQueueRef.current;
+    },
+    [mutations]
+  );
+
+  const handleJobMove = useCallback(
+    (jobId: string, days: number) => {
+      const run = async () => {
+        try {
+          await mutations.moveJob.mutateAsync({ id: jobId, days });
+        } catch (error) {
+          console.error("[handleJobMove] Failed to move job:", { jobId, days, error });
+        }
+      };
+      updateQueueRef.current = updateQueueRef.current.then(run, run);
+      return updateQueueRef.current;
+    },
+    [mutations]
+  );
+
   const handleItemReorder = useCallback(
     async (activeId: string, overId: string) => {
       // This would need a specific API endpoint for reordering
@@ -763,11 +921,8 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
       const newType = { type: type.trim(), defaultColor: defaultColor || 'blue' };
       const newTypes = [...vehicleTypes, newType];
       setVehicleTypes(newTypes);
-      if (typeof window !== "undefined") {
-        localStorage.setItem("scheduler_vehicle_types", JSON.stringify(newTypes));
-      }
     },
-    [vehicleTypes]
+    [vehicleTypes, setVehicleTypes]
   );
 
   const handleVehicleTypeUpdate = useCallback(
@@ -798,9 +953,6 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
       });
 
       setVehicleTypes(newTypes);
-      if (typeof window !== "undefined") {
-        localStorage.setItem("scheduler_vehicle_types", JSON.stringify(newTypes));
-      }
 
       // If default color changed, update all vehicles of this type that use the default color
       if (defaultColor && defaultColor !== oldDefaultColor) {
@@ -837,18 +989,15 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
         }
       }
     },
-    [vehicleTypes, vehicles, handleVehicleUpdate]
+    [vehicleTypes, setVehicleTypes, vehicles, handleVehicleUpdate]
   );
 
   const handleVehicleTypeDelete = useCallback(
     (type: string) => {
       const newTypes = vehicleTypes.filter((t) => t.type !== type);
       setVehicleTypes(newTypes);
-      if (typeof window !== "undefined") {
-        localStorage.setItem("scheduler_vehicle_types", JSON.stringify(newTypes));
-      }
     },
-    [vehicleTypes]
+    [vehicleTypes, setVehicleTypes]
   );
 
   const handleColorLabelUpdate = useCallback(
@@ -982,49 +1131,57 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
         onOpenSettings={() => setIsSettingsModalOpen(true)}
         canAccessSettings={canAccessSettings}
       />
-      <div className="flex-1 min-w-0 overflow-auto">
-        <CalendarGrid
-          items={transformedItems}
-          crews={transformedCrews}
-          employees={transformedEmployees}
-          employeeAbsences={employeeAbsences}
-          vehicles={transformedVehicles}
-          colorLabels={colorLabels}
-          isReadOnly={isReadOnly}
-          depots={transformedDepots}
-          allItems={transformedItems}
-          metricsSelectedDate={metricsSelectedDate}
-          onMetricsSelectedDateChange={setMetricsSelectedDate}
-          onVisibleRangeChange={({ weekStart, viewDays }) => {
-            setVisibleWeekStart((prev) => (prev.getTime() === weekStart.getTime() ? prev : weekStart));
-            setVisibleViewDays((prev) => (prev === viewDays ? prev : viewDays));
-          }}
-          onItemUpdate={handleItemUpdate}
-          onBatchItemUpdates={handleBatchItemUpdates}
-          revertedPairingCellKeys={revertedPairingCellKeys}
-          onClearedRevertedPairing={() => setRevertedPairingCellKeys([])}
-          onItemCreate={handleItemCreate}
-          onItemDelete={handleItemDelete}
-          onItemReorder={handleItemReorder}
-          onCrewCreate={handleCrewCreate}
-          onCrewUpdate={handleCrewUpdate}
-          onCrewDelete={handleCrewDelete}
-          onEmployeeCreate={handleEmployeeCreate}
-          onEmployeeUpdate={handleEmployeeUpdate}
-          onEmployeeDelete={handleEmployeeDelete}
-          onVehicleCreate={handleVehicleCreate}
-          onVehicleUpdate={handleVehicleUpdate}
-          onVehicleDelete={handleVehicleDelete}
-          onColorLabelUpdate={handleColorLabelUpdate}
-          vehicleTypes={vehicleTypes}
-          vehicleCombinations={vehicleCombinations}
-          allCrews={transformedCrews}
-          onLogout={handleLogout}
-          onUndo={handleUndo}
-          onRedo={handleRedo}
-          canUndo={canUndo}
-          canRedo={canRedo}
-        />
+      <div className="flex-1 min-w-0 flex flex-col">
+        {subscription && (
+          <SubscriptionBanner subscription={subscription} canManageBilling={canManageTeam(userRole)} />
+        )}
+        <div className="flex-1 min-h-0 overflow-auto">
+          <CalendarGrid
+            items={transformedItems}
+            crews={transformedCrews}
+            employees={transformedEmployees}
+            employeeAbsences={employeeAbsences}
+            vehicles={transformedVehicles}
+            colorLabels={colorLabels}
+            isReadOnly={isReadOnly}
+            depots={transformedDepots}
+            metricsSelectedDate={metricsSelectedDate}
+            onMetricsSelectedDateChange={setMetricsSelectedDate}
+            onVisibleRangeChange={({ weekStart, viewDays }) => {
+              setVisibleWeekStart((prev) => (prev.getTime() === weekStart.getTime() ? prev : weekStart));
+              setVisibleViewDays((prev) => (prev === viewDays ? prev : viewDays));
+            }}
+            onItemUpdate={handleItemUpdate}
+            onBatchItemUpdates={handleBatchItemUpdates}
+            revertedPairingCellKeys={revertedPairingCellKeys}
+            onClearedRevertedPairing={() => setRevertedPairingCellKeys([])}
+            onItemCreate={handleItemCreate}
+            onSeriesCreate={handleSeriesCreate}
+            onSeriesUpdate={handleSeriesUpdate}
+            onJobUpdate={handleJobUpdate}
+            onJobMove={handleJobMove}
+            onItemDelete={handleItemDelete}
+            onItemReorder={handleItemReorder}
+            onCrewCreate={handleCrewCreate}
+            onCrewUpdate={handleCrewUpdate}
+            onCrewDelete={handleCrewDelete}
+            onEmployeeCreate={handleEmployeeCreate}
+            onEmployeeUpdate={handleEmployeeUpdate}
+            onEmployeeDelete={handleEmployeeDelete}
+            onVehicleCreate={handleVehicleCreate}
+            onVehicleUpdate={handleVehicleUpdate}
+            onVehicleDelete={handleVehicleDelete}
+            onColorLabelUpdate={handleColorLabelUpdate}
+            vehicleTypes={vehicleTypes}
+            vehicleCombinations={vehicleCombinations}
+            allCrews={transformedCrews}
+            onLogout={handleLogout}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            canUndo={canUndo}
+            canRedo={canRedo}
+          />
+        </div>
       </div>
       {selectedDepotId && (
         <DepotCrewModal
@@ -1081,11 +1238,15 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
               </TabsTrigger>
             </TabsList>
             
-            <TabsContent value="team" className="mt-4">
+            <TabsContent value="team" className="mt-4 space-y-4">
+              <QuotaUsage />
               {currentUserId && (
                 <TeamManagement
                   currentUserRole={userRole}
                   currentUserId={currentUserId}
+                  employees={employees}
+                  crews={crews}
+                  depots={depots}
                 />
               )}
             </TabsContent>
@@ -1097,11 +1258,33 @@ const transformedArchivedDepots: Depot[] = archivedDepots.map((d: { id: string;
                 onAddCombination={vehicleCombinationsState.addCombination}
                 onUpdateCombination={vehicleCombinationsState.updateCombination}
                 onRemoveCombination={vehicleCombinationsState.removeCombination}
+                depots={depots}
               />
             </TabsContent>
           </Tabs>
         </DialogContent>
       </Dialog>
+
+      <ConflictDialog
+        open={!!conflictPrompt}
+        conflicts={conflictPrompt?.conflicts ?? []}
+        canOverride={conflictPrompt?.canOverride ?? false}
+        crews={crews}
+        onResolve={resolveConflictPrompt}
+      />
+
+      <VersionConflictDialog
+        key={versionConflict ? `${versionConflict.current.id}:${versionConflict.current.version}` : "none"}
+        open={!!versionConflict}
+        mine={versionConflict?.mine ?? null}
+        current={versionConflict?.current ?? null}
+        base={versionConflict?.base}
+        crews={crews}
+        depots={depots}
+        employees={employees}
+        vehicles={vehicles}
+        onResolve={resolveVersionConflict}
+      />
     </div>
   );
 }
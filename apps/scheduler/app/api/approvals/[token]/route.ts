@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { approvalDecisionSchema, decideByLink, getApprovalLinkDetails } from "@/lib/approvals";
+
+export const runtime = "nodejs";
+
+// Public: the signed token in the path is the credential (see lib/approvals.ts)
+
+// GET /api/approvals/[token] - The booking an emailed approval link is for
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const result = await getApprovalLinkDetails(token);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result.details);
+  } catch (err) {
+    console.error("[GET /api/approvals/[token]] Error:", err);
+    return NextResponse.json({ error: "Failed to load the booking" }, { status: 500 });
+  }
+}
+
+// POST /api/approvals/[token] - Approve, or reject with a reason
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const decision = approvalDecisionSchema.parse(await req.json());
+    const result = await decideByLink(token, decision);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ status: result.item.status });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    console.error("[POST /api/approvals/[token]] Error:", err);
+    return NextResponse.json({ error: "Failed to record the decision" }, { status: 500 });
+  }
+}
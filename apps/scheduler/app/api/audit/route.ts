@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { requireAdmin } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from "@shared/schema";
+
+export const runtime = "nodejs";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const auditQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  before: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_LIMIT).default(DEFAULT_LIMIT),
+});
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/audit - The organization's audit trail, newest first. Admin only.
+// Filters: ?entityType=&entityId=&actorId=&action=&from=&to= (ISO dates), ?limit= (max 200).
+// Page back with ?before= set to the nextBefore of the previous page.
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    requireAdmin(ctx);
+
+    const { searchParams } = new URL(request.url);
+    const filters = auditQuerySchema.parse(Object.fromEntries(searchParams));
+    const events = await storage.getAuditEvents(ctx.organizationId, filters);
+
+    const nextBefore = events.length === filters.limit ? events[events.length - 1].createdAt : null;
+    return NextResponse.json({ events, nextBefore });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid filters", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to load audit events");
+  }
+}
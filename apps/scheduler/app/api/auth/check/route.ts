@@ -1,19 +1,18 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { storage } from "@/lib/storage";
+import { getSessionUserId } from "@/lib/session";
 import { getRequestContext } from "@/lib/request-context";
 
 export const runtime = "nodejs";
 
 export async function GET() {
   try {
-    const cookieStore = await cookies();
-    const userId = cookieStore.get("userId")?.value;
+    const userId = await getSessionUserId();
 
     if (!userId) {
       return NextResponse.json({
         authenticated: false,
-        error: "No userId cookie found",
+        error: "No valid session found",
       });
     }
 
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// DELETE /api/calendar-feeds/[id] - Revoke a feed; its URL stops working
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const feed = await storage.getCalendarFeed(id);
+    if (!feed || feed.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+    await storage.deleteCalendarFeed(id);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to revoke calendar feed");
+  }
+}
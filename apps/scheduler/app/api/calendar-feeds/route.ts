@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { createCalendarFeedSchema, getFeedSubject, newFeedToken } from "@/lib/calendarFeeds";
+import { isUniqueViolation } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+const SUBJECT_LABELS = { employee: "Employee", crew: "Crew", depot: "Depot" } as const;
+
+// GET /api/calendar-feeds - The organization's calendar feeds, with their tokens
+export async function GET() {
+  try {
+    const ctx = await getRequestContext();
+    requireAdminOrOperations(ctx);
+    const feeds = await storage.getCalendarFeedsByOrg(ctx.organizationId);
+    return NextResponse.json(feeds);
+  } catch (err) {
+    return errorResponse(err, "Failed to load calendar feeds");
+  }
+}
+
+// POST /api/calendar-feeds - The feed for an employee, crew or depot, created if it doesn't exist yet
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const input = createCalendarFeedSchema.parse(await request.json());
+    const subject = await getFeedSubject(ctx.organizationId, input.scope, input.subjectId);
+    if (!subject) {
+      return NextResponse.json({ error: `${SUBJECT_LABELS[input.scope]} not found` }, { status: 404 });
+    }
+
+    const existing = await storage.getCalendarFeedBySubject(ctx.organizationId, input.scope, input.subjectId);
+    if (existing) return NextResponse.json(existing);
+    try {
+      const feed = await storage.createCalendarFeed({
+        organizationId: ctx.organizationId,
+        scope: input.scope,
+        subjectId: input.subjectId,
+        token: newFeedToken(),
+        createdBy: ctx.userId,
+      });
+      return NextResponse.json(feed, { status: 201 });
+    } catch (error) {
+      // Created by someone else meanwhile
+      if (!isUniqueViolation(error)) throw error;
+      return NextResponse.json(await storage.getCalendarFeedBySubject(ctx.organizationId, input.scope, input.subjectId));
+    }
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid calendar feed", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to create calendar feed");
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
 
@@ -56,6 +57,8 @@ export async function GET() {
 export async function POST(req: Request) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     const body = await req.json();
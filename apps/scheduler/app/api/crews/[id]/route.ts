@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
+import { takeExpectedVersion, versionConflictResponse } from "@/lib/concurrency";
 
 export const runtime = "nodejs";
 
@@ -11,13 +13,21 @@ export async function PATCH(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     const { id } = await params;
     const body = await req.json();
+    const expectedVersion = takeExpectedVersion(body);
 
-    const crew = await storage.updateCrew(id, body);
+    const crew = await storage.updateCrew(id, body, expectedVersion);
     if (!crew) {
+      // With a version, no match can mean someone else changed it first
+      const current = expectedVersion !== undefined ? await storage.getCrew(id) : undefined;
+      if (current && current.organizationId === ctx.organizationId) {
+        return versionConflictResponse(current, "crew");
+      }
       return NextResponse.json(
         { error: "Crew not found" },
         { status: 404 }
@@ -39,6 +49,8 @@ export async function DELETE(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     const { id } = await params;
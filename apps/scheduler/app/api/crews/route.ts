@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { storage } from "@/lib/storage";
 import { getRequestContext } from "@/lib/request-context";
+import { checkQuota, checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 
 export const runtime = "nodejs";
@@ -55,8 +56,13 @@ export async function GET(request: Request) {
 export async function POST(req: Request) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
+    const overQuota = await checkQuota(ctx, "crews");
+    if (overQuota) return overQuota;
+
     const body = await req.json();
 
     const crew = await storage.createCrew({
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { versionConflictResponse } from "@/lib/concurrency";
+import { updateCustomerSchema } from "@/lib/customers";
+import { isUniqueViolation } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/customers/[id] - A customer and its sites
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const { id } = await params;
+    const customer = await storage.getCustomer(id);
+    if (!customer || customer.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+    const sites = await storage.getSitesByOrg(ctx.organizationId, { customerId: id });
+    return NextResponse.json({ ...customer, sites });
+  } catch (err) {
+    return errorResponse(err, "Failed to load customer");
+  }
+}
+
+// PATCH /api/customers/[id] - Edit a customer's details and contacts
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const { version, ...changes } = updateCustomerSchema.parse(await request.json());
+    const customer = await storage.getCustomer(id);
+    if (!customer || customer.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+    if (version !== undefined && version !== customer.version) {
+      return versionConflictResponse(customer, "customer");
+    }
+
+    const updated = await storage.updateCustomer(id, changes, version);
+    if (!updated) {
+      const current = await storage.getCustomer(id);
+      if (current) return versionConflictResponse(current, "customer");
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid customer", details: err.issues }, { status: 400 });
+    }
+    if (isUniqueViolation(err)) {
+      return NextResponse.json({ error: "A customer with this name already exists" }, { status: 409 });
+    }
+    return errorResponse(err, "Failed to update customer");
+  }
+}
+
+// DELETE /api/customers/[id] - Remove a customer and its sites; existing bookings keep their details
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const customer = await storage.getCustomer(id);
+    if (!customer || customer.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+    await storage.deleteCustomer(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to delete customer");
+  }
+}
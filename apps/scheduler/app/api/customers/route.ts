@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { canCreateBookings } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { createCustomerSchema, directoryQuerySchema } from "@/lib/customers";
+import { isUniqueViolation } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/customers?search= - The customer directory, by name
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const query = directoryQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams));
+    const customers = await storage.getCustomersByOrg(ctx.organizationId, query.search || undefined);
+    return NextResponse.json(customers);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid query", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to load customers");
+  }
+}
+
+// POST /api/customers - Add a customer (anyone who can book, so new customers can be added while booking)
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    if (!canCreateBookings(ctx)) {
+      return NextResponse.json(
+        { error: "Access denied. You do not have permission to create bookings." },
+        { status: 403 }
+      );
+    }
+
+    const input = createCustomerSchema.parse(await request.json());
+    const customer = await storage.createCustomer({ ...input, organizationId: ctx.organizationId });
+    return NextResponse.json(customer, { status: 201 });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid customer", details: err.issues }, { status: 400 });
+    }
+    if (isUniqueViolation(err)) {
+      return NextResponse.json({ error: "A customer with this name already exists" }, { status: 409 });
+    }
+    return errorResponse(err, "Failed to create customer");
+  }
+}
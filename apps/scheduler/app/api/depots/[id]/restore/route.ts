@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkQuota, checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
 
@@ -11,8 +12,13 @@ export async function POST(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
+    const overQuota = await checkQuota(ctx, "depots");
+    if (overQuota) return overQuota;
+
     const { id } = await params;
     const depot = await storage.restoreDepot(id);
     if (!depot) {
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkQuota, checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
 import { pool } from "@/lib/db";
@@ -100,8 +101,13 @@ export async function GET(req: Request) {
 export async function POST(req: Request) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
+    const overQuota = await checkQuota(ctx, "depots");
+    if (overQuota) return overQuota;
+
     const body = await req.json();
 
     const depot = await storage.createDepot({
@@ -1,14 +1,16 @@
 import { NextResponse } from "next/server";
+import { startSession } from "@/lib/session";
+
+export const runtime = "nodejs";
 
 export async function POST() {
-  const userId = "dev-user-1";
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "Not available in production" }, { status: 404 });
+  }
 
-  const res = NextResponse.json({ ok: true });
+  const userId = "dev-user-1";
 
-  res.cookies.set("userId", userId, {
-    httpOnly: true,
-    path: "/",
-  });
+  await startSession(userId);
 
-  return res;
+  return NextResponse.json({ ok: true });
 }
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { updateAbsenceSchema } from "@/lib/absences";
+import { reevaluateEmployeeBookings } from "@/lib/conflicts";
+import { validatePeriodDates } from "@/lib/recurrence";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// PATCH /api/employee-absences/[id] - Change an absence. Bookings on the days it covered
+// before or covers now are re-checked; the response carries their current conflicts.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const existing = await storage.getEmployeeAbsence(id);
+    if (!existing || existing.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Absence not found" }, { status: 404 });
+    }
+
+    const updates = updateAbsenceSchema.parse(await request.json());
+    const merged = { ...existing, ...updates };
+    if (merged.recurrence === "none") updates.recurrenceUntil = merged.recurrenceUntil = null;
+
+    const invalid = validatePeriodDates(merged);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const absence = await storage.updateEmployeeAbsence(id, updates);
+    const { itemIds, conflicts } = await reevaluateEmployeeBookings(
+      ctx.organizationId,
+      existing.employeeId,
+      absence ? [existing, absence] : [existing]
+    );
+    return NextResponse.json({ absence, affectedItemIds: itemIds, conflicts });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid absence", details: err.issues },
+        { status: 400 }
+      );
+    }
+    return errorResponse(err, "Failed to update absence");
+  }
+}
+
+// DELETE /api/employee-absences/[id] - Remove an absence and re-check the bookings on its days
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const existing = await storage.getEmployeeAbsence(id);
+    if (!existing || existing.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Absence not found" }, { status: 404 });
+    }
+
+    await storage.deleteEmployeeAbsence(id);
+    const { itemIds, conflicts } = await reevaluateEmployeeBookings(ctx.organizationId, existing.employeeId, [existing]);
+    return NextResponse.json({ ok: true, affectedItemIds: itemIds, conflicts });
+  } catch (err) {
+    return errorResponse(err, "Failed to delete absence");
+  }
+}
@@ -1,8 +1,13 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
 import { pool } from "@/lib/db";
+import { createAbsenceSchema, expandAbsences } from "@/lib/absences";
+import { validatePeriodDates } from "@/lib/recurrence";
+import { parseDayKeyParam, toDayKey } from "@/lib/scheduleDates";
 
 export const runtime = "nodejs";
 
@@ -28,92 +33,99 @@ async function ensureEmployeeAbsencesTable() {
         "absence_type" text NOT NULL,
         "start_date" timestamp NOT NULL,
         "end_date" timestamp NOT NULL,
+        "day_part" text DEFAULT 'full' NOT NULL,
+        "recurrence" text DEFAULT 'none' NOT NULL,
+        "recurrence_until" timestamp,
+        "notes" text,
         "created_by" varchar,
         "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now(),
         FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE,
         FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE,
         FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL
       );
     `);
-  } catch (err: any) {
-    throw err;
   } finally {
     client.release();
   }
 }
 
-export async function GET() {
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/employee-absences - All absences for the organization.
+// With ?from=yyyy-MM-dd&to=yyyy-MM-dd, only absences on those days, each with its
+// `occurrences` (repeating absences expanded).
+export async function GET(request: Request) {
   try {
     const ctx = await getRequestContext();
     requireAdminOrOperations(ctx);
 
     await ensureEmployeeAbsencesTable();
     const absences = await storage.getEmployeeAbsencesByOrg(ctx.organizationId);
-    return NextResponse.json(absences);
-  } catch (err: any) {
-    const msg = typeof err?.message === "string" ? err.message : String(err);
-    const isUnauthorized = msg.includes("Unauthorized");
-    const isLikelyDbError =
-      msg.toLowerCase().includes("database") ||
-      msg.toLowerCase().includes("relation") ||
-      msg.toLowerCase().includes("schema") ||
-      msg.toLowerCase().includes("migration");
-    const status = isUnauthorized ? 401 : isLikelyDbError ? 500 : 403;
-    return NextResponse.json({ error: msg || "Forbidden" }, { status });
+
+    const { searchParams } = new URL(request.url);
+    const from = parseDayKeyParam(searchParams.get("from"));
+    const to = parseDayKeyParam(searchParams.get("to"));
+    if (!searchParams.has("from") && !searchParams.has("to")) {
+      return NextResponse.json(absences);
+    }
+    if (!from || !to || to < from) {
+      return NextResponse.json(
+        { error: "from/to must be dates (yyyy-MM-dd), with to not before from" },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(expandAbsences(absences, from, to, toDayKey));
+  } catch (err) {
+    return errorResponse(err, "Failed to load absences");
   }
 }
 
-export async function POST(req: Request) {
+// POST /api/employee-absences - Record time off for an employee
+export async function POST(request: Request) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     await ensureEmployeeAbsencesTable();
-    const body = await req.json();
-    const employeeId = typeof body?.employeeId === "string" ? body.employeeId : "";
-    const absenceType = typeof body?.absenceType === "string" ? body.absenceType : "";
-    const startDateRaw = body?.startDate;
-    const endDateRaw = body?.endDate;
-
-    if (!employeeId) {
-      return NextResponse.json({ error: "employeeId is required" }, { status: 400 });
-    }
-    if (absenceType !== "holiday" && absenceType !== "sick") {
-      return NextResponse.json(
-        { error: 'absenceType must be "holiday" or "sick"' },
-        { status: 400 }
-      );
+    const input = createAbsenceSchema.parse(await request.json());
+    const employee = await storage.getEmployee(input.employeeId);
+    if (!employee || employee.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 });
     }
 
-    const startDate = new Date(startDateRaw);
-    const endDate = new Date(endDateRaw ?? startDateRaw);
-    if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
-      return NextResponse.json(
-        { error: "startDate/endDate must be valid dates" },
-        { status: 400 }
-      );
+    const absence = {
+      ...input,
+      endDate: input.endDate ?? input.startDate,
+      recurrenceUntil: input.recurrence === "none" ? null : input.recurrenceUntil ?? null,
+      notes: input.notes ?? null,
+    };
+    const invalid = validatePeriodDates(absence);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
     }
 
     const created = await storage.createEmployeeAbsence({
+      ...absence,
       organizationId: ctx.organizationId,
-      employeeId,
-      absenceType,
-      startDate,
-      endDate,
       createdBy: ctx.userId,
     });
-
     return NextResponse.json(created, { status: 201 });
-  } catch (err: any) {
-    const msg = typeof err?.message === "string" ? err.message : String(err);
-    const isUnauthorized = msg.includes("Unauthorized");
-    const isLikelyDbError =
-      msg.toLowerCase().includes("database") ||
-      msg.toLowerCase().includes("relation") ||
-      msg.toLowerCase().includes("schema") ||
-      msg.toLowerCase().includes("migration");
-    const status = isUnauthorized ? 401 : isLikelyDbError ? 500 : 400;
-    return NextResponse.json({ error: msg || "Failed" }, { status });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid absence", details: err.issues },
+        { status: 400 }
+      );
+    }
+    return errorResponse(err, "Failed to save absence");
   }
 }
-
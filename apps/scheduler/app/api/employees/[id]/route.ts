@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
+import { takeExpectedVersion, versionConflictResponse } from "@/lib/concurrency";
 
 export const runtime = "nodejs";
 
@@ -11,15 +13,23 @@ export async function PATCH(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     const { id } = await params;
     const body = await req.json();
+    const expectedVersion = takeExpectedVersion(body);
 
     console.log(`[PATCH /api/employees/${id}] Updating employee:`, body);
-    const employee = await storage.updateEmployee(id, body);
+    const employee = await storage.updateEmployee(id, body, expectedVersion);
     console.log(`[PATCH /api/employees/${id}] Updated employee:`, employee);
     if (!employee) {
+      // With a version, no match can mean someone else changed it first
+      const current = expectedVersion !== undefined ? await storage.getEmployee(id) : undefined;
+      if (current && current.organizationId === ctx.organizationId) {
+        return versionConflictResponse(current, "employee");
+      }
       return NextResponse.json(
         { error: "Employee not found" },
         { status: 404 }
@@ -41,6 +51,8 @@ export async function DELETE(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     const { id } = await params;
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkQuota, checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
 import { pool } from "@/lib/db";
@@ -70,8 +71,13 @@ export async function GET() {
 export async function POST(req: Request) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
+    const overQuota = await checkQuota(ctx, "employees");
+    if (overQuota) return overQuota;
+
     const body = await req.json();
 
     const employee = await storage.createEmployee({
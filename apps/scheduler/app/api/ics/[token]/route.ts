@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { storage } from "@/lib/storage";
+import { buildCalendarFeed, calendarFeedName, getFeedSubject } from "@/lib/calendarFeeds";
+import type { CalendarFeedScope } from "@shared/schema";
+
+export const runtime = "nodejs";
+
+// GET /api/ics/[token].ics - A calendar feed, for calendar apps (no session; the token is the credential)
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const feed = await storage.getCalendarFeedByToken(token.replace(/\.ics$/i, ""));
+    const subject = feed && (await getFeedSubject(feed.organizationId, feed.scope as CalendarFeedScope, feed.subjectId));
+    if (!feed || !subject) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    const organization = await storage.getOrganization(feed.organizationId);
+    const body = await buildCalendarFeed(feed, calendarFeedName(subject.name, organization?.name));
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="schedule.ics"`,
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (err) {
+    console.error("Error building calendar feed:", err);
+    return NextResponse.json({ error: "Failed to load calendar feed" }, { status: 500 });
+  }
+}
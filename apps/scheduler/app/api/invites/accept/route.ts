@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import bcrypt from "bcryptjs";
 import { storage } from "@/lib/storage";
+import { startSession } from "@/lib/session";
+import { setAuditActor } from "@/lib/audit";
 import { randomUUID } from "crypto";
 
 export const runtime = "nodejs";
@@ -83,19 +84,15 @@ export async function POST(request: Request) {
       }
     }
 
+    setAuditActor({ userId: user.id });
+
     // Check if user is already a member
     const existingMembership = await storage.getMembership(user.id, invite.organizationId);
     if (existingMembership) {
       // Already a member, delete the invite and log them in
       await storage.deleteInvite(invite.id);
       
-      const cookieStore = await cookies();
-      cookieStore.set("userId", user.id, {
-        httpOnly: true,
-        path: "/",
-        sameSite: "lax",
-        secure: process.env.NODE_ENV === "production",
-      });
+      await startSession(user.id, request.headers.get("user-agent"));
 
       return NextResponse.json({
         success: true,
@@ -116,14 +113,8 @@ export async function POST(request: Request) {
     // Delete the invite
     await storage.deleteInvite(invite.id);
 
-    // Set authentication cookie
-    const cookieStore = await cookies();
-    cookieStore.set("userId", user.id, {
-      httpOnly: true,
-      path: "/",
-      sameSite: "lax",
-      secure: process.env.NODE_ENV === "production",
-    });
+    // Start authenticated session
+    await startSession(user.id, request.headers.get("user-agent"));
 
     return NextResponse.json({
       success: true,
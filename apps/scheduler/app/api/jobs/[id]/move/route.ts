@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { versionConflictResponse } from "@/lib/concurrency";
+import { checkItemsConflicts, getConflictOverrideReason, hasBlockingConflicts } from "@/lib/conflicts";
+import { addDaysToKey, dayKeyToDate, toDayKey } from "@/lib/scheduleDates";
+import { blockingItemIds } from "@/lib/scheduleSeries";
+import { moveJobSchema } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/jobs/[id]/move - Shift the job's days from today on by `days`. Days already past
+// stay where they are, and a shift that would put any day in the past is refused.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const body = await request.json();
+    const input = moveJobSchema.parse(body);
+    const job = await storage.getJob(id);
+    if (!job || job.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (input.version !== undefined && input.version !== job.version) {
+      return versionConflictResponse(job, "job");
+    }
+
+    const today = toDayKey(new Date());
+    const allocations = await storage.getScheduleItemsByJob(id);
+    const upcoming = allocations
+      .filter((item) => toDayKey(item.date) >= today)
+      .map((item) => ({ item, day: addDaysToKey(toDayKey(item.date), input.days) }));
+    if (upcoming.some(({ day }) => day < today)) {
+      return NextResponse.json({ error: "Moving this job would put some of its days in the past" }, { status: 400 });
+    }
+    const moved = upcoming.map(({ item, day }) => ({ ...item, date: dayKeyToDate(day) }));
+    if (moved.length === 0) {
+      return NextResponse.json({ items: [] });
+    }
+
+    // The whole job moves together, so its own days are checked at their new dates
+    const conflicts = await checkItemsConflicts(
+      ctx.organizationId,
+      moved.map((item) => ({ ...item, conflictOverrideReason: null }))
+    );
+    const blocking = hasBlockingConflicts(conflicts) ? blockingItemIds(conflicts) : new Set<string>();
+    const overrideReason = getConflictOverrideReason(body);
+    if (blocking.size > 0 && !overrideReason) {
+      return NextResponse.json(
+        { error: "Moving this job conflicts with the existing schedule", conflicts, canOverride: true },
+        { status: 409 }
+      );
+    }
+
+    const items = await storage.updateScheduleItems(
+      moved.map((item) => ({
+        id: item.id,
+        data: {
+          date: item.date,
+          // As when moving a single occurrence, it leaves its repeating booking
+          ...(item.seriesId ? { seriesId: null } : {}),
+          ...(blocking.has(item.id)
+            ? { conflictOverrideReason: overrideReason, conflictOverriddenBy: ctx.userId, conflictOverriddenAt: new Date() }
+            : item.conflictOverrideReason
+              ? { conflictOverrideReason: null, conflictOverriddenBy: null, conflictOverriddenAt: null }
+              : {}),
+        },
+      }))
+    );
+    for (const item of allocations) {
+      if (item.seriesId && moved.some((m) => m.id === item.id)) {
+        await storage.addScheduleSeriesException(item.seriesId, toDayKey(item.date));
+      }
+    }
+    return NextResponse.json({ items });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid move", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to move job");
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage, type JobAllocationChanges } from "@/lib/storage";
+import { versionConflictResponse } from "@/lib/concurrency";
+import { JOB_ITEM_FIELDS, allocationJobStatus, isUniqueViolation, updateJobSchema } from "@/lib/jobs";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/jobs/[id] - A job and its day allocations
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const { id } = await params;
+    const job = await storage.getJob(id);
+    if (!job || job.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    const allocations = await storage.getScheduleItemsByJob(id);
+    return NextResponse.json({ ...job, allocations });
+  } catch (err) {
+    return errorResponse(err, "Failed to load job");
+  }
+}
+
+// PATCH /api/jobs/[id] - Edit a job; its details and status carry over to every day it's allocated
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const { version, ...changes } = updateJobSchema.parse(await request.json());
+    const job = await storage.getJob(id);
+    if (!job || job.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    if (version !== undefined && version !== job.version) {
+      return versionConflictResponse(job, "job");
+    }
+
+    const allocations: JobAllocationChanges = { fields: {} };
+    for (const field of JOB_ITEM_FIELDS) {
+      if (field in changes) allocations.fields[field] = changes[field] ?? null;
+    }
+    if (changes.status && changes.status !== job.status) {
+      allocations.jobStatus = allocationJobStatus(changes.status) ?? undefined;
+    }
+
+    const result = await storage.updateJob(id, changes, allocations, version);
+    if (!result) {
+      const current = await storage.getJob(id);
+      if (current) return versionConflictResponse(current, "job");
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ...result.job, allocations: result.items });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid job", details: err.issues }, { status: 400 });
+    }
+    if (isUniqueViolation(err)) {
+      return NextResponse.json({ error: "Another job already has this job number" }, { status: 409 });
+    }
+    return errorResponse(err, "Failed to update job");
+  }
+}
+
+// DELETE /api/jobs/[id] - Remove a job; the days it was allocated stay on the schedule
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const job = await storage.getJob(id);
+    if (!job || job.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+    await storage.deleteJob(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to delete job");
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { canCreateBookings } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { createJobSchema, isUniqueViolation } from "@/lib/jobs";
+import { JOB_STATUSES } from "@shared/schema";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+const listQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  status: z.enum(JOB_STATUSES).optional(),
+});
+
+// GET /api/jobs?search=&status= - Jobs with their total allocated days and hours
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const query = listQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams));
+    const jobs = await storage.getJobsByOrg(ctx.organizationId, {
+      search: query.search || undefined,
+      status: query.status,
+    });
+    return NextResponse.json(jobs);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid query", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to load jobs");
+  }
+}
+
+// POST /api/jobs - Create a job (days are allocated to it by booking them with its job number)
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    if (!canCreateBookings(ctx)) {
+      return NextResponse.json(
+        { error: "Access denied. You do not have permission to create bookings." },
+        { status: 403 }
+      );
+    }
+
+    const input = createJobSchema.parse(await request.json());
+    const job = await storage.createJob({
+      ...input,
+      organizationId: ctx.organizationId,
+      createdBy: ctx.userId,
+    });
+    return NextResponse.json({ ...job, allocatedDays: 0, allocatedHours: 0, firstDate: null, lastDate: null }, { status: 201 });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid job", details: err.issues }, { status: 400 });
+    }
+    if (isUniqueViolation(err)) {
+      return NextResponse.json({ error: "Another job already has this job number" }, { status: 409 });
+    }
+    return errorResponse(err, "Failed to create job");
+  }
+}
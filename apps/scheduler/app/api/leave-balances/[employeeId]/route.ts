@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { normalizeOrganizationSettings } from "@/lib/organizationSettings";
+import { leaveAllowanceSchema, leaveYearContaining } from "@/lib/leaveAllowance";
+import { loadLeaveBalances } from "@/lib/leaveBalances";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// PUT /api/leave-balances/[employeeId] - Set the employee's entitlement and/or carry-over for
+// one leave year (null returns a value to its default). Responds with the updated balance.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ employeeId: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { employeeId } = await params;
+    const employee = await storage.getEmployee(employeeId);
+    if (!employee || employee.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+    }
+
+    const { leaveYearStart, ...values } = leaveAllowanceSchema.parse(await request.json());
+    const { leave } = normalizeOrganizationSettings(await storage.getOrganizationSettings(ctx.organizationId));
+    if (leaveYearContaining(leaveYearStart, leave).start !== leaveYearStart) {
+      return NextResponse.json(
+        { error: "leaveYearStart must be the first day of a leave year" },
+        { status: 400 }
+      );
+    }
+
+    await storage.upsertLeaveAllowance(ctx.organizationId, employeeId, leaveYearStart, values, ctx.userId);
+    const { balances } = await loadLeaveBalances(ctx.organizationId, leaveYearStart, [employeeId]);
+    return NextResponse.json(balances[0]);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid allowance", details: err.issues },
+        { status: 400 }
+      );
+    }
+    return errorResponse(err, "Failed to update leave allowance");
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { loadLeaveBalances } from "@/lib/leaveBalances";
+import { parseDayKeyParam, toDayKey } from "@/lib/scheduleDates";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/leave-balances - Holiday allowance balances for the current leave year.
+// ?date=yyyy-MM-dd picks the leave year that includes that day; ?employeeId= narrows to one employee.
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    requireAdminOrOperations(ctx);
+
+    const { searchParams } = new URL(request.url);
+    const day = searchParams.has("date") ? parseDayKeyParam(searchParams.get("date")) : toDayKey(new Date());
+    if (!day) {
+      return NextResponse.json({ error: "date must be a date (yyyy-MM-dd)" }, { status: 400 });
+    }
+
+    const employeeId = searchParams.get("employeeId");
+    const result = await loadLeaveBalances(ctx.organizationId, day, employeeId ? [employeeId] : undefined);
+    return NextResponse.json(result);
+  } catch (err) {
+    return errorResponse(err, "Failed to load leave balances");
+  }
+}
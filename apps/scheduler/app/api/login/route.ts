@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import bcrypt from "bcryptjs";
 import { storage } from "@/lib/storage";
+import { startSession } from "@/lib/session";
 import { insertUserSchema } from "@shared/schema";
 import { z } from "zod";
 
@@ -74,14 +74,8 @@ export async function POST(request: Request) {
       );
     }
 
-    // Set cookie
-    const cookieStore = await cookies();
-    cookieStore.set("userId", user.id, {
-      httpOnly: true,
-      path: "/",
-      sameSite: "lax",
-      secure: process.env.NODE_ENV === "production",
-    });
+    // Start a fresh session (rotates any session this browser already had)
+    await startSession(user.id, request.headers.get("user-agent"));
 
     return NextResponse.json({
       id: user.id,
@@ -1,11 +1,10 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
+import { endSession } from "@/lib/session";
 
 export const runtime = "nodejs";
 
 export async function POST() {
-  const cookieStore = await cookies();
-  cookieStore.delete("userId");
+  await endSession();
 
   return NextResponse.json({ ok: true });
 }
@@ -1,13 +1,13 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { storage } from "@/lib/storage";
+import { getSessionUserId } from "@/lib/session";
+import { getSubscriptionAccess } from "@/lib/subscription";
 
 export const runtime = "nodejs";
 
 export async function GET() {
   try {
-    const cookieStore = await cookies();
-    const userId = cookieStore.get("userId")?.value;
+    const userId = await getSessionUserId();
 
     if (!userId) {
       return NextResponse.json(
@@ -28,12 +28,16 @@ export async function GET() {
     const memberships = await storage.getMembershipsByUser(userId);
     const primaryMembership = memberships[0];
 
+    // Billing state of the organization requests act on (the same one getRequestContext picks)
+    const activeMembership = await storage.getPrimaryMembership(userId);
+
     return NextResponse.json({
       id: user.id,
       username: user.username,
       email: user.email,
       role: user.role,
       membershipRole: primaryMembership?.role || "user",
+      subscription: activeMembership ? getSubscriptionAccess(activeMembership.organization) : null,
     });
   } catch (error: any) {
     console.error("Get me error:", error);
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { storage } from "@/lib/storage";
 
 export const runtime = "nodejs";
@@ -11,6 +12,8 @@ export async function POST(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     const { id } = await params;
     
     // Check if user is admin
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkQuota, checkWriteAccess } from "@/lib/entitlementGuard";
 import { storage } from "@/lib/storage";
-import { canInviteMember } from "@/lib/quota";
 import { sendEmail, generateInviteEmailHtml } from "@/lib/email";
 import type { MemberRole } from "@/shared/schema";
 
@@ -40,6 +40,8 @@ export async function GET() {
 export async function POST(request: Request) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     
     // Check if user is admin
     if (ctx.role !== "admin") {
@@ -89,7 +91,6 @@ export async function POST(request: Request) {
       );
     }
 
-    // Check team member quota
     const org = await storage.getOrganization(ctx.organizationId);
     if (!org) {
       return NextResponse.json(
@@ -98,18 +99,9 @@ export async function POST(request: Request) {
       );
     }
 
-    const quotaCheck = await canInviteMember(ctx.organizationId, org.plan);
-    if (!quotaCheck.allowed) {
-      return NextResponse.json(
-        { 
-          error: quotaCheck.reason || "Team member limit reached",
-          quotaExceeded: true,
-          currentUsage: quotaCheck.currentUsage,
-          limit: quotaCheck.limit,
-        },
-        { status: 403 }
-      );
-    }
+    // Check team member quota
+    const overQuota = await checkQuota(ctx, "members");
+    if (overQuota) return overQuota;
 
     // Generate invite token
     const token = `${ctx.organizationId}_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
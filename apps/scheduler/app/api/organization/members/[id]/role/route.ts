@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { storage } from "@/lib/storage";
 import type { MemberRole } from "@/shared/schema";
 
@@ -12,6 +13,8 @@ export async function PATCH(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     const { id } = await params;
     
     // Check if user is admin
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import type { InsertOrganizationSettings } from "@shared/schema";
+import {
+  ORGANIZATION_SETTINGS_VERSION,
+  normalizeClients,
+  normalizeOrganizationSettings,
+  organizationSettingsPatchSchema,
+  schedulingSettingsSchema,
+  SCHEDULING_SETTING_KEYS,
+} from "@/lib/organizationSettings";
+import { addCustomersByName } from "@/lib/customers";
+
+export const runtime = "nodejs";
+
+const sectionSchemas = organizationSettingsPatchSchema.shape;
+
+/**
+ * POST /api/organization/settings/import - One-time import of a browser's localStorage settings.
+ *
+ * The first admin/operations user to open the app after the upgrade seeds the organization's
+ * settings from their browser. Sections the organization has already configured are kept, and
+ * invalid values are skipped rather than failing the import. Later calls are no-ops.
+ */
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const existing = await storage.getOrganizationSettings(ctx.organizationId);
+    if (existing?.importedAt) {
+      return NextResponse.json({ imported: false, settings: normalizeOrganizationSettings(existing) });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const values: Partial<InsertOrganizationSettings> = { schemaVersion: ORGANIZATION_SETTINGS_VERSION };
+
+    if (!existing?.scheduling && body?.scheduling && typeof body.scheduling === "object") {
+      const scheduling: Record<string, unknown> = {};
+      for (const key of SCHEDULING_SETTING_KEYS) {
+        const parsed = schedulingSettingsSchema.shape[key].safeParse(body.scheduling[key]);
+        if (parsed.success) scheduling[key] = parsed.data;
+      }
+      if (Object.keys(scheduling).length > 0) values.scheduling = scheduling;
+    }
+
+    if (!existing?.vehicleTypes) {
+      const parsed = sectionSchemas.vehicleTypes.safeParse(body?.vehicleTypes);
+      if (parsed.success && parsed.data && parsed.data.length > 0) values.vehicleTypes = parsed.data;
+    }
+
+    if (!existing?.vehicleCombinations) {
+      const parsed = sectionSchemas.vehicleCombinations.safeParse(body?.vehicleCombinations);
+      if (parsed.success && parsed.data && parsed.data.length > 0) values.vehicleCombinations = parsed.data;
+    }
+
+    const row = await storage.importOrganizationSettings(ctx.organizationId, values, ctx.userId);
+    if (!row) {
+      // Another browser imported first
+      const current = await storage.getOrganizationSettings(ctx.organizationId);
+      return NextResponse.json({ imported: false, settings: normalizeOrganizationSettings(current) });
+    }
+
+    // Remembered client names join the customer directory
+    const parsedClients = sectionSchemas.clients.safeParse(body?.clients);
+    if (parsedClients.success && parsedClients.data && parsedClients.data.length > 0) {
+      await addCustomersByName(ctx.organizationId, normalizeClients(parsedClients.data));
+    }
+
+    return NextResponse.json({ imported: true, settings: normalizeOrganizationSettings(row) });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to import settings";
+    let status = 500;
+    if (message.includes("Unauthorized")) status = 401;
+    else if (message.includes("Access denied")) status = 403;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
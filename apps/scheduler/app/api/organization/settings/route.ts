@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import {
+  ORGANIZATION_SETTINGS_VERSION,
+  normalizeBankHolidays,
+  normalizeClients,
+  normalizeOrganizationSettings,
+  organizationSettingsPatchSchema,
+} from "@/lib/organizationSettings";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/organization/settings - Settings shared by every member of the organization
+export async function GET() {
+  try {
+    const ctx = await getRequestContext();
+    const row = await storage.getOrganizationSettings(ctx.organizationId);
+    return NextResponse.json(normalizeOrganizationSettings(row));
+  } catch (err) {
+    return errorResponse(err, "Failed to load organization settings");
+  }
+}
+
+// PATCH /api/organization/settings - Update one or more sections (admin/operations only)
+export async function PATCH(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const patch = organizationSettingsPatchSchema.parse(await request.json());
+    const current = normalizeOrganizationSettings(await storage.getOrganizationSettings(ctx.organizationId));
+
+    const row = await storage.upsertOrganizationSettings(
+      ctx.organizationId,
+      {
+        schemaVersion: ORGANIZATION_SETTINGS_VERSION,
+        // Scheduling, leave and approvals are merged key-by-key; list sections are replaced wholesale
+        ...(patch.scheduling ? { scheduling: { ...current.scheduling, ...patch.scheduling } } : {}),
+        ...(patch.leave
+          ? {
+              leave: {
+                ...current.leave,
+                ...patch.leave,
+                bankHolidays: normalizeBankHolidays(patch.leave.bankHolidays ?? current.leave.bankHolidays),
+              },
+            }
+          : {}),
+        ...(patch.approvals ? { approvals: { ...current.approvals, ...patch.approvals } } : {}),
+        ...(patch.vehicleTypes ? { vehicleTypes: patch.vehicleTypes } : {}),
+        ...(patch.vehicleCombinations ? { vehicleCombinations: patch.vehicleCombinations } : {}),
+        ...(patch.clients ? { clients: normalizeClients(patch.clients) } : {}),
+      },
+      ctx.userId
+    );
+
+    return NextResponse.json(normalizeOrganizationSettings(row));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid settings", details: err.issues },
+        { status: 400 }
+      );
+    }
+    return errorResponse(err, "Failed to update organization settings");
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { requireAdmin } from "@/lib/rbac";
+import { getEntitlementUsage } from "@/lib/entitlementUsage";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/organization/usage - The organization's plan entitlements (limits and features,
+// including any overrides) with current usage against each limit. Admin only.
+export async function GET() {
+  try {
+    const ctx = await getRequestContext();
+    requireAdmin(ctx);
+
+    const usage = await getEntitlementUsage(ctx.organizationId, ctx.entitlements);
+    return NextResponse.json({ ...ctx.entitlements, usage });
+  } catch (err) {
+    return errorResponse(err, "Failed to load usage");
+  }
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import bcrypt from "bcryptjs";
 import { storage } from "@/lib/storage";
+import { startSession } from "@/lib/session";
+import { setAuditActor } from "@/lib/audit";
 import { insertUserSchema } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { z } from "zod";
@@ -87,6 +88,8 @@ export async function POST(request: Request) {
       role: role || "user",
     });
 
+    setAuditActor({ userId: user.id });
+
     // Create organization for this user
     const trialEndsAt = new Date();
     trialEndsAt.setDate(trialEndsAt.getDate() + 30);
@@ -130,14 +133,8 @@ export async function POST(request: Request) {
       console.error("Failed to create default depot for new user:", depotError);
     }
 
-    // Set cookie
-    const cookieStore = await cookies();
-    cookieStore.set("userId", user.id, {
-      httpOnly: true,
-      path: "/",
-      sameSite: "lax",
-      secure: process.env.NODE_ENV === "production",
-    });
+    // Start session
+    await startSession(user.id, request.headers.get("user-agent"));
 
     return NextResponse.json({
       id: user.id,
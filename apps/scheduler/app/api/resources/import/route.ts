@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { checkLimit } from "@/lib/entitlementUsage";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { normalizeOrganizationSettings } from "@/lib/organizationSettings";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import {
+  guessMapping,
+  importRequestSchema,
+  validateImportRows,
+  type ImportPreview,
+  type ImportPreviewRow,
+} from "@/lib/resourceImport";
+
+export const runtime = "nodejs";
+
+// Rows per import, not counting the header
+const MAX_ROWS = 1000;
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+const text = (row: ImportPreviewRow, key: string) => (row.values[key] as string | null) ?? null;
+
+// POST /api/resources/import - Preview an employee or vehicle sheet, or import it when `commit` is set
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const input = importRequestSchema.parse(await request.json());
+    let sheet: string[][];
+    try {
+      sheet = readSpreadsheet(input.fileName, Buffer.from(input.content, "base64"), MAX_ROWS + 1);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : "Couldn't read the file" }, { status: 400 });
+    }
+    if (sheet.length < 2) {
+      return NextResponse.json({ error: "The file needs a header row and at least one row to import" }, { status: 400 });
+    }
+    if (sheet.length - 1 > MAX_ROWS) {
+      return NextResponse.json({ error: `Import up to ${MAX_ROWS} rows at a time` }, { status: 400 });
+    }
+
+    const headers = sheet[0].map((header) => header.trim());
+    const mapping = input.mapping ?? guessMapping(input.kind, headers);
+    const [depots, existing, settings] = await Promise.all([
+      storage.getDepotsByOrg(ctx.organizationId),
+      input.kind === "employees"
+        ? storage.getEmployeesByOrg(ctx.organizationId)
+        : storage.getVehiclesByOrg(ctx.organizationId),
+      storage.getOrganizationSettings(ctx.organizationId),
+    ]);
+    const rows = validateImportRows(input.kind, sheet, mapping, {
+      depots,
+      defaultDepotId: input.depotId,
+      existingNames: existing.map((resource) => resource.name),
+      vehicleTypes: normalizeOrganizationSettings(settings).vehicleTypes,
+    });
+
+    const limit = await checkLimit(ctx.organizationId, ctx.entitlements, input.kind, rows.length);
+    const preview: ImportPreview = {
+      kind: input.kind,
+      headers,
+      mapping,
+      rows,
+      quota:
+        limit.limit === undefined
+          ? null
+          : {
+              used: limit.currentUsage ?? 0,
+              limit: limit.limit,
+              adding: rows.length,
+              allowed: limit.allowed,
+              message: limit.reason,
+            },
+      valid: rows.length > 0 && limit.allowed && rows.every((row) => row.errors.length === 0),
+    };
+    if (!input.commit) {
+      return NextResponse.json(preview);
+    }
+
+    if (!preview.valid) {
+      const problems = rows.filter((row) => row.errors.length > 0).length;
+      const error = !limit.allowed
+        ? limit.reason
+        : problems > 0
+          ? `${problems} row${problems === 1 ? " has" : "s have"} problems; fix the file and try again`
+          : "There's nothing to import";
+      return NextResponse.json({ error, preview, quotaExceeded: !limit.allowed || undefined }, { status: 400 });
+    }
+
+    const owner = { organizationId: ctx.organizationId, userId: ctx.userId };
+    const created =
+      input.kind === "employees"
+        ? await storage.importResources({
+            employees: rows.map((row) => ({
+              ...owner,
+              name: text(row, "name")!,
+              jobRole: text(row, "jobRole") ?? "operative",
+              email: text(row, "email"),
+              homePostcode: text(row, "homePostcode"),
+              startsFromHome: row.values.startsFromHome === true,
+              depotId: text(row, "depotId")!,
+            })),
+          })
+        : await storage.importResources({
+            vehicles: rows.map((row) => ({
+              ...owner,
+              name: text(row, "name")!,
+              vehicleType: text(row, "vehicleType")!,
+              category: text(row, "category"),
+              color: text(row, "color"),
+              depotId: text(row, "depotId")!,
+            })),
+          });
+    return NextResponse.json({ ...preview, created: created.employees.length + created.vehicles.length }, { status: 201 });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid import", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to import");
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { storage } from "@/lib/storage";
+import { decideBooking } from "@/lib/approvals";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/schedule-items/[id]/approve - Approve the booking's current approval step
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const item = await storage.getScheduleItem(id);
+    if (!item || item.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Schedule item not found" }, { status: 404 });
+    }
+
+    const result = await decideBooking(item, ctx.userId, { action: "approve" });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result.item);
+  } catch (err) {
+    return errorResponse(err, "Failed to approve booking");
+  }
+}
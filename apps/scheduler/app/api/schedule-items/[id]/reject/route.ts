@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { storage } from "@/lib/storage";
+import { approvalDecisionSchema, decideBooking } from "@/lib/approvals";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/schedule-items/[id]/reject - Reject the booking with a reason the requester sees
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+
+    const { id } = await params;
+    const decision = approvalDecisionSchema.parse({ ...(await req.json()), action: "reject" });
+    const item = await storage.getScheduleItem(id);
+    if (!item || item.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Schedule item not found" }, { status: 404 });
+    }
+
+    const result = await decideBooking(item, ctx.userId, decision);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result.item);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to reject booking");
+  }
+}
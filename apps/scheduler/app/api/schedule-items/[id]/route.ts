@@ -1,7 +1,13 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { requireAdminOrOperations } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
+import { checkItemConflicts, getConflictOverrideReason, hasBlockingConflicts } from "@/lib/conflicts";
+import { toDayKey } from "@/lib/scheduleDates";
+import { takeExpectedVersion, versionConflictResponse } from "@/lib/concurrency";
+import { normalizeJobNumber, resolveJobId } from "@/lib/jobs";
+import { checkDirectoryLinks } from "@/lib/customers";
 
 export const runtime = "nodejs";
 
@@ -11,6 +17,8 @@ export async function PATCH(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     const { id } = await params;
@@ -21,15 +29,119 @@ export async function PATCH(
     if (updates.date) {
       updates.date = new Date(updates.date);
     }
+    // Overrides are only ever recorded by the conflict check below
+    delete updates.conflictOverride;
+    delete updates.conflictOverrideReason;
+    delete updates.conflictOverriddenBy;
+    delete updates.conflictOverriddenAt;
+    // Occurrences join and leave repeating bookings only through /api/schedule-series
+    delete updates.seriesId;
+    // ...and jobs by their job number, below
+    delete updates.jobId;
+    // Approval is decided step by step through /approve and /reject (decideBooking in lib/approvals.ts)
+    delete updates.status;
+    delete updates.approval;
+    delete updates.requestedBy;
+    delete updates.approvedBy;
+    delete updates.approvedAt;
+    delete updates.rejectionReason;
+    const expectedVersion = takeExpectedVersion(updates);
 
-    const item = await storage.updateScheduleItem(id, updates);
+    // Re-check conflicts only when the change can create one. The calendar sends the whole item
+    // on every edit, so compare against the stored values rather than checking which keys are present.
+    const schedulingFields = ["date", "crewId", "depotId", "employeeId", "vehicleId", "jobStatus"] as const;
+    const jobFields = ["type", "jobStatus", "jobNumber"] as const;
+    const existing =
+      expectedVersion !== undefined || [...schedulingFields, ...jobFields].some((field) => field in updates)
+        ? await storage.getScheduleItem(id)
+        : undefined;
+    if (existing && existing.organizationId !== ctx.organizationId) {
+      return NextResponse.json(
+        { error: "Schedule item not found" },
+        { status: 404 }
+      );
+    }
+    // Refuse edits made to an out-of-date copy before checking them for conflicts
+    if (existing && expectedVersion !== undefined && existing.version !== expectedVersion) {
+      return versionConflictResponse(existing, "schedule item");
+    }
+    const invalidLink = await checkDirectoryLinks(ctx.organizationId, updates);
+    if (invalidLink) {
+      return NextResponse.json({ error: invalidLink }, { status: 400 });
+    }
+
+    const normalize = (field: (typeof schedulingFields)[number], value: unknown) => {
+      if (value === null || value === undefined || value === "") return null;
+      return field === "date" ? toDayKey(value as Date) : String(value);
+    };
+    const schedulingChanged =
+      !!existing &&
+      schedulingFields.some(
+        (field) => field in updates && normalize(field, updates[field]) !== normalize(field, existing[field])
+      );
+
+    if (existing && schedulingChanged) {
+      const conflicts = await checkItemConflicts(ctx.organizationId, {
+        ...existing,
+        ...updates,
+        id,
+        conflictOverrideReason: null,
+      });
+      if (hasBlockingConflicts(conflicts)) {
+        const overrideReason = getConflictOverrideReason(body);
+        if (!overrideReason) {
+          return NextResponse.json(
+            { error: "This change conflicts with the existing schedule", conflicts, canOverride: true },
+            { status: 409 }
+          );
+        }
+        updates.conflictOverrideReason = overrideReason;
+        updates.conflictOverriddenBy = ctx.userId;
+        updates.conflictOverriddenAt = new Date();
+      } else if (existing.conflictOverrideReason) {
+        // The clash that was overridden no longer applies
+        updates.conflictOverrideReason = null;
+        updates.conflictOverriddenBy = null;
+        updates.conflictOverriddenAt = null;
+      }
+    }
+
+    // A changed job number (or a Free slot being booked) moves the item to that number's job
+    if (
+      existing &&
+      jobFields.some((field) => field in updates) &&
+      (normalizeJobNumber(updates.jobNumber ?? existing.jobNumber) !== normalizeJobNumber(existing.jobNumber) ||
+        (updates.type ?? existing.type) !== existing.type ||
+        (updates.jobStatus ?? existing.jobStatus) !== existing.jobStatus)
+    ) {
+      const jobId = await resolveJobId(ctx.organizationId, ctx.userId, { ...existing, ...updates });
+      if (jobId !== existing.jobId) updates.jobId = jobId;
+    }
+
+    // Moving one occurrence of a repeating booking to another day takes it out of the series
+    const leftSeries =
+      existing?.seriesId && updates.date && toDayKey(updates.date) !== toDayKey(existing.date)
+        ? { seriesId: existing.seriesId, day: toDayKey(existing.date) }
+        : null;
+    if (leftSeries) updates.seriesId = null;
+
+    const item = await storage.updateScheduleItem(id, updates, expectedVersion);
     if (!item) {
+      // Changed by someone else between the check above and the update
+      const current = expectedVersion !== undefined ? await storage.getScheduleItem(id) : undefined;
+      if (current && current.organizationId === ctx.organizationId) {
+        return versionConflictResponse(current, "schedule item");
+      }
       return NextResponse.json(
         { error: "Schedule item not found" },
         { status: 404 }
       );
     }
 
+    if (leftSeries) {
+      await storage.addScheduleSeriesException(leftSeries.seriesId, leftSeries.day);
+    }
+
     return NextResponse.json(item);
   } catch (err: any) {
     console.error('Error updating schedule item:', err);
@@ -51,6 +163,8 @@ export async function DELETE(
 ) {
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     requireAdminOrOperations(ctx);
 
     const { id } = await params;
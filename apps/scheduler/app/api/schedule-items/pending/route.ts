@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { listPendingApprovals } from "@/lib/approvals";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/schedule-items/pending - Bookings waiting for approval, with the rule each matched
+export async function GET() {
+  try {
+    const ctx = await getRequestContext();
+    return NextResponse.json(await listPendingApprovals(ctx));
+  } catch (err) {
+    return errorResponse(err, "Failed to load pending bookings");
+  }
+}
@@ -1,7 +1,17 @@
 import { NextResponse } from "next/server";
 import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
 import { canCreateBookings, canApproveBookings } from "@/lib/rbac";
 import { storage } from "@/lib/storage";
+import {
+  checkItemConflicts,
+  getConflictOverrideReason,
+  hasBlockingConflicts,
+  NEW_ITEM_ID,
+} from "@/lib/conflicts";
+import { resolveJobId } from "@/lib/jobs";
+import { checkDirectoryLinks } from "@/lib/customers";
+import { applyApprovalPolicy, notifyApprovers } from "@/lib/approvals";
 
 export const runtime = "nodejs";
 
@@ -35,6 +45,8 @@ export async function POST(req: Request) {
   
   try {
     const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
     
     // Check if user can create bookings
     if (!canCreateBookings(ctx)) {
@@ -46,29 +58,6 @@ export async function POST(req: Request) {
 
     body = await req.json();
 
-    // Determine status based on role and plan
-    // - Admin and operations: auto-approved
-    // - User on Starter plan: auto-approved
-    // - User on Pro plan: pending (requires approval)
-    // If status is explicitly provided (e.g., 'pending' from provisional bookings), use it
-    let status = body.status;
-    if (!status || (typeof status === 'string' && status.trim() === '')) {
-      if (canApproveBookings(ctx)) {
-        status = "approved"; // Admin/operations auto-approve
-      } else {
-        // User role - check plan
-        // For now, auto-approve on starter plan, pending on pro
-        // This can be enhanced later with plan checking
-        status = ctx.plan === "starter" ? "approved" : "pending";
-      }
-    }
-    
-    // Validate status value
-    if (status && !['approved', 'pending', 'rejected'].includes(status)) {
-      console.warn(`[POST /api/schedule-items] Invalid status value: ${status}, defaulting to 'approved'`);
-      status = "approved";
-    }
-
     // Ensure date is a string (ISO format) before passing to storage
     let dateValue: string;
     
@@ -129,7 +118,6 @@ export async function POST(req: Request) {
       organizationId: ctx.organizationId,
       userId: ctx.userId,
       requestedBy: ctx.userId,
-      status,
       jobStatus: body.jobStatus || 'booked', // Default to 'booked' if not provided
     };
 
@@ -145,6 +133,41 @@ export async function POST(req: Request) {
     if (body.employeeId) itemData.employeeId = body.employeeId;
     if (body.vehicleId) itemData.vehicleId = body.vehicleId;
     if (body.noteContent) itemData.noteContent = body.noteContent;
+    if (body.customerId) itemData.customerId = body.customerId;
+    if (body.siteId) itemData.siteId = body.siteId;
+
+    const invalidLink = await checkDirectoryLinks(ctx.organizationId, itemData);
+    if (invalidLink) {
+      return NextResponse.json({ error: invalidLink }, { status: 400 });
+    }
+
+    // Days booked with a job number are allocations of that job
+    itemData.jobId = await resolveJobId(ctx.organizationId, ctx.userId, itemData);
+
+    // Reject double bookings / absent employees / unavailable vehicles unless overridden with a reason
+    const conflicts = await checkItemConflicts(ctx.organizationId, { ...itemData, id: NEW_ITEM_ID });
+    if (hasBlockingConflicts(conflicts)) {
+      const overrideReason = getConflictOverrideReason(body);
+      if (!overrideReason || !canApproveBookings(ctx)) {
+        return NextResponse.json(
+          {
+            error: "This booking conflicts with the existing schedule",
+            conflicts,
+            canOverride: canApproveBookings(ctx),
+          },
+          { status: 409 }
+        );
+      }
+      itemData.conflictOverrideReason = overrideReason;
+      itemData.conflictOverriddenBy = ctx.userId;
+      itemData.conflictOverriddenAt = new Date();
+    }
+
+    // The organization's approval rules decide whether it waits for approval (lib/approvalPolicy.ts).
+    // A status sent by the client can only ask for "pending" (provisional bookings).
+    const [{ status, approval }] = await applyApprovalPolicy(ctx, [{ ...itemData, status: body.status }]);
+    itemData.status = status;
+    itemData.approval = approval;
 
     console.log('[POST /api/schedule-items] Creating item with data:', {
       type: itemData.type,
@@ -161,6 +184,9 @@ export async function POST(req: Request) {
       console.log('[POST /api/schedule-items] Calling storage.createScheduleItem...');
       const item = await storage.createScheduleItem(itemData);
       console.log('[POST /api/schedule-items] Item created successfully:', item.id);
+      if (ctx.entitlements.features.approvalWorkflow) {
+        await notifyApprovers(ctx.organizationId, [item]);
+      }
       console.log('[POST /api/schedule-items] Item date type:', typeof item.date, item.date instanceof Date ? 'Date' : 'not Date');
       
       // Safely convert response - ensure all Date objects are converted to strings
@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { checkItemsConflicts, getConflictOverrideReason, hasBlockingConflicts } from "@/lib/conflicts";
+import { versionConflictResponse } from "@/lib/concurrency";
+import { toDayKey } from "@/lib/scheduleDates";
+import {
+  blockingItemIds,
+  deleteSeriesSchema,
+  planSeriesEdit,
+  updateSeriesSchema,
+} from "@/lib/scheduleSeries";
+import { resolveJobId } from "@/lib/jobs";
+import { checkDirectoryLinks } from "@/lib/customers";
+import { applyApprovalPolicy, notifyApprovers } from "@/lib/approvals";
+import type { ScheduleItem, ScheduleSeries } from "@shared/schema";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// Changing any of these can create a clash, so the occurrences are re-checked
+const SCHEDULING_FIELDS = ["crewId", "depotId", "employeeId", "vehicleId", "jobStatus"] as const;
+
+/**
+ * The first day an edit applies to: the chosen occurrence for "following", and for "all"
+ * today or the start of the series (earlier occurrences have already happened).
+ */
+function editStart(series: ScheduleSeries, occurrences: ScheduleItem[], scope: "following" | "all", fromItemId?: string) {
+  if (scope === "following") {
+    const item = occurrences.find((i) => i.id === fromItemId);
+    return item ? toDayKey(item.date) : null;
+  }
+  const today = toDayKey(new Date());
+  const start = toDayKey(series.startDate);
+  return start > today ? start : today;
+}
+
+// GET /api/schedule-series/[id] - A repeating booking and its occurrences
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const { id } = await params;
+    const series = await storage.getScheduleSeries(id);
+    if (!series || series.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Repeating booking not found" }, { status: 404 });
+    }
+    const occurrences = await storage.getScheduleItemsBySeries(id);
+    return NextResponse.json({ ...series, occurrences });
+  } catch (err) {
+    return errorResponse(err, "Failed to load repeating booking");
+  }
+}
+
+// PATCH /api/schedule-series/[id] - Edit "this and following" or "entire series"
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const body = await request.json();
+    const input = updateSeriesSchema.parse(body);
+    const series = await storage.getScheduleSeries(id);
+    if (!series || series.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Repeating booking not found" }, { status: 404 });
+    }
+    if (input.version !== undefined && input.version !== series.version) {
+      return versionConflictResponse(series, "repeating booking");
+    }
+    const invalidLink = await checkDirectoryLinks(ctx.organizationId, input.changes);
+    if (invalidLink) {
+      return NextResponse.json({ error: invalidLink }, { status: 400 });
+    }
+
+    const occurrences = await storage.getScheduleItemsBySeries(id);
+    const from = editStart(series, occurrences, input.scope, input.fromItemId);
+    if (!from) {
+      return NextResponse.json({ error: "Occurrence not found in this repeating booking" }, { status: 404 });
+    }
+
+    // A new job number moves the edited occurrences to that number's job
+    const anchor = occurrences.find((item) => item.id === input.fromItemId) ?? occurrences[occurrences.length - 1];
+    const changes =
+      anchor && ("jobNumber" in input.changes || "jobStatus" in input.changes)
+        ? { ...input.changes, jobId: await resolveJobId(ctx.organizationId, ctx.userId, { ...anchor, ...input.changes }) }
+        : input.changes;
+
+    const plan = planSeriesEdit({
+      series,
+      scope: input.scope,
+      occurrences,
+      from,
+      changes,
+      rule: input.rule,
+    });
+    if ("error" in plan) {
+      return NextResponse.json({ error: plan.error }, { status: 400 });
+    }
+
+    // New occurrences are always checked; existing ones only when the edit can move them into a clash
+    const schedulingChanged = SCHEDULING_FIELDS.some((field) => field in input.changes);
+    const candidates = plan.candidates.filter((c) => schedulingChanged || c.id.startsWith("new-"));
+    const conflicts = await checkItemsConflicts(
+      ctx.organizationId,
+      candidates.map((c) => ({ ...c, conflictOverrideReason: null }))
+    );
+    if (hasBlockingConflicts(conflicts)) {
+      const overrideReason = getConflictOverrideReason(body);
+      if (!overrideReason) {
+        return NextResponse.json(
+          { error: "This change conflicts with the existing schedule", conflicts, canOverride: true },
+          { status: 409 }
+        );
+      }
+      const override = {
+        conflictOverrideReason: overrideReason,
+        conflictOverriddenBy: ctx.userId,
+        conflictOverriddenAt: new Date(),
+      };
+      const overridden = blockingItemIds(conflicts);
+      plan.changes.update = plan.changes.update.map((u) => (overridden.has(u.id) ? { ...u, data: { ...u.data, ...override } } : u));
+      plan.changes.create = plan.changes.create.map((c, index) => (overridden.has(`new-${index}`) ? { ...c, ...override } : c));
+    }
+
+    // Occurrences the rule adds are new bookings by this user: the approval rules apply to them
+    // afresh rather than copying the approval of the occurrence they're copied from (a
+    // provisional series' new days stay provisional)
+    const approvals = await applyApprovalPolicy(ctx, plan.changes.create);
+    plan.changes.create = plan.changes.create.map((occurrence, index) => ({
+      ...occurrence,
+      requestedBy: ctx.userId,
+      approvedBy: null,
+      rejectionReason: null,
+      status: approvals[index].status,
+      approval: approvals[index].approval,
+    }));
+
+    const result = await storage.applyScheduleSeriesChanges(id, { ...plan.changes, expectedVersion: series.version });
+    if (!result) {
+      // Changed by someone else since it was loaded above
+      const current = await storage.getScheduleSeries(id);
+      if (current) return versionConflictResponse(current, "repeating booking");
+      return NextResponse.json({ error: "Repeating booking not found" }, { status: 404 });
+    }
+    if (ctx.entitlements.features.approvalWorkflow) {
+      await notifyApprovers(ctx.organizationId, result.created);
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid repeating booking change", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to update repeating booking");
+  }
+}
+
+// DELETE /api/schedule-series/[id]?scope=following|all&fromItemId=&version= - Cancel occurrences
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const input = deleteSeriesSchema.parse(Object.fromEntries(new URL(request.url).searchParams));
+    const series = await storage.getScheduleSeries(id);
+    if (!series || series.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Repeating booking not found" }, { status: 404 });
+    }
+    if (input.version !== undefined && input.version !== series.version) {
+      return versionConflictResponse(series, "repeating booking");
+    }
+
+    const occurrences = await storage.getScheduleItemsBySeries(id);
+    const from = editStart(series, occurrences, input.scope, input.fromItemId);
+    if (!from) {
+      return NextResponse.json({ error: "Occurrence not found in this repeating booking" }, { status: 404 });
+    }
+
+    const plan = planSeriesEdit({ series, scope: input.scope, occurrences, from, remove: true });
+    if ("error" in plan) {
+      return NextResponse.json({ error: plan.error }, { status: 400 });
+    }
+    const result = await storage.applyScheduleSeriesChanges(id, { ...plan.changes, expectedVersion: series.version });
+    if (!result) {
+      const current = await storage.getScheduleSeries(id);
+      if (current) return versionConflictResponse(current, "repeating booking");
+      return NextResponse.json({ error: "Repeating booking not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, removedItemIds: result.removed.map((item) => item.id) });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to delete repeating booking");
+  }
+}
@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { canApproveBookings, canCreateBookings, requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { checkItemsConflicts, getConflictOverrideReason, hasBlockingConflicts } from "@/lib/conflicts";
+import { expandSeries, validateSeriesRule, weekdayOfKey } from "@/lib/recurrence";
+import { blockingItemIds, createSeriesSchema, occurrencesOf, ruleFromInput, ruleToColumns } from "@/lib/scheduleSeries";
+import { toDayKey } from "@/lib/scheduleDates";
+import { resolveJobId } from "@/lib/jobs";
+import { checkDirectoryLinks } from "@/lib/customers";
+import { applyApprovalPolicy, notifyApprovers } from "@/lib/approvals";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/schedule-series - Create a repeating booking and all of its occurrences
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    if (!canCreateBookings(ctx)) {
+      return NextResponse.json(
+        { error: "Access denied. You do not have permission to create bookings." },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const input = createSeriesSchema.parse(body);
+    const rule = ruleFromInput(input.rule);
+    const invalid =
+      validateSeriesRule(rule) ??
+      (rule.weekdays.includes(weekdayOfKey(rule.start)) ? null : "The first occurrence must fall on one of the chosen weekdays");
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const crew = await storage.getCrew(input.item.crewId);
+    if (!crew || crew.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Crew not found" }, { status: 404 });
+    }
+    const invalidLink = await checkDirectoryLinks(ctx.organizationId, input.item);
+    if (invalidLink) {
+      return NextResponse.json({ error: invalidLink }, { status: 400 });
+    }
+
+    // An existing booking can become the first occurrence instead of being copied
+    const adopted = input.fromItemId ? await storage.getScheduleItem(input.fromItemId) : undefined;
+    if (input.fromItemId) {
+      requireAdminOrOperations(ctx);
+      if (!adopted || adopted.organizationId !== ctx.organizationId) {
+        return NextResponse.json({ error: "Schedule item not found" }, { status: 404 });
+      }
+      if (adopted.seriesId) {
+        return NextResponse.json({ error: "This booking already repeats" }, { status: 400 });
+      }
+      if (!expandSeries(rule).includes(toDayKey(adopted.date))) {
+        return NextResponse.json({ error: "The booking's own day must be one of the series' days" }, { status: 400 });
+      }
+    }
+
+    const { status: requestedStatus, ...fields } = input.item;
+    const jobStatus = fields.jobStatus ?? "booked";
+    const jobId = await resolveJobId(ctx.organizationId, ctx.userId, { ...fields, jobStatus });
+    const occurrences = occurrencesOf(
+      rule,
+      {
+        ...fields,
+        jobStatus,
+        jobId,
+        organizationId: ctx.organizationId,
+        userId: ctx.userId,
+        requestedBy: ctx.userId,
+      },
+      adopted ? [toDayKey(adopted.date)] : []
+    );
+    if (occurrences.length === 0 && !adopted) {
+      return NextResponse.json({ error: "The rule doesn't produce any occurrences" }, { status: 400 });
+    }
+
+    const conflicts = await checkItemsConflicts(
+      ctx.organizationId,
+      occurrences.map((occurrence, index) => ({ ...occurrence, id: `new-${index}` }))
+    );
+    if (hasBlockingConflicts(conflicts)) {
+      const overrideReason = getConflictOverrideReason(body);
+      if (!overrideReason || !canApproveBookings(ctx)) {
+        return NextResponse.json(
+          {
+            error: "Some occurrences conflict with the existing schedule",
+            conflicts,
+            canOverride: canApproveBookings(ctx),
+          },
+          { status: 409 }
+        );
+      }
+      const overridden = blockingItemIds(conflicts);
+      occurrences.forEach((occurrence, index) => {
+        if (!overridden.has(`new-${index}`)) return;
+        occurrence.conflictOverrideReason = overrideReason;
+        occurrence.conflictOverriddenBy = ctx.userId;
+        occurrence.conflictOverriddenAt = new Date();
+      });
+    }
+
+    // Each occurrence is checked against the approval rules like a single booking (see POST /api/schedule-items)
+    const approvals = await applyApprovalPolicy(
+      ctx,
+      occurrences.map((occurrence) => ({ ...occurrence, status: requestedStatus }))
+    );
+    occurrences.forEach((occurrence, index) => {
+      occurrence.status = approvals[index].status;
+      occurrence.approval = approvals[index].approval;
+    });
+
+    const created = await storage.createScheduleSeries(
+      { ...ruleToColumns(rule), organizationId: ctx.organizationId, createdBy: ctx.userId },
+      occurrences,
+      adopted ? [adopted.id] : []
+    );
+    if (ctx.entitlements.features.approvalWorkflow) {
+      await notifyApprovers(ctx.organizationId, created.items);
+    }
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid repeating booking", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to create repeating booking");
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { acceptAutoScheduleSchema, acceptAutoSchedule } from "@/lib/autoSchedule";
+import { notifyApprovers } from "@/lib/approvals";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/schedule/auto-schedule/accept - Book the accepted assignments of a proposal
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { assignments } = acceptAutoScheduleSchema.parse(await request.json());
+    const result = await acceptAutoSchedule(ctx, assignments);
+    if (ctx.entitlements.features.approvalWorkflow) {
+      await notifyApprovers(ctx.organizationId, result.created);
+    }
+    return NextResponse.json(result, { status: result.created.length > 0 ? 201 : 200 });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to book the proposal");
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { autoScheduleRequestSchema, proposeAutoSchedule } from "@/lib/autoSchedule";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/schedule/auto-schedule - Propose crew days for the jobs waiting to be scheduled in a week
+// Nothing is booked; accept the proposal (or part of it) with POST /api/schedule/auto-schedule/accept
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+
+    const input = autoScheduleRequestSchema.parse(await request.json());
+    return NextResponse.json(await proposeAutoSchedule(ctx.organizationId, input));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to propose a schedule");
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { availabilitySearchSchema, MAX_SEARCH_DAYS, searchAvailability } from "@/lib/availability";
+import { daysBetweenKeys } from "@/lib/scheduleDates";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/schedule/availability
+// Crew days with room for a job, ranked by travel to its postcode, each with the reasons for its rank
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+
+    const search = availabilitySearchSchema.parse(await request.json());
+    const days = daysBetweenKeys(search.from, search.to);
+    if (days < 0 || days > MAX_SEARCH_DAYS) {
+      return NextResponse.json({ error: `to must be within ${MAX_SEARCH_DAYS} days after from` }, { status: 400 });
+    }
+
+    return NextResponse.json(await searchAvailability(ctx.organizationId, search));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to search availability");
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { getConflictsInRange } from "@/lib/conflicts";
+import { addDaysToKey, parseDayKeyParam, toDayKey } from "@/lib/scheduleDates";
+
+export const runtime = "nodejs";
+
+const MAX_RANGE_DAYS = 92;
+
+// GET /api/schedule/conflicts?from=yyyy-MM-dd&to=yyyy-MM-dd - Conflicts on the given days
+// (defaults to the next 7 days)
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    // All authenticated users can view the schedule, so they can see its conflicts too
+
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const from = parseDayKeyParam(fromParam) ?? toDayKey(new Date());
+    const to = parseDayKeyParam(toParam) ?? addDaysToKey(from, 6);
+
+    if ((fromParam && !parseDayKeyParam(fromParam)) || (toParam && !parseDayKeyParam(toParam))) {
+      return NextResponse.json(
+        { error: "from/to must be dates (yyyy-MM-dd)" },
+        { status: 400 }
+      );
+    }
+    if (to < from) {
+      return NextResponse.json(
+        { error: "to must not be before from" },
+        { status: 400 }
+      );
+    }
+    if (to > addDaysToKey(from, MAX_RANGE_DAYS)) {
+      return NextResponse.json(
+        { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const conflicts = await getConflictsInRange(ctx.organizationId, from, to);
+    return NextResponse.json({ from, to, conflicts });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to load conflicts";
+    return NextResponse.json(
+      { error: message },
+      { status: message.includes("Unauthorized") ? 401 : 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { getDailyEmailSummaries, sendDailyScheduleEmails } from "@/lib/dailySchedule";
+import { addDaysToKey, parseDayKeyParam, toDayKey } from "@/lib/scheduleDates";
+
+export const runtime = "nodejs";
+
+const MAX_RANGE_DAYS = 92;
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+const sendSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "date must be yyyy-MM-dd"),
+  // Everyone booked that day when omitted
+  employeeIds: z.array(z.string().min(1)).max(500).optional(),
+});
+
+// GET /api/schedule/daily-emails?from=yyyy-MM-dd&to=yyyy-MM-dd - Which days' schedules have been emailed
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+
+    const { searchParams } = new URL(request.url);
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const from = parseDayKeyParam(fromParam) ?? toDayKey(new Date());
+    const to = parseDayKeyParam(toParam) ?? addDaysToKey(from, 6);
+
+    if ((fromParam && !parseDayKeyParam(fromParam)) || (toParam && !parseDayKeyParam(toParam))) {
+      return NextResponse.json({ error: "from/to must be dates (yyyy-MM-dd)" }, { status: 400 });
+    }
+    if (to < from || to > addDaysToKey(from, MAX_RANGE_DAYS)) {
+      return NextResponse.json({ error: `to must be within ${MAX_RANGE_DAYS} days after from` }, { status: 400 });
+    }
+
+    const days = await getDailyEmailSummaries(ctx.organizationId, from, to);
+    return NextResponse.json({ from, to, days });
+  } catch (err) {
+    return errorResponse(err, "Failed to load schedule emails");
+  }
+}
+
+// POST /api/schedule/daily-emails - Email each operative booked on a day their schedule
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { date, employeeIds } = sendSchema.parse(await request.json());
+    const result = await sendDailyScheduleEmails(ctx.organizationId, ctx.userId, date, employeeIds);
+    return NextResponse.json({ date, ...result });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to send schedule emails");
+  }
+}
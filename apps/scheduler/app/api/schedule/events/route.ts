@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { scheduleEventStream } from "@/lib/realtime";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/schedule/events - Server-sent events for changes to the organization's schedule
+// items and resources (see lib/realtime.ts). Resumes after the Last-Event-ID header, or
+// ?lastEventId= when the client opens a new connection itself.
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+
+    const { searchParams } = new URL(request.url);
+    const lastEventId = request.headers.get("last-event-id") || searchParams.get("lastEventId");
+    const stream = scheduleEventStream(ctx.organizationId, lastEventId, request.signal, ctx.role === "admin");
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // Stop proxies (nginx) buffering the stream
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (err) {
+    return errorResponse(err, "Failed to open schedule events");
+  }
+}
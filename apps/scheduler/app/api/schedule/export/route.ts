@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { buildScheduleExport, scheduleExportQuerySchema } from "@/lib/scheduleExport";
+import { daysBetweenKeys } from "@/lib/scheduleDates";
+
+export const runtime = "nodejs";
+
+const MAX_RANGE_DAYS = 366;
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/schedule/export?from=yyyy-MM-dd&to=yyyy-MM-dd&depotId=..&format=csv|xlsx&includeFree=false
+// The schedule as a spreadsheet, one row per allocation (depotId may repeat; all depots when omitted)
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+
+    const { searchParams } = new URL(request.url);
+    const query = scheduleExportQuerySchema.parse({
+      from: searchParams.get("from") ?? undefined,
+      to: searchParams.get("to") ?? undefined,
+      depotIds: searchParams.getAll("depotId"),
+      format: searchParams.get("format") ?? undefined,
+      includeFree: searchParams.get("includeFree") !== "false",
+    });
+    const days = daysBetweenKeys(query.from, query.to);
+    if (days < 0 || days > MAX_RANGE_DAYS) {
+      return NextResponse.json({ error: `to must be within ${MAX_RANGE_DAYS} days after from` }, { status: 400 });
+    }
+
+    const { fileName, contentType, body } = await buildScheduleExport(ctx.organizationId, query);
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to export schedule");
+  }
+}
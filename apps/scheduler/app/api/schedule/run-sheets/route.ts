@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { buildRunSheetsPdf, runSheetQuerySchema } from "@/lib/runSheets";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/schedule/run-sheets?depotId=..&date=yyyy-MM-dd&period=day|week - Printable run sheets (PDF)
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+
+    const { searchParams } = new URL(request.url);
+    const query = runSheetQuerySchema.parse({
+      depotId: searchParams.get("depotId") ?? undefined,
+      date: searchParams.get("date") ?? undefined,
+      period: searchParams.get("period") ?? undefined,
+    });
+
+    const pdf = await buildRunSheetsPdf(ctx.organizationId, query);
+    if (!pdf) {
+      return NextResponse.json({ error: "Depot not found" }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(pdf.body), {
+      headers: {
+        "Content-Type": "application/pdf",
+        // Inline, so it opens in the browser's viewer ready to print
+        "Content-Disposition": `inline; filename="${pdf.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid request", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to build run sheets");
+  }
+}
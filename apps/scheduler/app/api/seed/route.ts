@@ -1,14 +1,13 @@
 import { NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { storage } from "@/lib/storage";
+import { getSessionUserId } from "@/lib/session";
 import { randomUUID } from "crypto";
 
 export const runtime = "nodejs";
 
 export async function POST() {
   try {
-    const cookieStore = await cookies();
-    const userId = cookieStore.get("userId")?.value;
+    const userId = await getSessionUserId();
 
     if (!userId) {
       return NextResponse.json(
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { versionConflictResponse } from "@/lib/concurrency";
+import { checkDirectoryLinks, sitePostcode, updateSiteSchema } from "@/lib/customers";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// PATCH /api/sites/[id] - Edit a site. Bookings already made there keep the address they were given.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const { version, ...changes } = updateSiteSchema.parse(await request.json());
+    const site = await storage.getSite(id);
+    if (!site || site.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Site not found" }, { status: 404 });
+    }
+    if (version !== undefined && version !== site.version) {
+      return versionConflictResponse(site, "site");
+    }
+    if (changes.customerId) {
+      const invalid = await checkDirectoryLinks(ctx.organizationId, { customerId: changes.customerId });
+      if (invalid) return NextResponse.json({ error: invalid }, { status: 404 });
+    }
+    // A new address without a postcode gets the one in the address (or none)
+    if ("postcode" in changes || changes.address) {
+      changes.postcode = sitePostcode(changes.address ?? site.address, changes.postcode);
+    }
+
+    const updated = await storage.updateSite(id, changes, version);
+    if (!updated) {
+      const current = await storage.getSite(id);
+      if (current) return versionConflictResponse(current, "site");
+      return NextResponse.json({ error: "Site not found" }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid site", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to update site");
+  }
+}
+
+// DELETE /api/sites/[id] - Remove a site; bookings made there keep their address
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const site = await storage.getSite(id);
+    if (!site || site.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Site not found" }, { status: 404 });
+    }
+    await storage.deleteSite(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to delete site");
+  }
+}
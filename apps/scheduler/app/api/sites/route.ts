@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { canCreateBookings } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { checkDirectoryLinks, createSiteSchema, directoryQuerySchema, sitePostcode } from "@/lib/customers";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/sites?customerId=&search= - Sites, optionally for one customer
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const query = directoryQuerySchema.parse(Object.fromEntries(new URL(request.url).searchParams));
+    const sites = await storage.getSitesByOrg(ctx.organizationId, {
+      customerId: query.customerId,
+      search: query.search || undefined,
+    });
+    return NextResponse.json(sites);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid query", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to load sites");
+  }
+}
+
+// POST /api/sites - Add a site; the postcode is read from the address if not given
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    if (!canCreateBookings(ctx)) {
+      return NextResponse.json(
+        { error: "Access denied. You do not have permission to create bookings." },
+        { status: 403 }
+      );
+    }
+
+    const input = createSiteSchema.parse(await request.json());
+    const invalid = await checkDirectoryLinks(ctx.organizationId, { customerId: input.customerId });
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 404 });
+    }
+    const site = await storage.createSite({
+      ...input,
+      postcode: sitePostcode(input.address, input.postcode),
+      organizationId: ctx.organizationId,
+    });
+    return NextResponse.json(site, { status: 201 });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json({ error: "Invalid site", details: err.issues }, { status: 400 });
+    }
+    return errorResponse(err, "Failed to create site");
+  }
+}
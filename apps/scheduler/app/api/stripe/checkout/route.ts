@@ -29,8 +29,10 @@ export async function POST(req: Request) {
       );
     }
 
+    const org = await storage.getOrganization(ctx.organizationId);
+
     // Create or get Stripe customer
-    let customerId = user.stripeCustomerId;
+    let customerId = org?.stripeCustomerId || user.stripeCustomerId;
     if (!customerId) {
       if (!stripe) {
         throw new Error("Stripe client is not initialized");
@@ -38,12 +40,15 @@ export async function POST(req: Request) {
       const customer = await stripe.customers.create({
         email: user.email || `${user.username}@sewerswarm.app`,
         name: user.username,
-        metadata: { userId: user.id },
+        metadata: { userId: user.id, organizationId: ctx.organizationId },
       });
       
       await storage.updateUserStripeInfo(user.id, { stripeCustomerId: customer.id });
       customerId = customer.id;
     }
+    if (org && org.stripeCustomerId !== customerId) {
+      await storage.updateOrganization(org.id, { stripeCustomerId: customerId });
+    }
 
     // Create checkout session with trial if specified
     const baseUrl = req.headers.get("origin") || "http://localhost:3000";
@@ -54,12 +59,16 @@ export async function POST(req: Request) {
       mode: "subscription",
       success_url: `${baseUrl}/schedule?checkout=success`,
       cancel_url: `${baseUrl}/?checkout=cancelled`,
+      // Lets the webhook (lib/stripeWebhooks.ts) find the organization the subscription is for
+      client_reference_id: ctx.organizationId,
+      metadata: { organizationId: ctx.organizationId, userId: user.id },
+      subscription_data: {
+        metadata: { organizationId: ctx.organizationId },
+      },
     };
 
     if (trialDays && trialDays > 0) {
-      sessionParams.subscription_data = {
-        trial_period_days: trialDays,
-      };
+      sessionParams.subscription_data.trial_period_days = trialDays;
     }
 
     if (!stripe) {
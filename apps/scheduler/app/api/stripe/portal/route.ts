@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { getRequestContext } from "@/lib/request-context";
+import { requireAdmin } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { stripe, assertStripeConfigured } from "@/lib/stripe";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// POST /api/stripe/portal - Open a Stripe billing portal session for the organization.
+// Returns { url } to redirect to; the portal sends the user back to the schedule.
+export async function POST(req: Request) {
+  try {
+    assertStripeConfigured();
+    const ctx = await getRequestContext();
+    requireAdmin(ctx);
+
+    const org = await storage.getOrganization(ctx.organizationId);
+    if (!org) {
+      return NextResponse.json({ error: "Organization not found" }, { status: 404 });
+    }
+
+    // Organizations that subscribed before checkout linked the customer to them still
+    // have it on the user who paid
+    const customerId = org.stripeCustomerId || (await storage.getUser(ctx.userId))?.stripeCustomerId;
+    if (!customerId) {
+      return NextResponse.json(
+        { error: "This organization has no billing account yet. Choose a plan first." },
+        { status: 400 }
+      );
+    }
+
+    const baseUrl = req.headers.get("origin") || "http://localhost:3000";
+    const session = await stripe!.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: `${baseUrl}/schedule`,
+    });
+
+    return NextResponse.json({ url: session.url });
+  } catch (err) {
+    console.error("Failed to create billing portal session:", err);
+    return errorResponse(err, "Failed to open billing portal");
+  }
+}
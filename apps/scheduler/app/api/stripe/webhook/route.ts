@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { storage } from "@/lib/storage";
+import { constructStripeEvent } from "@/lib/stripe";
+import { handleStripeEvent } from "@/lib/stripeWebhooks";
+
+export const runtime = "nodejs";
+
+// An event still "processing" after this long is assumed to have crashed and is retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// POST /api/stripe/webhook - Stripe webhook endpoint.
+// Verifies the Stripe-Signature header against STRIPE_WEBHOOK_SECRET, records the event in
+// stripe_events and applies it once. Non-2xx responses make Stripe redeliver the event.
+export async function POST(request: Request) {
+  const signature = request.headers.get("stripe-signature");
+  if (!signature) {
+    return NextResponse.json({ error: "Missing Stripe-Signature header" }, { status: 400 });
+  }
+
+  let event: Stripe.Event;
+  try {
+    // The signature covers the exact bytes sent, so read the raw body rather than JSON
+    event = constructStripeEvent(await request.text(), signature);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Invalid signature";
+    console.error("Stripe webhook verification failed:", message);
+    return NextResponse.json({ error: `Webhook verification failed: ${message}` }, { status: 400 });
+  }
+
+  try {
+    const { event: stored, isNew } = await storage.claimStripeEvent({
+      id: event.id,
+      type: event.type,
+      payload: event,
+      createdAt: new Date(event.created * 1000),
+    });
+
+    if (!isNew) {
+      if (stored.status === "processed" || stored.status === "ignored") {
+        return NextResponse.json({ received: true, duplicate: true });
+      }
+      const receivedAt = stored.receivedAt?.getTime() ?? 0;
+      if (stored.status === "processing" && Date.now() - receivedAt < STALE_PROCESSING_MS) {
+        // Another delivery is being handled right now; let Stripe try again later
+        return NextResponse.json({ error: "Event is already being processed" }, { status: 409 });
+      }
+      await storage.updateStripeEvent(event.id, { status: "processing", error: null });
+    }
+
+    try {
+      const outcome = await handleStripeEvent(event);
+      await storage.updateStripeEvent(event.id, {
+        status: outcome.status,
+        organizationId: outcome.organizationId,
+        error: outcome.reason ?? null,
+        processedAt: new Date(),
+      });
+      return NextResponse.json({ received: true, status: outcome.status });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to process event";
+      console.error(`Stripe webhook ${event.type} (${event.id}) failed:`, err);
+      await storage.updateStripeEvent(event.id, { status: "failed", error: message, processedAt: new Date() });
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+  } catch (err) {
+    console.error("Stripe webhook error:", err);
+    return NextResponse.json({ error: "Failed to record webhook event" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { storage } from "@/lib/storage";
+import { startSession } from "@/lib/session";
+
+export const runtime = "nodejs";
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6),
+});
+
+// POST /api/user/password - Change password and sign out every other session
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const { currentPassword, newPassword } = changePasswordSchema.parse(await request.json());
+
+    const user = await storage.getUser(ctx.userId);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const isValid = await bcrypt.compare(currentPassword, user.password);
+    if (!isValid) {
+      return NextResponse.json({ error: "Current password is incorrect" }, { status: 400 });
+    }
+
+    await storage.updateUserPassword(user.id, await bcrypt.hash(newPassword, 10));
+
+    // Revoke every session (including stolen ones), then keep this browser signed in
+    await storage.revokeUserSessions(user.id);
+    await startSession(user.id, request.headers.get("user-agent"));
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "New password must be at least 6 characters" },
+        { status: 400 }
+      );
+    }
+    const message = err instanceof Error ? err.message : "Failed to change password";
+    const status = message.includes("Unauthorized") ? 401 : 500;
+    return NextResponse.json({ error: message }, { status });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { updateVehicleUnavailabilitySchema } from "@/lib/vehicleUnavailability";
+import { validatePeriodDates } from "@/lib/recurrence";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// PATCH /api/vehicle-unavailability/[id] - Change a period's reason, dates, recurrence or notes
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const existing = await storage.getVehicleUnavailability(id);
+    if (!existing || existing.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Vehicle unavailability not found" }, { status: 404 });
+    }
+
+    const updates = updateVehicleUnavailabilitySchema.parse(await request.json());
+    const merged = { ...existing, ...updates };
+    if (merged.recurrence === "none") updates.recurrenceUntil = merged.recurrenceUntil = null;
+
+    const invalid = validatePeriodDates(merged);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const updated = await storage.updateVehicleUnavailability(id, updates);
+    return NextResponse.json(updated);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid vehicle unavailability", details: err.issues },
+        { status: 400 }
+      );
+    }
+    return errorResponse(err, "Failed to update vehicle unavailability");
+  }
+}
+
+// DELETE /api/vehicle-unavailability/[id] - Remove a period (the vehicle is available again on those days)
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const { id } = await params;
+    const existing = await storage.getVehicleUnavailability(id);
+    if (!existing || existing.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Vehicle unavailability not found" }, { status: 404 });
+    }
+
+    await storage.deleteVehicleUnavailability(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return errorResponse(err, "Failed to delete vehicle unavailability");
+  }
+}
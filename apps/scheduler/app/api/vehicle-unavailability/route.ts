@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getRequestContext } from "@/lib/request-context";
+import { checkWriteAccess } from "@/lib/entitlementGuard";
+import { requireAdminOrOperations } from "@/lib/rbac";
+import { storage } from "@/lib/storage";
+import { createVehicleUnavailabilitySchema } from "@/lib/vehicleUnavailability";
+import { validatePeriodDates } from "@/lib/recurrence";
+
+export const runtime = "nodejs";
+
+function errorResponse(err: unknown, fallback: string) {
+  const message = err instanceof Error ? err.message : fallback;
+  let status = 500;
+  if (message.includes("Unauthorized")) status = 401;
+  else if (message.includes("Access denied")) status = 403;
+  return NextResponse.json({ error: message || fallback }, { status });
+}
+
+// GET /api/vehicle-unavailability?vehicleId= - Off road / maintenance periods for the organization
+export async function GET(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    // Everyone who can see the calendar needs these to show which vehicles are out
+
+    const vehicleId = new URL(request.url).searchParams.get("vehicleId");
+    const periods = await storage.getVehicleUnavailabilityByOrg(ctx.organizationId);
+    return NextResponse.json(vehicleId ? periods.filter((p) => p.vehicleId === vehicleId) : periods);
+  } catch (err) {
+    return errorResponse(err, "Failed to load vehicle unavailability");
+  }
+}
+
+// POST /api/vehicle-unavailability - Book a vehicle off road / in for maintenance
+export async function POST(request: Request) {
+  try {
+    const ctx = await getRequestContext();
+    const denied = checkWriteAccess(ctx);
+    if (denied) return denied;
+    requireAdminOrOperations(ctx);
+
+    const input = createVehicleUnavailabilitySchema.parse(await request.json());
+    const vehicle = await storage.getVehicle(input.vehicleId);
+    if (!vehicle || vehicle.organizationId !== ctx.organizationId) {
+      return NextResponse.json({ error: "Vehicle not found" }, { status: 404 });
+    }
+
+    const period = {
+      ...input,
+      endDate: input.endDate ?? input.startDate,
+      recurrenceUntil: input.recurrence === "none" ? null : input.recurrenceUntil ?? null,
+      notes: input.notes ?? null,
+    };
+    const invalid = validatePeriodDates(period);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const created = await storage.createVehicleUnavailability({
+      ...period,
+      organizationId: ctx.organizationId,
+      createdBy: ctx.userId,
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid vehicle unavailability", details: err.issues },
+        { status: 400 }
+      );
+    }
+    return errorResponse(err, "Failed to save vehicle unavailability");
+  }
+}
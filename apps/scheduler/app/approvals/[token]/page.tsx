@@ -0,0 +1,244 @@
+"use client";
+
+import { useState, useEffect, Suspense } from "react";
+import Link from "next/link";
+import { useParams, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Check, X, CheckCircle2, XCircle } from "lucide-react";
+import type { ApprovalLinkDetails } from "@/lib/approvals";
+
+type Action = "approve" | "reject";
+
+function Shell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-white font-sans text-slate-900">
+      <header className="flex items-center justify-between px-6 py-4 max-w-7xl mx-auto">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center shadow-sm shrink-0">
+            <span className="text-white font-bold text-lg">≈</span>
+          </div>
+          <span className="text-xl font-bold text-blue-900 tracking-tight">Sewer Swarm AI</span>
+        </div>
+      </header>
+      <div className="flex items-center justify-center px-6 py-12 min-h-[calc(100vh-80px)]">{children}</div>
+    </div>
+  );
+}
+
+function ApprovalContent() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const token = params?.token as string;
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [details, setDetails] = useState<ApprovalLinkDetails | null>(null);
+  const [action, setAction] = useState<Action>(searchParams.get("action") === "reject" ? "reject" : "approve");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [decided, setDecided] = useState<Action | null>(null);
+
+  useEffect(() => {
+    const fetchDetails = async () => {
+      try {
+        const response = await fetch(`/api/approvals/${token}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "This approval link can't be used");
+        setDetails(data);
+      } catch (err) {
+        setError((err as Error).message || "Failed to load the booking");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDetails();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (action === "reject" && !reason.trim()) return;
+
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const response = await fetch(`/api/approvals/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "approve" ? { action } : { action, reason: reason.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to record your decision");
+      setDecided(action);
+    } catch (err) {
+      setSubmitError((err as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-white font-sans text-slate-900 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-slate-700 font-medium">Loading booking...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !details) {
+    return (
+      <Shell>
+        <Card className="w-full max-w-md shadow-xl border-slate-100">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bold text-red-600">Link can&apos;t be used</CardTitle>
+            <CardDescription className="text-slate-700">{error}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild className="w-full bg-blue-600 hover:bg-blue-700 h-11 text-base">
+              <Link href="/schedule">Open the schedule</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </Shell>
+    );
+  }
+
+  const { booking, approval } = details;
+
+  const isLastStep = approval.currentStep + 1 >= approval.steps.length;
+
+  if (decided) {
+    return (
+      <Shell>
+        <Card className="w-full max-w-md shadow-xl border-slate-100">
+          <CardHeader className="text-center space-y-1">
+            {decided === "approve" ? (
+              <CheckCircle2 className="h-16 w-16 text-green-600 mx-auto mb-4" />
+            ) : (
+              <XCircle className="h-16 w-16 text-red-600 mx-auto mb-4" />
+            )}
+            <CardTitle className="text-2xl font-bold text-slate-900">
+              {decided === "reject" ? "Booking rejected" : isLastStep ? "Booking approved" : "Step approved"}
+            </CardTitle>
+            <CardDescription className="text-slate-700">
+              {booking.title} on {booking.dayLabel}.{" "}
+              {decided === "approve" && !isLastStep
+                ? "It now goes to the next approver."
+                : <>We&apos;ve let {details.requesterName} know.</>}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </Shell>
+    );
+  }
+
+  const rows: Array<[string, string | null]> = [
+    ["Date", booking.dayLabel],
+    ["Crew", booking.crewName],
+    ["Depot", booking.depotName],
+    ["Address", booking.address],
+    ["Start", booking.startTime],
+    ["Requested by", details.requesterName],
+    ["Rule", `${approval.ruleName} · ${approval.reason}`],
+    ["Step", approval.steps.length > 1 ? `${approval.currentStep + 1} of ${approval.steps.length}: ${approval.waitingFor}` : null],
+  ];
+
+  return (
+    <Shell>
+      <Card className="w-full max-w-md shadow-xl border-slate-100">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-slate-900">{booking.title}</CardTitle>
+          <CardDescription className="text-slate-700">
+            Hi {details.approverName}, this booking for {details.organizationName} is waiting for approval.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <dl className="p-4 bg-blue-50 rounded-lg border border-blue-100 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              {rows
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-slate-600">{label}</dt>
+                    <dd className="font-medium text-slate-900">{value}</dd>
+                  </div>
+                ))}
+            </dl>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={action === "approve" ? "default" : "outline"}
+                className={action === "approve" ? "bg-green-600 hover:bg-green-700" : ""}
+                onClick={() => setAction("approve")}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                type="button"
+                variant={action === "reject" ? "destructive" : "outline"}
+                onClick={() => setAction("reject")}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+            </div>
+
+            {action === "reject" && (
+              <div className="space-y-2">
+                <Label htmlFor="reason" className="text-slate-900 font-medium">Reason for rejection</Label>
+                <Textarea
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g., Crew not available on this date"
+                  maxLength={500}
+                  required
+                  className="border-slate-200 text-slate-900 bg-white"
+                />
+                <p className="text-xs text-slate-500">{details.requesterName} will see this.</p>
+              </div>
+            )}
+
+            {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+            <Button
+              type="submit"
+              className={`w-full h-11 text-base font-semibold ${
+                action === "approve" ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"
+              }`}
+              disabled={submitting || (action === "reject" && !reason.trim())}
+            >
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {action === "reject"
+                ? "Reject booking"
+                : isLastStep
+                  ? "Approve booking"
+                  : "Approve step"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </Shell>
+  );
+}
+
+export default function ApprovalPage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen bg-white font-sans text-slate-900 flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+      </div>
+    }>
+      <ApprovalContent />
+    </Suspense>
+  );
+}
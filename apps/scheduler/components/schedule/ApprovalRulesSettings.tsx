@@ -0,0 +1,393 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+import { useMembers } from "@/hooks/useOrganization";
+import {
+  APPROVAL_STEP_LABELS,
+  approvalConditionSchema,
+  describeApprovalCondition,
+  type ApprovalCondition,
+  type ApprovalConditionType,
+  type ApprovalRule,
+  type ApprovalStep,
+} from "@/lib/approvalPolicy";
+import type { Depot } from "@/lib/api";
+
+const CONDITION_LABELS: Record<ApprovalConditionType, string> = {
+  any: "Every booking",
+  night_shift: "Night shifts",
+  duration_over: "Longer than a number of hours",
+  depots: "At specific depots",
+  customers: "For specific customers",
+  short_notice: "Booked at short notice",
+  conflict_override: "Overriding a conflict",
+};
+
+// Rule steps as one choice; the order is the order approvals happen in
+const STEP_OPTIONS: Record<string, ApprovalStep[]> = {
+  operations: ["operations"],
+  depot_manager: ["depot_manager"],
+  "depot_manager,operations": ["depot_manager", "operations"],
+};
+
+const NO_MANAGER = "none";
+
+const newRuleId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `rule-${Date.now().toString(36)}`;
+
+// The condition a rule starts with when its type is picked, before its value is filled in
+function startingCondition(type: ApprovalConditionType, depots: Pick<Depot, "id">[]): Partial<ApprovalCondition> {
+  switch (type) {
+    case "duration_over":
+      return { type, hours: 10 };
+    case "short_notice":
+      return { type, days: 2 };
+    case "depots":
+      return { type, depotIds: depots.length > 0 ? [depots[0].id] : [] };
+    case "customers":
+      return { type, customers: [] };
+    default:
+      return { type };
+  }
+}
+
+interface ApprovalRuleRowProps {
+  rule: ApprovalRule;
+  depots: Pick<Depot, "id" | "name">[];
+  depotNames: Record<string, string>;
+  canEdit: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onChange: (updated: ApprovalRule) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function ApprovalRuleRow({ rule, depots, depotNames, canEdit, isFirst, isLast, onChange, onMove, onRemove }: ApprovalRuleRowProps) {
+  // Edited here and saved once it's a valid condition, e.g. after a customer is added
+  const [condition, setCondition] = useState<Partial<ApprovalCondition>>(rule.condition);
+  const [customersText, setCustomersText] = useState(
+    rule.condition.type === "customers" ? rule.condition.customers.join(", ") : ""
+  );
+  const valid = approvalConditionSchema.safeParse(condition);
+
+  const updateCondition = (next: Partial<ApprovalCondition>) => {
+    setCondition(next);
+    const parsed = approvalConditionSchema.safeParse(next);
+    if (parsed.success) onChange({ ...rule, condition: parsed.data });
+  };
+
+  const stepsValue = rule.steps.join(",");
+
+  return (
+    <div className="p-4 rounded-lg border border-slate-200 bg-white space-y-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={rule.enabled}
+          disabled={!canEdit}
+          onCheckedChange={(enabled) => onChange({ ...rule, enabled })}
+          className="data-[state=checked]:bg-purple-600"
+          title={rule.enabled ? "Rule on" : "Rule off"}
+        />
+        <Input
+          defaultValue={rule.name}
+          disabled={!canEdit}
+          maxLength={100}
+          onBlur={(e) => {
+            const name = e.target.value.trim();
+            if (name && name !== rule.name) onChange({ ...rule, name });
+          }}
+          className="h-8 bg-white font-medium"
+          aria-label="Rule name"
+        />
+        <Button type="button" variant="ghost" size="sm" disabled={!canEdit || isFirst} onClick={() => onMove(-1)} title="Check earlier">
+          <ArrowUp className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" disabled={!canEdit || isLast} onClick={() => onMove(1)} title="Check later">
+          <ArrowDown className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" disabled={!canEdit} onClick={onRemove} title="Remove rule" className="text-red-600">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">When</Label>
+          <Select
+            value={condition.type}
+            disabled={!canEdit}
+            onValueChange={(type: ApprovalConditionType) => {
+              updateCondition(startingCondition(type, depots));
+              setCustomersText("");
+            }}
+          >
+            <SelectTrigger className="bg-white h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              {(Object.keys(CONDITION_LABELS) as ApprovalConditionType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {CONDITION_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">Applies to</Label>
+          <Select
+            value={rule.appliesTo}
+            disabled={!canEdit}
+            onValueChange={(appliesTo: ApprovalRule["appliesTo"]) => onChange({ ...rule, appliesTo })}
+          >
+            <SelectTrigger className="bg-white h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value="bookers">Bookers&apos; bookings</SelectItem>
+              <SelectItem value="everyone">Everyone&apos;s bookings</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-slate-600">Approved by</Label>
+          <Select
+            value={stepsValue}
+            disabled={!canEdit}
+            onValueChange={(value) => onChange({ ...rule, steps: STEP_OPTIONS[value] ?? rule.steps })}
+          >
+            <SelectTrigger className="bg-white h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              {Object.entries(STEP_OPTIONS).map(([value, steps]) => (
+                <SelectItem key={value} value={value}>
+                  {steps.map((step) => APPROVAL_STEP_LABELS[step]).join(", then ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {condition.type === "duration_over" && (
+        <div className="flex items-center gap-2 text-sm text-slate-700">
+          Longer than
+          <Input
+            type="number"
+            min={0}
+            max={24}
+            step={0.5}
+            defaultValue={condition.hours}
+            disabled={!canEdit}
+            onBlur={(e) => updateCondition({ type: "duration_over", hours: Number(e.target.value) })}
+            className="w-20 h-8 bg-white"
+          />
+          hours
+        </div>
+      )}
+
+      {condition.type === "short_notice" && (
+        <div className="flex items-center gap-2 text-sm text-slate-700">
+          Booked less than
+          <Input
+            type="number"
+            min={1}
+            max={365}
+            defaultValue={condition.days}
+            disabled={!canEdit}
+            onBlur={(e) => updateCondition({ type: "short_notice", days: Math.round(Number(e.target.value)) })}
+            className="w-20 h-8 bg-white"
+          />
+          days ahead
+        </div>
+      )}
+
+      {condition.type === "depots" && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {depots.length === 0 && <p className="text-xs text-slate-500">Add a depot first.</p>}
+          {depots.map((depot) => {
+            const depotIds = condition.depotIds ?? [];
+            return (
+              <label key={depot.id} className="flex items-center gap-2 text-sm text-slate-700">
+                <Checkbox
+                  checked={depotIds.includes(depot.id)}
+                  disabled={!canEdit}
+                  onCheckedChange={(checked) =>
+                    updateCondition({
+                      type: "depots",
+                      depotIds: checked ? [...depotIds, depot.id] : depotIds.filter((id) => id !== depot.id),
+                    })
+                  }
+                />
+                {depot.name}
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {condition.type === "customers" && (
+        <Input
+          value={customersText}
+          disabled={!canEdit}
+          placeholder="Customer names, separated by commas"
+          onChange={(e) => setCustomersText(e.target.value)}
+          onBlur={() =>
+            updateCondition({
+              type: "customers",
+              customers: customersText.split(",").map((c) => c.trim()).filter(Boolean),
+            })
+          }
+          className="h-8 bg-white"
+        />
+      )}
+
+      {valid.success ? (
+        <p className="text-xs text-slate-500">
+          {describeApprovalCondition(valid.data, depotNames)}
+          {rule.appliesTo === "bookers" ? " by Bookers" : ""} needs{" "}
+          {rule.steps.map((step) => APPROVAL_STEP_LABELS[step].toLowerCase()).join(", then ")} approval.
+        </p>
+      ) : (
+        <p className="text-xs text-amber-700">
+          {condition.type === "depots" ? "Pick at least one depot" : "Add at least one customer"}; the rule keeps its
+          previous condition until then.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface ApprovalRulesSettingsProps {
+  depots?: Pick<Depot, "id" | "name">[];
+}
+
+/**
+ * The organization's approval rules and depot managers. Rules are checked top to bottom and the
+ * first that matches a new booking decides who approves it; bookings no rule matches are approved
+ * straight away.
+ */
+export function ApprovalRulesSettings({ depots = [] }: ApprovalRulesSettingsProps) {
+  const { settings, canEdit, updateSettings } = useOrganizationSettings();
+  const { data: members = [] } = useMembers();
+  const { rules, depotManagers } = settings.approvals;
+  const depotNames = Object.fromEntries(depots.map((depot) => [depot.id, depot.name]));
+  const managerOptions = members.filter((member) => member.acceptedAt);
+
+  const saveRules = (next: ApprovalRule[]) => updateSettings({ approvals: { rules: next } });
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    saveRules(next);
+  };
+
+  const addRule = () =>
+    saveRules([
+      ...rules,
+      {
+        id: newRuleId(),
+        name: "Night shifts",
+        enabled: true,
+        condition: { type: "night_shift" },
+        appliesTo: "everyone",
+        steps: ["operations"],
+      },
+    ]);
+
+  const setDepotManager = (depotId: string, userId: string) => {
+    const next = { ...depotManagers };
+    if (userId === NO_MANAGER) {
+      delete next[depotId];
+    } else {
+      next[depotId] = userId;
+    }
+    updateSettings({ approvals: { depotManagers: next } });
+  };
+
+  const usesDepotManagers = rules.some((rule) => rule.enabled && rule.steps.includes("depot_manager"));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h5 className="text-sm font-medium text-slate-900">Approval rules</h5>
+        <p className="text-xs text-slate-600 mt-0.5">
+          Checked top to bottom; the first rule that matches a new booking decides who approves it. Bookings no rule
+          matches are approved straight away.
+        </p>
+      </div>
+
+      {rules.length === 0 && (
+        <p className="text-sm text-slate-500 p-4 rounded-lg border border-dashed border-slate-200">
+          No rules: every booking is approved straight away.
+        </p>
+      )}
+
+      {rules.map((rule, index) => (
+        <ApprovalRuleRow
+          key={rule.id}
+          rule={rule}
+          depots={depots}
+          depotNames={depotNames}
+          canEdit={canEdit}
+          isFirst={index === 0}
+          isLast={index === rules.length - 1}
+          onChange={(updated) => saveRules(rules.map((r) => (r.id === updated.id ? updated : r)))}
+          onMove={(offset) => moveRule(index, offset)}
+          onRemove={() => saveRules(rules.filter((r) => r.id !== rule.id))}
+        />
+      ))}
+
+      {canEdit && (
+        <Button type="button" variant="outline" size="sm" onClick={addRule} disabled={rules.length >= 50}>
+          <Plus className="w-4 h-4 mr-1" /> Add rule
+        </Button>
+      )}
+
+      {depots.length > 0 && (
+        <div className="space-y-2 p-4 rounded-lg border border-slate-200 bg-white">
+          <div>
+            <h5 className="text-sm font-medium text-slate-900">Depot managers</h5>
+            <p className="text-xs text-slate-600 mt-0.5">
+              Who approves the depot manager step for each depot. Operations managers approve it where none is set.
+              {!usesDepotManagers && " No rule uses this step yet."}
+            </p>
+          </div>
+          {depots.map((depot) => (
+            <div key={depot.id} className="flex items-center justify-between gap-4">
+              <span className="text-sm text-slate-700">{depot.name}</span>
+              <Select
+                value={depotManagers[depot.id] ?? NO_MANAGER}
+                disabled={!canEdit}
+                onValueChange={(userId) => setDepotManager(depot.id, userId)}
+              >
+                <SelectTrigger className="bg-white h-8 w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white">
+                  <SelectItem value={NO_MANAGER}>None (operations)</SelectItem>
+                  {managerOptions.map((member) => (
+                    <SelectItem key={member.userId} value={member.userId}>
+                      {member.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CheckCircle2, Loader2, Sparkles } from "lucide-react";
+import { useAutoSchedule, useJobs } from "@/hooks/useScheduleData";
+import type { JobInput, JobSummary } from "@/lib/api";
+import type { AutoScheduleProposal, ProposedAssignment } from "@/lib/autoSchedule";
+
+interface AutoScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // First day of the week to fill (yyyy-MM-dd)
+  weekStart: string;
+  // Vehicle types and combination labels a job can ask for
+  vehicleTypes: string[];
+}
+
+/**
+ * Proposes crew days for the jobs waiting to be scheduled, shown as the bookings it would add.
+ * The planner can accept all of them or tick the ones they want.
+ */
+export function AutoScheduleDialog({ open, onOpenChange, ...props }: AutoScheduleDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[820px] bg-white text-slate-900 max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-blue-600" />
+            Auto-schedule the week of {format(parseISO(props.weekStart), "d MMM yyyy")}
+          </DialogTitle>
+          <DialogDescription className="text-slate-600">
+            Active jobs with no days booked are placed on crews with the vehicle, shift and hours they need, keeping driving
+            to a minimum. Nothing is booked until you accept.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <AutoSchedulePanel {...props} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function AutoSchedulePanel({
+  weekStart,
+  vehicleTypes,
+  onDone,
+}: Omit<AutoScheduleDialogProps, "open" | "onOpenChange"> & { onDone: () => void }) {
+  const jobsQuery = useJobs({ status: "active" });
+  const { savePlanning, propose, accept } = useAutoSchedule();
+  const [proposal, setProposal] = useState<AutoScheduleProposal | null>(null);
+  // Job ids left unticked in the proposal
+  const [declined, setDeclined] = useState<Set<string>>(new Set());
+  const [skipped, setSkipped] = useState<Array<{ jobId: string; reason: string }>>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const waiting = useMemo(() => (jobsQuery.data ?? []).filter((job) => job.allocatedDays === 0), [jobsQuery.data]);
+  const jobName = (jobId: string) => {
+    const job = waiting.find((j) => j.id === jobId);
+    return job ? job.jobNumber || job.customer || "Job" : "Job";
+  };
+
+  const handlePropose = async () => {
+    setError(null);
+    setSkipped([]);
+    try {
+      setProposal(await propose.mutateAsync({ weekStart }));
+      setDeclined(new Set());
+    } catch (err) {
+      setError((err as Error).message || "Couldn't propose a schedule");
+    }
+  };
+
+  const handleAccept = async (assignments: ProposedAssignment[]) => {
+    setError(null);
+    try {
+      const result = await accept.mutateAsync(
+        assignments.map(({ jobId, date, crewId, startTime, onsiteTime, duration }) => ({
+          jobId,
+          date,
+          crewId,
+          startTime,
+          onsiteTime,
+          duration,
+        }))
+      );
+      if (result.skipped.length === 0) {
+        onDone();
+        return;
+      }
+      setSkipped(result.skipped);
+      setProposal(null);
+    } catch (err) {
+      setError((err as Error).message || "Couldn't book the proposal");
+    }
+  };
+
+  const toggle = (jobId: string, checked: boolean) =>
+    setDeclined((current) => {
+      const next = new Set(current);
+      if (checked) next.delete(jobId);
+      else next.add(jobId);
+      return next;
+    });
+
+  const selected = proposal?.assignments.filter((a) => !declined.has(a.jobId)) ?? [];
+  const byDay = new Map<string, ProposedAssignment[]>();
+  for (const assignment of proposal?.assignments ?? []) {
+    byDay.set(assignment.date, [...(byDay.get(assignment.date) ?? []), assignment]);
+  }
+
+  return (
+    <>
+      <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+        {!proposal && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-slate-700">Waiting jobs ({waiting.length})</h3>
+            {jobsQuery.isLoading && <p className="text-sm text-slate-500">Loading jobs…</p>}
+            {!jobsQuery.isLoading && waiting.length === 0 && (
+              <p className="text-sm text-slate-500">Every active job already has days booked.</p>
+            )}
+            {waiting.length > 0 && (
+              <div className="rounded-md border border-slate-200 divide-y divide-slate-100">
+                {waiting.map((job) => (
+                  <WaitingJobRow
+                    key={job.id}
+                    job={job}
+                    vehicleTypes={vehicleTypes}
+                    onChange={(changes) => savePlanning.mutate({ id: job.id, changes })}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {skipped.length > 0 && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800 space-y-1">
+            <p className="font-medium">The rest was booked, but these were skipped:</p>
+            {skipped.map((s) => (
+              <p key={s.jobId}>
+                {jobName(s.jobId)}: {s.reason}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {proposal && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-slate-600">
+                {proposal.assignments.length} to book, {proposal.unplaced.length} can&apos;t be placed,{" "}
+                {proposal.totalTravelMinutes} min of driving to jobs
+              </span>
+              <button type="button" className="text-xs text-blue-600 hover:underline" onClick={() => setProposal(null)}>
+                Back to jobs
+              </button>
+            </div>
+
+            {[...byDay.entries()].map(([day, assignments]) => (
+              <div key={day} className="space-y-1">
+                <h4 className="text-sm font-semibold text-slate-800">{format(parseISO(day), "EEEE d MMMM")}</h4>
+                {assignments.map((a) => (
+                  <label
+                    key={a.jobId}
+                    className="flex items-start gap-3 rounded-md border border-green-200 bg-green-50/60 px-3 py-2 cursor-pointer"
+                  >
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={!declined.has(a.jobId)}
+                      onCheckedChange={(checked) => toggle(a.jobId, checked === true)}
+                    />
+                    <div className="min-w-0 text-sm">
+                      <div className="font-medium text-green-800">
+                        + {a.jobNumber || "No job number"} {a.customer && `· ${a.customer}`}
+                      </div>
+                      <div className="text-slate-700">
+                        {a.crewName} ({a.depotName}) · leave {a.startTime}, on site {a.onsiteTime} · {a.duration}h
+                        {a.address && ` · ${a.address}`}
+                      </div>
+                      <div className="text-xs text-slate-500">{a.reasons.join(" · ")}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            ))}
+
+            {proposal.unplaced.length > 0 && (
+              <div className="space-y-1">
+                <h4 className="text-sm font-semibold text-slate-800">Not placed</h4>
+                {proposal.unplaced.map((u) => (
+                  <div key={u.jobId} className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm">
+                    <span className="font-medium text-slate-800">{u.jobNumber || u.customer || "Job"}</span>
+                    <span className="text-slate-500"> – {u.reason}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone} className="border-slate-300 text-slate-700">
+          {proposal ? "Discard" : "Close"}
+        </Button>
+        {!proposal ? (
+          <Button
+            onClick={handlePropose}
+            disabled={waiting.length === 0 || propose.isPending}
+            className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+          >
+            {propose.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            Propose
+          </Button>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => handleAccept(selected)}
+              disabled={selected.length === 0 || accept.isPending}
+              className="border-blue-300 text-blue-700"
+            >
+              Accept selected ({selected.length})
+            </Button>
+            <Button
+              onClick={() => handleAccept(proposal.assignments)}
+              disabled={proposal.assignments.length === 0 || accept.isPending}
+              className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+            >
+              {accept.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle2 className="w-4 h-4" />}
+              Accept all
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </>
+  );
+}
+
+// A waiting job with what it needs, saved as it's changed
+function WaitingJobRow({
+  job,
+  vehicleTypes,
+  onChange,
+}: {
+  job: JobSummary;
+  vehicleTypes: string[];
+  onChange: (changes: JobInput) => void;
+}) {
+  const [duration, setDuration] = useState(job.duration ? String(job.duration) : "");
+  const dayOf = (value: string | null) => (value ? value.slice(0, 10) : "");
+
+  const saveDuration = () => {
+    const hours = duration === "" ? null : Math.min(8, Math.max(1, Math.round(Number(duration)) || 8));
+    if (hours !== job.duration) onChange({ duration: hours });
+  };
+
+  return (
+    <div className="grid grid-cols-[1fr_130px_100px_70px_130px_130px] gap-2 items-center px-3 py-2 text-sm">
+      <div className="min-w-0">
+        <div className="font-medium text-slate-800 truncate">{job.jobNumber || job.customer || "Job"}</div>
+        <div className="text-xs text-slate-500 truncate">{[job.customer, job.address].filter(Boolean).join(" · ") || "No address"}</div>
+      </div>
+      <Select
+        value={job.vehicleType ?? "any"}
+        onValueChange={(value) => onChange({ vehicleType: value === "any" ? null : value })}
+      >
+        <SelectTrigger className="h-8 bg-white text-xs" title="Vehicle type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-white text-slate-900">
+          <SelectItem value="any">Any vehicle</SelectItem>
+          {vehicleTypes.map((type) => (
+            <SelectItem key={type} value={type}>
+              {type}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={job.shift ?? "any"}
+        onValueChange={(value) => onChange({ shift: value === "any" ? null : (value as "day" | "night") })}
+      >
+        <SelectTrigger className="h-8 bg-white text-xs" title="Shift">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-white text-slate-900">
+          <SelectItem value="any">Any shift</SelectItem>
+          <SelectItem value="day">Day</SelectItem>
+          <SelectItem value="night">Night</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min={1}
+        max={8}
+        placeholder="8h"
+        title="Hours"
+        className="h-8 text-xs"
+        value={duration}
+        onChange={(e) => setDuration(e.target.value)}
+        onBlur={saveDuration}
+      />
+      <Input
+        type="date"
+        title="Earliest day"
+        className="h-8 text-xs"
+        value={dayOf(job.earliestDate)}
+        onChange={(e) => onChange({ earliestDate: e.target.value || null })}
+      />
+      <Input
+        type="date"
+        title="Latest day"
+        className="h-8 text-xs"
+        value={dayOf(job.latestDate)}
+        min={dayOf(job.earliestDate) || undefined}
+        onChange={(e) => onChange({ latestDate: e.target.value || null })}
+      />
+    </div>
+  );
+}
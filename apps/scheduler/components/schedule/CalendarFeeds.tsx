@@ -0,0 +1,178 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { CalendarPlus, Copy, Loader2, RefreshCw, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCalendarFeeds } from "@/hooks/useScheduleData";
+import type { CalendarFeed, Crew, Depot, Employee } from "@/lib/api";
+import type { CalendarFeedScope } from "@shared/schema";
+
+interface CalendarFeedsSectionProps {
+  employees: Pick<Employee, "id" | "name">[];
+  crews: Pick<Crew, "id" | "name" | "depotId">[];
+  depots: Pick<Depot, "id" | "name">[];
+}
+
+/** The subscribe URL of a feed, for pasting into a calendar app. */
+export function calendarFeedUrl(feed: Pick<CalendarFeed, "token">): string {
+  return `${window.location.origin}/api/ics/${feed.token}.ics`;
+}
+
+/**
+ * ICS feed links for each employee, crew and depot. A feed is created the first time its link
+ * is asked for; rotating it replaces the link, and revoking it stops the old one working.
+ */
+export function CalendarFeedsSection({ employees, crews, depots }: CalendarFeedsSectionProps) {
+  const { toast } = useToast();
+  const { feeds, mutations } = useCalendarFeeds();
+
+  const feedFor = (scope: CalendarFeedScope, subjectId: string) =>
+    feeds.find((feed) => feed.scope === scope && feed.subjectId === subjectId);
+
+  const copyLink = (feed: CalendarFeed) => {
+    navigator.clipboard.writeText(calendarFeedUrl(feed));
+    toast({ title: "Link copied", description: "Paste it into a calendar app as a subscription" });
+  };
+
+  const handleCreate = async (scope: CalendarFeedScope, subjectId: string) => {
+    try {
+      copyLink(await mutations.create.mutateAsync({ scope, subjectId }));
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message || "Failed to create calendar feed", variant: "destructive" });
+    }
+  };
+
+  const handleRotate = async (feed: CalendarFeed, name: string) => {
+    try {
+      copyLink(await mutations.rotate.mutateAsync(feed.id));
+      toast({ title: "Link replaced", description: `The old calendar link for ${name} no longer works; the new one is copied` });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message || "Failed to rotate calendar feed", variant: "destructive" });
+    }
+  };
+
+  const handleRevoke = async (feed: CalendarFeed, name: string) => {
+    try {
+      await mutations.revoke.mutateAsync(feed.id);
+      toast({ title: "Feed revoked", description: `The calendar link for ${name} no longer works` });
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message || "Failed to revoke calendar feed", variant: "destructive" });
+    }
+  };
+
+  const depotName = (id: string) => depots.find((d) => d.id === id)?.name;
+
+  const renderRow = (scope: CalendarFeedScope, subject: { id: string; name: string }, detail?: string) => {
+    const feed = feedFor(scope, subject.id);
+    return (
+      <div
+        key={`${scope}-${subject.id}`}
+        className="flex items-center justify-between gap-3 px-3 py-2 rounded-md border border-slate-200 bg-white"
+        data-testid={`calendar-feed-${scope}-${subject.id}`}
+      >
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-slate-900">
+            {subject.name}
+            {detail && <span className="ml-2 text-xs font-normal text-slate-500">{detail}</span>}
+          </div>
+          {feed && (
+            <div className="text-xs text-slate-500 font-mono truncate" title={calendarFeedUrl(feed)}>
+              {calendarFeedUrl(feed)}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {feed ? (
+            <>
+              <Button variant="outline" size="sm" onClick={() => copyLink(feed)} className="border-slate-300 text-slate-700 bg-white">
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRotate(feed, subject.name)}
+                disabled={mutations.rotate.isPending}
+                title="Replace the link; anyone subscribed to the old one stops getting updates"
+                className="border-slate-300 text-slate-700 bg-white"
+              >
+                {mutations.rotate.isPending && mutations.rotate.variables === feed.id ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                )}
+                Rotate
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Revoke"
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50 border border-transparent"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent className="bg-white text-slate-900">
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="text-slate-900">Revoke calendar feed?</AlertDialogTitle>
+                    <AlertDialogDescription className="text-slate-700">
+                      Calendars subscribed to the feed for {subject.name} will stop receiving updates.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel className="border-slate-300 text-slate-700">Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => handleRevoke(feed, subject.name)}
+                      className="bg-red-600 text-white hover:bg-red-700"
+                    >
+                      Revoke
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleCreate(scope, subject.id)}
+              disabled={mutations.create.isPending}
+              className="border-slate-300 text-slate-700 bg-white"
+            >
+              <CalendarPlus className="h-4 w-4 mr-1" />
+              Get link
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const groups: Array<{ title: string; rows: ReactNode[] }> = [
+    { title: "Employees", rows: employees.map((employee) => renderRow("employee", employee)) },
+    { title: "Crews", rows: crews.map((crew) => renderRow("crew", crew, depotName(crew.depotId))) },
+    { title: "Depots", rows: depots.map((depot) => renderRow("depot", depot)) },
+  ];
+
+  return (
+    <div className="space-y-4" data-testid="calendar-feeds">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-900">Calendar Feeds</h3>
+        <p className="text-sm text-slate-700 mt-1">
+          Links that show the schedule in phone and desktop calendars. Anyone with a link can read that
+          calendar, so rotate or revoke links that are no longer needed.
+        </p>
+      </div>
+      {groups
+        .filter((group) => group.rows.length > 0)
+        .map((group) => (
+          <div key={group.title} className="space-y-2">
+            <div className="text-xs font-semibold uppercase tracking-wider text-slate-500">{group.title}</div>
+            {group.rows}
+          </div>
+        ))}
+    </div>
+  );
+}
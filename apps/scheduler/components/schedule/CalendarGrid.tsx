@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo, useRef } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { format, startOfWeek, addDays, isSameDay, endOfWeek, isAfter, isBefore, startOfDay, endOfMonth, addMonths, endOfYear, getDay } from "date-fns";
 import { DndContext, DragOverlay, closestCorners, KeyboardSensor, PointerSensor, useSensor, useSensors, DragStartEvent, DragEndEvent, useDroppable, Modifier } from "@dnd-kit/core";
 import { SortableContext, rectSortingStrategy, arrayMove } from "@dnd-kit/sortable";
@@ -6,8 +6,9 @@ import { SiteCard } from "./SiteCard";
 import { OperativeCard } from "./OperativeCard";
 import { NoteCard } from "./NoteCard";
 import { ItemModal } from "./ItemModal";
+import { repeatDraftToRule, type SeriesSubmitOptions } from "./SeriesControls";
 import { Button } from "@/components/ui/button";
-import { Plus, ChevronLeft, ChevronRight, Calendar as CalendarIcon, Users, MoreHorizontal, Trash2, Briefcase, UserPlus, User, Truck, Settings, Edit, Search, Lock, Mail, Check, Sun, Moon, ChevronDown, ChevronRight as ChevronRightIcon, RotateCcw, RotateCw, FileText, LogOut, Copy, X } from "lucide-react";
+import { Plus, ChevronLeft, ChevronRight, Calendar as CalendarIcon, Users, MoreHorizontal, Trash2, Briefcase, UserPlus, User, Truck, Settings, Edit, Search, Lock, Mail, Check, Sun, Moon, ChevronDown, ChevronRight as ChevronRightIcon, RotateCcw, RotateCw, FileText, LogOut, Copy, X, Download, Printer, Sparkles, ShieldCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogContent, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogCancel, AlertDialogAction } from "@/components/ui/alert-dialog";
@@ -25,10 +26,20 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 
 import { SmartSearchModal } from "./SmartSearchModal";
 import { EmailPreviewModal } from "./EmailPreviewModal";
+import { ScheduleExportDialog } from "./ScheduleExportDialog";
+import { AutoScheduleDialog } from "./AutoScheduleDialog";
+import { PendingApprovals } from "./PendingApprovals";
 import { useUISettings } from "@/hooks/useUISettings";
-import { EmployeeTimeOffDialog, EmployeeTimeOffDialogPayload } from "./EmployeeTimeOffDialog";
+import { usePendingScheduleItems } from "@/hooks/useOrganization";
+import { EmployeeTimeOffDialog, EmployeeTimeOffDialogPayload, timeOffCoversWholeDay, toAbsenceInput } from "./EmployeeTimeOffDialog";
 import { GroupingDialog } from "./GroupingDialog";
 import { VehiclePairingDialog } from "./VehiclePairingDialog";
+import { ConflictBadge } from "./ConflictBadge";
+import { useDailyEmails, useEmployeeAbsences, useScheduleConflicts, useVehicleUnavailability } from "@/hooks/useScheduleData";
+import { findVehicleUnavailability } from "@/lib/vehicleUnavailability";
+import { findAbsenceOnDay, isHalfDay } from "@/lib/absences";
+import type { ScheduleConflict } from "@/lib/conflicts";
+import { runSheetsUrl, type DailyEmailSummary, type JobInput, type ScheduleSeriesRuleInput, type ScheduleSeriesUpdate } from "@/lib/api";
 import { calculateJobEndTime, calculateNextJobStartTime, calculateTravelTime, extractPostcode } from "@/lib/travelTime";
 import { mergeAndSortVehicleTypes, normalizeVehicleTypeName, type VehicleCombinationConfig } from "@/lib/vehicleTypes";
 
@@ -70,8 +81,23 @@ export interface ScheduleItem {
 
     // Note Specifics
     noteContent?: string;
+
+    // Row version the item was loaded at, sent with edits to detect stale ones
+    version?: number;
+
+    // The repeating booking this is an occurrence of
+    seriesId?: string | null;
+
+    // The job this day is allocated to
+    jobId?: string | null;
+
+    // Customer and site picked from the directory
+    customerId?: string | null;
+    siteId?: string | null;
 }
 
+type VehicleDayStatus = 'active' | 'off_road' | 'maintenance' | 'unavailable';
+
 const isFreeJobItem = (item: ScheduleItem) =>
   item.type === "job" &&
   (item.jobStatus === "free" || item.customer === "Free");
@@ -280,20 +306,28 @@ interface CalendarGridProps {
   employeeAbsences?: Array<{
     id: string;
     employeeId: string;
-    absenceType: "holiday" | "sick";
+    absenceType: "holiday" | "sick" | "training" | "other" | "unpaid";
     startDate: string;
     endDate: string;
+    dayPart?: "full" | "am" | "pm";
+    recurrence?: "none" | "weekly" | "biweekly";
+    recurrenceUntil?: string | null;
   }>;
   colorLabels: Record<string, string>;
   isReadOnly: boolean;
   depots: { id: string; name: string; address: string }[];
-  allItems: ScheduleItem[];
   onItemUpdate: (item: ScheduleItem) => void;
   onBatchItemUpdates?: (updates: { item: ScheduleItem; previousItem: ScheduleItem }[]) => void;
   revertedPairingCellKeys?: string[];
   onClearedRevertedPairing?: () => void;
   onItemCreate: (item: ScheduleItem) => void;
   onItemDelete: (id: string) => void;
+  // Repeating bookings (ItemModal's Repeat option and series edit scopes)
+  onSeriesCreate?: (input: { rule: ScheduleSeriesRuleInput; item: ScheduleItem; fromItemId?: string }) => void;
+  onSeriesUpdate?: (seriesId: string, update: ScheduleSeriesUpdate) => void;
+  // Job-wide changes ("all items" in the grouping dialogs)
+  onJobUpdate?: (jobId: string, changes: JobInput) => void;
+  onJobMove?: (jobId: string, days: number) => void;
   onItemReorder: (activeId: string, overId: string) => void;
   onCrewCreate: (name: string, shift: 'day' | 'night') => void;
   onCrewUpdate: (id: string, name: string, shift: 'day' | 'night') => void;
@@ -353,11 +387,12 @@ function DroppableCell({ id, children, className, style, onDoubleClick, onClick,
 export function CalendarGrid({ 
     items, crews, employees, vehicles, employeeAbsences = [], colorLabels, isReadOnly,
     onItemUpdate, onBatchItemUpdates, revertedPairingCellKeys = [], onClearedRevertedPairing,
-    onItemCreate, onItemDelete, onItemReorder,
+    onItemCreate, onItemDelete, onItemReorder, onSeriesCreate, onSeriesUpdate,
+    onJobUpdate, onJobMove,
     onCrewCreate, onCrewUpdate, onCrewDelete,
     onEmployeeCreate, onEmployeeUpdate, onEmployeeDelete,
     onVehicleCreate, onVehicleUpdate, onVehicleDelete,
-    onColorLabelUpdate, depots, allItems, vehicleTypes, vehicleCombinations = [], allCrews,
+    onColorLabelUpdate, depots, vehicleTypes, vehicleCombinations = [], allCrews,
     onUndo, onRedo, canUndo, canRedo, onLogout,
     onVehicleTypeCreate, onVehicleTypeUpdate, onVehicleTypeDelete,
     metricsSelectedDate,
@@ -407,7 +442,6 @@ export function CalendarGrid({
     isFreeJobItem(item) && item.type === "job" && !!item.employeeId;
   
   // Mock Email Status State
-  const [emailStatus, setEmailStatus] = useState<Record<string, { sent: boolean, timestamp?: string }>>({});
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [emailModalDate, setEmailModalDate] = useState<Date | null>(null);
 
@@ -425,6 +459,7 @@ export function CalendarGrid({
     crewId: string;
   } | null>(null);
 
+  const { mutations: absenceMutations } = useEmployeeAbsences();
   const [employeeTimeOffModal, setEmployeeTimeOffModal] = useState<{
     open: boolean;
     employeeId: string | null;
@@ -455,6 +490,12 @@ export function CalendarGrid({
   // Removed auto-generate name useEffect - create mode is no longer used (users use + button directly)
   
   const [smartSearchOpen, setSmartSearchOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [autoScheduleOpen, setAutoScheduleOpen] = useState(false);
+  const [approvalsOpen, setApprovalsOpen] = useState(false);
+  // Bookings waiting for approval that this user decides or asked for
+  const { data: pendingApprovals = [] } = usePendingScheduleItems();
+  const approvalsToDecide = pendingApprovals.filter((item) => item.canDecide).length;
   const [expandedShifts, setExpandedShifts] = useState<{ night: boolean, day: boolean }>({ night: true, day: true });
 
   /** Cells to run pairing for after duplicate; processed in useEffect when items update. */
@@ -956,11 +997,65 @@ export function CalendarGrid({
   } | null>(null);
 
   const weekStart = useMemo(() => startOfWeek(currentDate, { weekStartsOn: 1 }), [currentDate]);
+  // Run sheets are printed for the depot on screen
+  const printDepotId = crews.find((crew) => crew.depotId)?.depotId;
   const weekDays = useMemo(
     () => Array.from({ length: viewDays }).map((_, i) => addDays(weekStart, i)),
     [weekStart, viewDays]
   );
 
+  // Server-detected conflicts for the visible days, keyed by cell id (crewId|yyyy-MM-dd)
+  const { data: scheduleConflicts } = useScheduleConflicts(
+    format(weekDays[0], "yyyy-MM-dd"),
+    format(weekDays[weekDays.length - 1], "yyyy-MM-dd")
+  );
+  // Schedule emails already sent for the visible days, keyed by yyyy-MM-dd
+  const { summaries: emailSummaries, send: sendDailyEmails } = useDailyEmails(
+    format(weekDays[0], "yyyy-MM-dd"),
+    format(weekDays[weekDays.length - 1], "yyyy-MM-dd")
+  );
+  const emailStatus = useMemo(() => {
+    const map: Record<string, DailyEmailSummary> = {};
+    for (const summary of emailSummaries) map[summary.date] = summary;
+    return map;
+  }, [emailSummaries]);
+
+  const conflictsByCell = useMemo(() => {
+    const map = new Map<string, ScheduleConflict[]>();
+    for (const conflict of scheduleConflicts || []) {
+      const cellIds = new Set(conflict.items.map((i) => `${i.crewId}|${i.date}`));
+      for (const cellId of cellIds) {
+        map.set(cellId, [...(map.get(cellId) || []), conflict]);
+      }
+    }
+    return map;
+  }, [scheduleConflicts]);
+
+  // Vehicles as they stand on a given day (yyyy-MM-dd). Booked off road / maintenance periods
+  // only apply to the days they cover; a vehicle's current status applies from today onwards.
+  const { periods: vehicleUnavailability } = useVehicleUnavailability();
+  const vehiclesOnDay = useCallback(
+    (dateStr: string) => {
+      const todayStr = format(new Date(), "yyyy-MM-dd");
+      const toLocalDay = (date: Date | string) => format(startOfDay(new Date(date)), "yyyy-MM-dd");
+      return vehicles.map((v): Omit<typeof v, "status"> & { status: VehicleDayStatus } => {
+        const period = findVehicleUnavailability(vehicleUnavailability, v.id, dateStr, toLocalDay);
+        if (period) return { ...v, status: period.reason === "other" ? "unavailable" : period.reason };
+        return dateStr < todayStr ? { ...v, status: "active" } : v;
+      });
+    },
+    [vehicles, vehicleUnavailability]
+  );
+  const vehiclesByDay = useMemo(
+    () => new Map(weekDays.map((day) => [format(day, "yyyy-MM-dd"), vehiclesOnDay(format(day, "yyyy-MM-dd"))])),
+    [weekDays, vehiclesOnDay]
+  );
+  const modalDate = modalState.data?.date ?? modalState.target?.date;
+  const modalVehicles = useMemo(
+    () => vehiclesOnDay(itemDateToCalendarDay(modalDate ?? new Date())),
+    [vehiclesOnDay, modalDate]
+  );
+
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 8 } }),
     useSensor(KeyboardSensor)
@@ -969,17 +1064,9 @@ export function CalendarGrid({
   // --- DRAG AND DROP ---
   const isEmployeeOnHoliday = (employeeId: string | undefined | null, date: Date) => {
     if (!employeeId) return false;
-    const day = startOfDay(date);
-    return (employeeAbsences || [])
-      .filter((a) => a && a.employeeId === employeeId && a.absenceType === "holiday")
-      .some((a) => {
-        const start = startOfDay(new Date(a.startDate));
-        const end = startOfDay(new Date(a.endDate));
-        return (
-          (isSameDay(day, start) || isAfter(day, start)) &&
-          (isSameDay(day, end) || isBefore(day, end))
-        );
-      });
+    const toLocalDay = (d: Date | string) => format(startOfDay(new Date(d)), "yyyy-MM-dd");
+    const holidays = (employeeAbsences || []).filter((a) => a && a.absenceType === "holiday" && !isHalfDay(a));
+    return !!findAbsenceOnDay(holidays, employeeId, toLocalDay(date), toLocalDay);
   };
 
   const handleDragStart = (event: DragStartEvent) => {
@@ -1255,9 +1342,9 @@ export function CalendarGrid({
       const dateKey = format(date, "yyyy-MM-dd");
       const status = emailStatus[dateKey];
       
-      if (status?.sent) {
+      if (status?.lastSentAt) {
           // Already sent, maybe confirm resend?
-          if (!confirm(`Emails already sent at ${status.timestamp}. Resend?`)) return;
+          if (!confirm(`Emails already sent at ${format(new Date(status.lastSentAt), "HH:mm")}. Resend?`)) return;
       }
       
       // Find operatives working on this day
@@ -1276,16 +1363,15 @@ export function CalendarGrid({
       setEmailModalOpen(true);
   };
 
-  const handleEmailSent = (date: Date, count: number) => {
-      const dateKey = format(date, "yyyy-MM-dd");
-      setEmailStatus(prev => ({
-          ...prev,
-          [dateKey]: {
-              sent: true,
-              timestamp: format(new Date(), "HH:mm")
-          }
-      }));
-      alert(`Success! Schedule sent to ${count} staff members.`);
+  const handleEmailSend = async (date: Date, employeeIds: string[]) => {
+      const result = await sendDailyEmails.mutateAsync({ date: format(date, "yyyy-MM-dd"), employeeIds });
+      const sent = result.dispatches.filter(d => d.status !== 'failed').length;
+      const failed = result.dispatches.filter(d => d.status === 'failed');
+      if (failed.length > 0) {
+          alert(`Schedule sent to ${sent} staff members. ${failed.length} failed: ${failed.map(d => `${d.recipient} (${d.error || 'unknown error'})`).join(', ')}`);
+      } else {
+          alert(`Success! Schedule sent to ${sent} staff members.`);
+      }
   };
 
   // --- HANDLERS ---
@@ -1828,7 +1914,7 @@ export function CalendarGrid({
         const seedJobs = bookedJobs.length > 0 ? bookedJobs : cellJobs;
         const idsToUpdate = new Set<string>();
         seedJobs.forEach((job) => {
-          const groupItems = findItemsWithSameJobNumber(job);
+          const groupItems = findJobAllocations(job);
           groupItems.forEach((g) => idsToUpdate.add(g.id));
         });
         if (idsToUpdate.size === 0) {
@@ -1920,7 +2006,7 @@ export function CalendarGrid({
       const seedJobs = bookedJobs.length > 0 ? bookedJobs : cellJobs;
       const idsToUpdate = new Set<string>();
       seedJobs.forEach((job) => {
-        const groupItems = findItemsWithSameJobNumber(job);
+        const groupItems = findJobAllocations(job);
         groupItems.forEach((g) => idsToUpdate.add(g.id));
       });
       if (idsToUpdate.size === 0) {
@@ -2000,7 +2086,7 @@ export function CalendarGrid({
           const seedJobs = bookedJobs.length > 0 ? bookedJobs : cellJobs;
           const idsToUpdate = new Set<string>();
           seedJobs.forEach((job) => {
-            const groupItems = findItemsWithSameJobNumber(job);
+            const groupItems = findJobAllocations(job);
             groupItems.forEach((g) => idsToUpdate.add(g.id));
           });
           if (idsToUpdate.size === 0) seedJobs.forEach((j) => idsToUpdate.add(j.id));
@@ -2242,8 +2328,6 @@ export function CalendarGrid({
     const employeeId = employeeTimeOffModal.employeeId;
     const employeeName = employeeTimeOffModal.employeeName;
     const today = startOfDay(new Date());
-    const start = startOfDay(payload.startDate);
-    const end = startOfDay(payload.endDate);
 
     const impacted = items
       .filter((item) => item.employeeId === employeeId)
@@ -2251,10 +2335,8 @@ export function CalendarGrid({
       .filter((item) => {
         const itemDate = startOfDay(new Date(item.date));
         if (isBefore(itemDate, today)) return false;
-        const inRange =
-          (isSameDay(itemDate, start) || isAfter(itemDate, start)) &&
-          (isSameDay(itemDate, end) || isBefore(itemDate, end));
-        return inRange;
+        // Half days and repeats: only whole days off take them out of the crew
+        return timeOffCoversWholeDay(payload, format(itemDate, "yyyy-MM-dd"));
       })
       .map((item) => {
         const crew = crews.find((c) => c.id === item.crewId);
@@ -2281,8 +2363,6 @@ export function CalendarGrid({
   const applyEmployeeTimeOffConfirmed = async (confirm: NonNullable<typeof employeeTimeOffConfirm>) => {
     const payload = confirm.payload;
     const employeeId = confirm.employeeId;
-    const start = startOfDay(payload.startDate);
-    const end = startOfDay(payload.endDate);
     const today = startOfDay(new Date());
 
     // Remove assignments in range (future only).
@@ -2292,10 +2372,7 @@ export function CalendarGrid({
 
       const itemDate = startOfDay(new Date(item.date));
       if (isBefore(itemDate, today)) return;
-      const inRange =
-        (isSameDay(itemDate, start) || isAfter(itemDate, start)) &&
-        (isSameDay(itemDate, end) || isBefore(itemDate, end));
-      if (!inRange) return;
+      if (!timeOffCoversWholeDay(payload, format(itemDate, "yyyy-MM-dd"))) return;
 
       // Delete linked Free jobs in that cell too.
       if (isPersonItem(item) && item.employeeId) {
@@ -2313,19 +2390,8 @@ export function CalendarGrid({
       onItemDelete(item.id);
     });
 
-    // Persist absence record for holiday/sick.
-    if (payload.absenceType === "holiday" || payload.absenceType === "sick") {
-      await fetch("/api/employee-absences", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          employeeId,
-          absenceType: payload.absenceType,
-          startDate: start.toISOString(),
-          endDate: end.toISOString(),
-        }),
-      }).catch(() => {});
-    }
+    // Persist the absence record (every type, with half days / repeats / notes).
+    await absenceMutations.create.mutateAsync(toAbsenceInput(employeeId, payload)).catch(() => {});
 
     // Sickness: mark employee unavailable until manually cleared.
     if (payload.absenceType === "sick") {
@@ -2510,8 +2576,12 @@ export function CalendarGrid({
     }
   };
 
-  // Helper function to find items with the same job number
-  const findItemsWithSameJobNumber = (item: ScheduleItem): ScheduleItem[] => {
+  // Helper function to find the days of the same job: linked by job, or by job number for
+  // items the server hasn't linked yet
+  const findJobAllocations = (item: ScheduleItem): ScheduleItem[] => {
+    if (item.type === 'job' && item.jobId) {
+      return items.filter(i => i.type === 'job' && i.jobId === item.jobId);
+    }
     if (item.type !== 'job' || !item.jobNumber) return [item];
     return items.filter(i => 
       i.type === 'job' && 
@@ -2531,9 +2601,12 @@ export function CalendarGrid({
     const oldDateStart = startOfDay(new Date(itemToMove.date));
     const dateDiff = Math.round((newDateStart.getTime() - oldDateStart.getTime()) / (1000 * 60 * 60 * 24));
     
-    if (moveGroup && itemToMove.type === 'job' && itemToMove.jobNumber) {
+    if (moveGroup && itemToMove.jobId && onJobMove) {
+      // The server moves every day of the job together
+      if (dateDiff !== 0) onJobMove(itemToMove.jobId, dateDiff);
+    } else if (moveGroup && itemToMove.type === 'job' && itemToMove.jobNumber) {
       // Move all items with the same job number
-      const groupItems = findItemsWithSameJobNumber(itemToMove);
+      const groupItems = findJobAllocations(itemToMove);
       groupItems.forEach(groupItem => {
         const groupItemDate = new Date(groupItem.date);
         const newGroupDate = addDays(groupItemDate, dateDiff);
@@ -2651,7 +2724,7 @@ export function CalendarGrid({
       if (mode === 'single' && validTargetIds.length === 1) {
         const itemToDelete = items.find(i => i.id === validTargetIds[0]);
         if (itemToDelete && itemToDelete.type === 'job' && itemToDelete.jobNumber) {
-          const groupItems = findItemsWithSameJobNumber(itemToDelete);
+          const groupItems = findJobAllocations(itemToDelete);
           if (groupItems.length > 1) {
             setGroupingDialog({
               open: true,
@@ -2787,7 +2860,11 @@ export function CalendarGrid({
     }
   };
 
-  const handleModalSubmit = (data: any, applyPeriod: 'none' | 'week' | 'month' | '6months' | '12months' | 'group' = 'none') => {
+  const handleModalSubmit = (
+    data: any,
+    applyPeriod: 'none' | 'week' | 'month' | '6months' | '12months' | 'group' = 'none',
+    series: SeriesSubmitOptions = {}
+  ) => {
     // Only treat as UPDATE if modalState.data has an id (existing item)
     // If modalState.data exists but has no id, it's a CREATE with initial defaults
     if (modalState.data && modalState.data.id) {
@@ -2817,7 +2894,7 @@ export function CalendarGrid({
           
           // If applyPeriod is 'group', update all items with the same job number
           if (applyPeriod === 'group' && updatedItem.jobNumber) {
-            const groupItems = findItemsWithSameJobNumber(updatedItem);
+            const groupItems = findJobAllocations(updatedItem);
             groupItems.forEach(groupItem => {
               onItemUpdate({ ...groupItem, ...filteredData });
             });
@@ -2848,9 +2925,36 @@ export function CalendarGrid({
         
         const updatedItem = { ...modalState.data, ...data };
 
+        // Editing "this and following" / "entire series" of a repeating booking: the server applies
+        // the changed fields to each occurrence
+        if (modalState.data.seriesId && series.scope && series.scope !== 'this' && onSeriesUpdate) {
+          const changes = Object.fromEntries(
+            Object.entries(data).filter(
+              ([key, value]) => !['id', 'date', 'version'].includes(key) && value !== modalState.data?.[key as keyof ScheduleItem]
+            )
+          );
+          onSeriesUpdate(modalState.data.seriesId, {
+            scope: series.scope,
+            fromItemId: modalState.data.id,
+            changes,
+          });
+          return;
+        }
+
+        // Making an existing booking repeat: save the edit, then it becomes the first occurrence
+        if (series.repeat && !modalState.data.seriesId && onSeriesCreate) {
+          onItemUpdate(updatedItem);
+          onSeriesCreate({
+            rule: repeatDraftToRule(series.repeat, updatedItem.date),
+            item: updatedItem,
+            fromItemId: updatedItem.id,
+          });
+          return;
+        }
+
         // Check if color changed - for ANY job (past or future), show grouping dialog if there's a group
         if (data.color && data.color !== modalState.data.color && updatedItem.type === 'job') {
-          const groupItems = findItemsWithSameJobNumber(updatedItem);
+          const groupItems = findJobAllocations(updatedItem);
           if (groupItems.length > 1) {
             // Show grouping dialog for color change
             setGroupingDialog({
@@ -2860,7 +2964,10 @@ export function CalendarGrid({
               groupCount: groupItems.length,
               groupedItems: groupItems,
               onConfirm: (applyToGroup: boolean) => {
-                if (applyToGroup) {
+                if (applyToGroup && updatedItem.jobId && onJobUpdate) {
+                  // The colour belongs to the job, which passes it on to all of its days
+                  onJobUpdate(updatedItem.jobId, { color: data.color });
+                } else if (applyToGroup) {
                   // Change color for all items with the same job number (including past items)
                   groupItems.forEach(groupItem => {
                     onItemUpdate({ ...groupItem, color: data.color });
@@ -3156,9 +3263,9 @@ export function CalendarGrid({
         const isFreeJob = modalState.type === 'job' && (data.customer === 'Free' || !data.customer || data.customer.trim() === '');
         
         // Check if this is a provisional booking from availability search
-        // Only mark as pending if: 1) it's from search (isProvisional flag), 2) approval is required in settings, 3) it's a job
+        // Only ask for pending if: 1) it's from search (isProvisional flag), 2) it's a job. The server
+        // decides whether it waits (the "Require approval for bookings" setting and the approval rules).
         const isProvisional = (modalState.data as any)?.isProvisional === true && 
-                              settings.requireApprovalForBookings && 
                               modalState.type === 'job' &&
                               !isFreeJob; // Don't mark free jobs as pending
         
@@ -3235,6 +3342,11 @@ export function CalendarGrid({
                 status: 'pending' as const
             } : {})
         };
+
+        if (series.repeat && onSeriesCreate) {
+          onSeriesCreate({ rule: repeatDraftToRule(series.repeat, createDate), item: baseItem });
+          return;
+        }
         
         onItemCreate(baseItem);
 
@@ -3649,6 +3761,67 @@ export function CalendarGrid({
         </div>
         
         <div className="flex items-center gap-2">
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button
+                        variant="outline"
+                        disabled={!printDepotId}
+                        className="bg-white text-slate-700 border-slate-300 hover:bg-slate-50 gap-2"
+                        title="Print run sheets for this depot"
+                    >
+                        <Printer className="w-4 h-4" /> Print
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="bg-white text-slate-900">
+                    {Array.from({ length: viewDays }, (_, i) => addDays(weekStart, i)).map((day) => (
+                        <DropdownMenuItem
+                            key={day.toISOString()}
+                            onClick={() => window.open(runSheetsUrl(printDepotId!, format(day, "yyyy-MM-dd"), "day"), "_blank")}
+                        >
+                            Run sheets – {format(day, "EEE d MMM")}
+                        </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                        onClick={() => window.open(runSheetsUrl(printDepotId!, format(weekStart, "yyyy-MM-dd"), "week"), "_blank")}
+                    >
+                        Whole week, with week at a glance
+                    </DropdownMenuItem>
+                </DropdownMenuContent>
+            </DropdownMenu>
+            {!isReadOnly && (
+              <Button
+                  variant="outline"
+                  onClick={() => setAutoScheduleOpen(true)}
+                  className="bg-white text-slate-700 border-slate-300 hover:bg-slate-50 gap-2"
+                  title="Propose crews and days for jobs waiting to be scheduled"
+              >
+                  <Sparkles className="w-4 h-4" /> Auto-schedule
+              </Button>
+            )}
+            {pendingApprovals.length > 0 && (
+              <Button
+                  variant="outline"
+                  onClick={() => setApprovalsOpen(true)}
+                  className="bg-white text-slate-700 border-slate-300 hover:bg-slate-50 gap-2"
+                  title="Bookings waiting for approval"
+              >
+                  <ShieldCheck className="w-4 h-4" /> Approvals
+                  {approvalsToDecide > 0 && (
+                    <span className="rounded-full bg-amber-500 text-white text-xs font-semibold px-1.5 min-w-5 text-center">
+                      {approvalsToDecide}
+                    </span>
+                  )}
+              </Button>
+            )}
+            <Button
+                variant="outline"
+                onClick={() => setExportOpen(true)}
+                className="bg-white text-slate-700 border-slate-300 hover:bg-slate-50 gap-2"
+                title="Export the schedule to CSV or Excel"
+            >
+                <Download className="w-4 h-4" /> Export
+            </Button>
             {isReadOnly && (
               <div className="flex items-center gap-2 text-slate-400 text-sm bg-slate-50 px-3 py-2 rounded-md border border-slate-200">
                 <Lock className="w-3 h-3" /> Read Only View
@@ -3690,6 +3863,7 @@ export function CalendarGrid({
                             const isMetricsSelected = !!metricsSelectedDate && isSameDay(day, metricsSelectedDate);
                             const dateKey = format(day, "yyyy-MM-dd");
                             const status = emailStatus[dateKey];
+                            const sentAt = status?.lastSentAt ? format(new Date(status.lastSentAt), "HH:mm") : null;
                             
                             return (
                                 <th
@@ -3721,10 +3895,12 @@ export function CalendarGrid({
                                         <div className="mt-2 w-full flex justify-center">
                                             <Button 
                                                 size="sm" 
-                                                variant={status?.sent ? "outline" : "destructive"}
+                                                variant={sentAt ? "outline" : "destructive"}
                                                 className={cn(
                                                     "h-6 text-[10px] px-2 flex items-center gap-1 transition-all",
-                                                    status?.sent 
+                                                    sentAt && status?.failed
+                                                        ? "bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100"
+                                                        : sentAt
                                                         ? "bg-green-50 text-green-700 border-green-200 hover:bg-green-100" 
                                                         : "bg-red-50 text-red-600 border-red-200 hover:bg-red-100 hover:text-red-700 shadow-sm opacity-70 group-hover/header:opacity-100"
                                                 )}
@@ -3732,11 +3908,17 @@ export function CalendarGrid({
                                                   e.stopPropagation();
                                                   handleSendDailyEmails(day);
                                                 }}
-                                                title={status?.sent ? `Sent at ${status.timestamp}` : "Send daily schedule emails"}
+                                                title={
+                                                  sentAt
+                                                    ? `Sent at ${sentAt}${status?.failed ? `, ${status.failed} failed` : ""}${status?.logged ? " (email service not configured)" : ""}`
+                                                    : status?.failed
+                                                      ? `${status.failed} failed to send`
+                                                      : "Send daily schedule emails"
+                                                }
                                             >
-                                                {status?.sent ? (
+                                                {sentAt ? (
                                                     <>
-                                                        <Check className="w-3 h-3" /> Sent {status.timestamp}
+                                                        <Check className="w-3 h-3" /> Sent {sentAt}
                                                     </>
                                                 ) : (
                                                     <>
@@ -4140,6 +4322,7 @@ export function CalendarGrid({
                                             disabled={isReadOnly}
                                         >
                                             <div className="h-full min-h-[120px] w-full flex flex-col gap-1 min-w-0">
+                                                <ConflictBadge conflicts={conflictsByCell.get(cellId)} />
                                                 {/* Notes appear first, above crew names */}
                                                 {noteItems.map((item) => (
                                                     <NoteCard 
@@ -4193,7 +4376,7 @@ export function CalendarGrid({
                                                                 onDelete={(id, mode) => handleDeleteItem(id, mode)}
                                                                 onDuplicate={(item, mode, days) => handleDuplicateItem(item, mode, days)}
                                                                 employees={employees}
-                                                                vehicles={vehicles}
+                                                                vehicles={vehiclesByDay.get(dateStr) ?? vehicles}
                                                                 isReadOnly={isReadOnly || isBefore(startOfDay(new Date(row.operative.date)), startOfDay(new Date()))}
                                                                 isSelected={selectedItemIds.has(row.operative.id)}
                                                                 onToggleSelection={handleToggleSelection}
@@ -4214,7 +4397,7 @@ export function CalendarGrid({
                                                                 onDelete={(id, mode) => handleDeleteItem(id, mode)}
                                                                 onDuplicate={(item, mode, days) => handleDuplicateItem(item, mode, days)}
                                                                 employees={employees}
-                                                                vehicles={vehicles}
+                                                                vehicles={vehiclesByDay.get(dateStr) ?? vehicles}
                                                                 isReadOnly={isReadOnly || isBefore(startOfDay(new Date(row.assistant.date)), startOfDay(new Date()))}
                                                                 isSelected={selectedItemIds.has(row.assistant.id)}
                                                                 onToggleSelection={handleToggleSelection}
@@ -4662,6 +4845,7 @@ export function CalendarGrid({
                                             disabled={isReadOnly}
                                         >
                                             <div className="h-full min-h-[120px] w-full flex flex-col gap-1 min-w-0">
+                                                <ConflictBadge conflicts={conflictsByCell.get(cellId)} />
                                                 {/* Notes appear first, above crew names */}
                                                 {noteItems.filter(i => i.id && typeof i.id === 'string').map((item) => (
                                                     <NoteCard 
@@ -4715,7 +4899,7 @@ export function CalendarGrid({
                                                                 onDelete={(id, mode) => handleDeleteItem(id, mode)}
                                                                 onDuplicate={(item, mode, days) => handleDuplicateItem(item, mode, days)}
                                                                 employees={employees}
-                                                                vehicles={vehicles}
+                                                                vehicles={vehiclesByDay.get(dateStr) ?? vehicles}
                                                                 isReadOnly={isReadOnly || isBefore(startOfDay(new Date(row.operative.date)), startOfDay(new Date()))}
                                                                 isSelected={selectedItemIds.has(row.operative.id)}
                                                                 onToggleSelection={handleToggleSelection}
@@ -4736,7 +4920,7 @@ export function CalendarGrid({
                                                                 onDelete={(id, mode) => handleDeleteItem(id, mode)}
                                                                 onDuplicate={(item, mode, days) => handleDuplicateItem(item, mode, days)}
                                                                 employees={employees}
-                                                                vehicles={vehicles}
+                                                                vehicles={vehiclesByDay.get(dateStr) ?? vehicles}
                                                                 isReadOnly={isReadOnly || isBefore(startOfDay(new Date(row.assistant.date)), startOfDay(new Date()))}
                                                                 isSelected={selectedItemIds.has(row.assistant.id)}
                                                                 onToggleSelection={handleToggleSelection}
@@ -5079,7 +5263,7 @@ export function CalendarGrid({
         } : undefined)}
         employees={employees}
         employeeAbsences={employeeAbsences}
-        vehicles={vehicles}
+        vehicles={modalVehicles}
         items={items} // Pass items for conflict detection
         crews={crews} // Pass crews for validating assignments
         depots={depots} // Pass depots for address calculation
@@ -5131,16 +5315,44 @@ export function CalendarGrid({
 
       {/* Resources Manager Modal */}
       {/* Smart Search Modal */}
+      <ScheduleExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        depots={depots}
+        defaultFrom={format(weekStart, "yyyy-MM-dd")}
+        defaultTo={format(addDays(weekStart, viewDays - 1), "yyyy-MM-dd")}
+        defaultDepotIds={[...new Set(crews.map((crew) => crew.depotId).filter((id): id is string => !!id))]}
+      />
+
+      <Dialog open={approvalsOpen} onOpenChange={setApprovalsOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto bg-white text-slate-900">
+          <DialogHeader className="sr-only">
+            <DialogTitle>Pending approvals</DialogTitle>
+            <DialogDescription>Bookings waiting for approval and the rule each matched</DialogDescription>
+          </DialogHeader>
+          <PendingApprovals />
+        </DialogContent>
+      </Dialog>
+
+      <AutoScheduleDialog
+        open={autoScheduleOpen}
+        onOpenChange={setAutoScheduleOpen}
+        weekStart={format(weekStart, "yyyy-MM-dd")}
+        vehicleTypes={[
+          ...mergeAndSortVehicleTypes(vehicleTypes).map((t) => t.type),
+          ...vehicleCombinations.map((c) => c.label),
+        ]}
+      />
+
       <SmartSearchModal 
         open={smartSearchOpen}
         onOpenChange={setSmartSearchOpen}
-        items={allItems}
         crews={allCrews || crews}
         depots={depots}
         vehicles={vehicles}
         vehicleTypes={vehicleTypes}
         colorLabels={colorLabels}
-        onBookSlot={(date, crewId, depotId, duration, color) => {
+        onBookSlot={(date, crewId, depotId, duration, color, details) => {
             onItemCreate({
                 id: generateUniqueId(),
                 type: 'job',
@@ -5150,9 +5362,9 @@ export function CalendarGrid({
                 duration: duration,
                 color: color,
                 customer: "New Booking",
-                address: "TBC",
-                startTime: "08:00",
-                onsiteTime: "09:00"
+                address: details?.address || "TBC",
+                startTime: details?.startTime || "08:00",
+                onsiteTime: details?.onsiteTime || "09:00"
             });
         }}
         onOpenItemModal={handleOpenItemModal}
@@ -5175,7 +5387,7 @@ export function CalendarGrid({
                 email
               )
             }
-            onSend={handleEmailSent}
+            onSend={handleEmailSend}
           />
       )}
 
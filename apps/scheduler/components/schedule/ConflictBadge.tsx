@@ -0,0 +1,52 @@
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { ScheduleConflict } from "@/lib/conflicts";
+
+interface ConflictBadgeProps {
+  conflicts?: ScheduleConflict[];
+}
+
+/** Small marker for a calendar cell that is part of one or more scheduling conflicts. */
+export function ConflictBadge({ conflicts }: ConflictBadgeProps) {
+  if (!conflicts || conflicts.length === 0) return null;
+
+  // Overridden clashes were accepted on purpose, so they don't need the red treatment
+  const hasOpenError = conflicts.some((c) => c.severity === "error" && !c.overridden);
+  const label = conflicts.length === 1 ? "1 conflict" : `${conflicts.length} conflicts`;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div
+            className={cn(
+              "flex items-center gap-1 self-start rounded px-1.5 py-0.5 text-[10px] font-semibold border",
+              hasOpenError
+                ? "bg-red-50 text-red-700 border-red-200"
+                : "bg-amber-50 text-amber-700 border-amber-200"
+            )}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <AlertTriangle className="h-3 w-3" />
+            {label}
+          </div>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <div className="space-y-1">
+            {conflicts.map((conflict) => (
+              <div key={conflict.id} className="text-xs">
+                {conflict.message}
+                {conflict.overridden && (
+                  <span className="block opacity-75">
+                    Overridden{conflict.overrideReason ? `: ${conflict.overrideReason}` : ""}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Calendar } from "lucide-react";
+import { format } from "date-fns";
+import type { ScheduleConflict } from "@/lib/conflicts";
+
+interface ConflictDialogProps {
+  open: boolean;
+  conflicts: ScheduleConflict[];
+  canOverride: boolean;
+  crews?: { id: string; name: string }[];
+  // Called with the override reason, or null when the save is abandoned
+  onResolve: (reason: string | null) => void;
+}
+
+export function ConflictDialog({ open, conflicts, canOverride, crews = [], onResolve }: ConflictDialogProps) {
+  const [reason, setReason] = useState("");
+
+  const resolve = (value: string | null) => {
+    setReason("");
+    onResolve(value);
+  };
+
+  const blocking = conflicts.filter((c) => c.severity === "error");
+  const warnings = conflicts.filter((c) => c.severity !== "error");
+
+  const renderConflict = (conflict: ScheduleConflict) => {
+    const crewNames = Array.from(
+      new Set(conflict.items.map((i) => crews.find((c) => c.id === i.crewId)?.name).filter(Boolean))
+    );
+    return (
+      <div key={conflict.id} className="text-sm text-slate-700">
+        <div className="font-medium text-slate-900">{conflict.message}</div>
+        <div className="flex items-center gap-2 text-xs text-slate-500 mt-0.5">
+          <Calendar className="w-3 h-3" />
+          <span>{format(new Date(`${conflict.date}T12:00:00`), "EEE, MMM d, yyyy")}</span>
+          {crewNames.length > 0 && <span>• {crewNames.join(", ")}</span>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) resolve(null); }}>
+      <DialogContent className="bg-white text-slate-900 border-slate-200">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-slate-900">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+            Scheduling Conflict
+          </DialogTitle>
+          <DialogDescription className="text-slate-700">
+            {canOverride
+              ? "This change clashes with the existing schedule. Cancel it, or save anyway with a reason."
+              : "This change clashes with the existing schedule. Ask an admin or operations manager if it needs to go ahead."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {blocking.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg space-y-2">
+              {blocking.map(renderConflict)}
+            </div>
+          )}
+          {warnings.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-2">
+              {warnings.map(renderConflict)}
+            </div>
+          )}
+
+          {canOverride && (
+            <div className="space-y-1.5">
+              <Label htmlFor="conflict-override-reason">Reason for overriding</Label>
+              <Textarea
+                id="conflict-override-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Covering both sites - second job starts after the first finishes"
+                className="bg-white"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 border-t border-slate-200 pt-4">
+          <Button
+            variant="outline"
+            onClick={() => resolve(null)}
+            className="w-full sm:w-auto text-slate-700 hover:bg-slate-100 border-slate-300 bg-white"
+          >
+            Cancel
+          </Button>
+          {canOverride && (
+            <Button
+              variant="destructive"
+              disabled={!reason.trim()}
+              onClick={() => resolve(reason.trim())}
+              className="w-full sm:w-auto"
+            >
+              Save Anyway
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
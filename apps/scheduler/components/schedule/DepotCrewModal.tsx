@@ -5,14 +5,22 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Trash2, Edit, Plus, Users, Truck, Mail, Settings, X, Check, Calendar as CalendarIcon, ArrowRightLeft } from "lucide-react";
+import { Trash2, Edit, Plus, Users, Truck, Mail, Settings, X, Check, Calendar as CalendarIcon, ArrowRightLeft, Upload } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { format, isAfter, isBefore, isSameDay, startOfDay } from "date-fns";
+import { format, isBefore, isSameDay, startOfDay } from "date-fns";
 import { cn } from "@/lib/utils";
 import { CANONICAL_VEHICLE_TYPES, mergeAndSortVehicleTypes, normalizeVehicleTypeName } from "@/lib/vehicleTypes";
-import { EmployeeTimeOffDialog, type EmployeeTimeOffDialogPayload } from "@/components/schedule/EmployeeTimeOffDialog";
+import {
+  EmployeeTimeOffDialog,
+  timeOffCoversWholeDay,
+  toAbsenceInput,
+  type EmployeeTimeOffDialogPayload,
+} from "@/components/schedule/EmployeeTimeOffDialog";
+import { useEmployeeAbsences } from "@/hooks/useScheduleData";
+import { VehicleUnavailabilityDialog } from "@/components/schedule/VehicleUnavailabilityDialog";
+import { ResourceImportDialog } from "@/components/schedule/ResourceImportDialog";
 
 interface DepotCrewModalProps {
   open: boolean;
@@ -147,6 +155,7 @@ export function DepotCrewModal({
   const [newTypeColor, setNewTypeColor] = useState<string>("blue");
   const [editingType, setEditingType] = useState<{ type: string; defaultColor: string } | null>(null);
   const [isEditTypeOpen, setIsEditTypeOpen] = useState(false);
+  const { mutations: absenceMutations } = useEmployeeAbsences();
   const [employeeTimeOffModal, setEmployeeTimeOffModal] = useState<{
     open: boolean;
     employeeId: string | null;
@@ -172,8 +181,6 @@ export function DepotCrewModal({
     const employeeId = employeeTimeOffModal.employeeId;
     const employeeName = employeeTimeOffModal.employeeName;
     const today = startOfDay(new Date());
-    const start = startOfDay(payload.startDate);
-    const end = startOfDay(payload.endDate);
 
     const impacted = (scheduleItems as any[])
       .filter((item) => item && item.employeeId === employeeId)
@@ -181,10 +188,8 @@ export function DepotCrewModal({
       .filter((item) => {
         const itemDate = startOfDay(new Date(item.date));
         if (isBefore(itemDate, today)) return false;
-        const inRange =
-          (isSameDay(itemDate, start) || isAfter(itemDate, start)) &&
-          (isSameDay(itemDate, end) || isBefore(itemDate, end));
-        return inRange;
+        // Half days and repeats: only whole days off take them out of the crew
+        return timeOffCoversWholeDay(payload, format(itemDate, "yyyy-MM-dd"));
       })
       .map((item) => {
         const crew = crews.find((c) => c.id === item.crewId);
@@ -205,8 +210,6 @@ export function DepotCrewModal({
   const applyEmployeeTimeOffConfirmed = async (confirm: NonNullable<typeof employeeTimeOffConfirm>) => {
     const payload = confirm.payload;
     const employeeId = confirm.employeeId;
-    const start = startOfDay(payload.startDate);
-    const end = startOfDay(payload.endDate);
     const today = startOfDay(new Date());
 
     const isAutoLinkedFreeJob = (item: any) =>
@@ -220,10 +223,7 @@ export function DepotCrewModal({
       if (item.type !== "operative" && item.type !== "assistant") return;
       const itemDate = startOfDay(new Date(item.date));
       if (isBefore(itemDate, today)) return;
-      const inRange =
-        (isSameDay(itemDate, start) || isAfter(itemDate, start)) &&
-        (isSameDay(itemDate, end) || isBefore(itemDate, end));
-      if (!inRange) return;
+      if (!timeOffCoversWholeDay(payload, format(itemDate, "yyyy-MM-dd"))) return;
 
       // Delete linked Free jobs in that cell too.
       const linkedFreeJobs = (scheduleItems as any[]).filter(
@@ -238,18 +238,8 @@ export function DepotCrewModal({
       onScheduleItemDelete(item.id);
     });
 
-    if (payload.absenceType === "holiday" || payload.absenceType === "sick") {
-      await fetch("/api/employee-absences", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          employeeId,
-          absenceType: payload.absenceType,
-          startDate: start.toISOString(),
-          endDate: end.toISOString(),
-        }),
-      }).catch(() => {});
-    }
+    // Persist the absence record (every type, with half days / repeats / notes).
+    await absenceMutations.create.mutateAsync(toAbsenceInput(employeeId, payload)).catch(() => {});
 
     if (payload.absenceType === "sick") {
       const emp = employees.find((e) => e.id === employeeId);
@@ -274,6 +264,7 @@ export function DepotCrewModal({
     type: string | null;
   }>({ open: false, type: null });
   const [activeTab, setActiveTab] = useState<"employees" | "vehicles">("employees");
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // Refresh when modal opens or data changes
   useEffect(() => {
@@ -1153,7 +1144,17 @@ export function DepotCrewModal({
         </Tabs>
 
         <DialogFooter className="flex justify-between">
-          <div>
+          <div className="flex gap-2">
+            {!isReadOnly && (
+              <Button
+                variant="outline"
+                onClick={() => setIsImportOpen(true)}
+                className="gap-2 border-slate-300 text-slate-700"
+                title={`Import ${activeTab} from a CSV or Excel file`}
+              >
+                <Upload className="w-4 h-4" /> Import
+              </Button>
+            )}
             {activeTab === "vehicles" && (
               <Button
                 onClick={handleAddVehicle}
@@ -1173,6 +1174,13 @@ export function DepotCrewModal({
         </DialogFooter>
       </DialogContent>
       {/* Inline modals so they share the same Dialog root */}
+      <ResourceImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        kind={activeTab}
+        depotId={currentDepotId}
+        depotName={depotName}
+      />
       <EmployeeTimeOffDialog
         open={employeeTimeOffModal.open}
         onOpenChange={(open) => setEmployeeTimeOffModal((prev) => ({ ...prev, open }))}
@@ -1242,11 +1250,12 @@ export function DepotCrewModal({
           </AlertDialogContent>
         </AlertDialog>
       )}
-      <VehicleOffRoadModal
+      <VehicleUnavailabilityDialog
         open={vehicleOffModal.open}
         onOpenChange={(open) =>
           setVehicleOffModal((prev) => ({ ...prev, open }))
         }
+        vehicleId={vehicleOffModal.vehicleId}
         vehicleName={vehicleOffModal.vehicleName}
       />
       <DeleteConfirmModal
@@ -1419,164 +1428,6 @@ function EmployeeTimeOffModal({ open, onOpenChange, employeeName }: TimeOffModal
   );
 }
 
-// ---- Vehicle Off Road / Maintenance Modal (UI only / Style 2) ----
-
-interface VehicleOffModalProps {
-  open: boolean;
-  onOpenChange: (open: boolean) => void;
-  vehicleName: string;
-}
-
-function VehicleOffRoadModal({ open, onOpenChange, vehicleName }: VehicleOffModalProps) {
-  const [reason, setReason] = useState<"off_road" | "maintenance" | "other">("off_road");
-  const [mode, setMode] = useState<"single" | "range">("single");
-  const [startDate, setStartDate] = useState("");
-  const [endDate, setEndDate] = useState("");
-  const [recurrence, setRecurrence] = useState<"none" | "weekly" | "biweekly">("none");
-
-  const handleSave = () => {
-    console.log("[VehicleOff] Requested (Depot):", {
-      vehicleName,
-      reason,
-      mode,
-      startDate,
-      endDate: mode === "single" ? startDate : endDate,
-      recurrence,
-    });
-    onOpenChange(false);
-  };
-
-  return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[420px] bg-white text-slate-900">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <CalendarIcon className="w-5 h-5 text-blue-600" />
-            Book Vehicle Off Road – {vehicleName}
-          </DialogTitle>
-        </DialogHeader>
-
-        <div className="space-y-4 mt-2">
-          <div className="space-y-1">
-            <Label className="text-sm font-semibold">Reason</Label>
-            <Select value={reason} onValueChange={(v: any) => setReason(v)}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="bg-white">
-                <SelectItem value="off_road">VOR / Off Road</SelectItem>
-                <SelectItem value="maintenance">Maintenance</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label className="text-sm font-semibold">Dates</Label>
-            <div className="flex gap-3 items-center">
-              <div className="flex items-center gap-1">
-                <input
-                  id="depot-vehicle-single"
-                  type="radio"
-                  checked={mode === "single"}
-                  onChange={() => setMode("single")}
-                  className="h-4 w-4"
-                />
-                <Label htmlFor="depot-vehicle-single" className="text-sm">
-                  Single day
-                </Label>
-              </div>
-              <div className="flex items-center gap-1">
-                <input
-                  id="depot-vehicle-range"
-                  type="radio"
-                  checked={mode === "range"}
-                  onChange={() => setMode("range")}
-                  className="h-4 w-4"
-                />
-                <Label htmlFor="depot-vehicle-range" className="text-sm">
-                  Date range
-                </Label>
-              </div>
-            </div>
-            <div className="flex gap-2">
-              <Input
-                type="date"
-                className="text-sm"
-                value={startDate}
-                onChange={(e) => setStartDate(e.target.value)}
-              />
-              {mode === "range" && (
-                <Input
-                  type="date"
-                  className="text-sm"
-                  value={endDate}
-                  onChange={(e) => setEndDate(e.target.value)}
-                />
-              )}
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label className="text-sm font-semibold">Recurrence</Label>
-            <div className="flex flex-wrap gap-3 text-sm">
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "none"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("none")}
-              >
-                None
-              </button>
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "weekly"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("weekly")}
-              >
-                Weekly
-              </button>
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "biweekly"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("biweekly")}
-              >
-                Every other week
-              </button>
-            </div>
-          </div>
-        </div>
-
-        <DialogFooter className="mt-4">
-          <Button
-            variant="outline"
-            className="border-slate-300 text-slate-700 hover:bg-slate-50"
-            onClick={() => onOpenChange(false)}
-          >
-            Cancel
-          </Button>
-          <Button
-            className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
-            onClick={handleSave}
-          >
-            Save
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
-  );
-}
-
 // ---- Delete Confirmation Modal (Style 2) ----
 
 interface DeleteConfirmModalProps {
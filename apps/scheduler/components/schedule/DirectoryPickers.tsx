@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { Briefcase, Check, MapPin, Plus, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { useCustomerDirectory } from "@/hooks/useScheduleData";
+import type { Customer, Site } from "@/lib/api";
+
+// Address suggestions offered after the directory's sites
+const MOCK_ADDRESSES = [
+  "10 Downing Street, London, SW1A 2AA",
+  "Buckingham Palace, London, SW1A 1AA",
+  "Tower of London, London, EC3N 4AB",
+  "The Shard, 32 London Bridge St, London, SE1 9SG",
+  "Hyde Park Corner, London, W1J 7NT",
+  "221B Baker Street, London, NW1 6XE",
+  "Houses of Parliament, Westminster, London, SW1A 0AA",
+  "British Museum, Great Russell St, London, WC1B 3DG",
+  "Tate Modern, Bankside, London, SE1 9TG",
+  "Wembley Stadium, London, HA9 0WS",
+];
+
+const option = (selected: boolean) =>
+  cn(
+    "relative flex cursor-pointer select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-slate-100 hover:text-slate-900 bg-white",
+    selected && "bg-slate-100"
+  );
+
+const searchInput =
+  "flex h-11 w-full rounded-md bg-white py-3 text-sm outline-none text-slate-900 placeholder:text-slate-400 disabled:cursor-not-allowed disabled:opacity-50 border-0";
+
+const groupLabel = "px-2 py-1.5 text-xs font-medium text-slate-500 bg-white";
+
+/**
+ * The address a booking at this site is given: the site's address with its postcode, which
+ * is what the travel-time calculations read (extractPostcode).
+ */
+export function siteAddress(site: Pick<Site, "address" | "postcode">): string {
+  const address = site.address.trim();
+  if (!site.postcode) return address;
+  const compact = (value: string) => value.replace(/\s/g, "").toUpperCase();
+  return compact(address).includes(compact(site.postcode)) ? address : `${address}, ${site.postcode}`;
+}
+
+/** A customer name typed that matches one in the directory, ignoring case. */
+export function findCustomerByName(customers: Customer[], name: string): Customer | undefined {
+  const key = name.trim().toLowerCase();
+  return key ? customers.find((c) => c.name.toLowerCase() === key) : undefined;
+}
+
+interface CustomerPickerProps {
+  value: string;
+  customerId?: string | null;
+  onChange: (name: string, customer: Customer | null) => void;
+  disabled?: boolean;
+}
+
+/** Customer field: search the directory, or type a new name and add it. */
+export function CustomerPicker({ value, customerId, onChange, disabled }: CustomerPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { customers, mutations } = useCustomerDirectory();
+
+  const term = value.trim().toLowerCase();
+  const filtered = customers.filter((c) => c.name.toLowerCase().includes(term));
+  const exact = findCustomerByName(customers, value);
+
+  const select = (customer: Customer) => {
+    onChange(customer.name, customer);
+    setOpen(false);
+  };
+
+  const addCustomer = async () => {
+    try {
+      select(await mutations.createCustomer.mutateAsync({ name: value.trim() }));
+    } catch (error) {
+      console.error("[CustomerPicker] Failed to add customer:", error);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className="w-full justify-between font-normal text-slate-900 border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {value || "Select or type customer..."}
+          <Briefcase className="ml-2 h-4 w-4 shrink-0 opacity-60" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[400px] p-0 bg-white" align="start">
+        <div className="flex items-center border-b px-3 bg-white">
+          <Search className="mr-2 h-4 w-4 shrink-0 opacity-60" />
+          <input
+            className={searchInput}
+            placeholder="Search or type customer..."
+            value={value}
+            onChange={(e) => onChange(e.target.value, findCustomerByName(customers, e.target.value) ?? null)}
+            disabled={disabled}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                setOpen(false);
+              }
+            }}
+          />
+        </div>
+        <div className="max-h-[300px] overflow-y-auto overflow-x-hidden">
+          <div className="overflow-hidden p-1 text-foreground bg-white">
+            {filtered.length > 0 && <div className={groupLabel}>Customers</div>}
+            {filtered.map((customer) => (
+              <div key={customer.id} onClick={() => select(customer)} className={option(customer.id === customerId)}>
+                <Check className={cn("mr-2 h-4 w-4", customer.id === customerId ? "opacity-100" : "opacity-0")} />
+                <span className="text-slate-900">{customer.name}</span>
+                {customer.billingReference && (
+                  <span className="ml-auto text-xs text-slate-400">{customer.billingReference}</span>
+                )}
+              </div>
+            ))}
+            {term && !exact && (
+              <div
+                onClick={addCustomer}
+                className={cn(option(false), mutations.createCustomer.isPending && "pointer-events-none opacity-50")}
+              >
+                <Plus className="mr-2 h-4 w-4 opacity-60" />
+                Add &quot;{value.trim()}&quot; as a customer
+              </div>
+            )}
+            {!term && customers.length === 0 && (
+              <div className="py-6 text-center text-sm text-slate-500">
+                No customers yet. Type a name to add one.
+              </div>
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface SitePickerProps {
+  value: string;
+  siteId?: string | null;
+  // Sites of this customer are offered; with none chosen, every site is
+  customerId?: string | null;
+  onChange: (address: string, site: Site | null) => void;
+  disabled?: boolean;
+}
+
+/** Address field: a site from the directory, a suggested address, or one typed in. */
+export function SitePicker({ value, siteId, customerId, onChange, disabled }: SitePickerProps) {
+  const [open, setOpen] = useState(false);
+  const { customers, sites, mutations } = useCustomerDirectory();
+
+  const term = value.trim().toLowerCase();
+  const matches = (text: string | null) => !!text && text.toLowerCase().includes(term);
+  const filteredSites = sites.filter(
+    (site) =>
+      (!customerId || site.customerId === customerId) &&
+      (!term || matches(site.name) || matches(site.address) || matches(site.postcode) || siteAddress(site).toLowerCase() === term)
+  );
+  const suggestions = MOCK_ADDRESSES.filter((address) => address.toLowerCase().includes(term));
+  const customerName = (id: string | null) => customers.find((c) => c.id === id)?.name;
+  const selectedSite = sites.find((site) => site.id === siteId);
+
+  const select = (site: Site) => {
+    onChange(siteAddress(site), site);
+    setOpen(false);
+  };
+
+  const saveSite = async () => {
+    try {
+      select(await mutations.createSite.mutateAsync({ customerId, address: value.trim() }));
+    } catch (error) {
+      console.error("[SitePicker] Failed to save site:", error);
+    }
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className="w-full justify-between font-normal text-slate-900 border-slate-200 bg-white hover:bg-slate-50 h-auto min-h-[80px] items-start p-3 whitespace-normal text-left disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {value || "Search sites or addresses..."}
+            <MapPin className="ml-2 h-4 w-4 shrink-0 opacity-50 mt-0.5" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[400px] p-0 bg-white" align="start">
+          <div className="flex items-center border-b px-3 bg-white">
+            <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+            <input
+              className={searchInput}
+              placeholder="Search sites or type an address..."
+              value={value}
+              onChange={(e) => onChange(e.target.value, null)}
+              disabled={disabled}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  setOpen(false);
+                }
+              }}
+            />
+          </div>
+          <div className="max-h-[300px] overflow-y-auto overflow-x-hidden">
+            <div className="overflow-hidden p-1 text-foreground bg-white">
+              {filteredSites.length > 0 && <div className={groupLabel}>Sites</div>}
+              {filteredSites.map((site) => (
+                <div key={site.id} onClick={() => select(site)} className={option(site.id === siteId)}>
+                  <MapPin className="mr-2 h-4 w-4 shrink-0 opacity-50" />
+                  <div className="flex flex-col">
+                    <span className="text-slate-900">{site.name || site.address}</span>
+                    <span className="text-xs text-slate-500">
+                      {[site.name ? site.address : null, site.postcode, customerId ? null : customerName(site.customerId)]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  </div>
+                </div>
+              ))}
+              {customerId && term && !siteId && (
+                <div
+                  onClick={saveSite}
+                  className={cn(option(false), mutations.createSite.isPending && "pointer-events-none opacity-50")}
+                >
+                  <Plus className="mr-2 h-4 w-4 opacity-60" />
+                  Save as a site for {customerName(customerId) ?? "this customer"}
+                </div>
+              )}
+              {suggestions.length > 0 && <div className={groupLabel}>Suggestions</div>}
+              {suggestions.map((address) => (
+                <div
+                  key={address}
+                  onClick={() => {
+                    onChange(address, null);
+                    setOpen(false);
+                  }}
+                  className={option(!siteId && value === address)}
+                >
+                  <MapPin className="mr-2 h-4 w-4 opacity-50" />
+                  {address}
+                </div>
+              ))}
+              {filteredSites.length === 0 && suggestions.length === 0 && (
+                <div className="py-6 text-center text-sm text-slate-500">No site or address found. Type to add manually.</div>
+              )}
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+      {selectedSite?.accessNotes && (
+        <div className="text-xs text-slate-600 bg-amber-50 border border-amber-100 rounded px-2 py-1">
+          <span className="font-medium">Access:</span> {selectedSite.accessNotes}
+        </div>
+      )}
+    </>
+  );
+}
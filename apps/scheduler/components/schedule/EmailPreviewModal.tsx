@@ -22,7 +22,8 @@ interface EmailPreviewModalProps {
     items: ScheduleItem[];
     employees: { id: string; name: string; status: 'active' | 'holiday' | 'sick'; email?: string; jobRole: 'operative' | 'assistant' }[];
     onUpdateEmail: (id: string, email: string) => void;
-    onSend: (date: Date, recipientCount: number) => void;
+    // Sends the schedule emails to these employees (server-side), resolving once they've gone
+    onSend: (date: Date, employeeIds: string[]) => Promise<void>;
 }
 
 export function EmailPreviewModal({
@@ -67,16 +68,18 @@ export function EmailPreviewModal({
         onUpdateEmail(id, newEmail);
     };
 
-    const handleSend = () => {
+    const handleSend = async () => {
         setIsSending(true);
-        
-        // Simulate network request
-        setTimeout(() => {
-            setIsSending(false);
+        try {
             const validRecipients = recipients.filter(r => r.email && r.email.includes('@'));
-            onSend(date, validRecipients.length);
+            await onSend(date, validRecipients.map(r => r.id));
             onOpenChange(false);
-        }, 800);
+        } catch (error) {
+            console.error("[EmailPreviewModal] Failed to send schedule emails:", error);
+            alert(error instanceof Error ? error.message : "Failed to send schedule emails");
+        } finally {
+            setIsSending(false);
+        }
     };
 
     const validCount = recipients.filter(r => r.email && r.email.includes('@')).length;
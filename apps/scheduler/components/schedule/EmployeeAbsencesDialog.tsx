@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Calendar as CalendarIcon, Edit, Repeat, Trash2 } from "lucide-react";
+import { format, startOfDay } from "date-fns";
+import { useEmployeeAbsences, useLeaveBalances } from "@/hooks/useScheduleData";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+import { RECURRENCE_LABELS, type RecurrenceFrequency } from "@/lib/recurrence";
+import {
+  ABSENCE_DAY_PART_LABELS,
+  ABSENCE_TYPE_LABELS,
+  type AbsenceDayPart,
+  type AbsenceType,
+} from "@/lib/absences";
+import { countLeaveDays, formatLeaveDays, formatLeaveYear, leaveYearContaining } from "@/lib/leaveAllowance";
+import type { EmployeeAbsence } from "@/lib/api";
+
+interface EmployeeAbsencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string | null;
+  employeeName: string;
+}
+
+const toInputDate = (value: string | Date) => format(startOfDay(new Date(value)), "yyyy-MM-dd");
+// Stored as local midnight of the chosen day
+const fromInputDate = (value: string) => startOfDay(new Date(`${value}T00:00:00`)).toISOString();
+
+/**
+ * Record time off for an employee, and review, change or remove what is already booked.
+ * Changes re-check the employee's bookings on the affected days.
+ */
+export function EmployeeAbsencesDialog({ open, onOpenChange, employeeId, employeeName }: EmployeeAbsencesDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] bg-white text-slate-900">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarIcon className="w-5 h-5 text-blue-600" />
+            Book Time Off – {employeeName}
+          </DialogTitle>
+        </DialogHeader>
+        {/* Content unmounts on close, so the form starts fresh each time */}
+        {employeeId && <EmployeeAbsenceForm employeeId={employeeId} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function EmployeeAbsenceForm({ employeeId, onDone }: { employeeId: string; onDone: () => void }) {
+  const { absences, mutations } = useEmployeeAbsences();
+  const todayIso = toInputDate(new Date());
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [absenceType, setAbsenceType] = useState<AbsenceType>("holiday");
+  const [mode, setMode] = useState<"single" | "range">("single");
+  const [startDate, setStartDate] = useState(todayIso);
+  const [endDate, setEndDate] = useState(todayIso);
+  const [dayPart, setDayPart] = useState<AbsenceDayPart>("full");
+  const [recurrence, setRecurrence] = useState<RecurrenceFrequency>("none");
+  const [recurrenceUntil, setRecurrenceUntil] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const employeeAbsences = absences
+    .filter((a) => a.employeeId === employeeId)
+    // Hide finished one-off absences; repeating ones stay until their last repeat
+    .filter((a) =>
+      a.recurrence === "none"
+        ? toInputDate(a.endDate) >= todayIso
+        : !a.recurrenceUntil || toInputDate(a.recurrenceUntil) >= todayIso
+    )
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  const isSaving = mutations.create.isPending || mutations.update.isPending;
+
+  const rangeEnd = mode === "single" || !endDate ? startDate : endDate;
+  const values = startDate
+    ? {
+        absenceType,
+        startDate: fromInputDate(startDate),
+        endDate: fromInputDate(rangeEnd),
+        dayPart,
+        recurrence,
+        recurrenceUntil: recurrence !== "none" && recurrenceUntil ? fromInputDate(recurrenceUntil) : null,
+        notes: notes.trim() || null,
+      }
+    : null;
+
+  // Holiday allowance for the leave year the absence starts in
+  const { settings } = useOrganizationSettings();
+  const leaveYear = startDate ? leaveYearContaining(startDate, settings.leave) : null;
+  const { balances } = useLeaveBalances(leaveYear?.start);
+  const leaveBalance = balances.find((b) => b.employeeId === employeeId);
+  let allowance: { days: number; remaining: number } | null = null;
+  if (values && absenceType === "holiday" && leaveYear && leaveBalance && rangeEnd >= startDate) {
+    const others = absences.filter((a) => a.employeeId === employeeId && a.id !== editingId);
+    const before = countLeaveDays(others, leaveYear.start, leaveYear.end, settings.leave, toInputDate);
+    const after = countLeaveDays(
+      [...others, { employeeId, ...values }],
+      leaveYear.start,
+      leaveYear.end,
+      settings.leave,
+      toInputDate
+    );
+    allowance = { days: after - before, remaining: leaveBalance.totalDays - after };
+  }
+
+  const startEditing = (absence: EmployeeAbsence) => {
+    const start = toInputDate(absence.startDate);
+    const end = toInputDate(absence.endDate);
+    setEditingId(absence.id);
+    setAbsenceType(absence.absenceType);
+    setMode(start === end ? "single" : "range");
+    setStartDate(start);
+    setEndDate(end);
+    setDayPart(absence.dayPart || "full");
+    setRecurrence(absence.recurrence || "none");
+    setRecurrenceUntil(absence.recurrenceUntil ? toInputDate(absence.recurrenceUntil) : "");
+    setNotes(absence.notes || "");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!values) return;
+    if (rangeEnd < startDate) {
+      setError("The end date must be on or after the start date.");
+      return;
+    }
+
+    try {
+      if (editingId) {
+        await mutations.update.mutateAsync({ id: editingId, updates: values });
+      } else {
+        await mutations.create.mutateAsync({ employeeId, ...values });
+      }
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    if (editingId === id) setEditingId(null);
+    mutations.remove.mutate(id);
+  };
+
+  const describe = (absence: EmployeeAbsence) => {
+    const start = format(new Date(absence.startDate), "EEE d MMM yyyy");
+    const end = format(new Date(absence.endDate), "EEE d MMM yyyy");
+    const dates = start === end ? start : `${start} – ${end}`;
+    return absence.dayPart && absence.dayPart !== "full" ? `${dates} (${absence.dayPart.toUpperCase()})` : dates;
+  };
+
+  return (
+    <>
+      <div className="space-y-4 mt-2">
+        {employeeAbsences.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-sm font-semibold">Booked</Label>
+            <div className="border border-slate-200 rounded-md divide-y divide-slate-100 max-h-40 overflow-y-auto">
+              {employeeAbsences.map((absence) => (
+                <div
+                  key={absence.id}
+                  className={`flex items-start gap-2 px-2 py-1.5 text-xs ${editingId === absence.id ? "bg-blue-50" : ""}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-slate-900">
+                      {ABSENCE_TYPE_LABELS[absence.absenceType] ?? absence.absenceType} · {describe(absence)}
+                    </div>
+                    {absence.recurrence && absence.recurrence !== "none" && (
+                      <div className="flex items-center gap-1 text-slate-500">
+                        <Repeat className="w-3 h-3" />
+                        {RECURRENCE_LABELS[absence.recurrence]}
+                        {absence.recurrenceUntil && ` until ${format(new Date(absence.recurrenceUntil), "d MMM yyyy")}`}
+                      </div>
+                    )}
+                    {absence.notes && <div className="text-slate-500 truncate">{absence.notes}</div>}
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    title="Edit"
+                    onClick={() => startEditing(absence)}
+                  >
+                    <Edit className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 text-red-500 hover:text-red-600"
+                    title="Remove"
+                    onClick={() => handleDelete(absence.id)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-sm font-semibold">Reason</Label>
+          <Select value={absenceType} onValueChange={(v) => setAbsenceType(v as AbsenceType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              {(Object.keys(ABSENCE_TYPE_LABELS) as AbsenceType[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {ABSENCE_TYPE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-semibold">Dates</Label>
+          <div className="flex gap-3 items-center">
+            <div className="flex items-center gap-1">
+              <input
+                id="absence-single"
+                type="radio"
+                checked={mode === "single"}
+                onChange={() => setMode("single")}
+                className="h-4 w-4"
+              />
+              <Label htmlFor="absence-single" className="text-sm">
+                Single day
+              </Label>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                id="absence-range"
+                type="radio"
+                checked={mode === "range"}
+                onChange={() => setMode("range")}
+                className="h-4 w-4"
+              />
+              <Label htmlFor="absence-range" className="text-sm">
+                Date range
+              </Label>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              className="text-sm"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+            {mode === "range" && (
+              <Input
+                type="date"
+                className="text-sm"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            )}
+          </div>
+          <Select value={dayPart} onValueChange={(v) => setDayPart(v as AbsenceDayPart)}>
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              {(Object.keys(ABSENCE_DAY_PART_LABELS) as AbsenceDayPart[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {ABSENCE_DAY_PART_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-semibold">Recurrence</Label>
+          <div className="flex flex-wrap gap-3 text-sm">
+            {(["none", "weekly", "biweekly"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                className={`px-3 py-1 rounded-full border ${
+                  recurrence === value
+                    ? "bg-slate-900 text-white border-slate-900"
+                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
+                }`}
+                onClick={() => setRecurrence(value)}
+              >
+                {value === "none" ? "None" : RECURRENCE_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          {recurrence !== "none" && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="absence-repeat-until" className="text-sm text-slate-600 shrink-0">
+                Repeat until
+              </Label>
+              <Input
+                id="absence-repeat-until"
+                type="date"
+                className="text-sm"
+                value={recurrenceUntil}
+                min={startDate}
+                onChange={(e) => setRecurrenceUntil(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="absence-notes" className="text-sm font-semibold">
+            Notes
+          </Label>
+          <Textarea
+            id="absence-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g. CSCS renewal course"
+            className="text-sm"
+          />
+        </div>
+
+        {allowance && leaveYear && (
+          allowance.remaining < 0 ? (
+            <div className="flex items-start gap-2 p-2 rounded-md bg-amber-50 border border-amber-200 text-xs text-amber-800">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span>
+                This holiday uses {formatLeaveDays(allowance.days)} and would exceed the allowance for{" "}
+                {formatLeaveYear(leaveYear)} by {formatLeaveDays(-allowance.remaining)}.
+              </span>
+            </div>
+          ) : (
+            <div className="text-xs text-slate-500">
+              Uses {formatLeaveDays(allowance.days)} of holiday allowance; {formatLeaveDays(allowance.remaining)} left
+              for {formatLeaveYear(leaveYear)}.
+            </div>
+          )
+        )}
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+      </div>
+
+      <DialogFooter className="mt-4">
+        <Button
+          variant="outline"
+          className="border-slate-300 text-slate-700 hover:bg-slate-50"
+          onClick={onDone}
+        >
+          Cancel
+        </Button>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+          disabled={isSaving || !startDate}
+          onClick={handleSave}
+        >
+          {editingId ? "Update" : "Save"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -3,16 +3,49 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar as CalendarIcon } from "lucide-react";
 import { addDays, format, startOfDay, startOfWeek, endOfWeek } from "date-fns";
+import {
+  ABSENCE_DAY_PART_LABELS,
+  ABSENCE_TYPE_LABELS,
+  type AbsenceDayPart,
+  type AbsenceType,
+} from "@/lib/absences";
+import { periodCoversDay, toRecurringPeriod } from "@/lib/recurrence";
+import type { EmployeeAbsenceInput } from "@/lib/api";
 
 export interface EmployeeTimeOffDialogPayload {
-  absenceType: "holiday" | "sick" | "other";
+  absenceType: AbsenceType;
   mode: "single" | "range";
   startDate: Date;
   endDate: Date;
+  dayPart: AbsenceDayPart;
   recurrence: "none" | "weekly" | "biweekly";
+  recurrenceUntil: Date | null;
+  notes: string | null;
+}
+
+/** Whether the requested time off takes the employee out for the whole of a day (yyyy-MM-dd). */
+export function timeOffCoversWholeDay(payload: EmployeeTimeOffDialogPayload, day: string): boolean {
+  if (payload.dayPart !== "full") return false;
+  const toLocalDay = (date: Date | string) => format(startOfDay(new Date(date)), "yyyy-MM-dd");
+  return periodCoversDay(toRecurringPeriod(payload, toLocalDay), day);
+}
+
+/** Request body for POST /api/employee-absences. */
+export function toAbsenceInput(employeeId: string, payload: EmployeeTimeOffDialogPayload): EmployeeAbsenceInput {
+  return {
+    employeeId,
+    absenceType: payload.absenceType,
+    startDate: payload.startDate.toISOString(),
+    endDate: payload.endDate.toISOString(),
+    dayPart: payload.dayPart,
+    recurrence: payload.recurrence,
+    recurrenceUntil: payload.recurrenceUntil ? payload.recurrenceUntil.toISOString() : null,
+    notes: payload.notes,
+  };
 }
 
 interface EmployeeTimeOffDialogProps {
@@ -34,11 +67,14 @@ export function EmployeeTimeOffDialog({
   initialDate,
   onApply,
 }: EmployeeTimeOffDialogProps) {
-  const [absenceType, setAbsenceType] = useState<"holiday" | "sick" | "other">("holiday");
+  const [absenceType, setAbsenceType] = useState<AbsenceType>("holiday");
   const [mode, setMode] = useState<"single" | "range">("single");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [dayPart, setDayPart] = useState<AbsenceDayPart>("full");
   const [recurrence, setRecurrence] = useState<"none" | "weekly" | "biweekly">("none");
+  const [recurrenceUntil, setRecurrenceUntil] = useState("");
+  const [notes, setNotes] = useState("");
 
   // When the dialog opens, default the date to the item date (if provided) or today.
   useEffect(() => {
@@ -50,7 +86,10 @@ export function EmployeeTimeOffDialog({
     setStartDate(baseIso);
     setEndDate(baseIso);
     setMode("single");
+    setDayPart("full");
     setRecurrence("none");
+    setRecurrenceUntil("");
+    setNotes("");
     setAbsenceType("holiday");
   }, [open, initialDate]);
 
@@ -69,7 +108,10 @@ export function EmployeeTimeOffDialog({
       mode,
       startDate: start,
       endDate: end,
+      dayPart,
       recurrence,
+      recurrenceUntil: recurrence !== "none" && recurrenceUntil ? startOfDay(new Date(`${recurrenceUntil}T00:00:00`)) : null,
+      notes: notes.trim() || null,
     };
 
     if (onApply) {
@@ -110,14 +152,16 @@ export function EmployeeTimeOffDialog({
         <div className="space-y-4 mt-2">
           <div className="space-y-1">
             <Label className="text-sm font-semibold">Reason</Label>
-            <Select value={absenceType} onValueChange={(v: any) => setAbsenceType(v)}>
+            <Select value={absenceType} onValueChange={(v) => setAbsenceType(v as AbsenceType)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent className="bg-white">
-                <SelectItem value="holiday">Holiday</SelectItem>
-                <SelectItem value="sick">Sickness</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
+                {(Object.keys(ABSENCE_TYPE_LABELS) as AbsenceType[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {ABSENCE_TYPE_LABELS[value]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -203,6 +247,18 @@ export function EmployeeTimeOffDialog({
                 />
               )}
             </div>
+            <Select value={dayPart} onValueChange={(v) => setDayPart(v as AbsenceDayPart)}>
+              <SelectTrigger className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white">
+                {(Object.keys(ABSENCE_DAY_PART_LABELS) as AbsenceDayPart[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {ABSENCE_DAY_PART_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           <div className="space-y-2">
@@ -242,6 +298,34 @@ export function EmployeeTimeOffDialog({
                 Every other week
               </button>
             </div>
+            {recurrence !== "none" && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="timeoff-repeat-until" className="text-sm text-slate-600 shrink-0">
+                  Repeat until
+                </Label>
+                <Input
+                  id="timeoff-repeat-until"
+                  type="date"
+                  className="text-sm"
+                  value={recurrenceUntil}
+                  min={startDate || todayIso}
+                  onChange={(e) => setRecurrenceUntil(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="timeoff-notes" className="text-sm font-semibold">
+              Notes
+            </Label>
+            <Textarea
+              id="timeoff-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. CSCS renewal course"
+              className="text-sm"
+            />
           </div>
         </div>
 
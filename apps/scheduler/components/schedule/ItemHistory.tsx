@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, History } from "lucide-react";
+import { useItemHistory, useOrganization } from "@/hooks/useOrganization";
+import type { AuditEvent } from "@/lib/api";
+
+const ACTION_LABELS: Record<AuditEvent["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  archive: "Archived",
+  restore: "Restored",
+  approve: "Approved",
+  reject: "Rejected",
+};
+
+// Bookkeeping fields that aren't worth showing in the history
+const HIDDEN_FIELDS = new Set(["id", "userId", "organizationId", "version", "seriesId", "jobId", "customerId", "siteId"]);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// crewId -> "Crew id", startTime -> "Start time"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([A-Z])/g, " $1").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && ISO_DATE.test(value)) return format(new Date(value), "d MMM yyyy HH:mm");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+interface ItemHistoryProps {
+  itemId?: string;
+}
+
+/** Who changed a schedule item and what they changed. Only shown to admins. */
+export function ItemHistory({ itemId }: ItemHistoryProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { data: org } = useOrganization();
+  const isAdmin = org?.membershipRole === "admin";
+  const { data: events = [], isLoading, isError } = useItemHistory(itemId, expanded && isAdmin);
+
+  if (!itemId || !isAdmin) return null;
+
+  return (
+    <div className="border-t border-slate-100 pt-3">
+      <button
+        type="button"
+        onClick={() => setExpanded((value) => !value)}
+        className="flex items-center gap-1.5 text-xs font-medium text-slate-600 hover:text-slate-900"
+      >
+        {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+        <History className="w-3.5 h-3.5" />
+        History
+      </button>
+
+      {expanded && (
+        <div className="mt-2 max-h-48 overflow-y-auto space-y-2 text-xs">
+          {isLoading && <div className="text-slate-400">Loading history...</div>}
+          {isError && <div className="text-red-600">Could not load the history for this item.</div>}
+          {!isLoading && !isError && events.length === 0 && (
+            <div className="text-slate-400">No changes recorded yet.</div>
+          )}
+          {events.map((event) => {
+            const fields = Object.entries(event.changes).filter(([field]) => !HIDDEN_FIELDS.has(field));
+            // Saves that changed nothing visible (only the version)
+            if (event.action === "update" && fields.length === 0) return null;
+            return (
+              <div key={event.id} className="rounded border border-slate-100 bg-slate-50 px-2 py-1.5">
+                <div className="flex justify-between gap-2 text-slate-700">
+                  <span className="font-medium">
+                    {ACTION_LABELS[event.action]} by {event.actorName ?? "System"}
+                  </span>
+                  <span className="text-slate-400 shrink-0">{format(new Date(event.createdAt), "d MMM yyyy HH:mm")}</span>
+                </div>
+                {event.action !== "create" && event.action !== "delete" && fields.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-slate-500">
+                    {fields.map(([field, { before, after }]) => (
+                      <li key={field}>
+                        {fieldLabel(field)}: <span className="line-through">{formatValue(before)}</span> → {formatValue(after)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,13 +11,18 @@ import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { format, isSameDay, isBefore, isAfter, startOfDay } from "date-fns";
-import { CalendarIcon, MapPin, Briefcase, Check, User, Truck, Edit2, AlertCircle, Plus, X, Trash2, Search, FileText } from "lucide-react";
+import { CalendarIcon, Briefcase, Check, User, Truck, Edit2, AlertCircle, Plus, X, Trash2, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScheduleItem } from "./CalendarGrid";
+import { ItemHistory } from "./ItemHistory";
+import { RepeatFields, SeriesScopeField, type SeriesSubmitOptions } from "./SeriesControls";
+import { CustomerPicker, SitePicker, findCustomerByName } from "./DirectoryPickers";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useUISettings } from "@/hooks/useUISettings";
-import { calculateStartTime, calculateNextJobStartTime, calculateOnsiteTime, calculateJobEndTime, calculateTravelTime, extractPostcode } from "@/lib/travelTime";
+import { useCustomerDirectory } from "@/hooks/useScheduleData";
+import { describeAbsence, findAbsenceOnDay, isHalfDay } from "@/lib/absences";
+import { calculateStartTime, calculateNextJobStartTime, calculateOnsiteTime, calculateJobEndTime, calculateTravelTime, extractPostcode, getVehicleClass, type VehicleClass } from "@/lib/travelTime";
 
 // ------------------- SCHEMAS -------------------
 
@@ -31,6 +36,9 @@ const siteSchema = z.object({
   onsiteTime: z.string().optional(), // Onsite time (e.g. 09:00)
   duration: z.string().optional(), // Duration in hours (string input from form)
   color: z.string().default("blue"),
+  // Set when the customer / address is picked from the directory
+  customerId: z.string().nullable().optional(),
+  siteId: z.string().nullable().optional(),
 }).superRefine((data, ctx) => {
   // Only validate if user is trying to convert to a booked job (has customer or address)
   const hasCustomer = data.customer && data.customer.trim() !== '' && data.customer !== 'Free';
@@ -91,19 +99,6 @@ const AVAILABLE_COLORS = [
     { value: "yellow_dark", class: "bg-[#FEF08A] border-[#A16207]", defaultLabel: "New Category" },
 ];
 
-const MOCK_ADDRESSES = [
-    "10 Downing Street, London, SW1A 2AA",
-    "Buckingham Palace, London, SW1A 1AA",
-    "Tower of London, London, EC3N 4AB",
-    "The Shard, 32 London Bridge St, London, SE1 9SG",
-    "Hyde Park Corner, London, W1J 7NT",
-    "221B Baker Street, London, NW1 6XE",
-    "Houses of Parliament, Westminster, London, SW1A 0AA",
-    "British Museum, Great Russell St, London, WC1B 3DG",
-    "Tate Modern, Bankside, London, SE1 9TG",
-    "Wembley Stadium, London, HA9 0WS"
-];
-
 
 // ------------------- TYPES -------------------
 
@@ -125,11 +120,15 @@ interface ItemModalProps {
   employeeAbsences?: Array<{
     id: string;
     employeeId: string;
-    absenceType: "holiday" | "sick";
+    absenceType: "holiday" | "sick" | "training" | "other" | "unpaid";
     startDate: string;
     endDate: string;
+    dayPart?: "full" | "am" | "pm";
+    recurrence?: "none" | "weekly" | "biweekly";
+    recurrenceUntil?: string | null;
   }>;
-  vehicles: { id: string; name: string; status: 'active' | 'off_road' | 'maintenance' }[];
+  // Status on the item's date (see CalendarGrid vehiclesOnDay)
+  vehicles: { id: string; name: string; status: 'active' | 'off_road' | 'maintenance' | 'unavailable'; vehicleType?: string }[];
   items: ScheduleItem[]; // For conflict detection
   crews?: { id: string; shift?: 'day' | 'night'; depotId?: string }[]; // For validating assignments against active crews
   depots?: { id: string; name: string; address: string }[]; // Depot addresses for employees who start from depot
@@ -146,7 +145,7 @@ const noteSchema = z.object({
 export function ItemModal({ open, onOpenChange, onSubmit, type, initialData, employees, employeeAbsences, vehicles, items, crews, depots, colorLabels, onColorLabelUpdate, isReadOnly = false, onMoveDate }: ItemModalProps) {
   // We conditionally render different forms based on type
   if (type === 'job') {
-    return <SiteForm open={open} onOpenChange={onOpenChange} onSubmit={onSubmit} initialData={initialData} employees={employees} depots={depots} crews={crews} colorLabels={colorLabels} onColorLabelUpdate={onColorLabelUpdate} isReadOnly={isReadOnly} onMoveDate={onMoveDate} items={items} />;
+    return <SiteForm open={open} onOpenChange={onOpenChange} onSubmit={onSubmit} initialData={initialData} employees={employees} depots={depots} crews={crews} colorLabels={colorLabels} onColorLabelUpdate={onColorLabelUpdate} isReadOnly={isReadOnly} onMoveDate={onMoveDate} items={items} vehicles={vehicles} />;
   }
   if (type === 'note') {
       return <NoteForm open={open} onOpenChange={onOpenChange} onSubmit={onSubmit} initialData={initialData} />;
@@ -157,7 +156,7 @@ export function ItemModal({ open, onOpenChange, onSubmit, type, initialData, emp
 // ------------------- NOTE FORM -------------------
 
 function NoteForm({ open, onOpenChange, onSubmit, initialData }: any) {
-    const [applyPeriod, setApplyPeriod] = useState<'none' | 'week' | 'month' | '6months' | '12months'>('none');
+    const [seriesOptions, setSeriesOptions] = useState<SeriesSubmitOptions>({});
     const form = useForm({
         resolver: zodResolver(noteSchema),
         defaultValues: {
@@ -167,7 +166,7 @@ function NoteForm({ open, onOpenChange, onSubmit, initialData }: any) {
 
     useEffect(() => {
         if (open) {
-            setApplyPeriod('none');
+            setSeriesOptions({});
             form.reset({
                 noteContent: initialData?.noteContent || "",
             });
@@ -184,7 +183,7 @@ function NoteForm({ open, onOpenChange, onSubmit, initialData }: any) {
                         {initialData ? "Edit Note" : "Add Note"}
                     </DialogTitle>
                 </DialogHeader>
-                <form onSubmit={form.handleSubmit((data) => { onSubmit(data, applyPeriod); onOpenChange(false); form.reset(); })} className="space-y-4 mt-4">
+                <form onSubmit={form.handleSubmit((data) => { onSubmit(data, 'none', seriesOptions); onOpenChange(false); form.reset(); })} className="space-y-4 mt-4">
                     <div className="space-y-2">
                         <Label>Note Content</Label>
                         <Textarea 
@@ -194,52 +193,23 @@ function NoteForm({ open, onOpenChange, onSubmit, initialData }: any) {
                         />
                     </div>
 
+                    <ItemHistory itemId={initialData?.id} />
+
                     <DialogFooter className="flex items-center justify-between sm:justify-between gap-4">
-                        <div className="flex flex-col gap-2">
-                            <div className="text-xs font-medium text-slate-600 mb-1">Apply to:</div>
-                            <div className="flex flex-wrap gap-3">
-                                <div className="flex items-center space-x-1.5">
-                                    <Checkbox 
-                                        id="applyWeekNote" 
-                                        checked={applyPeriod === 'week'} 
-                                        onCheckedChange={(c) => setApplyPeriod(c ? 'week' : 'none')} 
-                                    />
-                                    <label htmlFor="applyWeekNote" className="text-sm font-medium leading-none cursor-pointer">
-                                        Remainder of Week
-                                    </label>
-                                </div>
-                                <div className="flex items-center space-x-1.5">
-                                    <Checkbox 
-                                        id="applyMonthNote" 
-                                        checked={applyPeriod === 'month'} 
-                                        onCheckedChange={(c) => setApplyPeriod(c ? 'month' : 'none')} 
-                                    />
-                                    <label htmlFor="applyMonthNote" className="text-sm font-medium leading-none cursor-pointer">
-                                        Month
-                                    </label>
-                                </div>
-                                <div className="flex items-center space-x-1.5">
-                                    <Checkbox 
-                                        id="apply6MonthsNote" 
-                                        checked={applyPeriod === '6months'} 
-                                        onCheckedChange={(c) => setApplyPeriod(c ? '6months' : 'none')} 
-                                    />
-                                    <label htmlFor="apply6MonthsNote" className="text-sm font-medium leading-none cursor-pointer">
-                                        6 Months
-                                    </label>
-                                </div>
-                                <div className="flex items-center space-x-1.5">
-                                    <Checkbox 
-                                        id="apply12MonthsNote" 
-                                        checked={applyPeriod === '12months'} 
-                                        onCheckedChange={(c) => setApplyPeriod(c ? '12months' : 'none')} 
-                                    />
-                                    <label htmlFor="apply12MonthsNote" className="text-sm font-medium leading-none cursor-pointer">
-                                        12 Months
-                                    </label>
-                                </div>
-                            </div>
-                        </div>
+                        {initialData?.seriesId ? (
+                            <SeriesScopeField
+                                seriesId={initialData.seriesId}
+                                value={seriesOptions.scope ?? 'this'}
+                                onChange={(scope) => setSeriesOptions({ scope })}
+                            />
+                        ) : (
+                            <RepeatFields
+                                id="repeatNote"
+                                value={seriesOptions.repeat ?? null}
+                                onChange={(repeat) => setSeriesOptions({ repeat })}
+                                date={initialData?.date}
+                            />
+                        )}
                         <div className="flex gap-2">
                             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
                             <Button type="submit" className="bg-red-600 hover:bg-red-700 text-white">Save Note</Button>
@@ -253,8 +223,9 @@ function NoteForm({ open, onOpenChange, onSubmit, initialData }: any) {
 
 // ------------------- SITE FORM -------------------
 
-function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], depots = [], crews = [], colorLabels, onColorLabelUpdate, isReadOnly = false, onMoveDate, items = [] }: any) {
+function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], depots = [], crews = [], colorLabels, onColorLabelUpdate, isReadOnly = false, onMoveDate, items = [], vehicles = [] }: any) {
   const [applyPeriod, setApplyPeriod] = useState<'none' | 'week' | 'month' | '6months' | '12months'>('none');
+  const [seriesOptions, setSeriesOptions] = useState<SeriesSubmitOptions>({});
   const [moveDateOpen, setMoveDateOpen] = useState(false);
   const [newDate, setNewDate] = useState<Date | undefined>(undefined);
   const [moveGroupDialogOpen, setMoveGroupDialogOpen] = useState(false);
@@ -297,6 +268,23 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
     return 'day';
   };
 
+  // Speed profile for the crew's vehicles that day (an HGV in the crew slows the whole crew)
+  const getCrewVehicleClass = (): VehicleClass => {
+    if (!initialData?.date || !initialData?.crewId || !items) return 'van';
+    const classes = (items as ScheduleItem[])
+      .filter((item) =>
+        (item.type === 'operative' || item.type === 'assistant') &&
+        item.crewId === initialData.crewId &&
+        item.vehicleId &&
+        isSameDay(new Date(item.date), new Date(initialData.date))
+      )
+      .map((item) => {
+        const vehicle = (vehicles as { id: string; vehicleType?: string }[]).find((v) => v.id === item.vehicleId);
+        return getVehicleClass(vehicle?.vehicleType);
+      });
+    return classes.includes('hgv') ? 'hgv' : 'van';
+  };
+
   // Calculate start time based on employee location and job address
   const calculateStartTimeFromLocation = (address: string, employeeId?: string, crewId?: string): string => {
     const shift = getCrewShift();
@@ -384,7 +372,8 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
         defaultStart,
         startLocation,
         address,
-        settings.preStartBufferMinutes
+        settings.preStartBufferMinutes,
+        getCrewVehicleClass()
       );
     }
 
@@ -420,6 +409,8 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
       onsiteTime: initialData?.onsiteTime || "09:00",
       duration: initialData?.duration?.toString() || "8",
       color: initialData?.color || "blue",
+      customerId: initialData?.customerId ?? null,
+      siteId: initialData?.siteId ?? null,
     },
   });
 
@@ -427,6 +418,7 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
   useEffect(() => {
     if (open) {
         setApplyPeriod('none');
+        setSeriesOptions({});
         const isFree = initialData?.jobStatus === 'free' || initialData?.customer === 'Free';
         form.reset({
             customer: isFree ? "" : (initialData?.customer || ""),
@@ -437,10 +429,12 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
             onsiteTime: initialData?.onsiteTime || "09:00",
             duration: initialData?.duration?.toString() || "8",
             color: initialData?.color || "blue",
+            customerId: isFree ? null : (initialData?.customerId ?? null),
+            siteId: isFree ? null : (initialData?.siteId ?? null),
         });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [initialData?.customer, initialData?.jobNumber, initialData?.address, initialData?.projectManager, initialData?.startTime, initialData?.onsiteTime, initialData?.duration, initialData?.color, initialData?.jobStatus, open]);
+  }, [initialData?.customer, initialData?.customerId, initialData?.siteId, initialData?.jobNumber, initialData?.address, initialData?.projectManager, initialData?.startTime, initialData?.onsiteTime, initialData?.duration, initialData?.color, initialData?.jobStatus, open]);
 
   const selectedColor = form.watch("color");
   const watchedAddress = form.watch("address");
@@ -513,7 +507,8 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
             newOnsiteTime = calculateOnsiteTime(
               newStartTime,
               foundPreviousJob.address,
-              watchedAddress
+              watchedAddress,
+              getCrewVehicleClass()
             );
           } else if (sortedJobs.length > 0) {
             // Use the latest job even if times don't match exactly (might be approximate)
@@ -522,7 +517,8 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
               newOnsiteTime = calculateOnsiteTime(
                 newStartTime,
                 latestJob.address,
-                watchedAddress
+                watchedAddress,
+                getCrewVehicleClass()
               );
             } else {
               // Previous job has no address, use default
@@ -634,27 +630,8 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
       // Note: we intentionally do NOT delete the label itself – this just hides the flag.
   };
 
-  // --- Autocomplete State ---
-  const [openClient, setOpenClient] = useState(false);
-  const [openAddress, setOpenAddress] = useState(false);
-
-  // --- Persistent Client Memory (local suggestions) ---
-  const [clientHistory, setClientHistory] = useState<string[]>([]);
-
-  useEffect(() => {
-    if (typeof window === "undefined") return;
-    try {
-      const saved = localStorage.getItem("scheduler_clients");
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          setClientHistory(parsed);
-        }
-      }
-    } catch (err) {
-      console.error("Failed to load client history", err);
-    }
-  }, []);
+  // --- Customer directory ---
+  const { customers, sites, mutations: directory } = useCustomerDirectory();
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -681,30 +658,26 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
                 ...data, 
                 jobStatus: 'free',
                 customer: 'Free',
-                address: 'Free'
+                address: 'Free',
+                customerId: null,
+                siteId: null
               };
             } else {
               submitData = data;
             }
 
-            // Persist customer into active memory list (for autocomplete)
-            try {
-              if (typeof window !== "undefined") {
-                const rawName = (submitData.customer || "").trim();
-                if (rawName && rawName !== "Free") {
-                  setClientHistory((prev) => {
-                    if (prev.includes(rawName)) return prev;
-                    const next = [...prev, rawName].sort((a, b) => a.localeCompare(b));
-                    localStorage.setItem("scheduler_clients", JSON.stringify(next));
-                    return next;
-                  });
-                }
+            // A customer typed rather than picked is linked if the directory has it, otherwise added to it
+            const rawName = (submitData.customer || "").trim();
+            if (rawName && rawName !== "Free" && !submitData.customerId) {
+              const known = findCustomerByName(customers, rawName);
+              if (known) {
+                submitData = { ...submitData, customerId: known.id };
+              } else {
+                directory.createCustomer.mutate({ name: rawName });
               }
-            } catch (err) {
-              console.error("Failed to save client to history", err);
             }
 
-            onSubmit(submitData, applyPeriod); 
+            onSubmit(submitData, applyPeriod, seriesOptions); 
             onOpenChange(false); 
             form.reset(); 
         })} className="space-y-6 mt-4">
@@ -876,92 +849,20 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
                 {/* Customer Autocomplete */}
                 <div className="space-y-2 col-span-2">
                     <Label>Customer / Project</Label>
-                    <Popover open={openClient} onOpenChange={setOpenClient}>
-                        <PopoverTrigger asChild>
-                            <Button
-                                variant="outline"
-                                role="combobox"
-                                aria-expanded={openClient}
-                                disabled={isPastItem}
-                                className="w-full justify-between font-normal text-slate-900 border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
-                            >
-                                {form.watch("customer") || "Select or type customer..."}
-                                <Briefcase className="ml-2 h-4 w-4 shrink-0 opacity-60" />
-                            </Button>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-[400px] p-0 bg-white" align="start">
-                            <div className="flex items-center border-b px-3 bg-white">
-                                <Search className="mr-2 h-4 w-4 shrink-0 opacity-60" />
-                                <input
-                                    className="flex h-11 w-full rounded-md bg-white py-3 text-sm outline-none text-slate-900 placeholder:text-slate-400 disabled:cursor-not-allowed disabled:opacity-50 border-0"
-                                    placeholder="Search or type customer..."
-                                    value={form.watch("customer")}
-                                    onChange={(e) => form.setValue("customer", e.target.value)}
-                                    disabled={isPastItem}
-                                    onKeyDown={(e) => {
-                                        if (e.key === 'Enter') {
-                                            e.preventDefault();
-                                            setOpenClient(false);
-                                        }
-                                    }}
-                                />
-                            </div>
-                            <div className="max-h-[300px] overflow-y-auto overflow-x-hidden">
-                                {(() => {
-                                    const term = (form.watch("customer") || "").toLowerCase();
-                                    const source = clientHistory;
-                                    const filtered = source.filter(client =>
-                                        client.toLowerCase().includes(term)
-                                    );
-
-                                    if (source.length === 0) {
-                                        return (
-                                            <div className="py-6 text-center text-sm text-slate-500">
-                                                No saved clients yet. Type a name and save a job to remember it.
-                                            </div>
-                                        );
-                                    }
-
-                                    if (filtered.length === 0) {
-                                        return (
-                                            <div className="py-6 text-center text-sm text-slate-500">
-                                                No matching client. Continue typing to add a new one.
-                                            </div>
-                                        );
-                                    }
-
-                                    return (
-                                        <div className="overflow-hidden p-1 text-foreground bg-white">
-                                            <div className="px-2 py-1.5 text-xs font-medium text-slate-500 bg-white">
-                                                Recent clients
-                                            </div>
-                                            {filtered.map((client) => (
-                                                <div
-                                                    key={client}
-                                                    onClick={() => {
-                                                        form.setValue("customer", client);
-                                                        setOpenClient(false);
-                                                    }}
-                                                    className={cn(
-                                                        "relative flex cursor-pointer select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-slate-100 hover:text-slate-900 bg-white",
-                                                        form.watch("customer") === client && "bg-slate-100"
-                                                    )}
-                                                >
-                                                    <Check
-                                                        className={cn(
-                                                            "mr-2 h-4 w-4",
-                                                            form.watch("customer") === client ? "opacity-100" : "opacity-0"
-                                                        )}
-                                                    />
-                                                    <span className="text-slate-900">{client}</span>
-                                                </div>
-                                            ))}
-                                        </div>
-                                    );
-                                })()}
-                            </div>
-                        </PopoverContent>
-                    </Popover>
+                    <CustomerPicker
+                        value={form.watch("customer") || ""}
+                        customerId={form.watch("customerId")}
+                        disabled={isPastItem}
+                        onChange={(name, customer) => {
+                            form.setValue("customer", name);
+                            form.setValue("customerId", customer?.id ?? null);
+                            // Keep the site only if it's this customer's (or nobody's)
+                            const site = sites.find((s) => s.id === form.getValues("siteId"));
+                            if (site?.customerId && site.customerId !== customer?.id) {
+                                form.setValue("siteId", null);
+                            }
+                        }}
+                    />
                 </div>
 
                 <div className="space-y-2">
@@ -992,80 +893,39 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
                 {/* Address Autocomplete */}
                 <div className="space-y-2 col-span-2">
                     <Label>Address</Label>
-                    <Popover open={openAddress} onOpenChange={setOpenAddress}>
-                        <PopoverTrigger asChild>
-                             <Button
-                                variant="outline"
-                                role="combobox"
-                                aria-expanded={openAddress}
-                                disabled={isPastItem}
-                                className="w-full justify-between font-normal text-slate-900 border-slate-200 bg-white hover:bg-slate-50 h-auto min-h-[80px] items-start p-3 whitespace-normal text-left disabled:opacity-50 disabled:cursor-not-allowed"
-                            >
-                                {form.watch("address") || "Search address..."}
-                                <MapPin className="ml-2 h-4 w-4 shrink-0 opacity-50 mt-0.5" />
-                            </Button>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-[400px] p-0 bg-white" align="start">
-                            <div className="flex items-center border-b px-3 bg-white">
-                                <Search className="mr-2 h-4 w-4 shrink-0 opacity-50" />
-                                <input
-                                    className="flex h-11 w-full rounded-md bg-white py-3 text-sm outline-none text-slate-900 placeholder:text-slate-400 disabled:cursor-not-allowed disabled:opacity-50 border-0"
-                                    placeholder="Search address (Google Maps)..."
-                                    value={form.watch("address")}
-                                    onChange={(e) => form.setValue("address", e.target.value)}
-                                    disabled={isPastItem}
-                                    onKeyDown={(e) => {
-                                        if (e.key === 'Enter') {
-                                            e.preventDefault();
-                                            setOpenAddress(false);
-                                        }
-                                    }}
-                                />
-                            </div>
-                            <div className="max-h-[300px] overflow-y-auto overflow-x-hidden">
-                                {(() => {
-                                    const filtered = MOCK_ADDRESSES.filter(addr => 
-                                        addr.toLowerCase().includes((form.watch("address") || "").toLowerCase())
-                                    );
-                                    
-                                    if (filtered.length === 0) {
-                                        return <div className="py-6 text-center text-sm text-slate-500">No address found. Type to add manually.</div>;
-                                    }
-
-                                    return (
-                                        <div className="overflow-hidden p-1 text-foreground bg-white">
-                                            <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground bg-white">Google Maps Suggestions</div>
-                                            {filtered.map((address) => (
-                                                <div
-                                                    key={address}
-                                                    onClick={() => {
-                                                        form.setValue("address", address);
-                                                        setOpenAddress(false);
-                                                    }}
-                                                    className={cn(
-                                                        "relative flex cursor-pointer select-none items-center rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-slate-100 hover:text-slate-900 bg-white",
-                                                        form.watch("address") === address && "bg-slate-100"
-                                                    )}
-                                                >
-                                                    <MapPin className="mr-2 h-4 w-4 opacity-50" />
-                                                    {address}
-                                                </div>
-                                            ))}
-                                        </div>
-                                    );
-                                })()}
-                            </div>
-                        </PopoverContent>
-                    </Popover>
-                    <div className="text-[10px] text-slate-400 text-right">
-                        Powered by Google Maps (Simulation)
-                    </div>
+                    <SitePicker
+                        value={form.watch("address") || ""}
+                        siteId={form.watch("siteId")}
+                        customerId={form.watch("customerId")}
+                        disabled={isPastItem}
+                        onChange={(address, site) => {
+                            // The address carries the site's postcode, which the start time recalculation reads
+                            form.setValue("address", address);
+                            form.setValue("siteId", site?.id ?? null);
+                            if (site?.customerId && !form.getValues("customerId")) {
+                                const owner = customers.find((c) => c.id === site.customerId);
+                                if (owner) {
+                                    form.setValue("customer", owner.name);
+                                    form.setValue("customerId", owner.id);
+                                }
+                            }
+                        }}
+                    />
                 </div>
             </div>
             )}
 
+            <ItemHistory itemId={initialData?.id} />
+
             <DialogFooter className="flex items-center justify-between sm:justify-between gap-4">
-                {!isReadOnlyPastJob && (
+                {!isReadOnlyPastJob && (initialData?.seriesId ? (
+                    <SeriesScopeField
+                        seriesId={initialData.seriesId}
+                        value={seriesOptions.scope ?? 'this'}
+                        onChange={(scope) => setSeriesOptions({ scope })}
+                    />
+                ) : isFreeJob ? (
+                    // Converting a Free slot fills this person's other Free slots rather than repeating
                     <div className="flex flex-col gap-2">
                         <div className="text-xs font-medium text-slate-600 mb-1">Apply to:</div>
                         <div className="flex flex-wrap gap-3">
@@ -1115,7 +975,15 @@ function SiteForm({ open, onOpenChange, onSubmit, initialData, employees = [], d
                             </div>
                         </div>
                     </div>
-                )}
+                ) : (
+                    <RepeatFields
+                        id="repeatSite"
+                        value={seriesOptions.repeat ?? null}
+                        onChange={(repeat) => setSeriesOptions({ repeat })}
+                        date={initialData?.date}
+                        disabled={isPastItem}
+                    />
+                ))}
                 <div className="flex gap-2">
                     {!isReadOnlyPastJob && initialData?.id && (
                         <Button 
@@ -1301,7 +1169,8 @@ function OperativeForm({ open, onOpenChange, onSubmit, type, initialData, employ
 
   // Check for conflicts
   const targetDate = initialData?.date ? new Date(initialData.date) : new Date();
-  const targetDay = startOfDay(targetDate);
+  const toLocalDay = (d: Date | string) => format(startOfDay(new Date(d)), "yyyy-MM-dd");
+  const targetDayKey = toLocalDay(targetDate);
   
   // Get valid crew IDs set for efficient lookup
   const validCrewIds = crews ? new Set(crews.map((c: any) => c.id)) : null;
@@ -1389,16 +1258,9 @@ function OperativeForm({ open, onOpenChange, onSubmit, type, initialData, employ
                                         .sort((a: any, b: any) => a.name.localeCompare(b.name))
                                         .map((e: any) => {
                                         const isAssigned = assignedEmployeeIds.includes(e.id);
-                                        const isOnHoliday = (employeeAbsences as any[])
-                                          .filter((a) => a && a.employeeId === e.id && a.absenceType === "holiday")
-                                          .some((a) => {
-                                            const start = startOfDay(new Date(a.startDate));
-                                            const end = startOfDay(new Date(a.endDate));
-                                            return (
-                                              (isSameDay(targetDay, start) || isAfter(targetDay, start)) &&
-                                              (isSameDay(targetDay, end) || isBefore(targetDay, end))
-                                            );
-                                          });
+                                        // Any whole day off makes them unavailable; half days are shown but still selectable
+                                        const absence = findAbsenceOnDay(employeeAbsences, e.id, targetDayKey, toLocalDay);
+                                        const isOnHoliday = !!absence && !isHalfDay(absence);
                                         const isUnavailable = e.status !== 'active' || isOnHoliday;
                                         const isDisabled = isAssigned || isUnavailable;
                                         return (
@@ -1423,7 +1285,12 @@ function OperativeForm({ open, onOpenChange, onSubmit, type, initialData, employ
                                                       <div className="flex items-center gap-2 text-xs text-slate-500">
                                                         {isUnavailable && (
                                                           <span className="text-red-500 font-semibold">
-                                                            {isOnHoliday ? "holiday" : e.status}
+                                                            {isOnHoliday ? describeAbsence(absence) : e.status}
+                                                          </span>
+                                                        )}
+                                                        {!isUnavailable && absence && (
+                                                          <span className="text-amber-600 font-semibold">
+                                                            {describeAbsence(absence)}
                                                           </span>
                                                         )}
                                                         {isAssigned && (
@@ -1537,6 +1404,8 @@ function OperativeForm({ open, onOpenChange, onSubmit, type, initialData, employ
                 )}
             </div>
 
+            <ItemHistory itemId={initialData?.id} />
+
             <DialogFooter className="flex items-center justify-between sm:justify-between gap-4">
                 <div className="flex flex-col gap-2">
                     <div className="text-xs font-medium text-slate-600 mb-1">Apply to:</div>
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChevronLeft, ChevronRight, Palmtree } from "lucide-react";
+import { useLeaveBalances } from "@/hooks/useScheduleData";
+import { addDaysToKey } from "@/lib/scheduleDates";
+import { formatLeaveDays, formatLeaveYear, type LeaveBalance } from "@/lib/leaveAllowance";
+import type { LeaveAllowanceInput } from "@/lib/api";
+
+interface LeaveAllowanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string | null;
+  employeeName: string;
+}
+
+/**
+ * An employee's holiday allowance for a leave year: entitlement, carry-over, and the
+ * holiday taken and booked against it. Admins can change the entitlement and carry-over.
+ */
+export function LeaveAllowanceDialog({ open, onOpenChange, employeeId, employeeName }: LeaveAllowanceDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px] bg-white text-slate-900">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Palmtree className="w-5 h-5 text-emerald-600" />
+            Holiday Allowance – {employeeName}
+          </DialogTitle>
+        </DialogHeader>
+        {employeeId && <LeaveAllowancePanel employeeId={employeeId} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LeaveAllowancePanel({ employeeId, onDone }: { employeeId: string; onDone: () => void }) {
+  // Any day in the leave year being shown; the current year until the user moves
+  const [date, setDate] = useState<string | undefined>(undefined);
+  const { leaveYear, balances, isLoading, mutations } = useLeaveBalances(date);
+  const balance = balances.find((b) => b.employeeId === employeeId);
+
+  return (
+    <>
+      <div className="flex items-center justify-between mt-2">
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Previous leave year"
+          disabled={!leaveYear}
+          onClick={() => leaveYear && setDate(addDaysToKey(leaveYear.start, -1))}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-sm font-medium text-slate-700">
+          {leaveYear ? formatLeaveYear(leaveYear) : "Loading…"}
+        </span>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Next leave year"
+          disabled={!leaveYear}
+          onClick={() => leaveYear && setDate(addDaysToKey(leaveYear.end, 1))}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {balance ? (
+        <LeaveAllowanceForm
+          key={balance.leaveYear.start}
+          balance={balance}
+          isSaving={mutations.updateAllowance.isPending}
+          onSave={(input) => mutations.updateAllowance.mutateAsync({ employeeId, input })}
+          onDone={onDone}
+        />
+      ) : (
+        <div className="py-6 text-center text-sm text-slate-500">
+          {isLoading ? "Loading allowance…" : "No allowance found for this employee."}
+        </div>
+      )}
+    </>
+  );
+}
+
+function LeaveAllowanceForm({
+  balance,
+  isSaving,
+  onSave,
+  onDone,
+}: {
+  balance: LeaveBalance;
+  isSaving: boolean;
+  onSave: (input: LeaveAllowanceInput) => Promise<unknown>;
+  onDone: () => void;
+}) {
+  const [entitlement, setEntitlement] = useState(String(balance.entitlementDays));
+  // Empty means "work it out from last year"
+  const [carryOver, setCarryOver] = useState(balance.carryOverIsManual ? String(balance.carryOverDays) : "");
+  const [error, setError] = useState<string | null>(null);
+
+  const parseDays = (value: string) => {
+    const days = Number(value);
+    return Number.isFinite(days) && days >= 0 && Number.isInteger(days * 2) ? days : null;
+  };
+
+  const handleSave = async () => {
+    const entitlementDays = parseDays(entitlement);
+    const carryOverDays = carryOver.trim() ? parseDays(carryOver) : null;
+    if (entitlementDays === null || (carryOver.trim() && carryOverDays === null)) {
+      setError("Enter whole or half days.");
+      return;
+    }
+
+    try {
+      await onSave({
+        leaveYearStart: balance.leaveYear.start,
+        // Only pin the entitlement for this year when it was changed
+        ...(entitlementDays !== balance.entitlementDays ? { entitlementDays } : {}),
+        carryOverDays,
+      });
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    }
+  };
+
+  const rows: Array<[string, number]> = [
+    ["Entitlement", balance.entitlementDays],
+    ["Carried over", balance.carryOverDays],
+    ["Taken", -balance.takenDays],
+    ["Booked", -balance.bookedDays],
+  ];
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="border border-slate-200 rounded-md divide-y divide-slate-100 text-sm">
+          {rows.map(([label, days]) => (
+            <div key={label} className="flex justify-between px-3 py-1.5">
+              <span className="text-slate-600">{label}</span>
+              <span className="text-slate-900">{formatLeaveDays(days)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between px-3 py-1.5 font-semibold">
+            <span>Remaining</span>
+            <span className={balance.remainingDays < 0 ? "text-red-600" : "text-emerald-700"}>
+              {formatLeaveDays(balance.remainingDays)}
+            </span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="leave-entitlement" className="text-xs text-slate-700 uppercase tracking-wide">
+              Entitlement (days)
+            </Label>
+            <Input
+              id="leave-entitlement"
+              type="number"
+              min={0}
+              step={0.5}
+              value={entitlement}
+              onChange={(e) => setEntitlement(e.target.value)}
+              className="h-8 text-sm"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="leave-carry-over" className="text-xs text-slate-700 uppercase tracking-wide">
+              Carry-over (days)
+            </Label>
+            <Input
+              id="leave-carry-over"
+              type="number"
+              min={0}
+              step={0.5}
+              value={carryOver}
+              placeholder={balance.carryOverIsManual ? "Auto" : `Auto (${balance.carryOverDays})`}
+              onChange={(e) => setCarryOver(e.target.value)}
+              className="h-8 text-sm"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-slate-500">
+          Leave carry-over empty to carry unused days from last year automatically, up to the organization limit.
+        </p>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+      </div>
+
+      <DialogFooter className="mt-4">
+        <Button variant="outline" className="border-slate-300 text-slate-700 hover:bg-slate-50" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+          disabled={isSaving}
+          onClick={handleSave}
+        >
+          Save
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
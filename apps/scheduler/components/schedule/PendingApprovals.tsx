@@ -6,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Check, X, Loader2, Calendar, MapPin, User, Clock, AlertCircle } from "lucide-react";
+import { Check, X, Loader2, Calendar, MapPin, User, Clock, AlertCircle, ShieldCheck } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   usePendingScheduleItems,
@@ -14,6 +14,9 @@ import {
   useRejectScheduleItem,
   type PendingScheduleItem,
 } from "@/hooks/useOrganization";
+import { APPROVAL_STEP_LABELS } from "@/lib/approvalPolicy";
+
+const isLastStep = (item: PendingScheduleItem) => item.approval.currentStep >= item.approval.steps.length - 1;
 
 export function PendingApprovals() {
   const { toast } = useToast();
@@ -28,8 +31,10 @@ export function PendingApprovals() {
     try {
       await approveMutation.mutateAsync(item.id);
       toast({
-        title: "Booking approved",
-        description: `The booking for ${item.customer || "Unknown customer"} has been approved.`,
+        title: isLastStep(item) ? "Booking approved" : "Step approved",
+        description: isLastStep(item)
+          ? `The booking for ${item.customer || "Unknown customer"} has been approved.`
+          : `The booking for ${item.customer || "Unknown customer"} now needs ${APPROVAL_STEP_LABELS[item.approval.steps[item.approval.currentStep + 1]].toLowerCase()} approval.`,
       });
     } catch (error: any) {
       toast({
@@ -103,7 +108,7 @@ export function PendingApprovals() {
             Pending Approvals
           </h2>
           <p className="text-muted-foreground">
-            {pendingItems.length} booking{pendingItems.length !== 1 ? "s" : ""} awaiting your review
+            {pendingItems.length} booking{pendingItems.length !== 1 ? "s" : ""} awaiting approval
           </p>
         </div>
       </div>
@@ -150,38 +155,60 @@ export function PendingApprovals() {
                       <span className="font-medium">Notes:</span> {item.notes}
                     </div>
                   )}
-                </div>
 
-                <div className="flex gap-2 ml-4">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    className="border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
-                    onClick={() => {
-                      setRejectingItem(item);
-                      setRejectionReason("");
-                    }}
-                    disabled={rejectMutation.isPending}
-                    data-testid={`button-reject-${item.id}`}
-                  >
-                    <X className="h-4 w-4 mr-1" />
-                    Reject
-                  </Button>
-                  <Button
-                    size="sm"
-                    className="bg-green-600 hover:bg-green-700"
-                    onClick={() => handleApprove(item)}
-                    disabled={approveMutation.isPending}
-                    data-testid={`button-approve-${item.id}`}
-                  >
-                    {approveMutation.isPending ? (
-                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                    ) : (
-                      <Check className="h-4 w-4 mr-1" />
-                    )}
-                    Approve
-                  </Button>
+                  <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2 text-sm space-y-1" data-testid={`approval-rule-${item.id}`}>
+                    <div className="flex items-center gap-2">
+                      <ShieldCheck className="h-4 w-4 text-purple-600" />
+                      <span className="font-medium">{item.approval.ruleName}</span>
+                      <span className="text-muted-foreground">· {item.approval.reason}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {item.approval.steps.length > 1
+                        ? `Step ${item.approval.currentStep + 1} of ${item.approval.steps.length}: waiting for ${item.approval.waitingFor}`
+                        : `Waiting for ${item.approval.waitingFor}`}
+                    </div>
+                    {item.approval.decisions.map((decision) => (
+                      <div key={decision.step} className="flex items-center gap-2 text-green-700">
+                        <Check className="h-3 w-3" />
+                        {APPROVAL_STEP_LABELS[decision.step]} approved by {decision.userName}
+                      </div>
+                    ))}
+                  </div>
                 </div>
+
+                {item.canDecide && (
+                  <div className="flex gap-2 ml-4">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="border-red-200 text-red-600 hover:bg-red-50 hover:text-red-700"
+                      onClick={() => {
+                        setRejectingItem(item);
+                        setRejectionReason("");
+                      }}
+                      disabled={rejectMutation.isPending}
+                      data-testid={`button-reject-${item.id}`}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700"
+                      onClick={() => handleApprove(item)}
+                      disabled={approveMutation.isPending}
+                      data-testid={`button-approve-${item.id}`}
+                    >
+                      {approveMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <Check className="h-4 w-4 mr-1" />
+                      )}
+                      {isLastStep(item) ? "Approve" : "Approve step"}
+                    </Button>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
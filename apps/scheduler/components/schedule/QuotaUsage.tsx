@@ -1,16 +1,25 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Building2, Users, Truck, Loader2, ArrowUpCircle, Crown } from "lucide-react";
-import { useQuota, getPlanDisplayName } from "@/hooks/useOrganization";
+import { Building2, Users, Truck, Loader2, ArrowUpCircle, Crown, UserPlus, HardHat } from "lucide-react";
+import { useEntitlementUsage } from "@/hooks/useOrganization";
 import { useUpgrade } from "@/hooks/useUpgrade";
+import { LIMIT_KEYS, LIMIT_LABELS, type LimitKey } from "@/lib/entitlements";
+
+const LIMIT_ICONS: Record<LimitKey, typeof Users> = {
+  depots: Building2,
+  crews: HardHat,
+  employees: Users,
+  vehicles: Truck,
+  members: UserPlus,
+};
 
 interface QuotaUsageProps {
   onUpgrade?: () => void;
 }
 
 export function QuotaUsage({ onUpgrade }: QuotaUsageProps) {
-  const { data: quota, isLoading } = useQuota();
+  const { data: quota, isLoading } = useEntitlementUsage();
   const { handleUpgrade, loading: upgradeLoading } = useUpgrade();
   
   // Use provided onUpgrade or default to handleUpgrade
@@ -42,32 +51,15 @@ export function QuotaUsage({ onUpgrade }: QuotaUsageProps) {
     return "bg-green-500";
   };
 
-  const usageItems = [
-    {
-      label: "Depots",
-      icon: Building2,
-      used: quota.usage.depots.used,
-      limit: quota.usage.depots.limit,
-    },
-    {
-      label: "Crews",
-      icon: Users,
-      used: quota.usage.crews.used,
-      limit: quota.usage.crews.limit,
-    },
-    {
-      label: "Employees",
-      icon: Users,
-      used: quota.usage.employees.used,
-      limit: quota.usage.employees.limit,
-    },
-    {
-      label: "Vehicles",
-      icon: Truck,
-      used: quota.usage.vehicles.used,
-      limit: quota.usage.vehicles.limit,
-    },
-  ];
+  const usageItems = LIMIT_KEYS.map((key) => ({
+    key,
+    label: LIMIT_LABELS[key].plural.replace(/^\w/, (c) => c.toUpperCase()),
+    icon: LIMIT_ICONS[key],
+    used: quota.usage[key].used,
+    // null = unlimited
+    limit: quota.usage[key].limit,
+    overridden: quota.overridden.includes(key),
+  }));
 
   return (
     <Card data-testid="quota-usage-card">
@@ -76,10 +68,15 @@ export function QuotaUsage({ onUpgrade }: QuotaUsageProps) {
           <div>
             <CardTitle className="flex items-center gap-2">
               <Crown className="h-5 w-5 text-amber-500" />
-              {getPlanDisplayName(quota.plan)} Plan
+              {quota.planName} Plan
+              {quota.overridden.length > 0 && (
+                <Badge variant="secondary" className="text-xs" title={quota.note ?? undefined}>
+                  Custom
+                </Badge>
+              )}
             </CardTitle>
             <CardDescription>
-              {quota.requiresApproval ? "Bookings require approval" : "Bookings auto-approved"}
+              {quota.features.approvalWorkflow ? "Bookings require approval" : "Bookings auto-approved"}
             </CardDescription>
           </div>
           {quota.plan === "starter" && (
@@ -107,19 +104,19 @@ export function QuotaUsage({ onUpgrade }: QuotaUsageProps) {
       <CardContent className="space-y-4">
         {usageItems.map((item) => {
           const Icon = item.icon;
-          const percentage = Math.round((item.used / item.limit) * 100);
-          const isAtLimit = item.used >= item.limit;
+          const percentage = item.limit === null ? 0 : Math.round((item.used / item.limit) * 100);
+          const isAtLimit = item.limit !== null && item.used >= item.limit;
 
           return (
-            <div key={item.label} className="space-y-1" data-testid={`quota-${item.label.toLowerCase()}`}>
+            <div key={item.key} className="space-y-1" data-testid={`quota-${item.label.toLowerCase()}`}>
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center gap-2">
                   <Icon className="h-4 w-4 text-muted-foreground" />
                   <span>{item.label}</span>
                 </div>
-                <div className={`flex items-center gap-2 ${getUsageColor(item.used, item.limit)}`}>
-                  <span className="font-medium">
-                    {item.used} / {item.limit}
+                <div className={`flex items-center gap-2 ${item.limit === null ? "text-green-600" : getUsageColor(item.used, item.limit)}`}>
+                  <span className="font-medium" title={item.overridden ? "Set by your contract" : undefined}>
+                    {item.used} / {item.limit ?? "Unlimited"}
                   </span>
                   {isAtLimit && (
                     <Badge variant="destructive" className="text-xs">
@@ -130,7 +127,7 @@ export function QuotaUsage({ onUpgrade }: QuotaUsageProps) {
               </div>
               <div className="h-2 w-full bg-secondary rounded-full overflow-hidden">
                 <div
-                  className={`h-full transition-all ${getProgressColor(item.used, item.limit)}`}
+                  className={`h-full transition-all ${item.limit === null ? "bg-green-500" : getProgressColor(item.used, item.limit)}`}
                   style={{ width: `${Math.min(percentage, 100)}%` }}
                 />
               </div>
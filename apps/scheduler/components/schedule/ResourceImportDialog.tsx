@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, CheckCircle2, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useResourceImport } from "@/hooks/useScheduleData";
+import {
+  IMPORT_FIELDS,
+  type ImportMapping,
+  type ImportPreview,
+  type ResourceImportKind,
+} from "@/lib/resourceImport";
+
+interface ResourceImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: ResourceImportKind;
+  // Rows without a depot column go here
+  depotId: string;
+  depotName: string;
+}
+
+const NOT_IMPORTED = "none";
+
+// The file's bytes as base64, for the JSON request body
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error ?? new Error("Couldn't read the file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+const display = (value: string | boolean | null | undefined) =>
+  value === true ? "Yes" : value === false ? "No" : value || "—";
+
+/**
+ * Import employees or vehicles from a CSV or XLSX file: upload, check the column mapping,
+ * review every row's problems, then import them all at once.
+ */
+export function ResourceImportDialog({ open, onOpenChange, kind, depotId, depotName }: ResourceImportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[860px] bg-white text-slate-900 max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+            Import {kind} – {depotName}
+          </DialogTitle>
+        </DialogHeader>
+        {open && (
+          <ResourceImportPanel key={kind} kind={kind} depotId={depotId} depotName={depotName} onDone={() => onOpenChange(false)} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ResourceImportPanel({
+  kind,
+  depotId,
+  depotName,
+  onDone,
+}: Pick<ResourceImportDialogProps, "kind" | "depotId" | "depotName"> & { onDone: () => void }) {
+  const importMutation = useResourceImport();
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+
+  const label = kind === "employees" ? "employees" : "vehicles";
+  const fields = IMPORT_FIELDS[kind];
+
+  const runPreview = async (upload: { name: string; content: string }, mapping?: ImportMapping) => {
+    setError(null);
+    try {
+      setPreview(
+        await importMutation.mutateAsync({ kind, fileName: upload.name, content: upload.content, depotId, mapping })
+      );
+    } catch (err) {
+      setPreview(null);
+      setError((err as Error).message || "Couldn't read the file");
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    try {
+      const upload = { name: selected.name, content: await readAsBase64(selected) };
+      setFile(upload);
+      await runPreview(upload);
+    } catch (err) {
+      setError((err as Error).message || "Couldn't read the file");
+    }
+  };
+
+  const handleMappingChange = (fieldKey: string, column: string) => {
+    if (!file || !preview) return;
+    void runPreview(file, { ...preview.mapping, [fieldKey]: column === NOT_IMPORTED ? null : Number(column) });
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    setError(null);
+    try {
+      const result = await importMutation.mutateAsync({
+        kind,
+        fileName: file.name,
+        content: file.content,
+        depotId,
+        mapping: preview.mapping,
+        commit: true,
+      });
+      setImported(result.created ?? 0);
+    } catch (err) {
+      setError((err as Error).message || "Import failed");
+    }
+  };
+
+  const problemRows = preview?.rows.filter((row) => row.errors.length > 0).length ?? 0;
+
+  return (
+    <>
+      {imported !== null ? (
+        <div className="flex flex-col items-center gap-2 py-10 text-center">
+          <CheckCircle2 className="w-10 h-10 text-emerald-600" />
+          <p className="text-sm text-slate-700">
+            Imported {imported} {imported === 1 ? label.slice(0, -1) : label}.
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+          <div className="space-y-1">
+            <Label className="text-sm font-semibold">File</Label>
+            <label className="flex items-center gap-2 rounded-md border border-dashed border-slate-300 px-3 py-3 text-sm text-slate-600 cursor-pointer hover:bg-slate-50">
+              <Upload className="w-4 h-4" />
+              {file ? file.name : "Choose a .csv or .xlsx file (first row = column headings)"}
+              <input
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                onChange={(e) => {
+                  void handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <p className="text-xs text-slate-500">
+              Rows without a depot go to {depotName}.
+              {kind === "vehicles" && " Vehicle types must already exist in settings."}
+            </p>
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-sm font-semibold">Columns</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  {fields.map((field) => (
+                    <div key={field.key} className="flex items-center gap-2">
+                      <span className="w-36 text-xs text-slate-600">
+                        {field.label}
+                        {field.required && <span className="text-red-500"> *</span>}
+                      </span>
+                      <Select
+                        value={preview.mapping[field.key] == null ? NOT_IMPORTED : String(preview.mapping[field.key])}
+                        onValueChange={(value) => handleMappingChange(field.key, value)}
+                        disabled={importMutation.isPending}
+                      >
+                        <SelectTrigger className="h-8 flex-1 bg-white border-slate-300 text-slate-900 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-white text-slate-900">
+                          <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                          {preview.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-semibold">
+                    {preview.rows.length} {preview.rows.length === 1 ? "row" : "rows"}
+                    {problemRows > 0 && <span className="ml-2 text-red-600 font-normal">{problemRows} with problems</span>}
+                  </Label>
+                  {preview.quota && preview.quota.limit !== null && (
+                    <span className={cn("text-xs", preview.quota.allowed ? "text-slate-500" : "text-red-600")}>
+                      {preview.quota.used} of {preview.quota.limit} {label} used
+                    </span>
+                  )}
+                </div>
+                {preview.quota && !preview.quota.allowed && preview.quota.message && (
+                  <div className="rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+                    {preview.quota.message}
+                  </div>
+                )}
+                <div className="overflow-x-auto rounded-md border border-slate-200">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-600">
+                      <tr>
+                        <th className="px-2 py-1.5 text-left font-medium">Row</th>
+                        {fields.map((field) => (
+                          <th key={field.key} className="px-2 py-1.5 text-left font-medium">
+                            {field.label}
+                          </th>
+                        ))}
+                        <th className="px-2 py-1.5 text-left font-medium">Problems</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map((row) => (
+                        <tr
+                          key={row.row}
+                          className={cn("border-t border-slate-100", row.errors.length > 0 && "bg-red-50")}
+                        >
+                          <td className="px-2 py-1 text-slate-500">{row.row}</td>
+                          {fields.map((field) => (
+                            <td key={field.key} className="px-2 py-1 text-slate-800">
+                              {display(row.values[field.key])}
+                            </td>
+                          ))}
+                          <td className="px-2 py-1 text-red-700">{row.errors.join("; ")}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <DialogFooter>
+        {imported !== null ? (
+          <Button onClick={onDone} className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm">
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button variant="outline" onClick={onDone} className="border-slate-300 text-slate-700">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={!preview?.valid || importMutation.isPending}
+              className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+            >
+              {importMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Import {preview?.rows.length ?? 0} {label}
+            </Button>
+          </>
+        )}
+      </DialogFooter>
+    </>
+  );
+}
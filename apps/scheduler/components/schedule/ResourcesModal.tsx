@@ -5,12 +5,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Trash2, Edit, Plus, User, Truck, AlertCircle, Mail, Calendar as CalendarIcon, Settings, Check, X } from "lucide-react";
+import { Trash2, Edit, Plus, User, Truck, AlertCircle, Mail, Calendar as CalendarIcon, Settings, Check, X, Palmtree } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { mergeAndSortVehicleTypes } from "@/lib/vehicleTypes";
+import { VehicleUnavailabilityDialog } from "@/components/schedule/VehicleUnavailabilityDialog";
+import { EmployeeAbsencesDialog } from "@/components/schedule/EmployeeAbsencesDialog";
+import { LeaveAllowanceDialog } from "@/components/schedule/LeaveAllowanceDialog";
+import { useLeaveBalances } from "@/hooks/useScheduleData";
+import { formatLeaveDays, formatLeaveYear, type LeaveBalance } from "@/lib/leaveAllowance";
 
 interface ResourcesModalProps {
     open: boolean;
@@ -132,6 +137,13 @@ export function ResourcesModal({
         employeeId: string | null;
         employeeName: string;
     }>({ open: false, employeeId: null, employeeName: "" });
+    const [leaveModal, setLeaveModal] = useState<{
+        open: boolean;
+        employeeId: string | null;
+        employeeName: string;
+    }>({ open: false, employeeId: null, employeeName: "" });
+    const { leaveYear, balances: leaveBalances } = useLeaveBalances();
+    const leaveBalanceByEmployee = new Map(leaveBalances.map((b) => [b.employeeId, b]));
     const [vehicleOffModal, setVehicleOffModal] = useState<{
         open: boolean;
         vehicleId: string | null;
@@ -270,6 +282,11 @@ export function ResourcesModal({
                                 <Plus className="w-4 h-4 mr-2" /> Add
                             </Button>
                         </div>
+                        {leaveYear && (
+                            <div className="text-xs text-slate-500 flex items-center gap-1">
+                                <Palmtree className="w-3 h-3" /> Holiday allowance for {formatLeaveYear(leaveYear)}
+                            </div>
+                        )}
                         <div className="flex-1 overflow-y-auto border border-slate-200 rounded-md bg-slate-50 divide-y divide-slate-100">
                             {employees
                               .slice()
@@ -357,6 +374,18 @@ export function ResourcesModal({
                                                         {emp.startsFromHome ? "(starts from home)" : "(starts from depot)"}
                                                         </span>
                                                     )}
+                                                    {leaveBalanceByEmployee.has(emp.id) && (
+                                                      <LeaveBalanceChip
+                                                        balance={leaveBalanceByEmployee.get(emp.id)!}
+                                                        onClick={() =>
+                                                          setLeaveModal({
+                                                            open: true,
+                                                            employeeId: emp.id,
+                                                            employeeName: emp.name,
+                                                          })
+                                                        }
+                                                      />
+                                                    )}
                                                 </div>
                                             </div>
                                         </div>
@@ -865,20 +894,31 @@ export function ResourcesModal({
                     </Button>
                 </DialogFooter>
             </DialogContent>
-            {/* Employee Time Off Modal (currently UI-only, wiring to scheduling engine to come) */}
-            <EmployeeTimeOffModal
+            {/* Employee Time Off Modal */}
+            <EmployeeAbsencesDialog
               open={timeOffModal.open}
               onOpenChange={(open) =>
                 setTimeOffModal((prev) => ({ ...prev, open }))
               }
+              employeeId={timeOffModal.employeeId}
               employeeName={timeOffModal.employeeName}
             />
-            {/* Vehicle Off Road / Maintenance Modal (UI-only for now) */}
-            <VehicleOffRoadModal
+            {/* Holiday Allowance Modal */}
+            <LeaveAllowanceDialog
+              open={leaveModal.open}
+              onOpenChange={(open) =>
+                setLeaveModal((prev) => ({ ...prev, open }))
+              }
+              employeeId={leaveModal.employeeId}
+              employeeName={leaveModal.employeeName}
+            />
+            {/* Vehicle Off Road / Maintenance Modal */}
+            <VehicleUnavailabilityDialog
               open={vehicleOffModal.open}
               onOpenChange={(open) =>
                 setVehicleOffModal((prev) => ({ ...prev, open }))
               }
+              vehicleId={vehicleOffModal.vehicleId}
               vehicleName={vehicleOffModal.vehicleName}
             />
             {/* Delete Vehicle Type Confirmation Modal */}
@@ -944,321 +984,21 @@ function DeleteConfirmModal({ open, onOpenChange, type, onConfirm }: DeleteConfi
   );
 }
 
-// ---- Employee Time Off Modal (UI only / Style 2) ----
-
-interface TimeOffModalProps {
-  open: boolean;
-  onOpenChange: (open: boolean) => void;
-  employeeName: string;
-}
-
-function EmployeeTimeOffModal({ open, onOpenChange, employeeName }: TimeOffModalProps) {
-  const [absenceType, setAbsenceType] = useState<"holiday" | "sick" | "other">("holiday");
-  const [mode, setMode] = useState<"single" | "range">("single");
-  const [startDate, setStartDate] = useState("");
-  const [endDate, setEndDate] = useState("");
-  const [recurrence, setRecurrence] = useState<"none" | "weekly" | "biweekly">("none");
-
-  const handleSave = () => {
-    // NOTE: This currently only logs the selection.
-    // Wiring this into the scheduling engine will require backend support
-    // for per-day unavailability and recurrence rules.
-    console.log("[TimeOff] Requested:", {
-      employeeName,
-      absenceType,
-      mode,
-      startDate,
-      endDate: mode === "single" ? startDate : endDate,
-      recurrence,
-    });
-    onOpenChange(false);
-  };
+// ---- Holiday allowance remaining, opens the allowance dialog ----
 
+function LeaveBalanceChip({ balance, onClick }: { balance: LeaveBalance; onClick: () => void }) {
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[420px] bg-white text-slate-900">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <CalendarIcon className="w-5 h-5 text-blue-600" />
-            Book Time Off – {employeeName}
-          </DialogTitle>
-        </DialogHeader>
-
-        <div className="space-y-4 mt-2">
-          <div className="space-y-1">
-            <Label className="text-sm font-semibold">Reason</Label>
-            <Select value={absenceType} onValueChange={(v: any) => setAbsenceType(v)}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="bg-white">
-                <SelectItem value="holiday">Holiday</SelectItem>
-                <SelectItem value="sick">Sickness</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label className="text-sm font-semibold">Dates</Label>
-            <div className="flex gap-3 items-center">
-              <div className="flex items-center gap-1">
-                <input
-                  id="timeoff-single"
-                  type="radio"
-                  checked={mode === "single"}
-                  onChange={() => setMode("single")}
-                  className="h-4 w-4"
-                />
-                <Label htmlFor="timeoff-single" className="text-sm">
-                  Single day
-                </Label>
-              </div>
-              <div className="flex items-center gap-1">
-                <input
-                  id="timeoff-range"
-                  type="radio"
-                  checked={mode === "range"}
-                  onChange={() => setMode("range")}
-                  className="h-4 w-4"
-                />
-                <Label htmlFor="timeoff-range" className="text-sm">
-                  Date range
-                </Label>
-              </div>
-            </div>
-            <div className="flex gap-2">
-              <Input
-                type="date"
-                className="text-sm"
-                value={startDate}
-                onChange={(e) => setStartDate(e.target.value)}
-              />
-              {mode === "range" && (
-                <Input
-                  type="date"
-                  className="text-sm"
-                  value={endDate}
-                  onChange={(e) => setEndDate(e.target.value)}
-                />
-              )}
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label className="text-sm font-semibold">Recurrence</Label>
-            <div className="flex flex-wrap gap-3 text-sm">
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "none"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("none")}
-              >
-                None
-              </button>
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "weekly"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("weekly")}
-              >
-                Weekly
-              </button>
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "biweekly"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("biweekly")}
-              >
-                Every other week
-              </button>
-            </div>
-          </div>
-        </div>
-
-        <DialogFooter className="mt-4">
-          <Button
-            variant="outline"
-            className="border-slate-300 text-slate-700 hover:bg-slate-50"
-            onClick={() => onOpenChange(false)}
-          >
-            Cancel
-          </Button>
-          <Button
-            className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
-            onClick={handleSave}
-          >
-            Save
-          </Button>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+    <button
+      type="button"
+      title="Holiday allowance"
+      onClick={onClick}
+      className={cn(
+        "text-[11px] flex items-center gap-1 hover:underline",
+        balance.remainingDays < 0 ? "text-red-600" : "text-emerald-700"
+      )}
+    >
+      <Palmtree className="w-3 h-3" />
+      {formatLeaveDays(balance.remainingDays)} left of {balance.totalDays}
+    </button>
   );
 }
-
-// ---- Vehicle Off Road / Maintenance Modal (UI only / Style 2) ----
-
-interface VehicleOffModalProps {
-  open: boolean;
-  onOpenChange: (open: boolean) => void;
-  vehicleName: string;
-}
-
-function VehicleOffRoadModal({ open, onOpenChange, vehicleName }: VehicleOffModalProps) {
-  const [reason, setReason] = useState<"off_road" | "maintenance" | "other">("off_road");
-  const [mode, setMode] = useState<"single" | "range">("single");
-  const [startDate, setStartDate] = useState("");
-  const [endDate, setEndDate] = useState("");
-  const [recurrence, setRecurrence] = useState<"none" | "weekly" | "biweekly">("none");
-
-  const handleSave = () => {
-    console.log("[VehicleOff] Requested:", {
-      vehicleName,
-      reason,
-      mode,
-      startDate,
-      endDate: mode === "single" ? startDate : endDate,
-      recurrence,
-    });
-    onOpenChange(false);
-  };
-
-  return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[420px] bg-white text-slate-900">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <CalendarIcon className="w-5 h-5 text-blue-600" />
-            Book Vehicle Off Road – {vehicleName}
-          </DialogTitle>
-        </DialogHeader>
-
-        <div className="space-y-4 mt-2">
-          <div className="space-y-1">
-            <Label className="text-sm font-semibold">Reason</Label>
-            <Select value={reason} onValueChange={(v: any) => setReason(v)}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="bg-white">
-                <SelectItem value="off_road">VOR / Off Road</SelectItem>
-                <SelectItem value="maintenance">Maintenance</SelectItem>
-                <SelectItem value="other">Other</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-2">
-            <Label className="text-sm font-semibold">Dates</Label>
-            <div className="flex gap-3 items-center">
-              <div className="flex items-center gap-1">
-                <input
-                  id="vehicle-single"
-                  type="radio"
-                  checked={mode === "single"}
-                  onChange={() => setMode("single")}
-                  className="h-4 w-4"
-                />
-                <Label htmlFor="vehicle-single" className="text-sm">
-                  Single day
-                </Label>
-              </div>
-              <div className="flex items-center gap-1">
-                <input
-                  id="vehicle-range"
-                  type="radio"
-                  checked={mode === "range"}
-                  onChange={() => setMode("range")}
-                  className="h-4 w-4"
-                />
-                <Label htmlFor="vehicle-range" className="text-sm">
-                  Date range
-                </Label>
-              </div>
-            </div>
-            <div className="flex gap-2">
-              <Input
-                type="date"
-                className="text-sm"
-                value={startDate}
-                onChange={(e) => setStartDate(e.target.value)}
-              />
-              {mode === "range" && (
-                <Input
-                  type="date"
-                  className="text-sm"
-                  value={endDate}
-                  onChange={(e) => setEndDate(e.target.value)}
-                />
-              )}
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label className="text-sm font-semibold">Recurrence</Label>
-            <div className="flex flex-wrap gap-3 text-sm">
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "none"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("none")}
-              >
-                None
-              </button>
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "weekly"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("weekly")}
-              >
-                Weekly
-              </button>
-              <button
-                type="button"
-                className={`px-3 py-1 rounded-full border ${
-                  recurrence === "biweekly"
-                    ? "bg-slate-900 text-white border-slate-900"
-                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
-                }`}
-                onClick={() => setRecurrence("biweekly")}
-              >
-                Every other week
-              </button>
-            </div>
-          </div>
-        </div>
-
-        <DialogFooter className="mt-4">
-          <Button
-            variant="outline"
-            className="border-slate-300 text-slate-700 hover:bg-slate-50"
-            onClick={() => onOpenChange(false)}
-          >
-            Cancel
-          </Button>
-          <Button
-            className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
-            onClick={handleSave}
-          >
-            Save
-          </Button>
-                </DialogFooter>
-            </DialogContent>
-        </Dialog>
-    );
-}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Download, Loader2 } from "lucide-react";
+import { useScheduleExport } from "@/hooks/useScheduleData";
+import type { Depot, ScheduleExportOptions } from "@/lib/api";
+
+interface ScheduleExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  depots: Pick<Depot, "id" | "name">[];
+  // Pre-filled from the week on screen (yyyy-MM-dd)
+  defaultFrom: string;
+  defaultTo: string;
+  defaultDepotIds: string[];
+}
+
+/** Download the schedule for a date range and depots as CSV or Excel, one row per allocation. */
+export function ScheduleExportDialog({ open, onOpenChange, ...props }: ScheduleExportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] bg-white text-slate-900">
+        <DialogHeader>
+          <DialogTitle>Export schedule</DialogTitle>
+          <DialogDescription className="text-slate-600">
+            One row per job and crew day, with the people and vehicles on it. Only approved bookings are included.
+          </DialogDescription>
+        </DialogHeader>
+        {open && <ScheduleExportForm {...props} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ScheduleExportForm({
+  depots,
+  defaultFrom,
+  defaultTo,
+  defaultDepotIds,
+  onDone,
+}: Omit<ScheduleExportDialogProps, "open" | "onOpenChange"> & { onDone: () => void }) {
+  const exportMutation = useScheduleExport();
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(defaultTo);
+  const [depotIds, setDepotIds] = useState<string[]>(defaultDepotIds);
+  const [format, setFormat] = useState<ScheduleExportOptions["format"]>("xlsx");
+  const [includeFree, setIncludeFree] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleDepot = (id: string, checked: boolean) =>
+    setDepotIds((current) => (checked ? [...current, id] : current.filter((d) => d !== id)));
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      await exportMutation.mutateAsync({ from, to, depotIds, format, includeFree });
+      onDone();
+    } catch (err) {
+      setError((err as Error).message || "Export failed");
+    }
+  };
+
+  const invalidRange = !from || !to || to < from;
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="export-from" className="text-sm font-semibold">From</Label>
+            <Input id="export-from" type="date" className="text-sm" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-to" className="text-sm font-semibold">To</Label>
+            <Input id="export-to" type="date" className="text-sm" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-semibold">Depots</Label>
+            <button
+              type="button"
+              className="text-xs text-blue-600 hover:underline"
+              onClick={() => setDepotIds(depotIds.length === depots.length ? [] : depots.map((d) => d.id))}
+            >
+              {depotIds.length === depots.length ? "Clear" : "Select all"}
+            </button>
+          </div>
+          <div className="max-h-40 overflow-y-auto space-y-1.5 rounded-md border border-slate-200 p-2">
+            {depots.map((depot) => (
+              <div key={depot.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`export-depot-${depot.id}`}
+                  checked={depotIds.includes(depot.id)}
+                  onCheckedChange={(checked) => toggleDepot(depot.id, checked === true)}
+                />
+                <label htmlFor={`export-depot-${depot.id}`} className="text-sm leading-none cursor-pointer">
+                  {depot.name}
+                </label>
+              </div>
+            ))}
+          </div>
+          {depotIds.length === 0 && <p className="text-xs text-slate-500">No depot selected: every depot is exported.</p>}
+        </div>
+
+        <div className="space-y-1">
+          <Label className="text-sm font-semibold">Format</Label>
+          <Select value={format} onValueChange={(value) => setFormat(value as ScheduleExportOptions["format"])}>
+            <SelectTrigger className="bg-white border-slate-300 text-slate-900">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white text-slate-900">
+              <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+              <SelectItem value="csv">CSV (.csv)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox id="export-include-free" checked={includeFree} onCheckedChange={(checked) => setIncludeFree(checked === true)} />
+          <label htmlFor="export-include-free" className="text-sm leading-none cursor-pointer">
+            Include free (ghost) jobs
+          </label>
+        </div>
+
+        {error && (
+          <div className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onDone} className="border-slate-300 text-slate-700">
+          Cancel
+        </Button>
+        <Button
+          onClick={handleExport}
+          disabled={invalidRange || exportMutation.isPending}
+          className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+        >
+          {exportMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
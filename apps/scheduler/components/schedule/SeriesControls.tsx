@@ -0,0 +1,203 @@
+import { addMonths, format, getDay, startOfDay } from "date-fns";
+import { Repeat } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { useScheduleSeries } from "@/hooks/useScheduleData";
+import type { ScheduleSeriesRuleInput } from "@/lib/api";
+import {
+  MAX_SERIES_OCCURRENCES,
+  SERIES_EDIT_SCOPES,
+  SERIES_EDIT_SCOPE_LABELS,
+  SERIES_FREQUENCIES,
+  SERIES_FREQUENCY_LABELS,
+  WEEKDAY_LABELS,
+  describeSeriesRule,
+  type SeriesEditScope,
+  type SeriesFrequency,
+} from "@/lib/recurrence";
+
+// The repeat options as edited in the form; turned into a rule on save
+export interface RepeatDraft {
+  frequency: SeriesFrequency;
+  weekdays: number[];
+  ends: "until" | "count";
+  // yyyy-MM-dd
+  until: string;
+  count: number;
+}
+
+// What ItemModal passes to onSubmit alongside the form data
+export interface SeriesSubmitOptions {
+  // Make the booking repeat (new bookings, or existing ones not yet in a series)
+  repeat?: RepeatDraft | null;
+  // Which occurrences an edit to a repeating booking applies to
+  scope?: SeriesEditScope;
+}
+
+// Monday first, as the calendar shows the week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const pill = (selected: boolean) =>
+  cn(
+    "px-2.5 py-1 rounded-full border text-xs",
+    selected ? "bg-slate-900 text-white border-slate-900" : "border-slate-300 text-slate-700 hover:bg-slate-50"
+  );
+
+export function defaultRepeatDraft(date?: Date | string): RepeatDraft {
+  const day = startOfDay(date ? new Date(date) : new Date());
+  return {
+    frequency: "weekly",
+    weekdays: [getDay(day)],
+    ends: "count",
+    until: format(addMonths(day, 3), "yyyy-MM-dd"),
+    count: 12,
+  };
+}
+
+/** The rule for a series whose first occurrence is on `date`. */
+export function repeatDraftToRule(draft: RepeatDraft, date: Date | string): ScheduleSeriesRuleInput {
+  return {
+    frequency: draft.frequency,
+    weekdays: draft.weekdays,
+    // Local midnight, like every other schedule date
+    startDate: startOfDay(new Date(date)).toISOString(),
+    untilDate: draft.ends === "until" ? startOfDay(new Date(`${draft.until}T00:00:00`)).toISOString() : null,
+    count: draft.ends === "count" ? draft.count : null,
+  };
+}
+
+interface RepeatFieldsProps {
+  id: string;
+  value: RepeatDraft | null;
+  onChange: (value: RepeatDraft | null) => void;
+  // Day of the first occurrence
+  date?: Date | string;
+  disabled?: boolean;
+}
+
+/** "Repeat" option for a booking: how often, on which days, and until when. */
+export function RepeatFields({ id, value, onChange, date, disabled }: RepeatFieldsProps) {
+  const firstWeekday = getDay(date ? new Date(date) : new Date());
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value || weekday === firstWeekday) return;
+    const weekdays = value.weekdays.includes(weekday)
+      ? value.weekdays.filter((d) => d !== weekday)
+      : [...value.weekdays, weekday];
+    onChange({ ...value, weekdays });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center space-x-1.5">
+        <Checkbox
+          id={id}
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? defaultRepeatDraft(date) : null)}
+          disabled={disabled}
+        />
+        <label htmlFor={id} className="text-sm font-medium leading-none cursor-pointer flex items-center gap-1">
+          <Repeat className="w-3.5 h-3.5" /> Repeat
+        </label>
+      </div>
+
+      {value && (
+        <div className="flex flex-col gap-2 pl-6">
+          <div className="flex flex-wrap gap-1.5">
+            {SERIES_FREQUENCIES.map((frequency) => (
+              <button
+                key={frequency}
+                type="button"
+                className={pill(value.frequency === frequency)}
+                onClick={() => onChange({ ...value, frequency })}
+              >
+                {SERIES_FREQUENCY_LABELS[frequency]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {WEEK_ORDER.map((weekday) => (
+              <button
+                key={weekday}
+                type="button"
+                // The first occurrence's own day always stays in
+                disabled={weekday === firstWeekday}
+                className={cn(pill(value.weekdays.includes(weekday)), "w-10 px-0")}
+                onClick={() => toggleWeekday(weekday)}
+              >
+                {WEEKDAY_LABELS[weekday]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5 text-xs text-slate-600">
+            <span>Ends</span>
+            <button type="button" className={pill(value.ends === "until")} onClick={() => onChange({ ...value, ends: "until" })}>
+              On date
+            </button>
+            <button type="button" className={pill(value.ends === "count")} onClick={() => onChange({ ...value, ends: "count" })}>
+              After
+            </button>
+            {value.ends === "until" ? (
+              <Input
+                type="date"
+                className="h-7 w-36 text-xs"
+                value={value.until}
+                min={date ? format(new Date(date), "yyyy-MM-dd") : undefined}
+                onChange={(e) => onChange({ ...value, until: e.target.value })}
+              />
+            ) : (
+              <>
+                <Input
+                  type="number"
+                  className="h-7 w-16 text-xs"
+                  min={1}
+                  max={MAX_SERIES_OCCURRENCES}
+                  value={value.count}
+                  onChange={(e) =>
+                    onChange({ ...value, count: Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_SERIES_OCCURRENCES) })
+                  }
+                />
+                <span>occurrences</span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SeriesScopeFieldProps {
+  seriesId: string;
+  value: SeriesEditScope;
+  onChange: (value: SeriesEditScope) => void;
+}
+
+/** For an occurrence of a repeating booking: its rule, and which occurrences an edit applies to. */
+export function SeriesScopeField({ seriesId, value, onChange }: SeriesScopeFieldProps) {
+  const { data: series } = useScheduleSeries(seriesId);
+
+  const ends = series?.untilDate
+    ? ` until ${format(new Date(series.untilDate), "d MMM yyyy")}`
+    : series?.count
+      ? `, ${series.count} times`
+      : "";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-1 text-xs text-slate-500">
+        <Repeat className="w-3.5 h-3.5" />
+        {series ? `${describeSeriesRule(series)}${ends}` : "Repeating booking"}
+      </div>
+      <div className="text-xs font-medium text-slate-600">Apply changes to:</div>
+      <div className="flex flex-wrap gap-1.5">
+        {SERIES_EDIT_SCOPES.map((scope) => (
+          <button key={scope} type="button" className={pill(value === scope)} onClick={() => onChange(scope)}>
+            {SERIES_EDIT_SCOPE_LABELS[scope]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,36 +4,45 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, MapPin, Clock, ArrowRight, CheckCircle2, Truck } from "lucide-react";
-import { format, addDays, startOfToday, isSameDay, startOfDay } from "date-fns";
-import { cn } from "@/lib/utils";
+import { Search, MapPin, Clock, ArrowRight, CheckCircle2, Truck, Users, AlertTriangle, Pencil } from "lucide-react";
+import { format, addDays, startOfToday, parseISO } from "date-fns";
+import { useAvailabilitySearch } from "@/hooks/useScheduleData";
+import type { AvailabilityResult, AvailabilitySlot } from "@/lib/availability";
 import { ScheduleItem, Crew } from "./CalendarGrid";
 
+// How far ahead "Find Earliest Availability" looks
+const SEARCH_DAYS = 60;
+
+export interface BookSlotDetails {
+  startTime: string;
+  onsiteTime: string;
+  address?: string;
+}
+
 interface SmartSearchModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  items: ScheduleItem[];
   crews: Crew[];
   depots: { id: string; name: string; address: string }[];
   vehicles: { id: string; name: string; vehicleType: string }[];
   // Can be simple strings or objects with metadata (type + defaultColor)
   vehicleTypes?: string[] | Array<{ type: string; defaultColor?: string }>;
   colorLabels: Record<string, string>;
-  onBookSlot: (date: Date, crewId: string, depotId: string, duration: number, color: string) => void;
+  onBookSlot: (date: Date, crewId: string, depotId: string, duration: number, color: string, details?: BookSlotDetails) => void;
   onOpenItemModal?: (initialData: Partial<ScheduleItem>) => void;
 }
 
 export function SmartSearchModal({ 
-  open, onOpenChange, items, crews, depots, vehicles, vehicleTypes, colorLabels, onBookSlot, onOpenItemModal 
+  open, onOpenChange, crews, depots, vehicles, vehicleTypes, onBookSlot, onOpenItemModal 
 }: SmartSearchModalProps) {
   const [vehicleType, setVehicleType] = useState("any");
   const [shiftType, setShiftType] = useState<'any' | 'day' | 'night'>("any");
   const [duration, setDuration] = useState("8");
   const [location, setLocation] = useState("all");
   const [jobPostcode, setJobPostcode] = useState("");
-  const [results, setResults] = useState<any[] | null>(null);
-  const [isSearching, setIsSearching] = useState(false);
-  const [plannerWarning, setPlannerWarning] = useState<string | null>(null);
+  const [result, setResult] = useState<AvailabilityResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const search = useAvailabilitySearch();
 
   // Extract unique vehicle types or use provided types
   const availableVehicleTypes = useMemo(() => {
@@ -45,234 +54,77 @@ export function SmartSearchModal({
       return Array.from(types).sort();
   }, [vehicles, vehicleTypes]);
 
-  // Helper: determine if a job item represents free/ghost time rather than real work
-  const isFreeJobItem = (item: ScheduleItem) =>
-    item.type === "job" &&
-    (item.jobStatus === "free" || item.customer === "Free");
-
   // Helper: build a friendly shift label like "Day Shift 1", "Night Shift 2"
-  const getCrewShiftLabel = (crew: Crew) => {
-    const isNight = crew.shift === 'night';
+  const getCrewShiftLabel = (slot: AvailabilitySlot) => {
+    const isNight = slot.shift === 'night';
     const shiftName = isNight ? 'Night' : 'Day';
 
     // Keep the original ordering of crews in this shift
-    const sameShiftCrews = crews.filter(c => {
-      const cIsNight = c.shift === 'night';
-      return cIsNight === isNight;
-    });
-
-    const index = sameShiftCrews.findIndex(c => c.id === crew.id);
-    const number = index >= 0 ? index + 1 : undefined;
+    const sameShiftCrews = crews.filter(c => (c.shift === 'night') === isNight);
+    const index = sameShiftCrews.findIndex(c => c.id === slot.crewId);
 
-    return number ? `${shiftName} Shift ${number}` : `${shiftName} Shift`;
+    return index >= 0 ? `${shiftName} Shift ${index + 1}` : `${shiftName} Shift`;
   };
 
-  const handleSearch = () => {
-    setIsSearching(true);
-    setResults(null);
-    setPlannerWarning(null);
-
-    // Simulate API delay
-    setTimeout(() => {
-      const reqDuration = parseInt(duration) || 8;
-      const today = startOfToday();
-      const searchResults: any[] = [];
-
-      // Determine how far the diary is actually planned (latest scheduled item date)
-      const plannedDates = items.map(i => new Date(i.date).getTime());
-      const maxPlannedTime = plannedDates.length > 0 ? Math.max(...plannedDates) : null;
-      const maxPlannedDate = maxPlannedTime ? new Date(maxPlannedTime) : null;
-
-      // Iterate through next 60 days (increased from 30 to catch next month)
-      // Start from start of week if user expects to see current week's past days? 
-      // No, "Availability Search" usually implies future booking. 
-      // But we'll ensure we check 'today' properly.
-      for (let i = 0; i < 60; i++) {
-        const date = addDays(today, i);
-
-          // If the diary isn't planned this far ahead, treat as unplanned rather than free
-          if (maxPlannedDate && date > maxPlannedDate) {
-            continue;
-          }
-        
-        // Iterate through all depots
-        depots.forEach(depot => {
-          // Location Filter Check
-          // IMPORTANT: If location is empty string or "all", we search ALL depots.
-          if (location !== "all" && depot.id !== location) {
-              return;
-          }
-          
-          // Mock Distance Calculation (if postcode provided)
-          // In a real app, this would use a mapping service
-          let distance = 0;
-          if (jobPostcode.trim()) {
-             // Generate a deterministic "mock" distance based on depot ID and postcode length
-             // so it doesn't change on every search for the same inputs
-             const hash = (depot.id.charCodeAt(0) + jobPostcode.length) % 50;
-             distance = hash + 5; // 5 to 55 miles
-          }
-
-          crews.forEach(crew => {
-             // STRICT CHECK: Crew must belong to this depot
-             // If crew has no depotId, we assume it belongs to 'd1' (legacy default)
-             const crewDepotId = crew.depotId || 'd1';
-             if (crewDepotId !== depot.id) return;
-
-             // Check Shift
-             if (shiftType !== 'any' && crew.shift !== shiftType) return;
-
-             // 1. Check what vehicle this crew has on this specific day
-             // Find operative items for this crew/date to see assigned vehicle
-             const operativeItem = items.find(item => 
-                item.type === 'operative' && 
-                item.crewId === crew.id && 
-                isSameDay(new Date(item.date), date) &&
-                item.vehicleId // Must have a vehicle
-             );
-
-             let hasCorrectVehicle = false;
-             let isPotential = false;
-             
-             // STRICTER SEARCH:
-             // If the crew has NO operative assigned for this day, we treat it as "Unavailable/Not Working".
-             // This prevents "Ghost/Empty Crews" from showing up as available slots, which confuses users
-             // who have deleted their staff but kept the crew names.
-             if (!operativeItem) {
-                 return;
-             }
-             
-             if (vehicleType === 'any') {
-                 hasCorrectVehicle = true;
-             } else if (operativeItem && operativeItem.vehicleId) {
-                 // Crew has an operative with a vehicle. Does it match?
-                 const vehicle = vehicles.find(v => v.id === operativeItem.vehicleId);
-                 if (vehicle && vehicle.vehicleType === vehicleType) {
-                     hasCorrectVehicle = true;
-                 }
-             }
-
-             // If we are searching for a specific vehicle type, and the crew does NOT have it assigned today,
-             // then we filter it out.
-             if (vehicleType !== 'any' && !hasCorrectVehicle) {
-                 return; 
-             }
-
-             // 2. Check availability / free time
-             // Normalize query date to start of day for robust comparison
-             const queryDateStart = startOfDay(date);
-             
-             const dayItems = items.filter(item => 
-                item.type === 'job' && 
-                item.crewId === crew.id && 
-                isSameDay(startOfDay(new Date(item.date)), queryDateStart)
-             );
-             
-             // Check if working at this depot (if they have jobs)
-             const workingDepotId = dayItems.length > 0 ? dayItems[0].depotId : null;
-             // If they have jobs at a different depot, they are not available at this depot
-             // UNLESS the job is at the requested depot?
-             // The logic here says: if they are working at Depot B, they can't take a job at Depot A.
-             if (workingDepotId && workingDepotId !== depot.id) {
-                 return; // Working elsewhere
-             }
-
-             // Calculate used time (excluding free/ghost jobs)
-             const realWorkItems = dayItems.filter(i => !isFreeJobItem(i));
-             const realUsedDuration = realWorkItems.reduce((acc, item) => acc + (Number(item.duration) || 0), 0);
-             
-             const freeSpace = 8 - realUsedDuration;
-
-             if (freeSpace >= reqDuration) {
-               // Match!
-               
-               // Determine displayed vehicle type
-               let displayVehicle = vehicleType === 'any' ? "Unassigned" : vehicleType;
-               
-               if (operativeItem && operativeItem.vehicleId) {
-                   const v = vehicles.find(x => x.id === operativeItem.vehicleId);
-                   if (v) displayVehicle = v.vehicleType;
-               } else if (isPotential) {
-                   displayVehicle = `${vehicleType} (Unassigned)`;
-               }
-
-               searchResults.push({
-                 date,
-                 depot,
-                 crew,
-                 freeSpace,
-                 vehicleType: displayVehicle,
-                 isPotential,
-                 distance // Add distance to result
-               });
-             }
-          });
-        });
-      }
+  const requestedDuration = Math.min(8, Math.max(0.5, Number(duration) || 8));
+
+  const handleSearch = async () => {
+    setResult(null);
+    setError(null);
+    const today = startOfToday();
+    try {
+      setResult(
+        await search.mutateAsync({
+          vehicleType: vehicleType === "any" ? undefined : vehicleType,
+          shift: shiftType === "any" ? undefined : shiftType,
+          duration: requestedDuration,
+          from: format(today, "yyyy-MM-dd"),
+          to: format(addDays(today, SEARCH_DAYS - 1), "yyyy-MM-dd"),
+          depotId: location === "all" ? undefined : location,
+          postcode: jobPostcode.trim() || undefined,
+          limit: 100,
+        })
+      );
+    } catch (err) {
+      setError((err as Error).message || "Availability search failed");
+    }
+  };
 
-      // Deduplicate results
-      const uniqueKeys = new Set();
-      const uniqueResults = searchResults.filter(res => {
-          const key = `${res.date.toISOString()}-${res.crew.id}-${res.depot.id}`;
-          if (uniqueKeys.has(key)) return false;
-          uniqueKeys.add(key);
-          return true;
+  // One click: the job goes straight on the crew's day at the suggested times
+  const handleBook = (slot: AvailabilitySlot) => {
+      onBookSlot(parseISO(slot.date), slot.crewId, slot.depotId, requestedDuration, "blue", {
+        startTime: slot.startTime,
+        onsiteTime: slot.onsiteTime,
+        address: jobPostcode.trim() || undefined,
       });
+      onOpenChange(false);
+  };
 
-      // Sort results
-      uniqueResults.sort((a, b) => {
-          // 1. Sort by Distance (if provided) - Nearest first
-          if (jobPostcode.trim()) {
-              if (a.distance !== b.distance) return a.distance - b.distance;
-          }
-          
-          // 2. Sort by Date
-          if (a.date.getTime() !== b.date.getTime()) return a.date.getTime() - b.date.getTime();
-          
-          // 3. Sort by Free Space (Most available first)
-          return b.freeSpace - a.freeSpace;
+  // Open the booking form on the slot instead, to fill in the customer first
+  const handleEdit = (slot: AvailabilitySlot) => {
+      onOpenItemModal?.({
+        type: 'job',
+        date: parseISO(slot.date),
+        crewId: slot.crewId,
+        depotId: slot.depotId,
+        duration: requestedDuration,
+        color: "blue",
+        customer: "",
+        address: jobPostcode.trim(),
+        startTime: slot.startTime,
+        onsiteTime: slot.onsiteTime,
+        // Mark as provisional booking from search
+        isProvisional: true,
       });
-
-      setResults(uniqueResults.slice(0, 100));
-
-      // If no results but the diary stops before our search horizon, show planner warning
-      if (uniqueResults.length === 0 && maxPlannedDate) {
-        const searchEnd = addDays(today, 59);
-        if (maxPlannedDate < searchEnd) {
-          setPlannerWarning(
-            `The diary currently only has planned work up to ${format(maxPlannedDate, 'EEE, dd MMM yyyy')}. Please ask the ops manager to plan the diary beyond this date.`
-          );
-        }
-      }
-
-      setIsSearching(false);
-    }, 800);
+      onOpenChange(false);
   };
 
-  const handleBook = (res: any) => {
-      // If onOpenItemModal is provided, open the item modal for provisional booking
-      if (onOpenItemModal) {
-        onOpenItemModal({
-          type: 'job',
-          date: res.date,
-          crewId: res.crew.id,
-          depotId: res.depot.id,
-          duration: parseInt(duration),
-          color: "blue",
-          customer: "",
-          address: "",
-          startTime: "",
-          onsiteTime: "",
-          // Mark as provisional booking from search
-          isProvisional: true,
-        });
-        onOpenChange(false);
-      } else {
-        // Fallback to old behavior
-        onBookSlot(res.date, res.crew.id, res.depot.id, parseInt(duration), "blue");
-        onOpenChange(false);
-      }
-  };
+  const slots = result?.slots ?? [];
+  const isSearching = search.isPending;
+  const plannerWarning =
+    result?.plannedUntil && result.plannedUntil < format(addDays(startOfToday(), SEARCH_DAYS - 1), "yyyy-MM-dd")
+      ? `The diary currently only has planned work up to ${format(parseISO(result.plannedUntil), 'EEE, dd MMM yyyy')}. Please ask the ops manager to plan the diary beyond this date.`
+      : null;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -309,7 +161,7 @@ export function SmartSearchModal({
 
                 <div className="space-y-2">
                     <Label>Shift</Label>
-                    <Select value={shiftType} onValueChange={(v) => setShiftType(v as any)}>
+                    <Select value={shiftType} onValueChange={(v) => setShiftType(v as 'any' | 'day' | 'night')}>
                         <SelectTrigger className="bg-white">
                             <SelectValue />
                         </SelectTrigger>
@@ -382,7 +234,7 @@ export function SmartSearchModal({
 
             {/* Results Area */}
             <div className="flex-1 overflow-y-auto min-h-[300px] rounded-xl border border-slate-100 bg-slate-50/50 p-2">
-                {!results && !isSearching && (
+                {!result && !isSearching && !error && (
                     <div className="h-full flex flex-col items-center justify-center text-slate-400 p-8">
                         <Search className="w-12 h-12 mb-3 opacity-20" />
                         <p>Search for earliest availability by vehicle type</p>
@@ -396,7 +248,21 @@ export function SmartSearchModal({
                     </div>
                 )}
 
-                {results && results.length === 0 && (
+                {error && (
+                    <div className="m-2 flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        {error}
+                    </div>
+                )}
+
+                {result?.postcodeNotFound && (
+                    <div className="m-2 flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-700">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        We couldn&apos;t find that postcode, so slots aren&apos;t ranked by travel time.
+                    </div>
+                )}
+
+                {result && slots.length === 0 && (
                     <div className="h-full flex flex-col items-center justify-center text-slate-500 p-8">
                         <p>No slots found matching your criteria.</p>
                         <Button variant="link" onClick={() => setDuration("4")}>Try shorter duration?</Button>
@@ -408,81 +274,78 @@ export function SmartSearchModal({
                     </div>
                 )}
 
-
-                {results && results.length > 0 && (
+                {slots.length > 0 && (
                     <div className="space-y-6">
                         <div className="flex items-center justify-between px-2 pb-2">
-                            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Earliest Available Slots</h3>
-                            <span className="text-xs text-slate-400">{results.length} options found</span>
+                            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Best Available Slots</h3>
+                            <span className="text-xs text-slate-400">{slots.length} options found</span>
                         </div>
-                        
-                        {/* Group by Date */}
-                        {Array.from(new Set(results.map(r => r.date.toISOString()))).map((dateStr) => {
-                            const dateResults = results.filter(r => r.date.toISOString() === dateStr);
-                            const date = new Date(dateStr);
-                            
-                            return (
-                                <div key={dateStr} className="space-y-2">
-                                    <div className="sticky top-0 z-10 bg-slate-50/95 backdrop-blur px-2 py-2 border-b border-slate-200 flex items-center gap-2">
-                                        <span className="font-bold text-slate-900">{format(date, 'EEEE, d MMMM')}</span>
-                                        <span className="text-xs bg-slate-200 text-slate-600 px-2 py-0.5 rounded-full">{dateResults.length} slots</span>
-                                    </div>
 
-                                    <div className="grid gap-2">
-                                        {dateResults.map((res, idx) => (
-                                            <div key={`${dateStr}-${idx}`} className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm hover:border-blue-300 transition-all group">
-                                                <div className="flex items-center justify-between">
-                                                    <div className="flex items-center gap-4">
-                                                        <div className="w-12 h-12 bg-blue-50 rounded-lg flex flex-col items-center justify-center border border-blue-100 text-blue-700 shrink-0">
-                                                            <Clock className="w-5 h-5 mb-1" />
-                                                            <span className="text-[10px] font-bold leading-none">{res.freeSpace}h</span>
-                                                        </div>
-                                                        
-                                                        <div>
-                                                            <div className="flex items-center gap-2">
-                                                                <h4 className="font-semibold text-slate-900">{res.depot.name}</h4>
-                                                                {res.distance > 0 && (
-                                                                    <span className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full border border-blue-100 font-medium">
-                                                                        {res.distance} miles away
-                                                                    </span>
-                                                                )}
-                                                                <span className={cn(
-                                                                    "text-xs px-2 py-0.5 rounded-full font-medium flex items-center border",
-                                                                    res.isPotential 
-                                                                        ? "bg-amber-50 text-amber-700 border-amber-200 border-dashed" 
-                                                                        : "bg-slate-100 text-slate-600 border-slate-200"
-                                                                )}>
-                                                                    <Truck className="w-3 h-3 mr-1" /> {res.vehicleType}
-                                                                </span>
-                                                            </div>
-                                                            <div className="text-xs text-slate-500 mt-1 flex items-center gap-3">
-                                                                <span className="flex items-center">
-                                                                  <CheckCircle2 className="w-3 h-3 mr-1" />
-                                                                  {getCrewShiftLabel(res.crew)}
-                                                                </span>
-                                                                {res.isPotential && (
-                                                                  <span className="text-amber-600 font-medium">
-                                                                    Needs Vehicle Assignment
-                                                                  </span>
-                                                                )}
-                                                            </div>
-                                                        </div>
-                                                    </div>
+                        <div className="grid gap-2">
+                            {slots.map((slot) => (
+                                <div key={`${slot.date}-${slot.crewId}`} className="bg-white p-3 rounded-lg border border-slate-200 shadow-sm hover:border-blue-300 transition-all group">
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div className="flex items-center gap-4 min-w-0">
+                                            <div className="w-12 h-12 bg-blue-50 rounded-lg flex flex-col items-center justify-center border border-blue-100 text-blue-700 shrink-0">
+                                                <Clock className="w-5 h-5 mb-1" />
+                                                <span className="text-[10px] font-bold leading-none">{slot.freeHours}h</span>
+                                            </div>
 
-                                                    <Button 
-                                                        onClick={() => handleBook(res)}
-                                                        className="opacity-0 group-hover:opacity-100 transition-opacity bg-blue-600 hover:bg-blue-700 text-white"
-                                                        size="sm"
-                                                    >
-                                                        Book <ArrowRight className="w-4 h-4 ml-2" />
-                                                    </Button>
+                                            <div className="min-w-0">
+                                                <div className="flex flex-wrap items-center gap-2">
+                                                    <h4 className="font-semibold text-slate-900">{format(parseISO(slot.date), 'EEE d MMM')}</h4>
+                                                    <span className="text-sm text-slate-600">{slot.depotName}</span>
+                                                    {slot.travelMinutes !== null && (
+                                                        <span className="text-xs bg-blue-50 text-blue-700 px-2 py-0.5 rounded-full border border-blue-100 font-medium">
+                                                            {slot.travelMinutes} min drive
+                                                        </span>
+                                                    )}
+                                                    <span className="text-xs px-2 py-0.5 rounded-full font-medium flex items-center border bg-slate-100 text-slate-600 border-slate-200">
+                                                        <Truck className="w-3 h-3 mr-1" /> {slot.vehicleType ?? "No vehicle"}
+                                                    </span>
                                                 </div>
+                                                <div className="text-xs text-slate-500 mt-1 flex flex-wrap items-center gap-3">
+                                                    <span className="flex items-center">
+                                                      <CheckCircle2 className="w-3 h-3 mr-1" />
+                                                      {slot.crewName || getCrewShiftLabel(slot)}
+                                                    </span>
+                                                    <span className="flex items-center">
+                                                      <Users className="w-3 h-3 mr-1" />
+                                                      {slot.people.join(", ")}
+                                                    </span>
+                                                    <span>Leave {slot.startTime}, on site {slot.onsiteTime}</span>
+                                                </div>
+                                                <ul className="mt-1 text-[11px] text-slate-400 list-disc list-inside">
+                                                    {slot.reasons.map((reason) => (
+                                                        <li key={reason}>{reason}</li>
+                                                    ))}
+                                                </ul>
                                             </div>
-                                        ))}
+                                        </div>
+
+                                        <div className="flex flex-col gap-1 shrink-0">
+                                            <Button
+                                                onClick={() => handleBook(slot)}
+                                                className="bg-blue-600 hover:bg-blue-700 text-white"
+                                                size="sm"
+                                            >
+                                                Book <ArrowRight className="w-4 h-4 ml-2" />
+                                            </Button>
+                                            {onOpenItemModal && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() => handleEdit(slot)}
+                                                    className="text-slate-600"
+                                                >
+                                                    <Pencil className="w-3 h-3 mr-1" /> Details
+                                                </Button>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
-                            );
-                        })}
+                            ))}
+                        </div>
                     </div>
                 )}
             </div>
@@ -0,0 +1,52 @@
+import { AlertTriangle, Lock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useUpgrade } from "@/hooks/useUpgrade";
+import type { SubscriptionAccess } from "@/lib/subscription";
+
+interface SubscriptionBannerProps {
+  subscription: SubscriptionAccess;
+  // Admins can fix billing; everyone else is told to ask one
+  canManageBilling: boolean;
+}
+
+/**
+ * Shown above the schedule once the organization's trial or subscription has lapsed:
+ * a warning during the grace period, then a notice that the schedule is read-only.
+ */
+export function SubscriptionBanner({ subscription, canManageBilling }: SubscriptionBannerProps) {
+  const { handleUpgrade, handleManageBilling, loading } = useUpgrade();
+  if (subscription.state === "active") return null;
+
+  const readOnly = subscription.state === "read_only";
+  const Icon = readOnly ? Lock : AlertTriangle;
+  // A lapsed trial has nothing to manage yet, so start a checkout instead of the portal
+  const action = subscription.reason === "trial_expired"
+    ? { label: "Choose a plan", onClick: handleUpgrade }
+    : { label: "Manage billing", onClick: handleManageBilling };
+
+  return (
+    <div
+      className={`flex items-center gap-3 px-4 py-2 border-b text-sm ${
+        readOnly ? "bg-red-50 border-red-200 text-red-800" : "bg-amber-50 border-amber-200 text-amber-800"
+      }`}
+      data-testid="subscription-banner"
+    >
+      <Icon className="w-4 h-4 shrink-0" />
+      <span className="flex-1">
+        {subscription.message}
+        {!canManageBilling && " Ask an admin to update billing."}
+      </span>
+      {canManageBilling && (
+        <Button
+          size="sm"
+          className={readOnly ? "bg-red-600 hover:bg-red-700 text-white" : "bg-amber-600 hover:bg-amber-700 text-white"}
+          disabled={loading}
+          onClick={action.onClick}
+        >
+          {loading && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {action.label}
+        </Button>
+      )}
+    </div>
+  );
+}
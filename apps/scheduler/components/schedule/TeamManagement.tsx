@@ -21,13 +21,19 @@ import {
   type TeamInvite,
   getRoleDisplayName,
 } from "@/hooks/useOrganization";
+import { CalendarFeedsSection } from "@/components/schedule/CalendarFeeds";
+import type { Crew, Depot, Employee } from "@/lib/api";
 
 interface TeamManagementProps {
   currentUserRole: MemberRole;
   currentUserId: string;
+  // For the calendar feed links; the section is hidden without them
+  employees?: Employee[];
+  crews?: Crew[];
+  depots?: Depot[];
 }
 
-export function TeamManagement({ currentUserRole, currentUserId }: TeamManagementProps) {
+export function TeamManagement({ currentUserRole, currentUserId, employees, crews, depots }: TeamManagementProps) {
   const { toast } = useToast();
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
   const [inviteEmail, setInviteEmail] = useState("");
@@ -43,6 +49,7 @@ export function TeamManagement({ currentUserRole, currentUserId }: TeamManagemen
   const removeMemberMutation = useRemoveMember();
 
   const isAdmin = currentUserRole === "admin";
+  const canManageFeeds = currentUserRole === "admin" || currentUserRole === "operations";
 
   const handleCreateInvite = async () => {
     if (!inviteEmail.trim()) {
@@ -385,6 +392,10 @@ export function TeamManagement({ currentUserRole, currentUserId }: TeamManagemen
           </div>
         </div>
       )}
+
+      {canManageFeeds && employees && crews && depots && (
+        <CalendarFeedsSection employees={employees} crews={crews} depots={depots} />
+      )}
     </div>
   );
 }
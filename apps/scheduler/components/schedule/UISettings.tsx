@@ -7,9 +7,13 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useUISettings } from "@/hooks/useUISettings";
 import { useVehicleCombinations } from "@/hooks/useVehicleCombinations";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
+import { ApprovalRulesSettings } from "@/components/schedule/ApprovalRulesSettings";
 import { mergeAndSortVehicleTypes, normalizeVehicleTypeName } from "@/lib/vehicleTypes";
 import type { VehicleTypesConfig, VehicleCombinationConfig } from "@/lib/vehicleTypes";
-import { Clock, MapPin, Timer, Calendar, Mail, Bell, ArrowRightLeft, Plus, Trash2 } from "lucide-react";
+import type { Depot } from "@/lib/api";
+import { Clock, MapPin, Timer, Calendar, Mail, Bell, ArrowRightLeft, Plus, Trash2, X } from "lucide-react";
+import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
 const AVAILABLE_COLORS = [
@@ -34,6 +38,8 @@ interface UISettingsProps {
   onAddCombination?: () => void;
   onUpdateCombination?: (index: number, updated: Partial<VehicleCombinationConfig>) => void;
   onRemoveCombination?: (index: number) => void;
+  /** Depots the approval rules and depot managers can name */
+  depots?: Pick<Depot, "id" | "name">[];
 }
 
 export function UISettings({
@@ -42,8 +48,11 @@ export function UISettings({
   onAddCombination,
   onUpdateCombination,
   onRemoveCombination,
+  depots,
 }: UISettingsProps) {
   const { settings, updateSetting } = useUISettings();
+  const { settings: organizationSettings, updateSettings: updateOrganizationSettings } = useOrganizationSettings();
+  const leave = organizationSettings.leave;
   const hook = useVehicleCombinations();
   const useParent = vehicleCombinationsFromParent != null && onUpdateCombination != null;
   const combinations = useParent ? vehicleCombinationsFromParent : hook.combinations;
@@ -447,11 +456,135 @@ export function UISettings({
         </div>
       </div>
 
+      <div className="space-y-4 pt-2 border-t border-slate-100">
+        <div>
+          <h4 className="text-sm font-semibold text-slate-900">Holiday Allowance</h4>
+          <p className="text-xs text-slate-600 mt-0.5">
+            Leave year and defaults used to work out each employee&apos;s remaining holiday. Bank holidays never use allowance.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="space-y-1 col-span-2">
+            <Label className="text-xs text-slate-700 uppercase tracking-wide">Leave year starts</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={28}
+                value={leave.leaveYearStartDay}
+                onChange={(e) => {
+                  const val = parseInt(e.target.value || "1", 10);
+                  updateOrganizationSettings({ leave: { leaveYearStartDay: Math.min(28, Math.max(1, Number.isNaN(val) ? 1 : val)) } });
+                }}
+                className="h-8 w-16 text-xs bg-white border-slate-300 text-slate-900"
+              />
+              <Select
+                value={String(leave.leaveYearStartMonth)}
+                onValueChange={(value) => updateOrganizationSettings({ leave: { leaveYearStartMonth: Number(value) } })}
+              >
+                <SelectTrigger className="h-8 text-xs bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-white">
+                  {Array.from({ length: 12 }, (_, i) => (
+                    <SelectItem key={i + 1} value={String(i + 1)}>
+                      {format(new Date(2000, i, 1), "MMMM")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="default-entitlement" className="text-xs text-slate-700 uppercase tracking-wide">
+              Default days
+            </Label>
+            <Input
+              id="default-entitlement"
+              type="number"
+              min={0}
+              step={0.5}
+              value={leave.defaultEntitlementDays}
+              onChange={(e) => {
+                const val = Math.round(parseFloat(e.target.value || "0") * 2) / 2;
+                updateOrganizationSettings({ leave: { defaultEntitlementDays: Number.isNaN(val) ? 0 : Math.max(0, val) } });
+              }}
+              className="h-8 text-xs bg-white border-slate-300 text-slate-900"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="max-carry-over" className="text-xs text-slate-700 uppercase tracking-wide">
+              Max carry-over
+            </Label>
+            <Input
+              id="max-carry-over"
+              type="number"
+              min={0}
+              step={0.5}
+              value={leave.maxCarryOverDays}
+              onChange={(e) => {
+                const val = Math.round(parseFloat(e.target.value || "0") * 2) / 2;
+                updateOrganizationSettings({ leave: { maxCarryOverDays: Number.isNaN(val) ? 0 : Math.max(0, val) } });
+              }}
+              className="h-8 text-xs bg-white border-slate-300 text-slate-900"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="count-weekends" className="text-sm text-slate-700 cursor-pointer">
+            Weekend holiday uses allowance
+          </Label>
+          <Switch
+            id="count-weekends"
+            checked={leave.countWeekends}
+            onCheckedChange={(checked) => updateOrganizationSettings({ leave: { countWeekends: checked } })}
+            className="data-[state=checked]:bg-blue-600"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="add-bank-holiday" className="text-xs text-slate-700 uppercase tracking-wide">
+            Bank holidays
+          </Label>
+          <Input
+            id="add-bank-holiday"
+            type="date"
+            value=""
+            onChange={(e) => {
+              if (!e.target.value || leave.bankHolidays.includes(e.target.value)) return;
+              updateOrganizationSettings({ leave: { bankHolidays: [...leave.bankHolidays, e.target.value].sort() } });
+            }}
+            className="h-8 w-44 text-xs bg-white border-slate-300 text-slate-900"
+          />
+          {leave.bankHolidays.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {leave.bankHolidays.map((day) => (
+                <span
+                  key={day}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-xs text-slate-700"
+                >
+                  {format(new Date(`${day}T12:00:00`), "EEE d MMM yyyy")}
+                  <button
+                    type="button"
+                    title="Remove"
+                    onClick={() =>
+                      updateOrganizationSettings({ leave: { bankHolidays: leave.bankHolidays.filter((d) => d !== day) } })
+                    }
+                    className="text-slate-400 hover:text-red-500"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
       <div className="space-y-4 pt-2 border-t border-slate-100">
         <div>
           <h4 className="text-sm font-semibold text-slate-900">Approval Workflow</h4>
           <p className="text-xs text-slate-600 mt-0.5">
-            Control how bookings from availability search require approval.
+            Control which bookings need approval, who approves them, and how approvers hear about them.
           </p>
         </div>
         <div className="flex items-center justify-between p-4 rounded-lg border border-slate-200 bg-white">
@@ -461,10 +594,10 @@ export function UISettings({
             </div>
             <div>
               <Label htmlFor="require-approval" className="text-slate-900 font-medium cursor-pointer">
-                Require approval for bookings
+                Require approval for provisional bookings
               </Label>
               <p className="text-sm text-slate-600 mt-0.5">
-                When enabled, bookings from availability search will be marked as provisional and require operations manager approval.
+                When enabled, bookings from availability search are provisional and need operations manager approval, even when no approval rule below matches them.
               </p>
             </div>
           </div>
@@ -475,40 +608,39 @@ export function UISettings({
             className="data-[state=checked]:bg-purple-600"
           />
         </div>
-        {settings.requireApprovalForBookings && (
-          <div className="space-y-2 p-4 rounded-lg border border-slate-200 bg-white">
-            <Label htmlFor="approval-method" className="text-sm font-medium text-slate-700">
-              Approval Method
-            </Label>
-            <Select
-              value={settings.approvalMethod}
-              onValueChange={(value: 'email' | 'internal') => updateSetting("approvalMethod", value)}
-            >
-              <SelectTrigger className="bg-white">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent className="bg-white">
-                <SelectItem value="internal">
-                  <div className="flex items-center gap-2">
-                    <Bell className="w-4 h-4 text-slate-500" />
-                    Internal Popup
-                  </div>
-                </SelectItem>
-                <SelectItem value="email">
-                  <div className="flex items-center gap-2">
-                    <Mail className="w-4 h-4 text-slate-500" />
-                    Email Notification
-                  </div>
-                </SelectItem>
-              </SelectContent>
-            </Select>
-            <p className="text-xs text-slate-500 mt-1">
-              {settings.approvalMethod === 'internal' 
-                ? 'Operations manager will see a popup notification in the app when a booking requires approval.'
-                : 'Operations manager will receive an email notification when a booking requires approval.'}
-            </p>
-          </div>
-        )}
+        <div className="space-y-2 p-4 rounded-lg border border-slate-200 bg-white">
+          <Label htmlFor="approval-method" className="text-sm font-medium text-slate-700">
+            Approval Method
+          </Label>
+          <Select
+            value={settings.approvalMethod}
+            onValueChange={(value: 'email' | 'internal') => updateSetting("approvalMethod", value)}
+          >
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              <SelectItem value="internal">
+                <div className="flex items-center gap-2">
+                  <Bell className="w-4 h-4 text-slate-500" />
+                  Internal Popup
+                </div>
+              </SelectItem>
+              <SelectItem value="email">
+                <div className="flex items-center gap-2">
+                  <Mail className="w-4 h-4 text-slate-500" />
+                  Email Notification
+                </div>
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-slate-500 mt-1">
+            {settings.approvalMethod === 'internal' 
+              ? 'Approvers will see a popup notification in the app when a booking requires their approval.'
+              : 'Approvers will receive an email with approve and reject links when a booking requires their approval.'}
+          </p>
+        </div>
+        <ApprovalRulesSettings depots={depots} />
       </div>
     </div>
   );
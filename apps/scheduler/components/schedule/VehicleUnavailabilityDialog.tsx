@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar as CalendarIcon, Edit, Repeat, Trash2 } from "lucide-react";
+import { format, startOfDay } from "date-fns";
+import { useVehicleUnavailability } from "@/hooks/useScheduleData";
+import { RECURRENCE_LABELS, type RecurrenceFrequency } from "@/lib/recurrence";
+import { VEHICLE_UNAVAILABILITY_REASON_LABELS } from "@/lib/vehicleUnavailability";
+import type { VehicleUnavailability } from "@/lib/api";
+
+type Reason = VehicleUnavailability["reason"];
+
+interface VehicleUnavailabilityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicleId: string | null;
+  vehicleName: string;
+}
+
+const toInputDate = (value: string | Date) => format(startOfDay(new Date(value)), "yyyy-MM-dd");
+// Stored like employee absences: local midnight of the chosen day
+const fromInputDate = (value: string) => startOfDay(new Date(`${value}T00:00:00`)).toISOString();
+
+/**
+ * Book a vehicle off road / in for maintenance on specific days, and review or remove
+ * the periods already booked for it.
+ */
+export function VehicleUnavailabilityDialog({ open, onOpenChange, vehicleId, vehicleName }: VehicleUnavailabilityDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] bg-white text-slate-900">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarIcon className="w-5 h-5 text-blue-600" />
+            Book Vehicle Off Road – {vehicleName}
+          </DialogTitle>
+        </DialogHeader>
+        {/* Content unmounts on close, so the form starts fresh each time */}
+        {vehicleId && <VehicleUnavailabilityForm vehicleId={vehicleId} onDone={() => onOpenChange(false)} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VehicleUnavailabilityForm({ vehicleId, onDone }: { vehicleId: string; onDone: () => void }) {
+  const { periods, mutations } = useVehicleUnavailability();
+  const todayIso = toInputDate(new Date());
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [reason, setReason] = useState<Reason>("off_road");
+  const [mode, setMode] = useState<"single" | "range">("single");
+  const [startDate, setStartDate] = useState(todayIso);
+  const [endDate, setEndDate] = useState(todayIso);
+  const [recurrence, setRecurrence] = useState<RecurrenceFrequency>("none");
+  const [recurrenceUntil, setRecurrenceUntil] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const vehiclePeriods = periods
+    .filter((p) => p.vehicleId === vehicleId)
+    // Hide finished one-off periods; repeating ones stay until their last repeat
+    .filter((p) =>
+      p.recurrence === "none"
+        ? toInputDate(p.endDate) >= todayIso
+        : !p.recurrenceUntil || toInputDate(p.recurrenceUntil) >= todayIso
+    );
+
+  const isSaving = mutations.create.isPending || mutations.update.isPending;
+
+  const startEditing = (period: VehicleUnavailability) => {
+    const start = toInputDate(period.startDate);
+    const end = toInputDate(period.endDate);
+    setEditingId(period.id);
+    setReason(period.reason);
+    setMode(start === end ? "single" : "range");
+    setStartDate(start);
+    setEndDate(end);
+    setRecurrence(period.recurrence);
+    setRecurrenceUntil(period.recurrenceUntil ? toInputDate(period.recurrenceUntil) : "");
+    setNotes(period.notes || "");
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!startDate) return;
+    const end = mode === "single" || !endDate ? startDate : endDate;
+    if (end < startDate) {
+      setError("The end date must be on or after the start date.");
+      return;
+    }
+
+    const values = {
+      reason,
+      startDate: fromInputDate(startDate),
+      endDate: fromInputDate(end),
+      recurrence,
+      recurrenceUntil: recurrence !== "none" && recurrenceUntil ? fromInputDate(recurrenceUntil) : null,
+      notes: notes.trim() || null,
+    };
+
+    try {
+      if (editingId) {
+        await mutations.update.mutateAsync({ id: editingId, updates: values });
+      } else {
+        await mutations.create.mutateAsync({ vehicleId, ...values });
+      }
+      onDone();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save");
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    if (editingId === id) setEditingId(null);
+    mutations.remove.mutate(id);
+  };
+
+  const describe = (period: VehicleUnavailability) => {
+    const start = format(new Date(period.startDate), "EEE d MMM yyyy");
+    const end = format(new Date(period.endDate), "EEE d MMM yyyy");
+    return start === end ? start : `${start} – ${end}`;
+  };
+
+  return (
+    <>
+      <div className="space-y-4 mt-2">
+        {vehiclePeriods.length > 0 && (
+          <div className="space-y-1">
+            <Label className="text-sm font-semibold">Booked</Label>
+            <div className="border border-slate-200 rounded-md divide-y divide-slate-100 max-h-40 overflow-y-auto">
+              {vehiclePeriods.map((period) => (
+                <div
+                  key={period.id}
+                  className={`flex items-start gap-2 px-2 py-1.5 text-xs ${editingId === period.id ? "bg-blue-50" : ""}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-slate-900">
+                      {VEHICLE_UNAVAILABILITY_REASON_LABELS[period.reason]} · {describe(period)}
+                    </div>
+                    {period.recurrence !== "none" && (
+                      <div className="flex items-center gap-1 text-slate-500">
+                        <Repeat className="w-3 h-3" />
+                        {RECURRENCE_LABELS[period.recurrence]}
+                        {period.recurrenceUntil && ` until ${format(new Date(period.recurrenceUntil), "d MMM yyyy")}`}
+                      </div>
+                    )}
+                    {period.notes && <div className="text-slate-500 truncate">{period.notes}</div>}
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6"
+                    title="Edit"
+                    onClick={() => startEditing(period)}
+                  >
+                    <Edit className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-6 w-6 text-red-500 hover:text-red-600"
+                    title="Remove"
+                    onClick={() => handleDelete(period.id)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label className="text-sm font-semibold">Reason</Label>
+          <Select value={reason} onValueChange={(v) => setReason(v as Reason)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-white">
+              {(Object.keys(VEHICLE_UNAVAILABILITY_REASON_LABELS) as Reason[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {VEHICLE_UNAVAILABILITY_REASON_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-semibold">Dates</Label>
+          <div className="flex gap-3 items-center">
+            <div className="flex items-center gap-1">
+              <input
+                id="vehicle-single"
+                type="radio"
+                checked={mode === "single"}
+                onChange={() => setMode("single")}
+                className="h-4 w-4"
+              />
+              <Label htmlFor="vehicle-single" className="text-sm">
+                Single day
+              </Label>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                id="vehicle-range"
+                type="radio"
+                checked={mode === "range"}
+                onChange={() => setMode("range")}
+                className="h-4 w-4"
+              />
+              <Label htmlFor="vehicle-range" className="text-sm">
+                Date range
+              </Label>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              className="text-sm"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+            {mode === "range" && (
+              <Input
+                type="date"
+                className="text-sm"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-semibold">Recurrence</Label>
+          <div className="flex flex-wrap gap-3 text-sm">
+            {(["none", "weekly", "biweekly"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                className={`px-3 py-1 rounded-full border ${
+                  recurrence === value
+                    ? "bg-slate-900 text-white border-slate-900"
+                    : "border-slate-300 text-slate-700 hover:bg-slate-50"
+                }`}
+                onClick={() => setRecurrence(value)}
+              >
+                {value === "none" ? "None" : RECURRENCE_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          {recurrence !== "none" && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="vehicle-repeat-until" className="text-sm text-slate-600 shrink-0">
+                Repeat until
+              </Label>
+              <Input
+                id="vehicle-repeat-until"
+                type="date"
+                className="text-sm"
+                value={recurrenceUntil}
+                min={startDate}
+                onChange={(e) => setRecurrenceUntil(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="vehicle-unavailability-notes" className="text-sm font-semibold">
+            Notes
+          </Label>
+          <Textarea
+            id="vehicle-unavailability-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="e.g. MOT at Kwik Fit, booked 09:00"
+            className="text-sm"
+          />
+        </div>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+      </div>
+
+      <DialogFooter className="mt-4">
+        <Button
+          variant="outline"
+          className="border-slate-300 text-slate-700 hover:bg-slate-50"
+          onClick={onDone}
+        >
+          Cancel
+        </Button>
+        <Button
+          className="bg-blue-600 hover:bg-blue-700 text-white shadow-sm"
+          disabled={isSaving || !startDate}
+          onClick={handleSave}
+        >
+          {editingId ? "Update" : "Save"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,183 @@
+import { useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { GitMerge } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { ScheduleItem } from "@/lib/api";
+import { toDayKey } from "@/lib/scheduleDates";
+
+type Named = { id: string; name: string };
+
+interface VersionConflictDialogProps {
+  open: boolean;
+  // The changes being saved, the server's copy they would overwrite, and (when known) the
+  // copy the edit started from
+  mine: Partial<ScheduleItem> | null;
+  current: ScheduleItem | null;
+  base?: Partial<ScheduleItem> | null;
+  crews?: Named[];
+  depots?: Named[];
+  employees?: Named[];
+  vehicles?: Named[];
+  // Called with the changes to save over the current copy, or null to discard them
+  onResolve: (changes: Partial<ScheduleItem> | null) => void;
+}
+
+// Fields a planner edits, in the order they're shown
+const FIELDS: { key: keyof ScheduleItem; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "depotId", label: "Depot" },
+  { key: "crewId", label: "Crew" },
+  { key: "customer", label: "Customer" },
+  { key: "jobNumber", label: "Job number" },
+  { key: "address", label: "Address" },
+  { key: "projectManager", label: "Project manager" },
+  { key: "startTime", label: "Start time" },
+  { key: "onsiteTime", label: "Onsite time" },
+  { key: "duration", label: "Duration (hours)" },
+  { key: "jobStatus", label: "Job status" },
+  { key: "status", label: "Approval" },
+  { key: "color", label: "Colour" },
+  { key: "employeeId", label: "Employee" },
+  { key: "vehicleId", label: "Vehicle" },
+  { key: "noteContent", label: "Note" },
+];
+
+// Compare the way the server stores values: days for dates, and empty as null
+function normalize(key: keyof ScheduleItem, value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (key === "date") return toDayKey(new Date(value as string | Date));
+  return String(value);
+}
+
+/**
+ * Shown when a schedule item save is refused because someone else changed the item first.
+ * Lists the fields where the planner's version and the current one differ. The planner can
+ * pick a side per field (merge), save all of their own values over the current copy
+ * (overwrite), or discard their changes.
+ */
+export function VersionConflictDialog({
+  open,
+  mine,
+  current,
+  base,
+  crews = [],
+  depots = [],
+  employees = [],
+  vehicles = [],
+  onResolve,
+}: VersionConflictDialogProps) {
+  const differences = useMemo(() => {
+    if (!mine || !current) return [];
+    return FIELDS.filter(({ key }) => key in mine && normalize(key, mine[key]) !== normalize(key, current[key]));
+  }, [mine, current]);
+
+  // Fields where the current (their) value is kept; everything else keeps mine. Start by
+  // keeping theirs wherever the planner didn't change the field themselves. The page keys the
+  // dialog by conflict, so this starts afresh for each one.
+  const [keepTheirs, setKeepTheirs] = useState<Set<keyof ScheduleItem>>(() => {
+    const untouched = base
+      ? differences.filter(({ key }) => normalize(key, base[key]) === normalize(key, mine?.[key]))
+      : [];
+    return new Set(untouched.map(({ key }) => key));
+  });
+
+  const display = (key: keyof ScheduleItem, value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "—";
+    const lookup = { depotId: depots, crewId: crews, employeeId: employees, vehicleId: vehicles }[key as string];
+    if (lookup) return lookup.find((r) => r.id === value)?.name ?? "Unknown";
+    if (key === "date") return format(new Date(value as string | Date), "EEE, MMM d, yyyy");
+    return String(value);
+  };
+
+  const choose = (key: keyof ScheduleItem, theirs: boolean) => {
+    setKeepTheirs((prev) => {
+      const next = new Set(prev);
+      if (theirs) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const saveMerged = () => {
+    if (!mine || !current) return;
+    const merged: Partial<ScheduleItem> = { ...mine };
+    for (const key of keepTheirs) {
+      (merged as Record<string, unknown>)[key] = current[key];
+    }
+    onResolve(merged);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) onResolve(null); }}>
+      <DialogContent className="bg-white text-slate-900 border-slate-200 sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-slate-900">
+            <GitMerge className="w-5 h-5 text-amber-500" />
+            Changed by Someone Else
+          </DialogTitle>
+          <DialogDescription className="text-slate-700">
+            This booking was changed after you started editing it. Choose which version of each field to
+            keep, or overwrite their changes with yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        {differences.length > 0 ? (
+          <div className="border border-slate-200 rounded-lg overflow-hidden text-sm">
+            <div className="grid grid-cols-[120px_1fr_1fr] bg-slate-50 text-xs font-medium text-slate-500 px-3 py-2">
+              <span>Field</span>
+              <span>Yours</span>
+              <span>Current</span>
+            </div>
+            {differences.map(({ key, label }) => {
+              const theirs = keepTheirs.has(key);
+              return (
+                <div key={key} className="grid grid-cols-[120px_1fr_1fr] gap-2 px-3 py-2 border-t border-slate-100 items-start">
+                  <span className="text-slate-600">{label}</span>
+                  {[false, true].map((side) => (
+                    <button
+                      key={String(side)}
+                      type="button"
+                      onClick={() => choose(key, side)}
+                      className={cn(
+                        "text-left rounded px-2 py-1 border break-words",
+                        theirs === side
+                          ? "border-blue-400 bg-blue-50 text-slate-900"
+                          : "border-transparent text-slate-500 hover:bg-slate-50"
+                      )}
+                    >
+                      {display(key, side ? current?.[key] : mine?.[key])}
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-slate-600">Your changes don&apos;t touch anything they changed.</p>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2 border-t border-slate-200 pt-4">
+          <Button
+            variant="outline"
+            onClick={() => onResolve(null)}
+            className="w-full sm:w-auto text-slate-700 hover:bg-slate-100 border-slate-300 bg-white"
+          >
+            Discard Mine
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => mine && onResolve(mine)}
+            className="w-full sm:w-auto"
+          >
+            Overwrite
+          </Button>
+          <Button onClick={saveMerged} className="w-full sm:w-auto bg-blue-600 hover:bg-blue-700 text-white">
+            Save Merged
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,11 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api, type AuditEvent, type User } from "@/lib/api";
+import type { SubscriptionAccess } from "@/lib/subscription";
+import { PLANS, type EntitlementUsage, type Entitlements, type PlanType } from "@/lib/entitlements";
+import type { ApprovalProgress } from "@/lib/approvals";
 
 export type MemberRole = "admin" | "operations" | "user";
-export type PlanType = "starter" | "pro";
+export type { PlanType };
 
 export interface Organization {
   id: string;
@@ -10,24 +14,9 @@ export interface Organization {
   subscriptionStatus: string;
 }
 
-export interface QuotaUsage {
-  depots: { used: number; limit: number; remaining: number };
-  crews: { used: number; limit: number; remaining: number };
-  employees: { used: number; limit: number; remaining: number };
-  vehicles: { used: number; limit: number; remaining: number };
-}
-
-export interface QuotaInfo {
-  plan: PlanType;
-  limits: {
-    maxDepots: number;
-    maxCrews: number;
-    maxEmployees: number;
-    maxVehicles: number;
-    requiresApproval: boolean;
-  };
-  usage: QuotaUsage;
-  requiresApproval: boolean;
+// Response of /api/organization/usage
+export interface EntitlementUsageInfo extends Entitlements {
+  usage: EntitlementUsage;
 }
 
 export interface Member {
@@ -57,11 +46,15 @@ export interface PendingScheduleItem {
   crewId: string;
   depotId: string;
   status: string;
-  requestedBy: string;
+  requestedBy: string | null;
   requestedByUser: { id: string; username: string } | null;
   customer: string | null;
   location: string | null;
   notes: string | null;
+  // The approval rule it matched and how far through its steps it is
+  approval: ApprovalProgress;
+  // Whether the current user can decide the step it's waiting for
+  canDecide: boolean;
 }
 
 export function useOrganization() {
@@ -77,9 +70,20 @@ export function useOrganization() {
   });
 }
 
-export function useQuota() {
-  return useQuery<QuotaInfo>({
-    queryKey: ["/api/organization/quota"],
+// Billing access for the current organization (see lib/subscription.ts). Rechecked every few
+// minutes so a trial or grace period ending while the page is open is picked up.
+export function useSubscriptionAccess() {
+  const { data, isLoading } = useQuery<User>({
+    queryKey: ["/api/me"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+  return { subscription: (data?.subscription ?? null) as SubscriptionAccess | null, isLoading };
+}
+
+// Admin only
+export function useEntitlementUsage() {
+  return useQuery<EntitlementUsageInfo>({
+    queryKey: ["/api/organization/usage"],
   });
 }
 
@@ -109,9 +113,30 @@ export function useInvites() {
   });
 }
 
+// Audit trail of one schedule item, newest first (admin only)
+export function useItemHistory(itemId: string | undefined, enabled: boolean) {
+  return useQuery<AuditEvent[]>({
+    queryKey: ["/api/audit", "schedule_item", itemId],
+    queryFn: async () => {
+      const { events } = await api.getAuditEvents({ entityType: "schedule_item", entityId: itemId });
+      return events;
+    },
+    enabled: enabled && !!itemId,
+    // Saves elsewhere don't invalidate this, so refetch whenever the panel opens
+    staleTime: 0,
+  });
+}
+
 export function usePendingScheduleItems() {
   return useQuery<PendingScheduleItem[]>({
     queryKey: ["/api/schedule-items/pending"],
+    queryFn: async () => {
+      const response = await fetch("/api/schedule-items/pending");
+      if (!response.ok) {
+        throw new Error("Failed to fetch pending bookings");
+      }
+      return response.json();
+    },
   });
 }
 
@@ -230,6 +255,7 @@ export function useApproveScheduleItem() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/schedule-items/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/schedule-items"] });
+      queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
     },
   });
 }
@@ -252,6 +278,7 @@ export function useRejectScheduleItem() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/schedule-items/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/schedule-items"] });
+      queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
     },
   });
 }
@@ -282,12 +309,5 @@ export function getRoleDisplayName(role: MemberRole): string {
 }
 
 export function getPlanDisplayName(plan: PlanType): string {
-  switch (plan) {
-    case "starter":
-      return "Starter";
-    case "pro":
-      return "Pro";
-    default:
-      return plan;
-  }
+  return PLANS[plan]?.name ?? plan;
 }
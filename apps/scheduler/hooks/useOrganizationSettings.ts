@@ -0,0 +1,134 @@
+import { useCallback, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { api } from "@/lib/api";
+import {
+  normalizeOrganizationSettings,
+  normalizeClients,
+  SCHEDULING_SETTING_KEYS,
+  type OrganizationSettings,
+  type OrganizationSettingsPatch,
+} from "@/lib/organizationSettings";
+import { useOrganization, canManageResources } from "@/hooks/useOrganization";
+
+export const ORGANIZATION_SETTINGS_QUERY_KEY = ["organizationSettings"];
+
+// Keys these settings used to live under in each browser's localStorage
+export const LEGACY_SETTINGS_STORAGE_KEYS = {
+  uiSettings: "sewer-swarm-ui-settings",
+  vehicleCombinations: "sewer-swarm-vehicle-combinations",
+  vehicleTypes: "scheduler_vehicle_types",
+  clients: "scheduler_clients",
+} as const;
+
+const DEFAULT_ORGANIZATION_SETTINGS = normalizeOrganizationSettings(null);
+
+function readLegacyJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// One attempt per page load, however many components use the hook
+let legacyImportStarted = false;
+
+/**
+ * Send this browser's pre-server settings to the organization once.
+ * The server ignores the import if another browser got there first.
+ */
+async function importLegacySettings(queryClient: QueryClient) {
+  if (legacyImportStarted || typeof window === "undefined") return;
+  legacyImportStarted = true;
+
+  const uiSettings = readLegacyJson(LEGACY_SETTINGS_STORAGE_KEYS.uiSettings);
+  const vehicleCombinations = readLegacyJson(LEGACY_SETTINGS_STORAGE_KEYS.vehicleCombinations);
+  const vehicleTypes = readLegacyJson(LEGACY_SETTINGS_STORAGE_KEYS.vehicleTypes);
+  const clients = readLegacyJson(LEGACY_SETTINGS_STORAGE_KEYS.clients);
+
+  let scheduling: Record<string, unknown> | undefined;
+  if (uiSettings && typeof uiSettings === "object") {
+    const stored = uiSettings as Record<string, unknown>;
+    scheduling = {};
+    for (const key of SCHEDULING_SETTING_KEYS) {
+      if (key in stored) scheduling[key] = stored[key];
+    }
+  }
+
+  // Legacy vehicle types could be plain strings
+  const normalizedVehicleTypes = Array.isArray(vehicleTypes)
+    ? vehicleTypes.map((t) => (typeof t === "string" ? { type: t } : t))
+    : undefined;
+
+  if (!scheduling && !vehicleCombinations && !normalizedVehicleTypes && !clients) return;
+
+  try {
+    const result = await api.importOrganizationSettings({
+      scheduling,
+      vehicleTypes: normalizedVehicleTypes,
+      vehicleCombinations,
+      clients,
+    });
+    queryClient.setQueryData(ORGANIZATION_SETTINGS_QUERY_KEY, result.settings);
+  } catch (error) {
+    console.error("Failed to import browser settings:", error);
+  }
+}
+
+export function useOrganizationSettings() {
+  const queryClient = useQueryClient();
+  const { data: orgData } = useOrganization();
+  const canEdit = orgData ? canManageResources(orgData.membershipRole) : false;
+
+  const query = useQuery({
+    queryKey: ORGANIZATION_SETTINGS_QUERY_KEY,
+    queryFn: () => api.getOrganizationSettings(),
+    staleTime: 60_000,
+  });
+
+  useEffect(() => {
+    if (!query.data || query.data.importedAt || !canEdit) return;
+    void importLegacySettings(queryClient);
+  }, [query.data, canEdit, queryClient]);
+
+  const updateMutation = useMutation({
+    mutationFn: (patch: OrganizationSettingsPatch) => api.updateOrganizationSettings(patch),
+    onMutate: async (patch) => {
+      await queryClient.cancelQueries({ queryKey: ORGANIZATION_SETTINGS_QUERY_KEY });
+      const previous = queryClient.getQueryData<OrganizationSettings>(ORGANIZATION_SETTINGS_QUERY_KEY);
+      if (previous) {
+        queryClient.setQueryData<OrganizationSettings>(ORGANIZATION_SETTINGS_QUERY_KEY, {
+          ...previous,
+          scheduling: { ...previous.scheduling, ...patch.scheduling },
+          vehicleTypes: patch.vehicleTypes ?? previous.vehicleTypes,
+          vehicleCombinations: patch.vehicleCombinations ?? previous.vehicleCombinations,
+          clients: patch.clients ? normalizeClients(patch.clients) : previous.clients,
+          leave: { ...previous.leave, ...patch.leave },
+          approvals: { ...previous.approvals, ...patch.approvals },
+        });
+      }
+      return { previous };
+    },
+    onError: (error, _patch, context) => {
+      console.error("Failed to save organization settings:", error);
+      if (context?.previous) {
+        queryClient.setQueryData(ORGANIZATION_SETTINGS_QUERY_KEY, context.previous);
+      }
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(ORGANIZATION_SETTINGS_QUERY_KEY, settings);
+    },
+  });
+
+  const { mutate: update } = updateMutation;
+
+  const updateSettings = useCallback((patch: OrganizationSettingsPatch) => update(patch), [update]);
+
+  return {
+    settings: query.data ?? DEFAULT_ORGANIZATION_SETTINGS,
+    isLoaded: query.isSuccess || query.isError,
+    canEdit,
+    updateSettings,
+  };
+}
@@ -1,10 +1,33 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
 import { api } from "@/lib/api";
-import type { ScheduleItem, Depot, Crew, Employee, Vehicle } from "@/lib/api";
-
-// Helper to check if we're in production
-function getPollingInterval(): number | false {
+import type {
+  ScheduleItem,
+  Depot,
+  Crew,
+  Employee,
+  Vehicle,
+  VehicleUnavailabilityInput,
+  EmployeeAbsenceInput,
+  LeaveAllowanceInput,
+  ScheduleSeriesRuleInput,
+  ScheduleSeriesUpdate,
+  JobInput,
+  CustomerInput,
+  SiteInput,
+  ScheduleExportOptions,
+} from "@/lib/api";
+import type { CalendarFeedScope, JobStatus } from "@shared/schema";
+import type { SeriesEditScope } from "@/lib/recurrence";
+import type { ImportRequest } from "@/lib/resourceImport";
+import type { AvailabilitySearchInput } from "@/lib/availability";
+import type { AcceptedAssignment } from "@/lib/autoSchedule";
+import { useScheduleRealtime, type RealtimeStatus } from "@/hooks/useScheduleRealtime";
+
+// Changes arrive over the real-time channel (useScheduleRealtime); polling is only the
+// fallback while it's down. Helper to check if we're in production
+function getPollingInterval(realtime: RealtimeStatus): number | false {
   if (typeof window === 'undefined') return false;
+  if (realtime !== "disconnected") return false;
   
   const isProduction = 
     window.location.hostname.includes('vercel.app') ||
@@ -15,9 +38,50 @@ function getPollingInterval(): number | false {
   return isProduction ? 5000 : false;
 }
 
+// ---------- Optimistic concurrency ----------
+// Edits carry the version they were made from, and the server refuses them (409) if the row
+// has changed since; see lib/concurrency.ts.
+
+type Versioned = { id: string; version?: number };
+
+function cachedVersion(queryClient: QueryClient, queryKey: string, id: string): number | undefined {
+  return queryClient.getQueryData<Versioned[]>([queryKey])?.find((row) => row.id === id)?.version;
+}
+
+// Put a saved row (with its new version) into the cache straight away, so the next edit
+// doesn't wait for a refetch to send the right version
+function replaceCached<T extends Versioned>(queryClient: QueryClient, queryKey: string, saved: T) {
+  if (typeof saved?.version !== "number") return;
+  queryClient.setQueryData<T[]>([queryKey], (old) =>
+    old?.map((row) => (row.id === saved.id ? { ...row, ...saved } : row))
+  );
+}
+
+// Versions replaced by this tab's own saves, per schedule item (version sent -> version saved)
+const ownItemSaves = new Map<string, Map<number, number>>();
+
+/**
+ * The version to send with an edit to a schedule item: the one the edit was made from, or
+ * the cached one. A copy one of this tab's own saves has since replaced (say, a second drag
+ * before the first save returned) is carried forward rather than treated as stale.
+ */
+function itemVersionForSave(queryClient: QueryClient, id: string, version?: number): number | undefined {
+  let base = version ?? cachedVersion(queryClient, "scheduleItems", id);
+  const saves = ownItemSaves.get(id);
+  while (base !== undefined && saves?.has(base)) base = saves.get(base);
+  return base;
+}
+
+function recordOwnItemSave(id: string, sentVersion: number | undefined, saved: ScheduleItem) {
+  if (sentVersion === undefined || typeof saved?.version !== "number") return;
+  const saves = ownItemSaves.get(id) ?? new Map<number, number>();
+  saves.set(sentVersion, saved.version);
+  ownItemSaves.set(id, saves);
+}
+
 export function useScheduleData() {
   const queryClient = useQueryClient();
-  const pollingInterval = getPollingInterval();
+  const pollingInterval = getPollingInterval(useScheduleRealtime());
 
   const depots = useQuery({
     queryKey: ["depots"],
@@ -182,12 +246,19 @@ export function useScheduleData() {
         queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
       }
       // Don't invalidate on success - we've already updated the cache with the real item
+      queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
     },
   });
 
   const updateScheduleItem = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<ScheduleItem> }) =>
-      api.updateScheduleItem(id, data),
+    // A stale edit gets the version conflict dialog (api.setVersionConflictResolver)
+    // `base` is the copy the edit was made from, used to suggest a merge
+    mutationFn: async ({ id, data, base }: { id: string; data: Partial<ScheduleItem>; base?: Partial<ScheduleItem> }) => {
+      const version = itemVersionForSave(queryClient, id, data.version);
+      const saved = await api.updateScheduleItem(id, { ...data, version }, base);
+      recordOwnItemSave(id, version, saved);
+      return saved;
+    },
     // Optimistic update - update cache immediately before server responds
     onMutate: async ({ id, data }) => {
       // Cancel any outgoing refetches to avoid overwriting optimistic update
@@ -223,6 +294,10 @@ export function useScheduleData() {
         queryClient.setQueryData(["scheduleItems"], context.previousItems);
       }
     },
+    // The saved copy may differ from the optimistic one (e.g. merged after a version conflict)
+    onSuccess: (saved) => {
+      replaceCached(queryClient, "scheduleItems", { ...saved, date: new Date(saved.date) });
+    },
     // Important: group operations (like applying a color across many job-days) can fire a burst of PATCHes.
     // Invalidating after *every* PATCH can create a burst of GET /api/schedule-items refetches, which
     // increases load and can contribute to intermittent "Failed to fetch" in dev. We already do an
@@ -231,6 +306,7 @@ export function useScheduleData() {
       if (error) {
         queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
       }
+      queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
     },
   });
 
@@ -260,9 +336,55 @@ export function useScheduleData() {
       if (error) {
         queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
       }
+      queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
     },
   });
 
+  // Repeating bookings add, change or remove many items at once, so refetch rather than patch
+  const onSeriesSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
+    queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule-items/pending"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule-series"] });
+  };
+
+  const createScheduleSeries = useMutation({
+    mutationFn: (input: {
+      rule: ScheduleSeriesRuleInput;
+      item: Omit<ScheduleItem, "id" | "userId" | "date">;
+      fromItemId?: string;
+    }) => api.createScheduleSeries(input),
+    onSettled: onSeriesSettled,
+  });
+
+  const updateScheduleSeries = useMutation({
+    mutationFn: ({ id, update }: { id: string; update: ScheduleSeriesUpdate }) => api.updateScheduleSeries(id, update),
+    onSettled: onSeriesSettled,
+  });
+
+  const deleteScheduleSeries = useMutation({
+    mutationFn: ({ id, scope, fromItemId }: { id: string; scope: Exclude<SeriesEditScope, "this">; fromItemId?: string }) =>
+      api.deleteScheduleSeries(id, scope, fromItemId),
+    onSettled: onSeriesSettled,
+  });
+
+  // Job edits and moves are written through to all of the job's days
+  const onJobSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
+    queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+  };
+
+  const updateJob = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: JobInput & { version?: number } }) => api.updateJob(id, changes),
+    onSettled: onJobSettled,
+  });
+
+  const moveJob = useMutation({
+    mutationFn: ({ id, days }: { id: string; days: number }) => api.moveJob(id, days),
+    onSettled: onJobSettled,
+  });
+
   const saveColorLabel = useMutation({
     mutationFn: ({ color, label }: { color: string; label: string }) =>
       api.saveColorLabel(color, label),
@@ -303,7 +425,7 @@ export function useScheduleData() {
 
   const updateDepot = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<Depot> }) =>
-      api.updateDepot(id, data),
+      api.updateDepot(id, { ...data, version: data.version ?? cachedVersion(queryClient, "depots", id) }),
     // Optimistic update - update cache immediately
     onMutate: async ({ id, data }) => {
       await queryClient.cancelQueries({ queryKey: ["depots"] });
@@ -353,8 +475,13 @@ export function useScheduleData() {
 
   const updateCrew = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<Crew> }) =>
-      api.updateCrew(id, data),
-    onSuccess: () => {
+      api.updateCrew(id, { ...data, version: data.version ?? cachedVersion(queryClient, "crews", id) }),
+    onSuccess: (saved) => {
+      replaceCached(queryClient, "crews", saved);
+      queryClient.invalidateQueries({ queryKey: ["crews"] });
+    },
+    // Refused as stale: refetch so the next edit starts from the current copy
+    onError: () => {
       queryClient.invalidateQueries({ queryKey: ["crews"] });
     },
   });
@@ -368,8 +495,12 @@ export function useScheduleData() {
 
   const updateEmployee = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<Employee> }) =>
-      api.updateEmployee(id, data),
-    onSuccess: () => {
+      api.updateEmployee(id, { ...data, version: data.version ?? cachedVersion(queryClient, "employees", id) }),
+    onSuccess: (saved) => {
+      replaceCached(queryClient, "employees", saved);
+      queryClient.invalidateQueries({ queryKey: ["employees"] });
+    },
+    onError: () => {
       queryClient.invalidateQueries({ queryKey: ["employees"] });
     },
   });
@@ -383,8 +514,13 @@ export function useScheduleData() {
 
   const updateVehicle = useMutation({
     mutationFn: ({ id, data }: { id: string; data: Partial<Vehicle> }) =>
-      api.updateVehicle(id, data),
-    onSuccess: () => {
+      api.updateVehicle(id, { ...data, version: data.version ?? cachedVersion(queryClient, "vehicles", id) }),
+    onSuccess: (saved) => {
+      replaceCached(queryClient, "vehicles", saved);
+      queryClient.invalidateQueries({ queryKey: ["vehicles"] });
+      queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
+    },
+    onError: () => {
       queryClient.invalidateQueries({ queryKey: ["vehicles"] });
     },
   });
@@ -417,6 +553,11 @@ export function useScheduleData() {
       createScheduleItem,
       updateScheduleItem,
       deleteScheduleItem,
+      createScheduleSeries,
+      updateScheduleSeries,
+      deleteScheduleSeries,
+      updateJob,
+      moveJob,
       saveColorLabel,
       createDepot,
       updateDepot,
@@ -434,3 +575,306 @@ export function useScheduleData() {
     },
   };
 }
+
+/**
+ * Server-detected scheduling conflicts (double bookings, absences, unavailable vehicles)
+ * for the days from..to (yyyy-MM-dd). Refreshed whenever schedule items change.
+ */
+export function useScheduleConflicts(from: string, to: string) {
+  const pollingInterval = getPollingInterval(useScheduleRealtime());
+
+  return useQuery({
+    queryKey: ["scheduleConflicts", from, to],
+    queryFn: async () => (await api.getScheduleConflicts(from, to)).conflicts,
+    refetchInterval: pollingInterval,
+  });
+}
+
+/** Schedule emails sent for each of the days from..to, with the mutation to send a day's. */
+export function useDailyEmails(from: string, to: string) {
+  const queryClient = useQueryClient();
+
+  const summaries = useQuery({
+    queryKey: ["/api/schedule/daily-emails", from, to],
+    queryFn: async () => (await api.getDailyEmailSummaries(from, to)).days,
+  });
+
+  const send = useMutation({
+    mutationFn: ({ date, employeeIds }: { date: string; employeeIds?: string[] }) =>
+      api.sendDailyScheduleEmails(date, employeeIds),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["/api/schedule/daily-emails"] }),
+  });
+
+  return { summaries: summaries.data || [], send };
+}
+
+/** A repeating booking and its occurrences, for showing its rule when editing an occurrence. */
+export function useScheduleSeries(id: string | null | undefined) {
+  return useQuery({
+    queryKey: ["/api/schedule-series", id],
+    queryFn: () => api.getScheduleSeries(id!),
+    enabled: !!id,
+  });
+}
+
+/** Jobs with their allocated days and hours, optionally filtered. */
+export function useJobs(query: { search?: string; status?: JobStatus } = {}) {
+  return useQuery({
+    queryKey: ["/api/jobs", query],
+    queryFn: () => api.getJobs(query),
+  });
+}
+
+/**
+ * The customer directory and its sites, for picking on a booking, with the mutations to add
+ * to them from the booking form.
+ */
+export function useCustomerDirectory() {
+  const queryClient = useQueryClient();
+
+  const customers = useQuery({
+    queryKey: ["/api/customers"],
+    queryFn: () => api.getCustomers(),
+  });
+
+  const sites = useQuery({
+    queryKey: ["/api/sites"],
+    queryFn: () => api.getSites(),
+  });
+
+  const createCustomer = useMutation({
+    mutationFn: (input: CustomerInput & { name: string }) => api.createCustomer(input),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["/api/customers"] }),
+  });
+
+  const createSite = useMutation({
+    mutationFn: (input: SiteInput & { address: string }) => api.createSite(input),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["/api/sites"] }),
+  });
+
+  return {
+    customers: customers.data || [],
+    sites: sites.data || [],
+    isLoading: customers.isLoading || sites.isLoading,
+    mutations: { createCustomer, createSite },
+  };
+}
+
+/** Previews and imports employee and vehicle sheets; an import refreshes the resource lists. */
+export function useResourceImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ImportRequest) => api.importResources(input),
+    onSuccess: (_result, input) => {
+      if (!input.commit) return;
+      queryClient.invalidateQueries({ queryKey: [input.kind] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/usage"] });
+    },
+  });
+}
+
+/**
+ * Calendar feeds, with the mutations to create one, rotate its token and revoke it. Only admins
+ * and operations can load them, so pass `enabled: false` for anyone else.
+ */
+export function useCalendarFeeds(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const feeds = useQuery({
+    queryKey: ["/api/calendar-feeds"],
+    queryFn: () => api.getCalendarFeeds(),
+    enabled,
+  });
+
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: ["/api/calendar-feeds"] });
+
+  const create = useMutation({
+    mutationFn: ({ scope, subjectId }: { scope: CalendarFeedScope; subjectId: string }) =>
+      api.createCalendarFeed(scope, subjectId),
+    onSettled,
+  });
+
+  const rotate = useMutation({
+    mutationFn: (id: string) => api.rotateCalendarFeed(id),
+    onSettled,
+  });
+
+  const revoke = useMutation({
+    mutationFn: (id: string) => api.deleteCalendarFeed(id),
+    onSettled,
+  });
+
+  return { feeds: feeds.data || [], mutations: { create, rotate, revoke } };
+}
+
+/**
+ * Employee absences (time off) with the mutations to record, change and remove them.
+ * Changing or removing an absence re-checks the bookings on its days server-side, which
+ * can clear conflict overrides on those items.
+ */
+export function useEmployeeAbsences() {
+  const queryClient = useQueryClient();
+  const pollingInterval = getPollingInterval(useScheduleRealtime());
+
+  const absences = useQuery({
+    queryKey: ["employeeAbsences"],
+    queryFn: () => api.getEmployeeAbsences(),
+    refetchInterval: pollingInterval,
+  });
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["employeeAbsences"] });
+    queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
+    queryClient.invalidateQueries({ queryKey: ["leaveBalances"] });
+  };
+
+  const create = useMutation({
+    mutationFn: (input: EmployeeAbsenceInput) => api.createEmployeeAbsence(input),
+    onSettled,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Omit<EmployeeAbsenceInput, "employeeId">> }) =>
+      api.updateEmployeeAbsence(id, updates),
+    onSettled: () => {
+      onSettled();
+      queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => api.deleteEmployeeAbsence(id),
+    onSettled: () => {
+      onSettled();
+      queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
+    },
+  });
+
+  return {
+    absences: absences.data || [],
+    isLoading: absences.isLoading,
+    mutations: { create, update, remove },
+  };
+}
+
+/**
+ * Holiday allowance balances for the leave year that includes `date` (yyyy-MM-dd; the
+ * current leave year when omitted), with the mutation to set an employee's entitlement
+ * and carry-over.
+ */
+export function useLeaveBalances(date?: string) {
+  const queryClient = useQueryClient();
+
+  const balances = useQuery({
+    queryKey: ["leaveBalances", date ?? "current"],
+    queryFn: () => api.getLeaveBalances(date),
+  });
+
+  const updateAllowance = useMutation({
+    mutationFn: ({ employeeId, input }: { employeeId: string; input: LeaveAllowanceInput }) =>
+      api.updateLeaveAllowance(employeeId, input),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["leaveBalances"] }),
+  });
+
+  return {
+    leaveYear: balances.data?.leaveYear ?? null,
+    balances: balances.data?.balances || [],
+    isLoading: balances.isLoading,
+    mutations: { updateAllowance },
+  };
+}
+
+/**
+ * Dated off road / maintenance periods for the organization's vehicles, with the
+ * mutations to book, change and remove them.
+ */
+export function useVehicleUnavailability() {
+  const queryClient = useQueryClient();
+  const pollingInterval = getPollingInterval(useScheduleRealtime());
+
+  const periods = useQuery({
+    queryKey: ["vehicleUnavailability"],
+    queryFn: () => api.getVehicleUnavailability(),
+    refetchInterval: pollingInterval,
+  });
+
+  // Periods change which bookings clash
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["vehicleUnavailability"] });
+    queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
+  };
+
+  const create = useMutation({
+    mutationFn: (input: VehicleUnavailabilityInput) => api.createVehicleUnavailability(input),
+    onSettled,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Omit<VehicleUnavailabilityInput, "vehicleId">> }) =>
+      api.updateVehicleUnavailability(id, updates),
+    onSettled,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => api.deleteVehicleUnavailability(id),
+    onSettled,
+  });
+
+  return {
+    periods: periods.data || [],
+    isLoading: periods.isLoading,
+    mutations: { create, update, remove },
+  };
+}
+
+/** Download the schedule as CSV or XLSX: fetches the file and saves it through the browser. */
+export function useAvailabilitySearch() {
+  return useMutation({
+    mutationFn: (search: AvailabilitySearchInput) => api.searchAvailability(search),
+  });
+}
+
+/**
+ * The weekly auto-scheduler: save a waiting job's planning details, propose the week, and book
+ * the accepted part of the proposal.
+ */
+export function useAutoSchedule() {
+  const queryClient = useQueryClient();
+
+  const savePlanning = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: JobInput }) => api.updateJob(id, changes),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ["/api/jobs"] }),
+  });
+
+  const propose = useMutation({
+    mutationFn: ({ weekStart, jobIds }: { weekStart: string; jobIds?: string[] }) => api.proposeAutoSchedule(weekStart, jobIds),
+  });
+
+  const accept = useMutation({
+    mutationFn: (assignments: AcceptedAssignment[]) => api.acceptAutoSchedule(assignments),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["scheduleItems"] });
+      queryClient.invalidateQueries({ queryKey: ["scheduleConflicts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    },
+  });
+
+  return { savePlanning, propose, accept };
+}
+
+export function useScheduleExport() {
+  return useMutation({
+    mutationFn: async (options: ScheduleExportOptions) => {
+      const { blob, fileName } = await api.exportSchedule(options);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      // After the click has handed the file to the browser
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      return fileName;
+    },
+  });
+}
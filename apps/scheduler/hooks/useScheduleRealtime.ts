@@ -0,0 +1,217 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useQueryClient, type QueryClient, type QueryKey } from "@tanstack/react-query";
+import type { AuditEvent } from "@/lib/api";
+import type { AuditEntityType } from "@shared/schema";
+
+/**
+ * Live schedule changes from /api/schedule/events (see lib/realtime.ts).
+ *
+ * One EventSource is shared by every hook on the page. Each change is patched straight into
+ * the React Query cache; lists we can't patch from a change alone are refetched instead.
+ * While the connection is down the schedule hooks fall back to polling.
+ */
+
+export type RealtimeStatus = "connecting" | "connected" | "disconnected";
+
+const EVENTS_URL = "/api/schedule/events";
+const MAX_RECONNECT_DELAY_MS = 30_000;
+// Events already applied, so the stream's overlap and catch-up don't apply them twice
+const APPLIED_EVENT_LIMIT = 1000;
+
+// Lists patched in place from each change
+const PATCHED_QUERIES: Partial<Record<AuditEntityType, QueryKey>> = {
+  schedule_item: ["scheduleItems"],
+  crew: ["crews"],
+  employee: ["employees"],
+  vehicle: ["vehicles"],
+  employee_absence: ["employeeAbsences"],
+  vehicle_unavailability: ["vehicleUnavailability"],
+};
+
+// Queries derived from each kind of change, refetched when it changes
+const DEPENDENT_QUERIES: Record<AuditEntityType, QueryKey[]> = {
+  schedule_item: [["scheduleConflicts"], ["/api/schedule-items/pending"], ["/api/jobs"]],
+  schedule_series: [["/api/schedule-series"]],
+  job: [["/api/jobs"]],
+  customer: [["/api/customers"]],
+  site: [["/api/sites"]],
+  depot: [["depots"], ["archivedDepots"], ["/api/organization/usage"]],
+  crew: [["/api/organization/usage"]],
+  employee: [["scheduleConflicts"], ["leaveBalances"], ["/api/organization/usage"]],
+  vehicle: [["scheduleConflicts"], ["/api/organization/usage"]],
+  employee_absence: [["scheduleConflicts"], ["leaveBalances"]],
+  vehicle_unavailability: [["scheduleConflicts"]],
+  leave_allowance: [["leaveBalances"]],
+  membership: [["/api/organization/members"], ["/api/organization/usage"]],
+  invite: [["/api/organization/invites"]],
+  calendar_feed: [["/api/calendar-feeds"]],
+};
+
+type Row = Record<string, unknown> & { id: string };
+
+// The row's new field values; for a created row that's every field
+function changedValues(event: AuditEvent): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [field, { after }] of Object.entries(event.changes)) {
+    values[field] = field === "date" && typeof after === "string" ? new Date(after) : after;
+  }
+  return values;
+}
+
+/** Apply one change to the cached list for its entity. Returns false if it couldn't be patched. */
+function patchCachedList(queryClient: QueryClient, queryKey: QueryKey, event: AuditEvent): boolean {
+  const rows = queryClient.getQueryData<Row[]>(queryKey);
+  if (!rows) return true; // Not loaded; it'll be fetched fresh when needed
+
+  if (event.action === "delete") {
+    queryClient.setQueryData<Row[]>(queryKey, rows.filter((row) => row.id !== event.entityId));
+    return true;
+  }
+
+  const values = changedValues(event);
+  const index = rows.findIndex((row) => row.id === event.entityId);
+  if (index >= 0) {
+    const updated = [...rows];
+    updated[index] = { ...rows[index], ...values };
+    queryClient.setQueryData<Row[]>(queryKey, updated);
+    return true;
+  }
+  if (event.action === "create") {
+    queryClient.setQueryData<Row[]>(queryKey, [...rows, { ...values, id: event.entityId }]);
+    return true;
+  }
+  // A change to a row we don't have: only the changed fields are known, so refetch
+  return false;
+}
+
+function applyChange(queryClient: QueryClient, event: AuditEvent) {
+  const patched = PATCHED_QUERIES[event.entityType];
+  if (patched && !patchCachedList(queryClient, patched, event)) {
+    queryClient.invalidateQueries({ queryKey: patched });
+  }
+  for (const queryKey of DEPENDENT_QUERIES[event.entityType]) {
+    queryClient.invalidateQueries({ queryKey });
+  }
+  queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+}
+
+// Refetch everything the stream would otherwise have patched
+function resync(queryClient: QueryClient) {
+  const queryKeys = [...Object.values(PATCHED_QUERIES), ...Object.values(DEPENDENT_QUERIES).flat()];
+  for (const queryKey of queryKeys) {
+    queryClient.invalidateQueries({ queryKey });
+  }
+}
+
+// ---------- Shared connection ----------
+
+let status: RealtimeStatus = "connecting";
+const statusListeners = new Set<() => void>();
+let subscribers = 0;
+let source: EventSource | null = null;
+let client: QueryClient | null = null;
+let lastEventId: string | null = null;
+const appliedEventIds = new Set<string>();
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = 1000;
+// Whether a connection has been lost since the page loaded, so changes may have been missed
+let hasDisconnected = false;
+
+function setStatus(next: RealtimeStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener());
+}
+
+function handleChange(message: MessageEvent<string>) {
+  if (!client) return;
+  const event = JSON.parse(message.data) as AuditEvent;
+  lastEventId = event.id;
+  if (appliedEventIds.has(event.id)) return;
+  appliedEventIds.add(event.id);
+  if (appliedEventIds.size > APPLIED_EVENT_LIMIT) {
+    // Sets iterate in insertion order, so this drops the oldest
+    appliedEventIds.delete(appliedEventIds.values().next().value!);
+  }
+  applyChange(client, event);
+}
+
+function connect() {
+  if (typeof window === "undefined" || typeof EventSource === "undefined") {
+    setStatus("disconnected");
+    return;
+  }
+
+  // A new EventSource doesn't carry the old one's Last-Event-ID, so pass it along
+  const url = lastEventId ? `${EVENTS_URL}?lastEventId=${encodeURIComponent(lastEventId)}` : EVENTS_URL;
+  const eventSource = new EventSource(url);
+  source = eventSource;
+
+  eventSource.addEventListener("open", () => {
+    setStatus("connected");
+    reconnectDelay = 1000;
+    // Without a last event the stream can't catch up on what happened while we were away
+    if (hasDisconnected && !lastEventId && client) resync(client);
+  });
+  eventSource.addEventListener("change", handleChange);
+  eventSource.addEventListener("resync", (message: MessageEvent<string>) => {
+    // Carry on from where the stream skipped to, or from now if it didn't know our last event
+    lastEventId = (JSON.parse(message.data) as { lastEventId: string | null }).lastEventId;
+    if (client) resync(client);
+  });
+  eventSource.addEventListener("error", () => {
+    hasDisconnected = true;
+    if (eventSource.readyState === EventSource.CONNECTING) {
+      // The browser is reconnecting by itself (e.g. the stream reached its time limit)
+      return;
+    }
+    // Closed for good (e.g. a server error): poll meanwhile and retry with backoff
+    eventSource.close();
+    source = null;
+    setStatus("disconnected");
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (subscribers > 0) connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  });
+}
+
+function subscribe(queryClient: QueryClient) {
+  client = queryClient;
+  subscribers += 1;
+  if (subscribers === 1 && !source && !reconnectTimer) connect();
+
+  return () => {
+    subscribers -= 1;
+    if (subscribers > 0) return;
+    source?.close();
+    source = null;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    hasDisconnected = true;
+    setStatus("connecting");
+  };
+}
+
+function subscribeToStatus(listener: () => void) {
+  statusListeners.add(listener);
+  return () => statusListeners.delete(listener);
+}
+
+/**
+ * Keep the schedule cache up to date with other users' changes while mounted, and return
+ * the connection status so callers can poll while it's down.
+ */
+export function useScheduleRealtime(): RealtimeStatus {
+  const queryClient = useQueryClient();
+
+  useEffect(() => subscribe(queryClient), [queryClient]);
+
+  return useSyncExternalStore(
+    subscribeToStatus,
+    () => status,
+    // No live connection while rendering on the server
+    () => "connecting"
+  );
+}
@@ -1,4 +1,6 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { DEFAULT_SCHEDULING_SETTINGS, SCHEDULING_SETTING_KEYS, type SchedulingSettings } from "@/lib/organizationSettings";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
 
 export interface UISettings {
   showStartTime: boolean;
@@ -28,17 +30,28 @@ const DEFAULT_SETTINGS: UISettings = {
   showDurationBadge: true,
   promptOperativeMoveScope: true,
   promptVehiclePairingDetected: true,
-  autoCalculateStartFromLocation: true,
-  defaultDayStartTime: "08:30",
-  defaultNightStartTime: "20:00",
-  preStartBufferMinutes: 15,
-  requireApprovalForBookings: true,
-  approvalMethod: 'internal',
+  ...DEFAULT_SCHEDULING_SETTINGS,
 };
 
+// Display preferences stay per browser; scheduling rules (start times, buffer, approvals)
+// are organization settings stored on the server.
 const STORAGE_KEY = "sewer-swarm-ui-settings";
 const SETTINGS_CHANGED_EVENT = "sewer-swarm-ui-settings-changed";
 
+function isSchedulingKey(key: string): key is keyof SchedulingSettings {
+  return (SCHEDULING_SETTING_KEYS as string[]).includes(key);
+}
+
+function splitSettings(values: Partial<UISettings>) {
+  const scheduling: Partial<SchedulingSettings> = {};
+  const local: Partial<UISettings> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (isSchedulingKey(key)) Object.assign(scheduling, { [key]: value });
+    else Object.assign(local, { [key]: value });
+  }
+  return { scheduling, local };
+}
+
 function broadcastSettings(updated: UISettings) {
   try {
     if (typeof window === "undefined") return;
@@ -53,13 +66,24 @@ function broadcastSettings(updated: UISettings) {
 }
 
 export function useUISettings() {
-  const [settings, setSettings] = useState<UISettings>(DEFAULT_SETTINGS);
+  const [localSettings, setSettings] = useState<UISettings>(DEFAULT_SETTINGS);
   const [isLoaded, setIsLoaded] = useState(false);
   const settingsRef = useRef<UISettings>(DEFAULT_SETTINGS);
+  const organizationSettings = useOrganizationSettings();
+  const { updateSettings: updateOrganizationSettings } = organizationSettings;
 
   useEffect(() => {
-    settingsRef.current = settings;
-  }, [settings]);
+    settingsRef.current = localSettings;
+  }, [localSettings]);
+
+  // Until the organization's settings arrive, fall back to this browser's last known values
+  const settings = useMemo<UISettings>(
+    () =>
+      organizationSettings.isLoaded
+        ? { ...localSettings, ...organizationSettings.settings.scheduling }
+        : localSettings,
+    [localSettings, organizationSettings.isLoaded, organizationSettings.settings.scheduling]
+  );
 
   // Load settings from localStorage on mount
   useEffect(() => {
@@ -121,11 +145,16 @@ export function useUISettings() {
     };
   }, []);
 
-  // Save settings to localStorage
+  // Save display preferences to localStorage and scheduling rules to the organization
   const updateSetting = useCallback(<K extends keyof UISettings>(
     key: K,
     value: UISettings[K]
   ) => {
+    if (isSchedulingKey(key)) {
+      updateOrganizationSettings({ scheduling: { [key]: value } });
+      return;
+    }
+
     const prev = settingsRef.current;
     const updated = { ...prev, [key]: value };
 
@@ -136,12 +165,18 @@ export function useUISettings() {
       console.error("Failed to save UI settings:", error);
     }
     broadcastSettings(updated);
-  }, []);
+  }, [updateOrganizationSettings]);
 
   // Update multiple settings at once
   const updateSettings = useCallback((newSettings: Partial<UISettings>) => {
+    const { scheduling, local } = splitSettings(newSettings);
+    if (Object.keys(scheduling).length > 0) {
+      updateOrganizationSettings({ scheduling });
+    }
+    if (Object.keys(local).length === 0) return;
+
     const prev = settingsRef.current;
-    const updated = { ...prev, ...newSettings };
+    const updated = { ...prev, ...local };
     setSettings(updated);
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
@@ -149,12 +184,12 @@ export function useUISettings() {
       console.error("Failed to save UI settings:", error);
     }
     broadcastSettings(updated);
-  }, []);
+  }, [updateOrganizationSettings]);
 
   return {
     settings,
     updateSetting,
     updateSettings,
-    isLoaded,
+    isLoaded: isLoaded && organizationSettings.isLoaded,
   };
 }
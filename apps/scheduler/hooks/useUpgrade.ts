@@ -66,5 +66,37 @@ export function useUpgrade() {
     }
   };
 
-  return { handleUpgrade, loading };
+  // Open the Stripe billing portal to update the payment method or resume the subscription
+  const handleManageBilling = async () => {
+    setLoading(true);
+
+    try {
+      const portalRes = await fetch("/api/stripe/portal", {
+        method: "POST",
+        credentials: "include",
+      });
+
+      if (!portalRes.ok) {
+        const error = await portalRes.json();
+        throw new Error(error.error || "Failed to open billing portal");
+      }
+
+      const { url } = await portalRes.json();
+      if (url) {
+        window.location.href = url;
+      } else {
+        throw new Error("No billing portal URL received");
+      }
+    } catch (error) {
+      toast({
+        title: "Billing unavailable",
+        description: error instanceof Error ? error.message : "Failed to open billing portal",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { handleUpgrade, handleManageBilling, loading };
 }
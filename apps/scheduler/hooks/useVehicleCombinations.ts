@@ -1,42 +1,19 @@
-import { useState, useEffect, useCallback } from "react";
+import { useCallback } from "react";
 import type { VehicleCombinationConfig } from "@/lib/vehicleTypes";
 import { DEFAULT_VEHICLE_COMBINATION } from "@/lib/vehicleTypes";
+import { useOrganizationSettings } from "@/hooks/useOrganizationSettings";
 
-const STORAGE_KEY = "sewer-swarm-vehicle-combinations";
-
-function loadCombinations(): VehicleCombinationConfig[] {
-  if (typeof window === "undefined") return [DEFAULT_VEHICLE_COMBINATION];
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [DEFAULT_VEHICLE_COMBINATION];
-    const parsed = JSON.parse(stored);
-    if (!Array.isArray(parsed) || parsed.length === 0) return [DEFAULT_VEHICLE_COMBINATION];
-    return parsed as VehicleCombinationConfig[];
-  } catch {
-    return [DEFAULT_VEHICLE_COMBINATION];
-  }
-}
-
-function saveCombinations(combinations: VehicleCombinationConfig[]) {
-  try {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(combinations));
-  } catch (e) {
-    console.error("Failed to save vehicle combinations:", e);
-  }
-}
-
+// Combinations are an organization setting, shared by every planner
 export function useVehicleCombinations() {
-  const [combinations, setCombinations] = useState<VehicleCombinationConfig[]>(() => loadCombinations());
+  const { settings, updateSettings } = useOrganizationSettings();
+  const combinations = settings.vehicleCombinations;
 
-  useEffect(() => {
-    setCombinations(loadCombinations());
-  }, []);
-
-  const persist = useCallback((next: VehicleCombinationConfig[]) => {
-    setCombinations(next);
-    saveCombinations(next);
-  }, []);
+  const persist = useCallback(
+    (next: VehicleCombinationConfig[]) => {
+      updateSettings({ vehicleCombinations: next });
+    },
+    [updateSettings]
+  );
 
   const addCombination = useCallback(() => {
     const next: VehicleCombinationConfig = {
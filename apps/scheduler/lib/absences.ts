@@ -0,0 +1,120 @@
+/**
+ * Employee absences
+ *
+ * Time off recorded against an employee (employee_absences table): the kind of absence,
+ * a date period that may repeat (see lib/recurrence.ts), and whether it covers whole days
+ * or only the morning / afternoon. Shared by the API routes, the conflict engine and the
+ * calendar.
+ */
+
+import { z } from "zod";
+import {
+  RECURRENCE_FREQUENCIES,
+  expandPeriod,
+  periodCoversDay,
+  toRecurringPeriod,
+  type StoredRecurringPeriod,
+} from "@/lib/recurrence";
+
+export const ABSENCE_TYPES = ["holiday", "sick", "training", "other", "unpaid"] as const;
+export type AbsenceType = (typeof ABSENCE_TYPES)[number];
+
+export const ABSENCE_TYPE_LABELS: Record<AbsenceType, string> = {
+  holiday: "Holiday",
+  sick: "Sickness",
+  training: "Training",
+  other: "Other",
+  unpaid: "Unpaid leave",
+};
+
+export const ABSENCE_DAY_PARTS = ["full", "am", "pm"] as const;
+export type AbsenceDayPart = (typeof ABSENCE_DAY_PARTS)[number];
+
+export const ABSENCE_DAY_PART_LABELS: Record<AbsenceDayPart, string> = {
+  full: "Full day",
+  am: "Morning (AM)",
+  pm: "Afternoon (PM)",
+};
+
+export interface AbsencePeriod extends StoredRecurringPeriod {
+  employeeId: string;
+  absenceType: string;
+  dayPart?: string | null;
+}
+
+/** "on holiday", "off sick (AM)" - for messages like "Sam is recorded as ...". */
+export function describeAbsence(absence: { absenceType: string; dayPart?: string | null }): string {
+  const description =
+    absence.absenceType === "holiday" ? "on holiday"
+    : absence.absenceType === "sick" ? "off sick"
+    : absence.absenceType === "training" ? "on training"
+    : absence.absenceType === "unpaid" ? "on unpaid leave"
+    : "absent";
+  return absence.dayPart === "am" || absence.dayPart === "pm"
+    ? `${description} (${absence.dayPart.toUpperCase()})`
+    : description;
+}
+
+export function isHalfDay(absence: { dayPart?: string | null }): boolean {
+  return absence.dayPart === "am" || absence.dayPart === "pm";
+}
+
+// ---------- Validation ----------
+
+const absenceFields = z.object({
+  employeeId: z.string().min(1),
+  absenceType: z.enum(ABSENCE_TYPES),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  dayPart: z.enum(ABSENCE_DAY_PARTS),
+  recurrence: z.enum(RECURRENCE_FREQUENCIES),
+  recurrenceUntil: z.coerce.date().nullable(),
+  notes: z
+    .string()
+    .trim()
+    .max(2000)
+    .nullable()
+    .transform((v) => v || null),
+});
+
+export const createAbsenceSchema = absenceFields.extend({
+  endDate: z.coerce.date().optional(),
+  dayPart: absenceFields.shape.dayPart.default("full"),
+  recurrence: absenceFields.shape.recurrence.default("none"),
+  recurrenceUntil: absenceFields.shape.recurrenceUntil.optional(),
+  notes: absenceFields.shape.notes.optional(),
+});
+
+// The employee can't change; delete and re-create instead
+export const updateAbsenceSchema = absenceFields.omit({ employeeId: true }).partial().strict();
+
+// ---------- Lookup ----------
+
+/**
+ * The employee's absence on the day (yyyy-MM-dd), if any. Full-day absences win over
+ * half days. `toKey` turns stored dates into day keys (toDayKey on the server, the local
+ * date in the browser).
+ */
+export function findAbsenceOnDay<T extends AbsencePeriod>(
+  absences: T[],
+  employeeId: string,
+  day: string,
+  toKey: (date: Date | string) => string
+): T | undefined {
+  const matches = absences.filter(
+    (a) => a.employeeId === employeeId && periodCoversDay(toRecurringPeriod(a, toKey), day)
+  );
+  return matches.find((a) => !isHalfDay(a)) ?? matches[0];
+}
+
+/** Each absence with its occurrences on days from..to; absences with none are left out. */
+export function expandAbsences<T extends AbsencePeriod>(
+  absences: T[],
+  from: string,
+  to: string,
+  toKey: (date: Date | string) => string
+): Array<T & { occurrences: Array<{ start: string; end: string }> }> {
+  return absences
+    .map((a) => ({ ...a, occurrences: expandPeriod(toRecurringPeriod(a, toKey), from, to) }))
+    .filter((a) => a.occurrences.length > 0);
+}
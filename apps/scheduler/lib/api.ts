@@ -1,10 +1,23 @@
 // API Client for crew scheduling backend
 
+import type { OrganizationSettings, OrganizationSettingsPatch } from "@/lib/organizationSettings";
+import type { ScheduleConflict } from "@/lib/conflicts";
+import type { LeaveBalance, LeaveYear } from "@/lib/leaveAllowance";
+import type { SubscriptionAccess } from "@/lib/subscription";
+import type { AuditAction, AuditChanges, AuditEntityType, CalendarFeedScope, EmailDispatchStatus, JobStatus } from "@shared/schema";
+import type { SeriesEditScope, SeriesFrequency } from "@/lib/recurrence";
+import type { ImportPreview, ImportRequest } from "@/lib/resourceImport";
+import type { AvailabilityResult, AvailabilitySearchInput } from "@/lib/availability";
+import type { AcceptedAssignment, AutoScheduleProposal } from "@/lib/autoSchedule";
+
 export interface User {
   id: string;
   username: string;
   email?: string;
   role: string;
+  // Only returned by /api/me
+  membershipRole?: string;
+  subscription?: SubscriptionAccess | null;
 }
 
 export interface Depot {
@@ -12,6 +25,7 @@ export interface Depot {
   name: string;
   address: string;
   userId: string;
+  version?: number;
 }
 
 export interface Crew {
@@ -21,6 +35,7 @@ export interface Crew {
   shift: string;
   userId: string;
   archivedAt?: string | null;
+  version?: number;
 }
 
 export interface Employee {
@@ -33,17 +48,39 @@ export interface Employee {
   startsFromHome?: boolean;
   depotId: string;
   userId: string;
+  version?: number;
 }
 
 export interface EmployeeAbsence {
   id: string;
   organizationId: string;
   employeeId: string;
-  absenceType: "holiday" | "sick";
+  absenceType: "holiday" | "sick" | "training" | "other" | "unpaid";
   startDate: string;
   endDate: string;
+  dayPart: "full" | "am" | "pm";
+  recurrence: "none" | "weekly" | "biweekly";
+  recurrenceUntil?: string | null;
+  notes?: string | null;
   createdBy?: string | null;
   createdAt?: string | null;
+  updatedAt?: string | null;
+}
+
+export type EmployeeAbsenceInput = Pick<EmployeeAbsence, "employeeId" | "absenceType" | "startDate" | "endDate"> &
+  Partial<Pick<EmployeeAbsence, "dayPart" | "recurrence" | "recurrenceUntil" | "notes">>;
+
+// Bookings re-checked after an absence was changed or removed
+export interface AbsenceReevaluation {
+  affectedItemIds: string[];
+  conflicts: ScheduleConflict[];
+}
+
+export interface LeaveAllowanceInput {
+  leaveYearStart: string;
+  entitlementDays?: number | null;
+  carryOverDays?: number | null;
+  notes?: string | null;
 }
 
 export interface Vehicle {
@@ -55,8 +92,27 @@ export interface Vehicle {
   color?: string;
   depotId: string;
   userId: string;
+  version?: number;
 }
 
+export interface VehicleUnavailability {
+  id: string;
+  organizationId: string;
+  vehicleId: string;
+  reason: "off_road" | "maintenance" | "other";
+  startDate: string;
+  endDate: string;
+  recurrence: "none" | "weekly" | "biweekly";
+  recurrenceUntil?: string | null;
+  notes?: string | null;
+  createdBy?: string | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+}
+
+export type VehicleUnavailabilityInput = Pick<VehicleUnavailability, "vehicleId" | "reason" | "startDate" | "endDate"> &
+  Partial<Pick<VehicleUnavailability, "recurrence" | "recurrenceUntil" | "notes">>;
+
 export interface ScheduleItem {
   id: string;
   type: string;
@@ -77,9 +133,280 @@ export interface ScheduleItem {
   employeeId?: string;
   vehicleId?: string;
   noteContent?: string;
+  // The repeating booking this is an occurrence of (lib/scheduleSeries.ts)
+  seriesId?: string | null;
+  // The job this day is allocated to (lib/jobs.ts); set by the server from the job number
+  jobId?: string | null;
+  // Customer and site picked from the directory (lib/customers.ts)
+  customerId?: string | null;
+  siteId?: string | null;
+  // Row version for optimistic concurrency (lib/concurrency.ts)
+  version?: number;
+}
+
+export interface ScheduleSeriesRuleInput {
+  frequency: SeriesFrequency;
+  // 0 = Sunday ... 6 = Saturday
+  weekdays: number[];
+  startDate: string;
+  untilDate?: string | null;
+  count?: number | null;
+}
+
+export interface ScheduleSeries extends ScheduleSeriesRuleInput {
+  id: string;
+  organizationId: string;
+  // Days (yyyy-MM-dd) with no occurrence
+  exceptions: string[];
+  version?: number;
+  occurrences?: ScheduleItem[];
+}
+
+// "This occurrence" edits go through updateScheduleItem
+export interface ScheduleSeriesUpdate {
+  scope: Exclude<SeriesEditScope, "this">;
+  fromItemId?: string;
+  changes?: Partial<ScheduleItem>;
+  rule?: Partial<Omit<ScheduleSeriesRuleInput, "startDate">>;
+  version?: number;
+}
+
+export interface Job {
+  id: string;
+  organizationId: string;
+  customer: string | null;
+  jobNumber: string | null;
+  address: string | null;
+  projectManager: string | null;
+  color: string | null;
+  status: JobStatus;
+  notes: string | null;
+  // Planning details for the auto-scheduler; null is "any" (a full shift for duration)
+  vehicleType: string | null;
+  shift: "day" | "night" | null;
+  duration: number | null;
+  earliestDate: string | null;
+  latestDate: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+// As listed by /api/jobs; cancelled days aren't counted
+export interface JobSummary extends Job {
+  allocatedDays: number;
+  allocatedHours: number;
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+export type JobInput = Partial<
+  Pick<
+    Job,
+    | "customer"
+    | "jobNumber"
+    | "address"
+    | "projectManager"
+    | "color"
+    | "status"
+    | "notes"
+    | "vehicleType"
+    | "shift"
+    | "duration"
+    | "earliestDate"
+    | "latestDate"
+  >
+>;
+
+export interface CustomerContact {
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface Customer {
+  id: string;
+  organizationId: string;
+  name: string;
+  contacts: CustomerContact[];
+  billingReference: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+export type CustomerInput = Partial<Pick<Customer, "name" | "contacts" | "billingReference" | "notes">>;
+
+export interface Site {
+  id: string;
+  organizationId: string;
+  customerId: string | null;
+  name: string | null;
+  address: string;
+  postcode: string | null;
+  accessNotes: string | null;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+}
+
+export type SiteInput = Partial<Pick<Site, "customerId" | "name" | "address" | "postcode" | "accessNotes">>;
+
+export interface EmailDispatch {
+  id: string;
+  date: string;
+  employeeId: string | null;
+  recipient: string;
+  subject: string;
+  status: EmailDispatchStatus;
+  error: string | null;
+  sentBy: string | null;
+  createdAt: string;
+}
+
+// Schedule emails sent for a day, counting each recipient's latest send
+export interface DailyEmailSummary {
+  date: string;
+  lastSentAt: string | null;
+  sent: number;
+  failed: number;
+  // Recorded without an email service configured
+  logged: number;
+}
+
+export interface DailyEmailSendResult {
+  date: string;
+  dispatches: EmailDispatch[];
+  missingEmail: Array<{ id: string; name: string }>;
+}
+
+export interface ScheduleExportOptions {
+  from: string;
+  to: string;
+  // Every depot when empty
+  depotIds: string[];
+  format: "csv" | "xlsx";
+  // False leaves out free (ghost) jobs
+  includeFree: boolean;
+}
+
+/** The printable run sheets (PDF) for a depot's day, or its week from `date`. */
+export function runSheetsUrl(depotId: string, date: string, period: "day" | "week"): string {
+  return `/api/schedule/run-sheets?${new URLSearchParams({ depotId, date, period }).toString()}`;
 }
 
+// A subscribable ICS feed; its URL is /api/ics/<token>.ics
+export interface CalendarFeed {
+  id: string;
+  scope: CalendarFeedScope;
+  subjectId: string;
+  token: string;
+  createdBy: string | null;
+  createdAt: string;
+  rotatedAt: string | null;
+}
+
+export interface AuditEvent {
+  id: string;
+  organizationId: string;
+  actorId: string | null;
+  actorName: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: AuditAction;
+  changes: AuditChanges;
+  createdAt: string;
+}
+
+export interface AuditEventQuery {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  before?: string;
+  limit?: number;
+}
+
+/**
+ * Called when the server rejects a schedule item save because of conflicts.
+ * Resolve with a reason to retry the save as an override, or null to give up.
+ */
+export type ConflictResolver = (conflicts: ScheduleConflict[], canOverride: boolean) => Promise<string | null>;
+
+/**
+ * Called when a schedule item save is refused because someone else changed the item first
+ * (a version conflict), with the changes being saved, the server's current copy and, when
+ * known, the copy the edit started from. Resolve with the changes to save over the current
+ * copy (merged, or the original ones to overwrite), or null to discard them.
+ */
+export type VersionConflictResolver = (
+  mine: Partial<ScheduleItem>,
+  current: ScheduleItem,
+  base?: Partial<ScheduleItem>
+) => Promise<Partial<ScheduleItem> | null>;
+
+/**
+ * Called when the server refuses a change because the organization's subscription has
+ * lapsed (HTTP 402), with the current subscription state.
+ */
+export type SubscriptionLapseListener = (subscription: SubscriptionAccess) => void;
+
 class API {
+  private conflictResolver: ConflictResolver | null = null;
+  private subscriptionLapseListener: SubscriptionLapseListener | null = null;
+  private versionConflictResolver: VersionConflictResolver | null = null;
+
+  setConflictResolver(resolver: ConflictResolver | null) {
+    this.conflictResolver = resolver;
+  }
+
+  setVersionConflictResolver(resolver: VersionConflictResolver | null) {
+    this.versionConflictResolver = resolver;
+  }
+
+  setSubscriptionLapseListener(listener: SubscriptionLapseListener | null) {
+    this.subscriptionLapseListener = listener;
+  }
+
+  private async withConflictResolution<T>(
+    send: (conflictOverride?: { reason: string }) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await send();
+    } catch (error) {
+      const err = error as { status?: number; data?: { conflicts?: ScheduleConflict[]; canOverride?: boolean } };
+      const conflicts = err?.data?.conflicts;
+      if (err?.status !== 409 || !Array.isArray(conflicts) || !this.conflictResolver) throw error;
+
+      const reason = await this.conflictResolver(conflicts, err.data?.canOverride === true);
+      if (!reason) throw error;
+      return send({ reason });
+    }
+  }
+
+  private async withVersionConflictResolution(
+    changes: Partial<ScheduleItem>,
+    base: Partial<ScheduleItem> | undefined,
+    send: (changes: Partial<ScheduleItem>) => Promise<ScheduleItem>
+  ): Promise<ScheduleItem> {
+    try {
+      return await send(changes);
+    } catch (error) {
+      // Scheduling conflicts are also 409s, but carry `conflicts` instead
+      const err = error as { status?: number; data?: { versionConflict?: boolean; current?: ScheduleItem } };
+      const current = err?.data?.current;
+      if (err?.status !== 409 || !err.data?.versionConflict || !current || !this.versionConflictResolver) throw error;
+
+      const resolved = await this.versionConflictResolver(changes, current, base);
+      if (!resolved) throw error;
+      return this.withVersionConflictResolution({ ...resolved, version: current.version }, current, send);
+    }
+  }
+
   private async request<T>(url: string, options?: RequestInit): Promise<T> {
     // Log request details in development
     if (process.env.NODE_ENV === 'development') {
@@ -205,11 +532,16 @@ class API {
         console.groupEnd();
       }
       
+      if (response.status === 402 && errorJson?.subscription && this.subscriptionLapseListener) {
+        this.subscriptionLapseListener(errorJson.subscription as SubscriptionAccess);
+      }
+
       // Throw error with guaranteed string message + status metadata for callers to handle expected cases
       const err: any = new Error(finalErrorMessage);
       err.status = response.status;
       err.url = logUrl;
       err.method = method;
+      err.data = errorJson;
       throw err;
     }
 
@@ -248,6 +580,13 @@ class API {
     return this.request("/api/me");
   }
 
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    await this.request("/api/user/password", {
+      method: "POST",
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
+  }
+
   // Depots
   async getDepots(): Promise<Depot[]> {
     return this.request("/api/depots");
@@ -335,18 +674,40 @@ class API {
     return this.request("/api/employee-absences");
   }
 
-  async createEmployeeAbsence(input: {
-    employeeId: string;
-    absenceType: "holiday" | "sick";
-    startDate: string;
-    endDate: string;
-  }): Promise<EmployeeAbsence> {
+  async createEmployeeAbsence(input: EmployeeAbsenceInput): Promise<EmployeeAbsence> {
     return this.request("/api/employee-absences", {
       method: "POST",
       body: JSON.stringify(input),
     });
   }
 
+  async updateEmployeeAbsence(
+    id: string,
+    updates: Partial<Omit<EmployeeAbsenceInput, "employeeId">>
+  ): Promise<AbsenceReevaluation & { absence: EmployeeAbsence }> {
+    return this.request(`/api/employee-absences/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteEmployeeAbsence(id: string): Promise<AbsenceReevaluation> {
+    return this.request(`/api/employee-absences/${id}`, { method: "DELETE" });
+  }
+
+  // Leave balances (holiday allowance)
+  async getLeaveBalances(date?: string): Promise<{ leaveYear: LeaveYear; balances: LeaveBalance[] }> {
+    const query = date ? `?date=${encodeURIComponent(date)}` : "";
+    return this.request(`/api/leave-balances${query}`);
+  }
+
+  async updateLeaveAllowance(employeeId: string, input: LeaveAllowanceInput): Promise<LeaveBalance> {
+    return this.request(`/api/leave-balances/${employeeId}`, {
+      method: "PUT",
+      body: JSON.stringify(input),
+    });
+  }
+
   // Vehicles
   async getVehicles(): Promise<Vehicle[]> {
     return this.request("/api/vehicles");
@@ -370,6 +731,32 @@ class API {
     await this.request(`/api/vehicles/${id}`, { method: "DELETE" });
   }
 
+  // Vehicle unavailability (off road / maintenance periods)
+  async getVehicleUnavailability(): Promise<VehicleUnavailability[]> {
+    return this.request("/api/vehicle-unavailability");
+  }
+
+  async createVehicleUnavailability(input: VehicleUnavailabilityInput): Promise<VehicleUnavailability> {
+    return this.request("/api/vehicle-unavailability", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+
+  async updateVehicleUnavailability(
+    id: string,
+    updates: Partial<Omit<VehicleUnavailabilityInput, "vehicleId">>
+  ): Promise<VehicleUnavailability> {
+    return this.request(`/api/vehicle-unavailability/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteVehicleUnavailability(id: string): Promise<void> {
+    await this.request(`/api/vehicle-unavailability/${id}`, { method: "DELETE" });
+  }
+
   // Schedule Items
   async getScheduleItems(): Promise<ScheduleItem[]> {
     return this.request("/api/schedule-items");
@@ -421,17 +808,20 @@ class API {
 
     try {
       const sanitized = sanitizeDates(item);
-      return this.request("/api/schedule-items", {
-        method: "POST",
-        body: JSON.stringify(sanitized),
-      });
+      return await this.withConflictResolution((conflictOverride) =>
+        this.request<ScheduleItem>("/api/schedule-items", {
+          method: "POST",
+          body: JSON.stringify(conflictOverride ? { ...sanitized, conflictOverride } : sanitized),
+        })
+      );
     } catch (error) {
       console.error('Error in createScheduleItem:', error, item);
       throw error;
     }
   }
 
-  async updateScheduleItem(id: string, item: Partial<ScheduleItem>): Promise<ScheduleItem> {
+  // `base` is the copy the edit was made from, for merging if someone else changed it first
+  async updateScheduleItem(id: string, item: Partial<ScheduleItem>, base?: Partial<ScheduleItem>): Promise<ScheduleItem> {
     // Helper to convert Date objects to ISO strings - ONLY call toISOString on actual Date instances
     const sanitizeDates = (obj: any): any => {
       if (obj === null || obj === undefined) return obj;
@@ -476,10 +866,14 @@ class API {
     };
 
     try {
-      const sanitized = sanitizeDates(item);
-      return this.request(`/api/schedule-items/${id}`, {
-        method: "PATCH",
-        body: JSON.stringify(sanitized),
+      return await this.withVersionConflictResolution(item, base, (changes) => {
+        const sanitized = sanitizeDates(changes);
+        return this.withConflictResolution((conflictOverride) =>
+          this.request<ScheduleItem>(`/api/schedule-items/${id}`, {
+            method: "PATCH",
+            body: JSON.stringify(conflictOverride ? { ...sanitized, conflictOverride } : sanitized),
+          })
+        );
       });
     } catch (error) {
       const err: any = error;
@@ -503,6 +897,257 @@ class API {
     }
   }
 
+  // Repeating bookings
+  async getScheduleSeries(id: string): Promise<ScheduleSeries> {
+    return this.request(`/api/schedule-series/${id}`);
+  }
+
+  // `fromItemId` makes an existing booking the first occurrence instead of copying it
+  async createScheduleSeries(input: {
+    rule: ScheduleSeriesRuleInput;
+    item: Omit<ScheduleItem, "id" | "userId" | "date">;
+    fromItemId?: string;
+  }): Promise<{ series: ScheduleSeries; items: ScheduleItem[] }> {
+    return this.withConflictResolution((conflictOverride) =>
+      this.request("/api/schedule-series", {
+        method: "POST",
+        body: JSON.stringify(conflictOverride ? { ...input, conflictOverride } : input),
+      })
+    );
+  }
+
+  async updateScheduleSeries(id: string, update: ScheduleSeriesUpdate): Promise<void> {
+    await this.withConflictResolution((conflictOverride) =>
+      this.request(`/api/schedule-series/${id}`, {
+        method: "PATCH",
+        body: JSON.stringify(conflictOverride ? { ...update, conflictOverride } : update),
+      })
+    );
+  }
+
+  async deleteScheduleSeries(id: string, scope: Exclude<SeriesEditScope, "this">, fromItemId?: string): Promise<void> {
+    const params = new URLSearchParams({ scope });
+    if (fromItemId) params.set("fromItemId", fromItemId);
+    await this.request(`/api/schedule-series/${id}?${params}`, { method: "DELETE" });
+  }
+
+  // Jobs
+  async getJobs(query: { search?: string; status?: JobStatus } = {}): Promise<JobSummary[]> {
+    const params = new URLSearchParams();
+    if (query.search) params.set("search", query.search);
+    if (query.status) params.set("status", query.status);
+    return this.request(`/api/jobs?${params.toString()}`);
+  }
+
+  async getJob(id: string): Promise<Job & { allocations: ScheduleItem[] }> {
+    return this.request(`/api/jobs/${id}`);
+  }
+
+  async createJob(job: JobInput): Promise<JobSummary> {
+    return this.request("/api/jobs", {
+      method: "POST",
+      body: JSON.stringify(job),
+    });
+  }
+
+  async updateJob(id: string, changes: JobInput & { version?: number }): Promise<Job & { allocations: ScheduleItem[] }> {
+    return this.request(`/api/jobs/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteJob(id: string): Promise<void> {
+    await this.request(`/api/jobs/${id}`, { method: "DELETE" });
+  }
+
+  // Shift every day of the job by whole days
+  async moveJob(id: string, days: number): Promise<{ items: ScheduleItem[] }> {
+    return this.withConflictResolution((conflictOverride) =>
+      this.request(`/api/jobs/${id}/move`, {
+        method: "POST",
+        body: JSON.stringify(conflictOverride ? { days, conflictOverride } : { days }),
+      })
+    );
+  }
+
+  // Customer directory
+  async getCustomers(search?: string): Promise<Customer[]> {
+    const params = new URLSearchParams();
+    if (search) params.set("search", search);
+    return this.request(`/api/customers?${params.toString()}`);
+  }
+
+  async getCustomer(id: string): Promise<Customer & { sites: Site[] }> {
+    return this.request(`/api/customers/${id}`);
+  }
+
+  async createCustomer(customer: CustomerInput & { name: string }): Promise<Customer> {
+    return this.request("/api/customers", {
+      method: "POST",
+      body: JSON.stringify(customer),
+    });
+  }
+
+  async updateCustomer(id: string, changes: CustomerInput & { version?: number }): Promise<Customer> {
+    return this.request(`/api/customers/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteCustomer(id: string): Promise<void> {
+    await this.request(`/api/customers/${id}`, { method: "DELETE" });
+  }
+
+  async getSites(query: { customerId?: string; search?: string } = {}): Promise<Site[]> {
+    const params = new URLSearchParams();
+    if (query.customerId) params.set("customerId", query.customerId);
+    if (query.search) params.set("search", query.search);
+    return this.request(`/api/sites?${params.toString()}`);
+  }
+
+  async createSite(site: SiteInput & { address: string }): Promise<Site> {
+    return this.request("/api/sites", {
+      method: "POST",
+      body: JSON.stringify(site),
+    });
+  }
+
+  async updateSite(id: string, changes: SiteInput & { version?: number }): Promise<Site> {
+    return this.request(`/api/sites/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteSite(id: string): Promise<void> {
+    await this.request(`/api/sites/${id}`, { method: "DELETE" });
+  }
+
+  // Organization Settings
+  async getOrganizationSettings(): Promise<OrganizationSettings> {
+    return this.request("/api/organization/settings");
+  }
+
+  async updateOrganizationSettings(patch: OrganizationSettingsPatch): Promise<OrganizationSettings> {
+    return this.request("/api/organization/settings", {
+      method: "PATCH",
+      body: JSON.stringify(patch),
+    });
+  }
+
+  async importOrganizationSettings(data: {
+    scheduling?: Record<string, unknown>;
+    vehicleTypes?: unknown;
+    vehicleCombinations?: unknown;
+    clients?: unknown;
+  }): Promise<{ imported: boolean; settings: OrganizationSettings }> {
+    return this.request("/api/organization/settings/import", {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async getScheduleConflicts(from: string, to: string): Promise<{ from: string; to: string; conflicts: ScheduleConflict[] }> {
+    const params = new URLSearchParams({ from, to });
+    return this.request(`/api/schedule/conflicts?${params.toString()}`);
+  }
+
+  async getDailyEmailSummaries(from: string, to: string): Promise<{ from: string; to: string; days: DailyEmailSummary[] }> {
+    const params = new URLSearchParams({ from, to });
+    return this.request(`/api/schedule/daily-emails?${params.toString()}`);
+  }
+
+  // Email the day's schedule to everyone booked on `date` (yyyy-MM-dd), or only `employeeIds`
+  async sendDailyScheduleEmails(date: string, employeeIds?: string[]): Promise<DailyEmailSendResult> {
+    return this.request("/api/schedule/daily-emails", {
+      method: "POST",
+      body: JSON.stringify({ date, employeeIds }),
+    });
+  }
+
+  // Crew days that can take a job, best first
+  async searchAvailability(search: AvailabilitySearchInput): Promise<AvailabilityResult> {
+    return this.request("/api/schedule/availability", {
+      method: "POST",
+      body: JSON.stringify(search),
+    });
+  }
+
+  // Where the jobs waiting to be scheduled would go in the week from weekStart; books nothing
+  async proposeAutoSchedule(weekStart: string, jobIds?: string[]): Promise<AutoScheduleProposal> {
+    return this.request("/api/schedule/auto-schedule", {
+      method: "POST",
+      body: JSON.stringify({ weekStart, jobIds }),
+    });
+  }
+
+  // Book the assignments the planner accepted from a proposal
+  async acceptAutoSchedule(
+    assignments: AcceptedAssignment[]
+  ): Promise<{ created: ScheduleItem[]; skipped: Array<{ jobId: string; reason: string }> }> {
+    return this.request("/api/schedule/auto-schedule/accept", {
+      method: "POST",
+      body: JSON.stringify({ assignments }),
+    });
+  }
+
+  // The schedule as a CSV or XLSX file, for saving
+  async exportSchedule(options: ScheduleExportOptions): Promise<{ blob: Blob; fileName: string }> {
+    const params = new URLSearchParams({ from: options.from, to: options.to, format: options.format });
+    options.depotIds.forEach((id) => params.append("depotId", id));
+    if (!options.includeFree) params.set("includeFree", "false");
+
+    const response = await fetch(`/api/schedule/export?${params.toString()}`, { credentials: "include" });
+    if (!response.ok) {
+      const data = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(data?.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+    const fileName =
+      response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+      `schedule-${options.from}-to-${options.to}.${options.format}`;
+    return { blob: await response.blob(), fileName };
+  }
+
+  // Preview an employee or vehicle sheet, or import it with `commit: true`
+  async importResources(input: ImportRequest): Promise<ImportPreview & { created?: number }> {
+    return this.request("/api/resources/import", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+
+  // Calendar feeds (admin / operations)
+  async getCalendarFeeds(): Promise<CalendarFeed[]> {
+    return this.request("/api/calendar-feeds");
+  }
+
+  // The feed for an employee, crew or depot, created on first use
+  async createCalendarFeed(scope: CalendarFeedScope, subjectId: string): Promise<CalendarFeed> {
+    return this.request("/api/calendar-feeds", {
+      method: "POST",
+      body: JSON.stringify({ scope, subjectId }),
+    });
+  }
+
+  async rotateCalendarFeed(id: string): Promise<CalendarFeed> {
+    return this.request(`/api/calendar-feeds/${id}/rotate`, { method: "POST" });
+  }
+
+  async deleteCalendarFeed(id: string): Promise<void> {
+    await this.request(`/api/calendar-feeds/${id}`, { method: "DELETE" });
+  }
+
+  // Audit trail (admin only)
+  async getAuditEvents(query: AuditEventQuery = {}): Promise<{ events: AuditEvent[]; nextBefore: string | null }> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    return this.request(`/api/audit?${params.toString()}`);
+  }
+
   // Color Labels
   async getColorLabels(): Promise<Record<string, string>> {
     return this.request("/api/color-labels");
@@ -0,0 +1,230 @@
+/**
+ * Approval policy
+ *
+ * Which new bookings need approval, and from whom, comes from the organization's approval rules
+ * (the "approvals" settings section). Rules are checked in order and the first enabled rule
+ * whose condition matches wins. Its steps are the approvals the booking then needs, one after
+ * another: for example the depot's manager, then operations. A booking no rule matches is
+ * approved straight away. The match is stored on the item (schedule_items.approval) so the
+ * approvals list can say which rule applied, and rules edited later don't change it.
+ *
+ * Pure and safe to import in the browser; lib/approvals.ts loads what evaluation needs.
+ */
+
+import { z } from "zod";
+import { daysBetweenKeys } from "@/lib/scheduleDates";
+
+export const APPROVAL_STEPS = ["depot_manager", "operations"] as const;
+export type ApprovalStep = (typeof APPROVAL_STEPS)[number];
+
+export const APPROVAL_STEP_LABELS: Record<ApprovalStep, string> = {
+  depot_manager: "Depot manager",
+  operations: "Operations",
+};
+
+export const approvalConditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("any") }),
+  z.object({ type: z.literal("night_shift") }),
+  z.object({ type: z.literal("duration_over"), hours: z.number().min(0).max(24) }),
+  z.object({ type: z.literal("depots"), depotIds: z.array(z.string().min(1)).min(1).max(200) }),
+  z.object({ type: z.literal("customers"), customers: z.array(z.string().trim().min(1).max(200)).min(1).max(500) }),
+  // Booked fewer than `days` days ahead (0 = today)
+  z.object({ type: z.literal("short_notice"), days: z.number().int().min(1).max(365) }),
+  z.object({ type: z.literal("conflict_override") }),
+]);
+
+export type ApprovalCondition = z.infer<typeof approvalConditionSchema>;
+export type ApprovalConditionType = ApprovalCondition["type"];
+
+export const approvalRuleSchema = z.object({
+  id: z.string().min(1).max(100),
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean(),
+  condition: approvalConditionSchema,
+  // Bookers' bookings only, or admins' and operations managers' too
+  appliesTo: z.enum(["bookers", "everyone"]),
+  steps: z
+    .array(z.enum(APPROVAL_STEPS))
+    .min(1)
+    .max(APPROVAL_STEPS.length)
+    .refine((steps) => new Set(steps).size === steps.length, "Each step can only appear once"),
+});
+
+export type ApprovalRule = z.infer<typeof approvalRuleSchema>;
+
+export const approvalSettingsSchema = z.object({
+  rules: z.array(approvalRuleSchema).max(50),
+  // Depot id -> the member who approves its "depot manager" step
+  depotManagers: z.record(z.string(), z.string().min(1)),
+});
+
+export type ApprovalSettings = z.infer<typeof approvalSettingsSchema>;
+
+// The behaviour before rules existed: every Booker booking needs operations' approval
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  rules: [
+    {
+      id: "bookers",
+      name: "Bookings by Bookers",
+      enabled: true,
+      condition: { type: "any" },
+      appliesTo: "bookers",
+      steps: ["operations"],
+    },
+  ],
+  depotManagers: {},
+};
+
+export interface ScheduleItemApproval {
+  // Null when no rule applied (provisional bookings, items from before rules existed)
+  ruleId: string | null;
+  ruleName: string;
+  // Why it matched, e.g. "Night shift" or "Booked 2 days ahead"
+  reason: string;
+  steps: ApprovalStep[];
+  // Steps approved so far, in order. Approving the last step approves the booking, and
+  // approvedBy/approvedAt record that one.
+  decisions: Array<{ step: ApprovalStep; userId: string; at: string }>;
+}
+
+export interface ApprovalPolicyBooking {
+  // yyyy-MM-dd
+  day: string;
+  depotId: string;
+  customer?: string | null;
+  // Hours
+  duration?: number | null;
+  conflictOverrideReason?: string | null;
+}
+
+export interface ApprovalPolicyContext {
+  requesterRole: string;
+  crewShift: string | null | undefined;
+  // yyyy-MM-dd
+  today: string;
+}
+
+// A booking someone asked to be pending (availability search's provisional bookings) that no rule matched
+export const PROVISIONAL_APPROVAL: ScheduleItemApproval = {
+  ruleId: null,
+  ruleName: "Provisional booking",
+  reason: "Booked as provisional",
+  steps: ["operations"],
+  decisions: [],
+};
+
+// Pending items from before approval rules
+const LEGACY_APPROVAL: ScheduleItemApproval = {
+  ruleId: null,
+  ruleName: "Bookings by Bookers",
+  reason: "Booked by a Booker",
+  steps: ["operations"],
+  decisions: [],
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const normalizeCustomer = (name: string) => name.trim().toLowerCase();
+
+// Why the condition matches the booking, or null if it doesn't
+function conditionReason(
+  condition: ApprovalCondition,
+  booking: ApprovalPolicyBooking,
+  context: ApprovalPolicyContext,
+  depotNames: Record<string, string>
+): string | null {
+  switch (condition.type) {
+    case "any":
+      return context.requesterRole === "user" ? "Booked by a Booker" : "Every booking";
+    case "night_shift":
+      return context.crewShift === "night" ? "Night shift" : null;
+    case "duration_over":
+      return booking.duration != null && booking.duration > condition.hours
+        ? `${plural(booking.duration, "hour")}, over ${plural(condition.hours, "hour")}`
+        : null;
+    case "depots":
+      return condition.depotIds.includes(booking.depotId)
+        ? `At ${depotNames[booking.depotId] ?? "a listed depot"}`
+        : null;
+    case "customers": {
+      const customer = booking.customer?.trim();
+      if (!customer) return null;
+      const listed = condition.customers.some((c) => normalizeCustomer(c) === normalizeCustomer(customer));
+      return listed ? `For ${customer}` : null;
+    }
+    case "short_notice": {
+      const daysAhead = daysBetweenKeys(context.today, booking.day);
+      if (daysAhead >= condition.days) return null;
+      if (daysAhead < 0) return "Booked in the past";
+      return daysAhead === 0 ? "Booked for today" : `Booked ${plural(daysAhead, "day")} ahead`;
+    }
+    case "conflict_override":
+      return booking.conflictOverrideReason ? `Conflict overridden: ${booking.conflictOverrideReason}` : null;
+  }
+}
+
+/**
+ * The approval the booking needs under `rules`, or null when it can be approved straight away.
+ * `depotNames` only makes the reason read better.
+ */
+export function matchApprovalRule(
+  rules: ApprovalRule[],
+  booking: ApprovalPolicyBooking,
+  context: ApprovalPolicyContext,
+  depotNames: Record<string, string> = {}
+): ScheduleItemApproval | null {
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    if (rule.appliesTo === "bookers" && context.requesterRole !== "user") continue;
+    const reason = conditionReason(rule.condition, booking, context, depotNames);
+    if (!reason) continue;
+    return { ruleId: rule.id, ruleName: rule.name, reason, steps: [...rule.steps], decisions: [] };
+  }
+  return null;
+}
+
+/** A pending item's approval, for items saved before rules existed too. */
+export function approvalOf(item: { approval?: ScheduleItemApproval | null }): ScheduleItemApproval {
+  return item.approval ?? LEGACY_APPROVAL;
+}
+
+/** The step waiting for a decision, or null once every step is done. */
+export function currentApprovalStep(approval: ScheduleItemApproval): ApprovalStep | null {
+  return approval.steps[approval.decisions.length] ?? null;
+}
+
+/**
+ * Whether this member can decide the step. Admins can decide any step. A depot's manager decides
+ * its "depot manager" step, and operations managers do when the depot has no manager. Nobody
+ * but an admin decides a booking they asked for themselves.
+ */
+export function canDecideApprovalStep(
+  step: ApprovalStep,
+  member: { userId: string; role: string },
+  booking: { requestedBy: string | null; depotManagerId: string | undefined }
+): boolean {
+  if (member.role === "admin") return true;
+  if (booking.requestedBy === member.userId) return false;
+  if (step === "operations") return member.role === "operations";
+  return booking.depotManagerId ? booking.depotManagerId === member.userId : member.role === "operations";
+}
+
+/** e.g. "Night shifts" or "Booked less than 3 days ahead", for the settings list. */
+export function describeApprovalCondition(condition: ApprovalCondition, depotNames: Record<string, string> = {}): string {
+  switch (condition.type) {
+    case "any":
+      return "Every booking";
+    case "night_shift":
+      return "Night shifts";
+    case "duration_over":
+      return `Longer than ${plural(condition.hours, "hour")}`;
+    case "depots":
+      return `At ${condition.depotIds.map((id) => depotNames[id] ?? "a removed depot").join(", ")}`;
+    case "customers":
+      return `For ${condition.customers.join(", ")}`;
+    case "short_notice":
+      return `Booked less than ${plural(condition.days, "day")} ahead`;
+    case "conflict_override":
+      return "Overriding a conflict";
+  }
+}
@@ -0,0 +1,567 @@
+/**
+ * Booking approvals
+ *
+ * New bookings get their status from the organization's approval rules (lib/approvalPolicy.ts).
+ * A pending booking waits for each of its rule's steps in turn; whoever can decide the current
+ * step approves it on to the next, and approving the last step approves the booking. Rejecting
+ * at any step rejects it. The in-app approvals list and the emailed links both decide through
+ * decideBooking, and the requester is emailed the outcome.
+ *
+ * When the approval method is "email", whoever can decide a booking's current step is also
+ * emailed Approve and Reject links. A link carries a signed token naming the booking, the
+ * approver and the booking's version, and expires after APPROVAL_LINK_TTL_HOURS. Every decision
+ * bumps the version, so each link works once and the links sent to other approvers stop working
+ * too. Links open /approvals/<token>, which shows the booking and posts the decision (with a
+ * reason for a rejection) to /api/approvals/<token>. Nothing changes on a plain GET, so mail
+ * scanners that follow links can't approve anything.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { OrganizationMembership, ScheduleItem, User } from "@shared/schema";
+import { storage } from "@/lib/storage";
+import { setAuditActor } from "@/lib/audit";
+import type { OrganizationContext } from "@/lib/request-context";
+import { getSessionSecret } from "@/lib/session-token";
+import { getSubscriptionAccess } from "@/lib/subscription";
+import { normalizeOrganizationSettings, type OrganizationSettings } from "@/lib/organizationSettings";
+import {
+  APPROVAL_STEP_LABELS,
+  PROVISIONAL_APPROVAL,
+  approvalOf,
+  canDecideApprovalStep,
+  currentApprovalStep,
+  matchApprovalRule,
+  type ApprovalPolicyBooking,
+  type ApprovalStep,
+  type ScheduleItemApproval,
+} from "@/lib/approvalPolicy";
+import { dayLabel } from "@/lib/dailySchedule";
+import { toDayKey } from "@/lib/scheduleDates";
+import {
+  deliverEmail,
+  generateApprovalOutcomeEmailHtml,
+  generateApprovalOutcomeEmailText,
+  generateApprovalRequestEmailHtml,
+  generateApprovalRequestEmailText,
+  type ApprovalEmailBooking,
+} from "@/lib/email";
+
+export const APPROVAL_LINK_TTL_HOURS = 72;
+
+export interface ApprovalLinkClaims {
+  itemId: string;
+  approverId: string;
+  // The booking's version when the email was sent
+  version: number;
+  // Seconds since the epoch
+  expiresAt: number;
+}
+
+export const approvalDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({ action: z.literal("reject"), reason: z.string().trim().min(1, "Give a reason").max(500) }),
+]);
+
+export type ApprovalDecision = z.infer<typeof approvalDecisionSchema>;
+
+// Where a pending booking has got to, for the approvals list and the link landing page
+export interface ApprovalProgress {
+  ruleName: string;
+  reason: string;
+  steps: ApprovalStep[];
+  // Index into steps of the step waiting for a decision
+  currentStep: number;
+  // e.g. "Depot manager (sam)" or "Operations"
+  waitingFor: string;
+  decisions: Array<{ step: ApprovalStep; userName: string; at: string }>;
+}
+
+// A pending booking as the approvals list shows it
+export interface PendingApproval {
+  id: string;
+  type: string;
+  date: Date;
+  crewId: string;
+  depotId: string;
+  status: string;
+  requestedBy: string | null;
+  requestedByUser: { id: string; username: string } | null;
+  customer: string | null;
+  location: string | null;
+  notes: string | null;
+  approval: ApprovalProgress;
+  // Whether the current user can decide the current step
+  canDecide: boolean;
+}
+
+// What the landing page shows for a link
+export interface ApprovalLinkDetails {
+  booking: ApprovalEmailBooking & { date: string; customer: string | null; jobNumber: string | null };
+  approval: ApprovalProgress;
+  requesterName: string;
+  approverName: string;
+  organizationName: string;
+  expiresAt: string;
+}
+
+type ApprovalError = { ok: false; error: string; status: number };
+
+// The new booking's fields the rules look at
+export type ApprovalPolicyItem = Omit<ApprovalPolicyBooking, "day"> & {
+  date: Date;
+  crewId: string;
+  // The status the client asked for; only "pending" is honoured
+  status?: string | null;
+};
+
+export interface NewBookingApproval {
+  status: "approved" | "pending";
+  approval: ScheduleItemApproval | null;
+}
+
+function appUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_APP_URL ||
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000")
+  );
+}
+
+// Prefixed so an approval signature can never pass as a session signature or vice versa
+function sign(payload: string): string {
+  return createHmac("sha256", getSessionSecret()).update(`approval-link.${payload}`).digest("base64url");
+}
+
+export function createApprovalToken(claims: ApprovalLinkClaims): string {
+  const payload = Buffer.from(
+    JSON.stringify([claims.itemId, claims.approverId, claims.version, claims.expiresAt])
+  ).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/** The token's claims if it's signed by us, whether or not it has expired. */
+export function readApprovalToken(token: string): ApprovalLinkClaims | null {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(sign(payload));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  try {
+    const [itemId, approverId, version, expiresAt] = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof itemId !== "string" || typeof approverId !== "string") return null;
+    if (!Number.isInteger(version) || !Number.isInteger(expiresAt)) return null;
+    return { itemId, approverId, version, expiresAt };
+  } catch {
+    return null;
+  }
+}
+
+const displayName = (user: User | undefined) => user?.username ?? "A team member";
+
+const hasEmail = (user: User | undefined): user is User => !!user?.email && user.email.includes("@");
+
+async function loadSettings(organizationId: string): Promise<OrganizationSettings> {
+  return normalizeOrganizationSettings(await storage.getOrganizationSettings(organizationId));
+}
+
+/**
+ * The status and approval each new booking starts with. A booking asked to be pending (a
+ * provisional booking from availability search) waits for operations when the organization
+ * requires approval for those. Without the approval workflow (e.g. the Starter plan) that's the
+ * only way a booking is pending; with it, the first matching rule decides first.
+ */
+export async function applyApprovalPolicy(
+  ctx: Pick<OrganizationContext, "organizationId" | "role" | "entitlements">,
+  items: ApprovalPolicyItem[]
+): Promise<NewBookingApproval[]> {
+  const settings = await loadSettings(ctx.organizationId);
+  const provisional = (item: ApprovalPolicyItem): NewBookingApproval =>
+    item.status === "pending" && settings.scheduling.requireApprovalForBookings
+      ? { status: "pending", approval: { ...PROVISIONAL_APPROVAL, decisions: [] } }
+      : { status: "approved", approval: null };
+  if (!ctx.entitlements.features.approvalWorkflow) return items.map(provisional);
+
+  const [crews, depots] = await Promise.all([
+    storage.getCrewsByOrg(ctx.organizationId),
+    storage.getDepotsByOrg(ctx.organizationId),
+  ]);
+  const depotNames = Object.fromEntries(depots.map((depot) => [depot.id, depot.name]));
+  const today = toDayKey(new Date());
+
+  return items.map((item) => {
+    const approval = matchApprovalRule(
+      settings.approvals.rules,
+      { ...item, day: toDayKey(item.date) },
+      { requesterRole: ctx.role, crewShift: crews.find((crew) => crew.id === item.crewId)?.shift, today },
+      depotNames
+    );
+    return approval ? { status: "pending", approval } : provisional(item);
+  });
+}
+
+interface Approver {
+  user: User;
+  membership: OrganizationMembership;
+}
+
+async function getMembers(organizationId: string): Promise<Approver[]> {
+  const memberships = await storage.getMembershipsByOrg(organizationId);
+  const users = await Promise.all(memberships.map((membership) => storage.getUser(membership.userId)));
+  return memberships.flatMap((membership, index) => {
+    const user = users[index];
+    return user ? [{ user, membership }] : [];
+  });
+}
+
+const stepOf = (approval: ScheduleItemApproval): ApprovalStep => currentApprovalStep(approval) ?? "operations";
+
+// Who is asked to decide the step: the depot's manager if it has one and they can, otherwise
+// admins and operations managers. Admins can decide any step but aren't asked for a manager's.
+function stepRecipients(item: ScheduleItem, members: Approver[], settings: OrganizationSettings): Approver[] {
+  const step = stepOf(approvalOf(item));
+  const depotManagerId = settings.approvals.depotManagers[item.depotId];
+  const eligible = members.filter(({ user, membership }) =>
+    canDecideApprovalStep(step, { userId: user.id, role: membership.role }, { requestedBy: item.requestedBy, depotManagerId })
+  );
+  const manager = step === "depot_manager" ? eligible.filter(({ user }) => user.id === depotManagerId) : [];
+  return manager.length > 0 ? manager : eligible.filter(({ membership }) => membership.role !== "user");
+}
+
+function describeProgress(
+  item: ScheduleItem,
+  members: Approver[],
+  settings: OrganizationSettings
+): ApprovalProgress {
+  const approval = approvalOf(item);
+  const step = stepOf(approval);
+  const nameOf = (userId: string) => members.find((m) => m.user.id === userId)?.user.username ?? "a former member";
+  const depotManagerId = settings.approvals.depotManagers[item.depotId];
+  return {
+    ruleName: approval.ruleName,
+    reason: approval.reason,
+    steps: approval.steps,
+    currentStep: approval.decisions.length,
+    waitingFor:
+      step === "depot_manager" && depotManagerId
+        ? `${APPROVAL_STEP_LABELS[step]} (${nameOf(depotManagerId)})`
+        : APPROVAL_STEP_LABELS[step],
+    decisions: approval.decisions.map((decision) => ({
+      step: decision.step,
+      userName: nameOf(decision.userId),
+      at: decision.at,
+    })),
+  };
+}
+
+async function describeBooking(item: ScheduleItem): Promise<ApprovalEmailBooking> {
+  const [crew, depot, employee, vehicle] = await Promise.all([
+    storage.getCrew(item.crewId),
+    storage.getDepot(item.depotId),
+    item.employeeId ? storage.getEmployee(item.employeeId) : undefined,
+    item.vehicleId ? storage.getVehicle(item.vehicleId) : undefined,
+  ]);
+  const kind = item.type.charAt(0).toUpperCase() + item.type.slice(1);
+  let subject: string | null = null;
+  if (item.type === "job") subject = [item.customer, item.jobNumber ? `(${item.jobNumber})` : null].filter(Boolean).join(" ");
+  else if (item.type === "note") subject = item.noteContent;
+  else subject = employee?.name ?? vehicle?.name ?? null;
+
+  return {
+    title: subject ? `${kind}: ${subject}` : kind,
+    dayLabel: dayLabel(toDayKey(item.date)),
+    crewName: crew?.name ?? null,
+    depotName: depot?.name ?? null,
+    address: item.address,
+    startTime: item.startTime,
+  };
+}
+
+// e.g. "Night shifts (Night shift), step 1 of 2"
+function describeRule(approval: ScheduleItemApproval): string {
+  const step = approval.steps.length > 1 ? `, step ${approval.decisions.length + 1} of ${approval.steps.length}` : "";
+  return `${approval.ruleName} (${approval.reason})${step}`;
+}
+
+/**
+ * Email whoever can decide the current step of each pending item among `items`, one email per
+ * person. Does nothing unless the organization approves by email. Failures are logged rather
+ * than thrown: the bookings are saved either way and still show in the app.
+ */
+export async function notifyApprovers(organizationId: string, items: ScheduleItem[]): Promise<void> {
+  const pending = items.filter((item) => item.status === "pending");
+  if (pending.length === 0) return;
+
+  try {
+    const settings = await loadSettings(organizationId);
+    if (settings.scheduling.approvalMethod !== "email") return;
+
+    const [members, organization] = await Promise.all([getMembers(organizationId), storage.getOrganization(organizationId)]);
+    const byRecipient = new Map<string, { approver: User; items: ScheduleItem[] }>();
+    for (const item of pending) {
+      for (const { user } of stepRecipients(item, members, settings)) {
+        if (!hasEmail(user)) continue;
+        const entry = byRecipient.get(user.id) ?? { approver: user, items: [] };
+        entry.items.push(item);
+        byRecipient.set(user.id, entry);
+      }
+    }
+    if (byRecipient.size === 0) {
+      console.warn(`[approvals] Nobody with an email address can approve the pending bookings in ${organizationId}`);
+      return;
+    }
+
+    const requester = await storage.getUser(pending[0].requestedBy ?? pending[0].userId);
+    const requesterName = displayName(requester);
+    const bookings = new Map<string, ApprovalEmailBooking>();
+    for (const item of pending) bookings.set(item.id, await describeBooking(item));
+    const expiresAt = Math.floor(Date.now() / 1000) + APPROVAL_LINK_TTL_HOURS * 3600;
+
+    for (const { approver, items: toDecide } of byRecipient.values()) {
+      const content = {
+        approverName: approver.username,
+        requesterName,
+        organizationName: organization?.name ?? "Your organization",
+        linkLifetime: `${APPROVAL_LINK_TTL_HOURS / 24} days`,
+        bookings: toDecide.map((item) => {
+          const token = createApprovalToken({ itemId: item.id, approverId: approver.id, version: item.version, expiresAt });
+          return {
+            ...bookings.get(item.id)!,
+            rule: describeRule(approvalOf(item)),
+            approveUrl: `${appUrl()}/approvals/${token}?action=approve`,
+            rejectUrl: `${appUrl()}/approvals/${token}?action=reject`,
+          };
+        }),
+      };
+      const first = content.bookings[0];
+      const result = await deliverEmail({
+        to: approver.email!,
+        subject:
+          content.bookings.length === 1
+            ? `Approval needed: ${first.title} on ${first.dayLabel}`
+            : `Approval needed: ${content.bookings.length} bookings from ${requesterName}`,
+        html: generateApprovalRequestEmailHtml(content),
+        text: generateApprovalRequestEmailText(content),
+      });
+      if (!result.ok) console.error(`[approvals] Couldn't email ${approver.email}:`, result.error);
+    }
+  } catch (err) {
+    console.error("[approvals] Failed to send approval emails:", err);
+  }
+}
+
+/** Email the person who asked for the booking whether it was approved or rejected. */
+export async function notifyRequester(item: ScheduleItem, approverId: string): Promise<void> {
+  try {
+    const [requester, approver, organization] = await Promise.all([
+      storage.getUser(item.requestedBy ?? item.userId),
+      storage.getUser(approverId),
+      item.organizationId ? storage.getOrganization(item.organizationId) : undefined,
+    ]);
+    if (!hasEmail(requester) || requester.id === approverId) return;
+
+    const content = {
+      requesterName: requester.username,
+      approverName: displayName(approver),
+      organizationName: organization?.name ?? "Your organization",
+      approved: item.status === "approved",
+      rejectionReason: item.status === "rejected" ? item.rejectionReason : null,
+      booking: await describeBooking(item),
+      appUrl: appUrl(),
+    };
+    const result = await deliverEmail({
+      to: requester.email!,
+      subject: `Booking ${content.approved ? "approved" : "rejected"}: ${content.booking.title} on ${content.booking.dayLabel}`,
+      html: generateApprovalOutcomeEmailHtml(content),
+      text: generateApprovalOutcomeEmailText(content),
+    });
+    if (!result.ok) console.error(`[approvals] Couldn't email ${requester.email}:`, result.error);
+  } catch (err) {
+    console.error("[approvals] Failed to send the outcome email:", err);
+  }
+}
+
+// Why this member can't decide the item's current step, or null if they can
+async function decisionBlocker(item: ScheduleItem, userId: string): Promise<ApprovalError | null> {
+  if (!item.organizationId) return { ok: false, error: "Schedule item not found", status: 404 };
+  if (item.status !== "pending") {
+    return { ok: false, error: `This booking has already been ${item.status}`, status: 409 };
+  }
+  const [membership, settings] = await Promise.all([
+    storage.getMembership(userId, item.organizationId),
+    loadSettings(item.organizationId),
+  ]);
+  const step = stepOf(approvalOf(item));
+  const allowed =
+    !!membership &&
+    canDecideApprovalStep(
+      step,
+      { userId, role: membership.role },
+      { requestedBy: item.requestedBy, depotManagerId: settings.approvals.depotManagers[item.depotId] }
+    );
+  if (!allowed) {
+    return {
+      ok: false,
+      error: `Access denied. This booking is waiting for ${APPROVAL_STEP_LABELS[step].toLowerCase()} approval`,
+      status: 403,
+    };
+  }
+  return null;
+}
+
+/**
+ * Approve the booking's current step (approving the booking if it was the last), or reject it.
+ * The decision only lands on the version of `item` it was made on, so if someone else decides
+ * or edits it first this fails rather than deciding twice.
+ */
+export async function decideBooking(
+  item: ScheduleItem,
+  userId: string,
+  decision: ApprovalDecision
+): Promise<{ ok: true; item: ScheduleItem } | ApprovalError> {
+  const expectedVersion = item.version;
+  const blocked = await decisionBlocker(item, userId);
+  if (blocked) return blocked;
+
+  const approval = approvalOf(item);
+  let decided: ScheduleItem | undefined;
+  if (decision.action === "reject") {
+    decided = await storage.rejectScheduleItem(item.id, userId, decision.reason, expectedVersion);
+  } else if (approval.decisions.length + 1 < approval.steps.length) {
+    decided = await storage.recordApprovalStep(
+      item.id,
+      {
+        ...approval,
+        decisions: [...approval.decisions, { step: stepOf(approval), userId, at: new Date().toISOString() }],
+      },
+      expectedVersion
+    );
+  } else {
+    decided = await storage.approveScheduleItem(item.id, userId, expectedVersion);
+  }
+  if (!decided) {
+    return { ok: false, error: "Someone else has just decided on this booking", status: 409 };
+  }
+
+  if (decided.status === "pending") await notifyApprovers(item.organizationId!, [decided]);
+  else await notifyRequester(decided, userId);
+  return { ok: true, item: decided };
+}
+
+/**
+ * The organization's pending bookings the user has a part in: all of them for admins and
+ * operations managers, otherwise the ones they can decide or asked for.
+ */
+export async function listPendingApprovals(ctx: Pick<OrganizationContext, "organizationId" | "userId" | "role">): Promise<PendingApproval[]> {
+  const [items, members, settings] = await Promise.all([
+    storage.getPendingScheduleItems(ctx.organizationId),
+    getMembers(ctx.organizationId),
+    loadSettings(ctx.organizationId),
+  ]);
+
+  return items
+    .map((item) => {
+      const requester = members.find((m) => m.user.id === (item.requestedBy ?? item.userId))?.user;
+      const canDecide = canDecideApprovalStep(
+        stepOf(approvalOf(item)),
+        { userId: ctx.userId, role: ctx.role },
+        { requestedBy: item.requestedBy, depotManagerId: settings.approvals.depotManagers[item.depotId] }
+      );
+      return {
+        id: item.id,
+        type: item.type,
+        date: item.date,
+        crewId: item.crewId,
+        depotId: item.depotId,
+        status: item.status,
+        requestedBy: item.requestedBy,
+        requestedByUser: requester ? { id: requester.id, username: requester.username } : null,
+        customer: item.customer,
+        location: item.address,
+        notes: item.noteContent,
+        approval: describeProgress(item, members, settings),
+        canDecide,
+      };
+    })
+    .filter((entry) => ctx.role !== "user" || entry.canDecide || entry.requestedBy === ctx.userId)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+type ResolvedLink = { ok: true; claims: ApprovalLinkClaims; item: ScheduleItem; approver: User } | ApprovalError;
+
+async function resolveLink(token: string): Promise<ResolvedLink> {
+  const claims = readApprovalToken(token);
+  if (!claims) return { ok: false, error: "This approval link isn't valid", status: 404 };
+  if (claims.expiresAt * 1000 < Date.now()) {
+    return { ok: false, error: "This approval link has expired. Review the booking in the app instead.", status: 410 };
+  }
+
+  const item = await storage.getScheduleItem(claims.itemId);
+  if (!item?.organizationId) return { ok: false, error: "This booking no longer exists", status: 404 };
+  if (item.status === "pending" && item.version !== claims.version) {
+    return {
+      ok: false,
+      error: "This booking has changed since the email was sent. Review it in the app instead.",
+      status: 409,
+    };
+  }
+  const blocked = await decisionBlocker(item, claims.approverId);
+  if (blocked) return blocked;
+
+  const approver = await storage.getUser(claims.approverId);
+  if (!approver) return { ok: false, error: "This approval link isn't valid", status: 404 };
+  return { ok: true, claims, item, approver };
+}
+
+/** The booking behind an approval link, if the link can still be used. */
+export async function getApprovalLinkDetails(
+  token: string
+): Promise<{ ok: true; details: ApprovalLinkDetails } | ApprovalError> {
+  const link = await resolveLink(token);
+  if (!link.ok) return link;
+
+  const organizationId = link.item.organizationId!;
+  const [booking, members, settings, organization] = await Promise.all([
+    describeBooking(link.item),
+    getMembers(organizationId),
+    loadSettings(organizationId),
+    storage.getOrganization(organizationId),
+  ]);
+  const requester = members.find((m) => m.user.id === (link.item.requestedBy ?? link.item.userId))?.user;
+  return {
+    ok: true,
+    details: {
+      booking: {
+        ...booking,
+        date: toDayKey(link.item.date),
+        customer: link.item.customer,
+        jobNumber: link.item.jobNumber,
+      },
+      approval: describeProgress(link.item, members, settings),
+      requesterName: displayName(requester),
+      approverName: link.approver.username,
+      organizationName: organization?.name ?? "Your organization",
+      expiresAt: new Date(link.claims.expiresAt * 1000).toISOString(),
+    },
+  };
+}
+
+/** Decide the link's booking as the approver it was sent to. */
+export async function decideByLink(
+  token: string,
+  decision: ApprovalDecision
+): Promise<{ ok: true; item: ScheduleItem } | ApprovalError> {
+  const link = await resolveLink(token);
+  if (!link.ok) return link;
+
+  // Refused once the subscription has lapsed, as checkWriteAccess does for signed-in routes
+  const organization = await storage.getOrganization(link.item.organizationId!);
+  if (!organization) return { ok: false, error: "This booking no longer exists", status: 404 };
+  const subscription = getSubscriptionAccess(organization);
+  if (!subscription.canWrite) {
+    return { ok: false, error: subscription.message ?? "This organization's subscription has lapsed", status: 402 };
+  }
+
+  // There's no session behind a link; the audit trail records the approver it was sent to
+  setAuditActor({ userId: link.approver.id });
+  return decideBooking(link.item, link.approver.id, decision);
+}
@@ -0,0 +1,69 @@
+/**
+ * Audit trail
+ *
+ * lib/storage.ts writes an audit_events row for every change to schedule items, resources
+ * (depots, crews, employees, vehicles, absences, vehicle unavailability, leave allowances) and
+ * team membership (memberships, invites). Each event records who made the change, the entity,
+ * the action and the fields that changed.
+ *
+ * The acting user is not passed through every storage call. getRequestContext records it for
+ * the rest of the request with setAuditActor, and storage reads it back with getAuditActor;
+ * changes made outside a request (scripts, webhooks) have no actor.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { AuditAction, AuditChanges, AuditEntityType } from "@shared/schema";
+
+export interface AuditActor {
+  userId: string;
+}
+
+const actorStorage = new AsyncLocalStorage<AuditActor>();
+
+/** Attribute storage changes made for the rest of the current request to this user. */
+export function setAuditActor(actor: AuditActor) {
+  actorStorage.enterWith(actor);
+}
+
+export function getAuditActor(): AuditActor | undefined {
+  return actorStorage.getStore();
+}
+
+// Bookkeeping columns that change on every write, and secrets (invite tokens)
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt", "token"]);
+
+// Compare as JSON so Dates and nested objects (jsonb columns) compare by value
+const asJson = (value: unknown) => JSON.stringify(value ?? null);
+
+/**
+ * Fields that differ between two versions of a row. `before` is undefined for a new row and
+ * `after` is undefined for a deleted one, so every field is reported.
+ */
+export function auditChanges(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const was = before?.[field] ?? null;
+    const now = after?.[field] ?? null;
+    if (asJson(was) === asJson(now)) continue;
+    // Round-trip through JSON so the stored values match what the API returns (ISO dates)
+    changes[field] = { before: JSON.parse(asJson(was)), after: JSON.parse(asJson(now)) };
+  }
+  return changes;
+}
+
+export interface AuditEventFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  action?: AuditAction;
+  from?: Date;
+  to?: Date;
+  // Events older than this, for paging back from the last event of the previous page
+  before?: Date;
+  limit: number;
+}
@@ -0,0 +1,544 @@
+/**
+ * Weekly auto-scheduler
+ *
+ * Proposes crew days for the jobs waiting to be scheduled: active jobs with no days booked yet.
+ * A job can say which vehicle type and shift it needs, how many hours, and the earliest and
+ * latest day it can be done; its postcode comes from its address. A crew day can take it when
+ * its people are in, it has a usable vehicle of that type (a vehicle combination such as
+ * "CCTV/Jet Vac" needs one vehicle from each of its groups) and the shift has the hours left.
+ *
+ * Jobs are placed one at a time, those with the fewest possible crew days first, each on the
+ * crew day that adds the least driving (plus a little for each day it waits). The crew then
+ * moves on from that job, so the next job near it goes to the same crew.
+ *
+ * Travel comes from the bundled postcode data, never a routing server, so the same schedule
+ * always gives the same proposal. Nothing is booked until the planner accepts some or all of it.
+ */
+
+import { z } from "zod";
+import type {
+  Crew,
+  Depot,
+  Employee,
+  EmployeeAbsence,
+  InsertScheduleItem,
+  Job,
+  ScheduleItem,
+  Vehicle,
+  VehicleUnavailability,
+} from "@shared/schema";
+import { storage } from "@/lib/storage";
+import { applyApprovalPolicy } from "@/lib/approvals";
+import type { OrganizationContext } from "@/lib/request-context";
+import { findAbsenceOnDay, isHalfDay } from "@/lib/absences";
+import { findVehicleUnavailability } from "@/lib/vehicleUnavailability";
+import { normalizeOrganizationSettings, type SchedulingSettings } from "@/lib/organizationSettings";
+import { normalizeVehicleTypeName, type VehicleCombinationConfig } from "@/lib/vehicleTypes";
+import {
+  calculateJobEndTime,
+  createOfflineTravelTimeProvider,
+  extractPostcode,
+  getVehicleClass,
+  type VehicleClass,
+} from "@/lib/travelTime";
+import { addDaysToKey, dayKeyRangeToQueryBounds, dayKeyToDate, daysBetweenKeys, eachDayKey, toDayKey } from "@/lib/scheduleDates";
+
+// Hours a crew works in a shift, and a job without a duration takes
+const SHIFT_HOURS = 8;
+// How many minutes of driving a day's wait is worth
+const MINUTES_PER_DAY_WAITED = 20;
+// When a postcode is missing or isn't in the bundled data, as lib/travelTime.ts assumes
+const UNKNOWN_TRAVEL_MINUTES = 45;
+// Between jobs when the next one's postcode is missing, as the booking form assumes
+const DEFAULT_HOP_MINUTES = 30;
+
+const offline = createOfflineTravelTimeProvider();
+
+// ---------- Validation ----------
+
+const dayKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date (yyyy-MM-dd)");
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a 24h time (HH:MM)");
+
+export const autoScheduleRequestSchema = z.object({
+  // The Monday (or any first day) of the week to fill; seven days are planned
+  weekStart: dayKey,
+  // Every waiting job when omitted
+  jobIds: z.array(z.string().min(1)).max(500).optional(),
+});
+
+export const acceptAutoScheduleSchema = z.object({
+  assignments: z
+    .array(
+      z.object({
+        jobId: z.string().min(1),
+        date: dayKey,
+        crewId: z.string().min(1),
+        startTime: timeOfDay,
+        onsiteTime: timeOfDay,
+        duration: z.number().int().min(1).max(SHIFT_HOURS),
+      })
+    )
+    .min(1)
+    .max(500),
+});
+
+export type AutoScheduleRequest = z.infer<typeof autoScheduleRequestSchema>;
+export type AcceptedAssignment = z.infer<typeof acceptAutoScheduleSchema>["assignments"][number];
+
+// ---------- Proposal ----------
+
+export interface ProposedAssignment {
+  jobId: string;
+  jobNumber: string | null;
+  customer: string | null;
+  address: string | null;
+  date: string;
+  crewId: string;
+  crewName: string;
+  shift: string;
+  depotId: string;
+  depotName: string;
+  duration: number;
+  startTime: string;
+  onsiteTime: string;
+  // Driving to the job from the crew's previous stop, when both postcodes could be placed
+  travelMinutes: number | null;
+  vehicleNames: string[];
+  reasons: string[];
+}
+
+export interface UnplacedJob {
+  jobId: string;
+  jobNumber: string | null;
+  customer: string | null;
+  reason: string;
+}
+
+export interface AutoScheduleProposal {
+  weekStart: string;
+  weekEnd: string;
+  // By day, then crew, then start time
+  assignments: ProposedAssignment[];
+  unplaced: UnplacedJob[];
+  totalTravelMinutes: number;
+}
+
+export interface PlanningData {
+  weekStart: string;
+  jobs: Job[];
+  crews: Crew[];
+  depots: Depot[];
+  employees: Employee[];
+  vehicles: Vehicle[];
+  // The week's schedule items
+  items: ScheduleItem[];
+  absences: EmployeeAbsence[];
+  unavailability: VehicleUnavailability[];
+  combinations: VehicleCombinationConfig[];
+  scheduling: SchedulingSettings;
+}
+
+// A crew's day as the plan fills it
+interface CrewDay {
+  day: string;
+  crew: Crew;
+  depot: Depot;
+  vehicles: Vehicle[];
+  // Normalized vehicle types, categories and combination labels the crew can cover
+  covers: Set<string>;
+  vehicleClass: VehicleClass;
+  capacity: number;
+  used: number;
+  // Where the crew is: its start for the day, then each job in turn
+  postcode: string | null;
+  place: string;
+  // When the last job finishes, once there is one
+  lastEnd: string | null;
+}
+
+interface PlanningJob {
+  job: Job;
+  window: string[];
+  wantedType: string | null;
+  duration: number;
+  postcode: string | null;
+}
+
+const isPerson = (item: ScheduleItem) => item.type === "operative" || item.type === "assistant";
+const isBookedJob = (item: ScheduleItem) =>
+  item.type === "job" && item.jobStatus === "booked" && item.status !== "rejected" && item.customer !== "Free";
+
+function addMinutes(time: string, minutes: number): string {
+  const [hours, mins] = time.split(":").map(Number);
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function travelBetween(from: string | null, to: string | null, vehicleClass: VehicleClass): number | null {
+  if (!from || !to) return null;
+  const minutes = offline.getTravelMinutes(from, to, vehicleClass);
+  return typeof minutes === "number" ? minutes : UNKNOWN_TRAVEL_MINUTES;
+}
+
+const jobLabel = (job: Job) => job.jobNumber || job.customer || "job";
+
+function buildCrewDays(data: PlanningData, days: string[]): CrewDay[] {
+  const crewDays: CrewDay[] = [];
+  const crews = [...data.crews].sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+
+  for (const day of days) {
+    for (const crew of crews) {
+      const depot = data.depots.find((d) => d.id === crew.depotId);
+      if (crew.archivedAt || !depot || depot.archivedAt) continue;
+      const onDay = data.items.filter((item) => item.crewId === crew.id && toDayKey(item.date) === day && item.status !== "rejected");
+
+      // Only people who are in count; a crew nobody is on isn't working
+      const people: Array<{ item: ScheduleItem; employee: Employee; halfDay: boolean }> = [];
+      for (const item of onDay.filter(isPerson)) {
+        const employee = data.employees.find((e) => e.id === item.employeeId);
+        if (!employee || people.some((p) => p.employee.id === employee.id)) continue;
+        const absence = findAbsenceOnDay(data.absences, employee.id, day, toDayKey);
+        if (absence && !isHalfDay(absence)) continue;
+        people.push({ item, employee, halfDay: !!absence });
+      }
+      if (people.length === 0) continue;
+
+      const vehicles = [...new Set(people.map((p) => p.item.vehicleId).filter((id): id is string => !!id))]
+        .map((id) => data.vehicles.find((v) => v.id === id))
+        .filter((vehicle): vehicle is Vehicle => !!vehicle)
+        .filter(
+          (vehicle) =>
+            vehicle.status !== "off_road" &&
+            vehicle.status !== "maintenance" &&
+            !findVehicleUnavailability(data.unavailability, vehicle.id, day, toDayKey)
+        );
+      const covers = new Set(
+        vehicles.flatMap((v) => [normalizeVehicleTypeName(v.vehicleType), normalizeVehicleTypeName(v.category ?? undefined)]).filter(Boolean)
+      );
+      for (const combination of data.combinations) {
+        const hasA = combination.groupA.some((type) => covers.has(normalizeVehicleTypeName(type)));
+        const hasB = combination.groupB.some((type) => covers.has(normalizeVehicleTypeName(type)));
+        if (hasA && hasB) covers.add(normalizeVehicleTypeName(combination.label));
+      }
+
+      // Starts from the lead operative's home when they start from home, else the depot
+      const lead = people.find((p) => p.item.type === "operative" && p.item.vehicleId) ?? people[0];
+      const fromHome = lead.employee.startsFromHome && !!lead.employee.homePostcode;
+      const crewDay: CrewDay = {
+        day,
+        crew,
+        depot,
+        vehicles,
+        covers,
+        vehicleClass: getVehicleClass(vehicles[0]?.vehicleType),
+        capacity: people.every((p) => p.halfDay) ? SHIFT_HOURS / 2 : SHIFT_HOURS,
+        used: 0,
+        postcode: extractPostcode((fromHome ? lead.employee.homePostcode : depot.address) ?? ""),
+        place: fromHome ? `${lead.employee.name}'s home` : depot.name,
+        lastEnd: null,
+      };
+
+      // Jobs already booked fill the day first
+      const booked = onDay
+        .filter(isBookedJob)
+        .sort((a, b) => (a.onsiteTime || a.startTime || "").localeCompare(b.onsiteTime || b.startTime || ""));
+      for (const job of booked) {
+        crewDay.used += job.duration ?? SHIFT_HOURS;
+        const postcode = extractPostcode(job.address ?? "");
+        if (postcode) {
+          crewDay.postcode = postcode;
+          crewDay.place = job.customer || "the previous job";
+        }
+        const start = job.onsiteTime || job.startTime;
+        if (start) crewDay.lastEnd = calculateJobEndTime(start, job.duration ?? SHIFT_HOURS);
+      }
+      crewDays.push(crewDay);
+    }
+  }
+  return crewDays;
+}
+
+// The job as the plan sees it, able to go on any of `days` its dates allow
+function toPlanningJob(job: Job, days: string[]): PlanningJob {
+  const earliest = job.earliestDate ? toDayKey(job.earliestDate) : null;
+  const latest = job.latestDate ? toDayKey(job.latestDate) : null;
+  return {
+    job,
+    window: days.filter((day) => (!earliest || day >= earliest) && (!latest || day <= latest)),
+    wantedType: job.vehicleType ? normalizeVehicleTypeName(job.vehicleType) : null,
+    duration: job.duration ?? SHIFT_HOURS,
+    postcode: extractPostcode(job.address ?? ""),
+  };
+}
+
+function canTake(crewDay: CrewDay, job: PlanningJob): boolean {
+  return (
+    job.window.includes(crewDay.day) &&
+    (!job.job.shift || job.job.shift === crewDay.crew.shift) &&
+    (!job.wantedType || crewDay.covers.has(job.wantedType)) &&
+    crewDay.capacity - crewDay.used >= job.duration
+  );
+}
+
+// Why no crew day in the week can take the job, checking each need in turn
+function whyUnplaced(job: PlanningJob, crewDays: CrewDay[], weekStart: string, weekEnd: string): string {
+  if (job.window.length === 0) return `Its dates fall outside ${weekStart} to ${weekEnd}`;
+  let candidates = crewDays.filter((cd) => job.window.includes(cd.day));
+  if (candidates.length === 0) return "No crew is working on the days it can be done";
+  if (job.job.shift) {
+    candidates = candidates.filter((cd) => cd.crew.shift === job.job.shift);
+    if (candidates.length === 0) return `No ${job.job.shift} shift crew is working on the days it can be done`;
+  }
+  if (job.wantedType) {
+    candidates = candidates.filter((cd) => cd.covers.has(job.wantedType!));
+    if (candidates.length === 0) return `No crew has a usable ${job.job.vehicleType} on the days it can be done`;
+  }
+  return `No crew day that could take it has ${job.duration}h free`;
+}
+
+/** The proposal for the week: pure, so the same data always gives the same answer. */
+export function proposeWeek(data: PlanningData): AutoScheduleProposal {
+  const weekEnd = addDaysToKey(data.weekStart, 6);
+  const days = eachDayKey(data.weekStart, weekEnd);
+  const crewDays = buildCrewDays(data, days);
+
+  const planningJobs = data.jobs.map((job) => toPlanningJob(job, days));
+
+  // Hardest first: fewest possible crew days, then the soonest deadline, then the longest
+  const options = new Map(planningJobs.map((job) => [job.job.id, crewDays.filter((cd) => canTake(cd, job)).length]));
+  const ordered = [...planningJobs].sort(
+    (a, b) =>
+      options.get(a.job.id)! - options.get(b.job.id)! ||
+      (a.window.at(-1) ?? "").localeCompare(b.window.at(-1) ?? "") ||
+      b.duration - a.duration ||
+      (a.job.jobNumber ?? "").localeCompare(b.job.jobNumber ?? "") ||
+      a.job.id.localeCompare(b.job.id)
+  );
+
+  const assignments: ProposedAssignment[] = [];
+  const unplaced: UnplacedJob[] = [];
+  for (const planning of ordered) {
+    const { job } = planning;
+    let best: { crewDay: CrewDay; travel: number | null; cost: number } | null = null;
+    for (const crewDay of crewDays) {
+      if (!canTake(crewDay, planning)) continue;
+      const travel = travelBetween(crewDay.postcode, planning.postcode, crewDay.vehicleClass);
+      // A crew whose whereabouts are unknown mustn't look closer than one that's measured
+      const driving = travel ?? (planning.postcode ? UNKNOWN_TRAVEL_MINUTES : 0);
+      const cost = driving + daysBetweenKeys(planning.window[0], crewDay.day) * MINUTES_PER_DAY_WAITED;
+      // crewDays are in day then crew order, so on a tie the earlier day and first crew win
+      if (!best || cost < best.cost) best = { crewDay, travel, cost };
+    }
+    if (!best) {
+      const reason =
+        options.get(job.id)! > 0
+          ? "Every crew day that could take it was filled by other jobs"
+          : whyUnplaced(planning, crewDays, data.weekStart, weekEnd);
+      unplaced.push({ jobId: job.id, jobNumber: job.jobNumber, customer: job.customer, reason });
+      continue;
+    }
+
+    const { crewDay, travel } = best;
+    const shiftStart = crewDay.crew.shift === "night" ? data.scheduling.defaultNightStartTime : data.scheduling.defaultDayStartTime;
+    let startTime: string;
+    let onsiteTime: string;
+    if (crewDay.lastEnd) {
+      startTime = crewDay.lastEnd;
+      onsiteTime = addMinutes(startTime, travel ?? DEFAULT_HOP_MINUTES);
+    } else {
+      onsiteTime = shiftStart;
+      startTime =
+        data.scheduling.autoCalculateStartFromLocation && travel !== null
+          ? addMinutes(shiftStart, -(travel + data.scheduling.preStartBufferMinutes))
+          : shiftStart;
+    }
+
+    const reasons: string[] = [];
+    reasons.push(
+      travel !== null
+        ? `${travel} min drive from ${crewDay.place}`
+        : planning.postcode
+          ? `Couldn't place ${crewDay.place}'s postcode, so travel isn't counted`
+          : "No postcode in its address, so travel isn't counted"
+    );
+    if (planning.wantedType) reasons.push(`Has ${crewDay.vehicles.map((v) => v.name).join(" and ")} for ${job.vehicleType}`);
+    const waited = daysBetweenKeys(planning.window[0], crewDay.day);
+    if (waited > 0) reasons.push(`${waited} ${waited === 1 ? "day" : "days"} after it could first be done`);
+    reasons.push(`${crewDay.capacity - crewDay.used - planning.duration}h of the shift left after it`);
+
+    assignments.push({
+      jobId: job.id,
+      jobNumber: job.jobNumber,
+      customer: job.customer,
+      address: job.address,
+      date: crewDay.day,
+      crewId: crewDay.crew.id,
+      crewName: crewDay.crew.name,
+      shift: crewDay.crew.shift,
+      depotId: crewDay.depot.id,
+      depotName: crewDay.depot.name,
+      duration: planning.duration,
+      startTime,
+      onsiteTime,
+      travelMinutes: travel,
+      vehicleNames: crewDay.vehicles.map((v) => v.name),
+      reasons,
+    });
+
+    crewDay.used += planning.duration;
+    crewDay.lastEnd = calculateJobEndTime(onsiteTime, planning.duration);
+    if (planning.postcode) {
+      crewDay.postcode = planning.postcode;
+      crewDay.place = jobLabel(job);
+    }
+  }
+
+  assignments.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.crewName.localeCompare(b.crewName) ||
+      a.crewId.localeCompare(b.crewId) ||
+      a.onsiteTime.localeCompare(b.onsiteTime)
+  );
+  return {
+    weekStart: data.weekStart,
+    weekEnd,
+    assignments,
+    unplaced,
+    totalTravelMinutes: assignments.reduce((sum, a) => sum + (a.travelMinutes ?? 0), 0),
+  };
+}
+
+// Everything but the jobs that planning days from..to needs
+async function loadPlanningData(
+  organizationId: string,
+  from: string,
+  to: string
+): Promise<Omit<PlanningData, "weekStart" | "jobs">> {
+  const { start, end } = dayKeyRangeToQueryBounds(from, to);
+  const [crews, depots, employees, vehicles, items, absences, unavailability, settingsRow] = await Promise.all([
+    storage.getCrewsByOrg(organizationId),
+    storage.getDepotsByOrg(organizationId),
+    storage.getEmployeesByOrg(organizationId),
+    storage.getVehiclesByOrg(organizationId),
+    storage.getScheduleItemsByOrg(organizationId, start, end),
+    storage.getEmployeeAbsencesByOrg(organizationId),
+    storage.getVehicleUnavailabilityByOrg(organizationId),
+    storage.getOrganizationSettings(organizationId),
+  ]);
+  const settings = normalizeOrganizationSettings(settingsRow);
+  return {
+    crews,
+    depots,
+    employees,
+    vehicles,
+    items: items.filter((item) => item.jobStatus !== "cancelled"),
+    absences,
+    unavailability,
+    combinations: settings.vehicleCombinations,
+    scheduling: settings.scheduling,
+  };
+}
+
+/** Loads the week and the jobs waiting for it, and proposes where they go. */
+export async function proposeAutoSchedule(organizationId: string, request: AutoScheduleRequest): Promise<AutoScheduleProposal> {
+  const [jobs, data] = await Promise.all([
+    storage.getJobsByOrg(organizationId, { status: "active" }),
+    loadPlanningData(organizationId, request.weekStart, addDaysToKey(request.weekStart, 6)),
+  ]);
+
+  const waiting = jobs.filter((job) => job.allocatedDays === 0 && (!request.jobIds || request.jobIds.includes(job.id)));
+  return proposeWeek({ ...data, weekStart: request.weekStart, jobs: waiting });
+}
+
+// Why the crew day can't take the job any more, or null if it still can
+function whyNotAccepted(crewDay: CrewDay | undefined, job: PlanningJob, crew: Crew, day: string): string | null {
+  if (job.window.length === 0) return `The job can't be done on ${day}`;
+  if (!crewDay) return `${crew.name} isn't working on ${day}`;
+  if (job.job.shift && job.job.shift !== crew.shift) return `The job needs a ${job.job.shift} shift crew`;
+  if (job.wantedType && !crewDay.covers.has(job.wantedType)) {
+    return `${crew.name} has no usable ${job.job.vehicleType} on ${day}`;
+  }
+  if (crewDay.capacity - crewDay.used < job.duration) return `${crew.name} no longer has ${job.duration}h free on ${day}`;
+  return null;
+}
+
+/**
+ * Books the accepted assignments as job days, approved or pending as the approval rules say.
+ * Each is checked again against the schedule as it is now, as the proposal checked it: jobs
+ * that have been booked, closed or removed since, and crew days that can no longer take them
+ * (people off, vehicles unavailable, the shift filled up), are skipped with the reason.
+ */
+export async function acceptAutoSchedule(
+  ctx: Pick<OrganizationContext, "organizationId" | "userId" | "role" | "entitlements">,
+  assignments: AcceptedAssignment[]
+): Promise<{ created: ScheduleItem[]; skipped: Array<{ jobId: string; reason: string }> }> {
+  const { organizationId, userId } = ctx;
+  const days = assignments.map((assignment) => assignment.date).sort();
+  const [jobs, data] = await Promise.all([
+    storage.getJobsByOrg(organizationId),
+    loadPlanningData(organizationId, days[0], days[days.length - 1]),
+  ]);
+  const { crews } = data;
+  const crewDays = buildCrewDays({ ...data, weekStart: days[0], jobs: [] }, [...new Set(days)]);
+
+  const skipped: Array<{ jobId: string; reason: string }> = [];
+  const rows: InsertScheduleItem[] = [];
+  const seen = new Set<string>();
+  for (const assignment of assignments) {
+    const job = jobs.find((j) => j.id === assignment.jobId);
+    const crew = crews.find((c) => c.id === assignment.crewId && !c.archivedAt);
+    const reason = !job
+      ? "Job not found"
+      : seen.has(job.id)
+        ? "The job was accepted twice"
+        : job.status !== "active"
+          ? `The job is ${job.status}`
+          : job.allocatedDays > 0
+            ? "The job has been booked since the proposal"
+            : !crew
+              ? "Crew not found"
+              : null;
+    if (reason || !job || !crew) {
+      skipped.push({ jobId: assignment.jobId, reason: reason ?? "Job not found" });
+      continue;
+    }
+
+    const planning = { ...toPlanningJob(job, [assignment.date]), duration: assignment.duration };
+    const crewDay = crewDays.find((cd) => cd.day === assignment.date && cd.crew.id === crew.id);
+    const unavailable = whyNotAccepted(crewDay, planning, crew, assignment.date);
+    if (unavailable || !crewDay) {
+      skipped.push({ jobId: job.id, reason: unavailable ?? `${crew.name} isn't working on ${assignment.date}` });
+      continue;
+    }
+
+    // Later assignments to the same crew day see the hours this one takes
+    crewDay.used += planning.duration;
+    seen.add(job.id);
+    rows.push({
+      type: "job",
+      date: dayKeyToDate(assignment.date),
+      crewId: crew.id,
+      depotId: crew.depotId,
+      organizationId,
+      userId,
+      requestedBy: userId,
+      jobStatus: "booked",
+      jobId: job.id,
+      customer: job.customer,
+      jobNumber: job.jobNumber,
+      address: job.address,
+      projectManager: job.projectManager,
+      color: job.color,
+      startTime: assignment.startTime,
+      onsiteTime: assignment.onsiteTime,
+      duration: assignment.duration,
+    });
+  }
+
+  const approvals = await applyApprovalPolicy(ctx, rows);
+  const created = await storage.createScheduleItems(
+    rows.map((row, index) => ({ ...row, status: approvals[index].status, approval: approvals[index].approval }))
+  );
+  return { created, skipped };
+}
@@ -0,0 +1,287 @@
+/**
+ * Availability search
+ *
+ * Finds crew days that can take a job of a given length: crews with people booked on the day
+ * (a crew nobody is on isn't working), enough hours left after their booked jobs, and a usable
+ * vehicle of the requested type. People who are absent and vehicles that are off the road or
+ * in maintenance don't count. Days after the last planned item are skipped, since an unplanned
+ * diary isn't the same as a free one.
+ *
+ * Slots are ranked by travel time to the job postcode (from the depot, or from the lead
+ * operative's home when they start from home) plus a cost for each day of waiting, and each
+ * slot carries the reasons it was ranked where it is.
+ */
+
+import { z } from "zod";
+import type { Depot, Employee, EmployeeAbsence, ScheduleItem, Vehicle, VehicleUnavailability } from "@shared/schema";
+import { storage } from "@/lib/storage";
+import { describeAbsence, findAbsenceOnDay, isHalfDay } from "@/lib/absences";
+import { findVehicleUnavailability } from "@/lib/vehicleUnavailability";
+import { normalizeOrganizationSettings, type SchedulingSettings } from "@/lib/organizationSettings";
+import { normalizeVehicleTypeName } from "@/lib/vehicleTypes";
+import { lookupPostcode } from "@/lib/postcodeCentroids";
+import {
+  calculateJobEndTime,
+  calculateNextJobStartTime,
+  calculateOnsiteTime,
+  calculateStartTime,
+  extractPostcode,
+  getTravelTime,
+  getVehicleClass,
+} from "@/lib/travelTime";
+import { dayKeyRangeToQueryBounds, daysBetweenKeys, eachDayKey, toDayKey } from "@/lib/scheduleDates";
+
+// Hours a crew works in a shift
+const SHIFT_HOURS = 8;
+// Used when a booked job has no duration, as in the booking form
+const DEFAULT_JOB_HOURS = 8;
+// How many minutes of driving a day's wait is worth when ranking
+const MINUTES_PER_DAY_WAITED = 30;
+export const MAX_SEARCH_DAYS = 92;
+
+const dayKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date (yyyy-MM-dd)");
+
+export const availabilitySearchSchema = z.object({
+  // Any vehicle when omitted
+  vehicleType: z.string().trim().min(1).max(100).optional(),
+  shift: z.enum(["day", "night"]).optional(),
+  duration: z.number().positive().max(SHIFT_HOURS),
+  from: dayKey,
+  to: dayKey,
+  // Every depot when omitted
+  depotId: z.string().min(1).optional(),
+  // A postcode or an address containing one; slots aren't ranked by travel without it
+  postcode: z.string().trim().max(200).optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+});
+
+export type AvailabilitySearch = z.infer<typeof availabilitySearchSchema>;
+export type AvailabilitySearchInput = z.input<typeof availabilitySearchSchema>;
+
+export interface AvailabilitySlot {
+  date: string;
+  crewId: string;
+  crewName: string;
+  shift: string;
+  depotId: string;
+  depotName: string;
+  freeHours: number;
+  vehicleType: string | null;
+  vehicleNames: string[];
+  people: string[];
+  // Minutes to the job postcode, when one was given and could be placed
+  travelMinutes: number | null;
+  // Suggested leave / on-site times for the new job
+  startTime: string;
+  onsiteTime: string;
+  // Lower ranks first, after slots whose travel was measured when this one's wasn't
+  score: number;
+  reasons: string[];
+}
+
+export interface AvailabilityResult {
+  slots: AvailabilitySlot[];
+  // The last day with anything planned; days after it aren't searched
+  plannedUntil: string | null;
+  // The postcode couldn't be placed, so travel wasn't scored
+  postcodeNotFound: boolean;
+}
+
+const isActive = (item: ScheduleItem) => item.status !== "rejected" && item.jobStatus !== "cancelled";
+const isPerson = (item: ScheduleItem) => item.type === "operative" || item.type === "assistant";
+const isBookedJob = (item: ScheduleItem) => item.type === "job" && item.jobStatus === "booked" && item.customer !== "Free";
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+/** Crew days that can take the job, best first. */
+export async function searchAvailability(organizationId: string, search: AvailabilitySearch): Promise<AvailabilityResult> {
+  const today = toDayKey(new Date());
+  const from = search.from < today ? today : search.from;
+  if (search.to < from) return { slots: [], plannedUntil: null, postcodeNotFound: false };
+
+  const [plannedUntil, crews, depots, employees, vehicles, absences, unavailability, settingsRow] = await Promise.all([
+    storage.getLatestScheduleItemDate(organizationId),
+    storage.getCrewsByOrg(organizationId),
+    storage.getDepotsByOrg(organizationId),
+    storage.getEmployeesByOrg(organizationId),
+    storage.getVehiclesByOrg(organizationId),
+    storage.getEmployeeAbsencesByOrg(organizationId),
+    storage.getVehicleUnavailabilityByOrg(organizationId),
+    storage.getOrganizationSettings(organizationId),
+  ]);
+  const lastPlanned = plannedUntil ? toDayKey(plannedUntil) : null;
+  const to = lastPlanned && lastPlanned < search.to ? lastPlanned : search.to;
+  if (to < from) return { slots: [], plannedUntil: lastPlanned, postcodeNotFound: false };
+
+  const { start, end } = dayKeyRangeToQueryBounds(from, to);
+  const items = (await storage.getScheduleItemsByOrg(organizationId, start, end)).filter(isActive);
+  const scheduling = normalizeOrganizationSettings(settingsRow).scheduling;
+
+  const jobPostcode = search.postcode ? (extractPostcode(search.postcode) ?? search.postcode.toUpperCase().replace(/\s+/g, "")) : null;
+  const postcodeNotFound = !!jobPostcode && !lookupPostcode(jobPostcode);
+  const wantedType = search.vehicleType ? normalizeVehicleTypeName(search.vehicleType) : null;
+
+  const byCrewDay = new Map<string, ScheduleItem[]>();
+  for (const item of items) {
+    const key = `${item.crewId}:${toDayKey(item.date)}`;
+    byCrewDay.set(key, [...(byCrewDay.get(key) ?? []), item]);
+  }
+
+  const slots: AvailabilitySlot[] = [];
+  const candidateCrews = crews.filter(
+    (crew) =>
+      !crew.archivedAt &&
+      (!search.depotId || crew.depotId === search.depotId) &&
+      (!search.shift || crew.shift === search.shift)
+  );
+  for (const day of eachDayKey(from, to)) {
+    for (const crew of candidateCrews) {
+      const depot = depots.find((d) => d.id === crew.depotId);
+      if (!depot || depot.archivedAt) continue;
+      const onDay = byCrewDay.get(`${crew.id}:${day}`) ?? [];
+      const slot = await evaluateCrewDay({
+        day,
+        daysWaited: daysBetweenKeys(from, day),
+        crew,
+        depot,
+        onDay,
+        employees,
+        vehicles,
+        absences,
+        unavailability,
+        wantedType,
+        jobPostcode: postcodeNotFound ? null : jobPostcode,
+        duration: search.duration,
+        scheduling,
+      });
+      if (slot) slots.push(slot);
+    }
+  }
+
+  // With a job postcode, slots whose drive couldn't be measured go after every measured one
+  const travelUnknown = (slot: AvailabilitySlot) => (jobPostcode && !postcodeNotFound && slot.travelMinutes === null ? 1 : 0);
+  slots.sort(
+    (a, b) =>
+      travelUnknown(a) - travelUnknown(b) ||
+      a.score - b.score ||
+      a.date.localeCompare(b.date) ||
+      b.freeHours - a.freeHours
+  );
+  return { slots: slots.slice(0, search.limit), plannedUntil: lastPlanned, postcodeNotFound };
+}
+
+interface CrewDayInput {
+  day: string;
+  daysWaited: number;
+  crew: { id: string; name: string; shift: string };
+  depot: Depot;
+  onDay: ScheduleItem[];
+  employees: Employee[];
+  vehicles: Vehicle[];
+  absences: EmployeeAbsence[];
+  unavailability: VehicleUnavailability[];
+  wantedType: string | null;
+  jobPostcode: string | null;
+  duration: number;
+  scheduling: SchedulingSettings;
+}
+
+// The crew day as a slot, or null when it can't take the job
+async function evaluateCrewDay(input: CrewDayInput): Promise<AvailabilitySlot | null> {
+  const { day, crew, depot, onDay, scheduling } = input;
+  const reasons: string[] = [];
+
+  // People: absent ones don't count, and a crew with nobody available isn't working
+  const people = onDay.filter((item) => isPerson(item) && item.employeeId);
+  const available: Array<{ item: ScheduleItem; employee: Employee; halfDay: boolean }> = [];
+  for (const item of people) {
+    const employee = input.employees.find((e) => e.id === item.employeeId);
+    if (!employee || available.some((p) => p.employee.id === employee.id)) continue;
+    const absence = findAbsenceOnDay(input.absences, employee.id, day, toDayKey);
+    if (absence && !isHalfDay(absence)) {
+      reasons.push(`${employee.name} is off (${describeAbsence(absence).toLowerCase()})`);
+      continue;
+    }
+    if (absence) reasons.push(`${employee.name} is off for part of the day (${describeAbsence(absence).toLowerCase()})`);
+    available.push({ item, employee, halfDay: !!absence });
+  }
+  if (available.length === 0) return null;
+
+  // Vehicles: off-road, in maintenance or booked unavailable ones can't be used
+  const usable = [...new Set(available.map((p) => p.item.vehicleId).filter((id): id is string => !!id))]
+    .map((id) => input.vehicles.find((v) => v.id === id))
+    .filter((vehicle): vehicle is Vehicle => !!vehicle)
+    .filter((vehicle) => {
+      const period = findVehicleUnavailability(input.unavailability, vehicle.id, day, toDayKey);
+      const offRoad = vehicle.status === "off_road" || vehicle.status === "maintenance";
+      if (period || offRoad) {
+        reasons.push(`${vehicle.name} is ${period ? "unavailable" : vehicle.status === "off_road" ? "off road" : "in maintenance"} that day`);
+      }
+      return !period && !offRoad;
+    });
+  const matching = input.wantedType
+    ? usable.filter((vehicle) => normalizeVehicleTypeName(vehicle.vehicleType) === input.wantedType)
+    : usable;
+  if (matching.length === 0) return null;
+
+  // Capacity: a shift, halved when everyone available is only in for part of it
+  const capacity = available.every((p) => p.halfDay) ? SHIFT_HOURS / 2 : SHIFT_HOURS;
+  const jobs = onDay.filter(isBookedJob).sort((a, b) => (a.onsiteTime || a.startTime || "").localeCompare(b.onsiteTime || b.startTime || ""));
+  const used = jobs.reduce((sum, job) => sum + (job.duration ?? DEFAULT_JOB_HOURS), 0);
+  const freeHours = capacity - used;
+  if (freeHours < input.duration) return null;
+  reasons.unshift(
+    used > 0 ? `${formatHours(freeHours)} free of ${formatHours(capacity)} (${formatHours(used)} booked)` : `Free all shift (${formatHours(capacity)})`
+  );
+
+  // Travel: from the last job if the crew is already out, else from the lead operative's start
+  const lead = available.find((p) => p.item.type === "operative" && p.item.vehicleId) ?? available[0];
+  const vehicleClass = getVehicleClass(matching[0].vehicleType);
+  const fromHome = lead.employee.startsFromHome && !!lead.employee.homePostcode;
+  const origin = fromHome ? lead.employee.homePostcode! : depot.address;
+  const originLabel = fromHome ? `${lead.employee.name}'s home` : depot.name;
+  const lastJob = jobs[jobs.length - 1];
+
+  let travelMinutes: number | null = null;
+  if (input.jobPostcode) {
+    const fromPostcode = extractPostcode(lastJob?.address ?? origin);
+    if (fromPostcode && lookupPostcode(fromPostcode)) {
+      travelMinutes = await getTravelTime(fromPostcode, input.jobPostcode, vehicleClass);
+      reasons.push(`${travelMinutes} min drive from ${lastJob ? `the previous job (${lastJob.customer || "job"})` : originLabel}`);
+    } else {
+      reasons.push(`Couldn't place ${lastJob ? "the previous job's" : `${originLabel}'s`} postcode, so travel isn't scored`);
+    }
+  }
+  if (input.daysWaited > 0) reasons.push(`${input.daysWaited} ${input.daysWaited === 1 ? "day" : "days"} after the earliest date`);
+  reasons.push(`${matching.map((v) => v.name).join(", ")} (${matching[0].vehicleType})`);
+
+  // Suggested times, as the booking form would fill them in
+  const shiftStart = crew.shift === "night" ? scheduling.defaultNightStartTime : scheduling.defaultDayStartTime;
+  let startTime = shiftStart;
+  let onsiteTime = shiftStart;
+  if (lastJob) {
+    const lastStart = lastJob.onsiteTime || lastJob.startTime || shiftStart;
+    startTime = calculateNextJobStartTime(calculateJobEndTime(lastStart, lastJob.duration ?? DEFAULT_JOB_HOURS));
+    onsiteTime = input.jobPostcode ? calculateOnsiteTime(startTime, lastJob.address, input.jobPostcode, vehicleClass) : startTime;
+  } else if (input.jobPostcode && scheduling.autoCalculateStartFromLocation) {
+    startTime = calculateStartTime(shiftStart, origin, input.jobPostcode, scheduling.preStartBufferMinutes, vehicleClass);
+  }
+
+  return {
+    date: day,
+    crewId: crew.id,
+    crewName: crew.name,
+    shift: crew.shift,
+    depotId: depot.id,
+    depotName: depot.name,
+    freeHours,
+    vehicleType: matching[0].vehicleType,
+    vehicleNames: matching.map((v) => v.name),
+    people: available.map((p) => p.employee.name),
+    travelMinutes,
+    startTime,
+    onsiteTime,
+    score: (travelMinutes ?? 0) + input.daysWaited * MINUTES_PER_DAY_WAITED,
+    reasons,
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Calendar (ICS) feeds
+ *
+ * Operatives subscribe to their week from a phone calendar. A feed covers one employee (the
+ * crew jobs on each day they're booked as operative or assistant), one crew or one depot, and
+ * is reached at /api/ics/<token>.ics without signing in: the token is the credential. Admins
+ * rotate a feed's token to cut off the old URL, or delete the feed to revoke it altogether.
+ */
+
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import {
+  CALENDAR_FEED_SCOPES,
+  type CalendarFeed,
+  type CalendarFeedScope,
+  type ScheduleItem,
+} from "@shared/schema";
+import { storage } from "@/lib/storage";
+import {
+  addDaysToKey,
+  dayKeyRangeToQueryBounds,
+  SCHEDULE_TIME_ZONE,
+  toDayKey,
+  zonedTimeToDate,
+} from "@/lib/scheduleDates";
+
+// How much of the schedule a feed carries, either side of today
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 120;
+// Used when a job has no duration, as in the booking form
+const DEFAULT_DURATION_HOURS = 8;
+
+export const createCalendarFeedSchema = z.object({
+  scope: z.enum(CALENDAR_FEED_SCOPES),
+  subjectId: z.string().min(1),
+});
+
+/** A new unguessable feed token. */
+export function newFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/** The employee, crew or depot a feed is for, if it belongs to the organization. */
+export async function getFeedSubject(
+  organizationId: string,
+  scope: CalendarFeedScope,
+  subjectId: string
+): Promise<{ id: string; name: string } | null> {
+  const subject =
+    scope === "employee"
+      ? await storage.getEmployee(subjectId)
+      : scope === "crew"
+        ? await storage.getCrew(subjectId)
+        : await storage.getDepot(subjectId);
+  return subject && subject.organizationId === organizationId ? { id: subject.id, name: subject.name } : null;
+}
+
+// ---------- Events ----------
+
+interface FeedEvent {
+  uid: string;
+  sequence: number;
+  day: string;
+  // Wall-clock "HH:mm" in the scheduling time zone; without them the event is all-day
+  start: string | null;
+  end: Date | null;
+  summary: string;
+  location: string | null;
+  description: string[];
+}
+
+// Times are free text on the item; anything else can't be placed on the day
+const isTimeOfDay = (time: string | null): time is string => !!time && /^([01]?\d|2[0-3]):[0-5]\d$/.test(time.trim());
+
+const isBooked = (item: ScheduleItem) => item.status === "approved";
+const isJob = (item: ScheduleItem) => item.type === "job" && item.jobStatus === "booked";
+const isPerson = (item: ScheduleItem) => item.type === "operative" || item.type === "assistant";
+
+/**
+ * The event for a job: from leaving (startTime, else on-site time) until the job's duration
+ * after arriving on site. All-day when neither time can be read.
+ */
+function jobEvent(feed: CalendarFeed, job: ScheduleItem, details: string[]): FeedEvent {
+  const day = toDayKey(job.date);
+  const start = [job.startTime, job.onsiteTime].find(isTimeOfDay)?.trim() ?? null;
+  const arrive = [job.onsiteTime, job.startTime].find(isTimeOfDay)?.trim() ?? null;
+  const hours = job.duration ?? DEFAULT_DURATION_HOURS;
+  return {
+    uid: `${feed.id}-${job.id}`,
+    sequence: job.version,
+    day,
+    start,
+    end: arrive ? new Date(zonedTimeToDate(day, arrive).getTime() + hours * 3_600_000) : null,
+    summary: [job.customer || "Job", job.jobNumber ? `(${job.jobNumber})` : null].filter(Boolean).join(" "),
+    location: job.address,
+    description: [
+      job.startTime ? `Leave: ${job.startTime}` : null,
+      job.onsiteTime ? `On site: ${job.onsiteTime}` : null,
+      job.duration ? `Duration: ${job.duration}h` : null,
+      ...details,
+      job.projectManager ? `Project manager: ${job.projectManager}` : null,
+    ].filter((line): line is string => !!line),
+  };
+}
+
+async function buildEvents(feed: CalendarFeed): Promise<FeedEvent[]> {
+  const today = toDayKey(new Date());
+  const from = addDaysToKey(today, -PAST_DAYS);
+  const to = addDaysToKey(today, FUTURE_DAYS);
+  const { start, end } = dayKeyRangeToQueryBounds(from, to);
+  const [allItems, crews, employees, vehicles, depots] = await Promise.all([
+    storage.getScheduleItemsByOrg(feed.organizationId, start, end),
+    storage.getCrewsByOrg(feed.organizationId),
+    storage.getEmployeesByOrg(feed.organizationId),
+    storage.getVehiclesByOrg(feed.organizationId),
+    storage.getDepotsByOrg(feed.organizationId),
+  ]);
+  const items = allItems.filter((item) => {
+    const day = toDayKey(item.date);
+    return isBooked(item) && day >= from && day <= to;
+  });
+
+  const crewName = (id: string) => crews.find((c) => c.id === id)?.name ?? "Crew";
+  const depotName = (id: string) => depots.find((d) => d.id === id)?.name;
+  const sameDay = (a: ScheduleItem, b: ScheduleItem) => a.crewId === b.crewId && toDayKey(a.date) === toDayKey(b.date);
+  const peopleOn = (job: ScheduleItem) => items.filter((item) => isPerson(item) && sameDay(item, job));
+  const names = (people: ScheduleItem[], ids: (p: ScheduleItem) => string | null, list: Array<{ id: string; name: string }>) =>
+    [...new Set(people.map(ids).filter((id): id is string => !!id))]
+      .map((id) => list.find((entry) => entry.id === id)?.name)
+      .filter((name): name is string => !!name);
+
+  // The crew's people and vans on the job's day
+  const crewDetails = (job: ScheduleItem, except?: string) => {
+    const people = peopleOn(job);
+    const mates = names(people.filter((p) => p.employeeId !== except), (p) => p.employeeId, employees);
+    const vans = names(except ? people.filter((p) => p.employeeId === except) : people, (p) => p.vehicleId, vehicles);
+    return [
+      `Crew: ${crewName(job.crewId)}`,
+      depotName(job.depotId) ? `Depot: ${depotName(job.depotId)}` : null,
+      vans.length ? `Vehicle: ${vans.join(", ")}` : null,
+      mates.length ? `${except ? "With" : "Team"}: ${mates.join(", ")}` : null,
+    ].filter((line): line is string => !!line);
+  };
+
+  if (feed.scope === "crew" || feed.scope === "depot") {
+    const inFeed = (job: ScheduleItem) => (feed.scope === "crew" ? job.crewId : job.depotId) === feed.subjectId;
+    return items.filter((item) => isJob(item) && inFeed(item)).map((job) => jobEvent(feed, job, crewDetails(job)));
+  }
+
+  // Employee: the crew's jobs on each day they're booked onto it
+  const events: FeedEvent[] = [];
+  const bookings = items.filter((item) => isPerson(item) && item.employeeId === feed.subjectId);
+  const seen = new Set<string>();
+  for (const booking of bookings) {
+    const key = `${booking.crewId}:${toDayKey(booking.date)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const jobs = items.filter((item) => isJob(item) && sameDay(item, booking));
+    if (jobs.length === 0) {
+      events.push({
+        uid: `${feed.id}-${booking.id}`,
+        sequence: booking.version,
+        day: toDayKey(booking.date),
+        start: null,
+        end: null,
+        summary: `On ${crewName(booking.crewId)}`,
+        location: null,
+        description: crewDetails(booking, feed.subjectId),
+      });
+      continue;
+    }
+    for (const job of jobs) {
+      events.push(jobEvent(feed, job, crewDetails(job, feed.subjectId)));
+    }
+  }
+  return events;
+}
+
+// ---------- ICS ----------
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    if (size + bytes > (chunks.length ? 74 : 75)) {
+      chunks.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+const dateStamp = (day: string) => day.replace(/-/g, "");
+
+function eventLines(event: FeedEvent, stamp: string): string[] {
+  const start = event.start ? zonedTimeToDate(event.day, event.start) : null;
+  const end = event.end;
+  // A time that can't be placed makes it all-day rather than failing the whole feed
+  const times =
+    start && end && !isNaN(start.getTime()) && !isNaN(end.getTime())
+      ? [`DTSTART:${utcStamp(start)}`, `DTEND:${utcStamp(end)}`]
+      : [`DTSTART;VALUE=DATE:${dateStamp(event.day)}`, `DTEND;VALUE=DATE:${dateStamp(addDaysToKey(event.day, 1))}`];
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}@scheduler`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${event.sequence}`,
+    ...times,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.description.length ? [`DESCRIPTION:${escapeText(event.description.join("\n"))}`] : []),
+    "END:VEVENT",
+  ];
+}
+
+/** The feed as an iCalendar document. */
+export async function buildCalendarFeed(feed: CalendarFeed, calendarName: string): Promise<string> {
+  const events = await buildEvents(feed);
+  const stamp = utcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Scheduler//Schedule feed//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${SCHEDULE_TIME_ZONE}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...events
+      .sort((a, b) => a.day.localeCompare(b.day) || (a.start ?? "").localeCompare(b.start ?? ""))
+      .flatMap((event) => eventLines(event, stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** The calendar name shown in the subscriber's app, e.g. "Crew 1 – Acme Ltd". */
+export function calendarFeedName(subjectName: string, organizationName: string | null | undefined): string {
+  return [subjectName, organizationName].filter(Boolean).join(" – ");
+}
@@ -0,0 +1,32 @@
+/**
+ * Optimistic concurrency
+ *
+ * Schedule items, depots, crews, employees and vehicles carry a `version` that storage bumps
+ * on every update. A client sends the version its edit started from; if the row has changed
+ * since, the update is refused with a 409 carrying the current server copy, so a stale tab
+ * can't silently undo someone else's change. Requests without a version (older clients,
+ * internal updates) still apply unconditionally.
+ *
+ * Version conflicts are told apart from scheduling conflicts (also 409, see lib/conflicts.ts)
+ * by `versionConflict: true` and the absence of `conflicts`.
+ */
+
+import { NextResponse } from "next/server";
+
+/** Remove the client's `version` from an update body, returning it if it's a valid version. */
+export function takeExpectedVersion(updates: Record<string, unknown>): number | undefined {
+  const { version } = updates;
+  delete updates.version;
+  return typeof version === "number" && Number.isInteger(version) ? version : undefined;
+}
+
+export function versionConflictResponse(current: unknown, label: string) {
+  return NextResponse.json(
+    {
+      error: `This ${label} has been changed by someone else since you opened it.`,
+      versionConflict: true,
+      current,
+    },
+    { status: 409 }
+  );
+}
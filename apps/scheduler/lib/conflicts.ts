@@ -0,0 +1,334 @@
+/**
+ * Scheduling conflict engine
+ *
+ * Detects clashes that the calendar cannot prevent on its own:
+ * - the same employee or vehicle booked into more than one crew on a day (across depots too)
+ * - an employee booked while on holiday, off sick, on training etc. (employee_absences)
+ * - a vehicle booked on a day it is off road or in maintenance (vehicle_unavailability), or
+ *   while its current status says it is off the road
+ *
+ * detectScheduleConflicts() is pure so it can run over any set of items. The async helpers
+ * load what it needs from storage for the API routes.
+ */
+
+import { storage } from "@/lib/storage";
+import { toDayKey, dayKeyRangeToQueryBounds } from "@/lib/scheduleDates";
+import { findVehicleUnavailability, type VehicleUnavailabilityPeriod } from "@/lib/vehicleUnavailability";
+import { describeAbsence, findAbsenceOnDay, isHalfDay, type AbsencePeriod } from "@/lib/absences";
+import { periodCoversDay, toRecurringPeriod, type StoredRecurringPeriod } from "@/lib/recurrence";
+
+export type ConflictType =
+  | "employee_double_booked"
+  | "vehicle_double_booked"
+  | "employee_absent"
+  | "vehicle_unavailable";
+
+// "error" blocks the save unless overridden with a reason; "warning" is informational
+export type ConflictSeverity = "error" | "warning";
+
+export interface ConflictItemRef {
+  id: string;
+  type: string;
+  crewId: string;
+  depotId: string;
+  date: string; // yyyy-MM-dd
+}
+
+export interface ScheduleConflict {
+  // Stable key: type + day + resource
+  id: string;
+  type: ConflictType;
+  severity: ConflictSeverity;
+  date: string; // yyyy-MM-dd
+  message: string;
+  items: ConflictItemRef[];
+  employeeId?: string;
+  vehicleId?: string;
+  absenceId?: string;
+  unavailabilityId?: string;
+  // An involved item was saved with a conflict override
+  overridden: boolean;
+  overrideReason?: string;
+}
+
+export interface ConflictCheckItem {
+  id: string;
+  type: string;
+  date: Date | string;
+  crewId: string;
+  depotId: string;
+  status?: string | null;
+  jobStatus?: string | null;
+  employeeId?: string | null;
+  vehicleId?: string | null;
+  conflictOverrideReason?: string | null;
+}
+
+export interface ConflictCheckContext {
+  crews: Array<{ id: string; name: string; shift: string }>;
+  employees: Array<{ id: string; name: string }>;
+  vehicles: Array<{ id: string; name: string; status: string }>;
+  absences: Array<AbsencePeriod & { id: string }>;
+  vehicleUnavailability?: Array<VehicleUnavailabilityPeriod & { id: string; notes?: string | null }>;
+  // Vehicle status is "now", so it only applies to today and later (defaults to today)
+  today?: string;
+}
+
+// Placeholder id for an item that hasn't been created yet
+export const NEW_ITEM_ID = "__new__";
+
+function isActive(item: ConflictCheckItem): boolean {
+  return item.status !== "rejected" && item.jobStatus !== "cancelled";
+}
+
+function toRef(item: ConflictCheckItem, date: string): ConflictItemRef {
+  return { id: item.id, type: item.type, crewId: item.crewId, depotId: item.depotId, date };
+}
+
+function overrideOf(items: ConflictCheckItem[]) {
+  const reason = items.find((i) => i.conflictOverrideReason)?.conflictOverrideReason;
+  return reason ? { overridden: true, overrideReason: reason } : { overridden: false };
+}
+
+export function detectScheduleConflicts(items: ConflictCheckItem[], context: ConflictCheckContext): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = [];
+  const today = context.today ?? toDayKey(new Date());
+  const crewById = new Map(context.crews.map((c) => [c.id, c]));
+  const employeeName = (id: string) => context.employees.find((e) => e.id === id)?.name ?? "Employee";
+  const vehicleById = new Map(context.vehicles.map((v) => [v.id, v]));
+
+  const byEmployeeDay = new Map<string, { date: string; items: ConflictCheckItem[] }>();
+  const byVehicleDay = new Map<string, { date: string; items: ConflictCheckItem[] }>();
+
+  for (const item of items) {
+    if (!isActive(item)) continue;
+    const date = toDayKey(item.date);
+
+    if (item.employeeId) {
+      const key = `${item.employeeId}|${date}`;
+      const group = byEmployeeDay.get(key) ?? { date, items: [] };
+      group.items.push(item);
+      byEmployeeDay.set(key, group);
+    }
+    if (item.vehicleId) {
+      const key = `${item.vehicleId}|${date}`;
+      const group = byVehicleDay.get(key) ?? { date, items: [] };
+      group.items.push(item);
+      byVehicleDay.set(key, group);
+    }
+  }
+
+  // Booked into more than one crew on the same day. Two crews on the same shift is a hard clash;
+  // a day crew plus a night crew is possible but worth flagging.
+  const doubleBookings = (
+    groups: Map<string, { date: string; items: ConflictCheckItem[] }>,
+    type: "employee_double_booked" | "vehicle_double_booked",
+    describe: (resourceId: string) => string
+  ) => {
+    for (const [key, group] of groups) {
+      const crewIds = Array.from(new Set(group.items.map((i) => i.crewId)));
+      if (crewIds.length < 2) continue;
+
+      const resourceId = key.split("|")[0];
+      const shifts = crewIds.map((id) => crewById.get(id)?.shift ?? "day");
+      const sameShift = new Set(shifts).size < shifts.length;
+      const crewNames = crewIds.map((id) => crewById.get(id)?.name ?? "Unknown crew");
+
+      conflicts.push({
+        id: `${type}:${group.date}:${resourceId}`,
+        type,
+        severity: sameShift ? "error" : "warning",
+        date: group.date,
+        message: `${describe(resourceId)} is booked in ${crewIds.length} crews (${crewNames.join(", ")})`,
+        items: group.items.map((i) => toRef(i, group.date)),
+        ...(type === "employee_double_booked" ? { employeeId: resourceId } : { vehicleId: resourceId }),
+        ...overrideOf(group.items),
+      });
+    }
+  };
+
+  doubleBookings(byEmployeeDay, "employee_double_booked", employeeName);
+  doubleBookings(byVehicleDay, "vehicle_double_booked", (id) => vehicleById.get(id)?.name ?? "Vehicle");
+
+  for (const group of byEmployeeDay.values()) {
+    const employeeId = group.items[0].employeeId as string;
+    const absence = findAbsenceOnDay(context.absences, employeeId, group.date, toDayKey);
+    if (!absence) continue;
+
+    conflicts.push({
+      id: `employee_absent:${group.date}:${employeeId}`,
+      type: "employee_absent",
+      // Half a day off may still leave room for the booking
+      severity: isHalfDay(absence) ? "warning" : "error",
+      date: group.date,
+      message: `${employeeName(employeeId)} is recorded as ${describeAbsence(absence)}`,
+      items: group.items.map((i) => toRef(i, group.date)),
+      employeeId,
+      absenceId: absence.id,
+      ...overrideOf(group.items),
+    });
+  }
+
+  const unavailableReason = (reason: string) =>
+    reason === "off_road" ? "off road" : reason === "maintenance" ? "in maintenance" : "unavailable";
+
+  for (const group of byVehicleDay.values()) {
+    const vehicleId = group.items[0].vehicleId as string;
+    const vehicleName = vehicleById.get(vehicleId)?.name ?? "Vehicle";
+
+    // A booked period is a deliberate "not on this day", whatever the reason
+    const period = findVehicleUnavailability(context.vehicleUnavailability ?? [], vehicleId, group.date, toDayKey);
+    if (period) {
+      conflicts.push({
+        id: `vehicle_unavailable:${group.date}:${vehicleId}`,
+        type: "vehicle_unavailable",
+        severity: "error",
+        date: group.date,
+        message: `${vehicleName} is ${unavailableReason(period.reason)}${period.notes ? ` (${period.notes})` : ""}`,
+        items: group.items.map((i) => toRef(i, group.date)),
+        vehicleId,
+        unavailabilityId: period.id,
+        ...overrideOf(group.items),
+      });
+      continue;
+    }
+
+    if (group.date < today) continue;
+    const vehicle = vehicleById.get(vehicleId);
+    if (!vehicle || (vehicle.status !== "off_road" && vehicle.status !== "maintenance")) continue;
+
+    conflicts.push({
+      id: `vehicle_unavailable:${group.date}:${vehicle.id}`,
+      type: "vehicle_unavailable",
+      severity: vehicle.status === "off_road" ? "error" : "warning",
+      date: group.date,
+      message: `${vehicle.name} is ${unavailableReason(vehicle.status)}`,
+      items: group.items.map((i) => toRef(i, group.date)),
+      vehicleId: vehicle.id,
+      ...overrideOf(group.items),
+    });
+  }
+
+  return conflicts.sort((a, b) => a.date.localeCompare(b.date) || a.type.localeCompare(b.type));
+}
+
+async function loadConflictContext(organizationId: string): Promise<ConflictCheckContext> {
+  const [crews, employees, vehicles, absences, vehicleUnavailability] = await Promise.all([
+    storage.getCrewsByOrg(organizationId),
+    storage.getEmployeesByOrg(organizationId),
+    storage.getVehiclesByOrg(organizationId),
+    storage.getEmployeeAbsencesByOrg(organizationId),
+    storage.getVehicleUnavailabilityByOrg(organizationId),
+  ]);
+  return { crews, employees, vehicles, absences, vehicleUnavailability };
+}
+
+/** All conflicts on days from..to (yyyy-MM-dd, inclusive). */
+export async function getConflictsInRange(organizationId: string, from: string, to: string): Promise<ScheduleConflict[]> {
+  const { start, end } = dayKeyRangeToQueryBounds(from, to);
+  const [items, context] = await Promise.all([
+    storage.getScheduleItemsByOrg(organizationId, start, end),
+    loadConflictContext(organizationId),
+  ]);
+
+  const inRange = items.filter((item) => {
+    const day = toDayKey(item.date);
+    return day >= from && day <= to;
+  });
+  return detectScheduleConflicts(inRange, context);
+}
+
+/**
+ * Conflicts the candidate item would be part of if saved. Pass the item as it would look
+ * after the create/update (use NEW_ITEM_ID for an item that doesn't exist yet).
+ */
+export async function checkItemConflicts(organizationId: string, candidate: ConflictCheckItem): Promise<ScheduleConflict[]> {
+  return checkItemsConflicts(organizationId, [candidate]);
+}
+
+/**
+ * Conflicts any of the candidates would be part of if saved together, e.g. the occurrences of
+ * a repeating booking. Items that don't exist yet need distinct placeholder ids.
+ */
+export async function checkItemsConflicts(organizationId: string, candidates: ConflictCheckItem[]): Promise<ScheduleConflict[]> {
+  const relevant = candidates.filter((candidate) => candidate.employeeId || candidate.vehicleId);
+  if (relevant.length === 0) return [];
+
+  const days = new Set(relevant.map((candidate) => toDayKey(candidate.date)));
+  const sorted = [...days].sort();
+  const { start, end } = dayKeyRangeToQueryBounds(sorted[0], sorted[sorted.length - 1]);
+  const [items, context] = await Promise.all([
+    storage.getScheduleItemsByOrg(organizationId, start, end),
+    loadConflictContext(organizationId),
+  ]);
+
+  const candidateIds = new Set(candidates.map((candidate) => candidate.id));
+  const others = items.filter((item) => !candidateIds.has(item.id) && days.has(toDayKey(item.date)));
+  return detectScheduleConflicts([...others, ...relevant], context).filter((conflict) =>
+    conflict.items.some((i) => candidateIds.has(i.id))
+  );
+}
+
+export function hasBlockingConflicts(conflicts: ScheduleConflict[]): boolean {
+  return conflicts.some((c) => c.severity === "error");
+}
+
+/** Read `conflictOverride: { reason }` from a request body. */
+export function getConflictOverrideReason(body: unknown): string | null {
+  if (!body || typeof body !== "object") return null;
+  const override = (body as { conflictOverride?: { reason?: unknown } }).conflictOverride;
+  const reason = typeof override?.reason === "string" ? override.reason.trim() : "";
+  return reason || null;
+}
+
+/**
+ * Re-check an employee's bookings after one of their absences is added, changed or removed.
+ * `periods` are the absence before and/or after the change; every booking on a day either
+ * covers is re-checked, and overrides that no longer have a blocking conflict are cleared.
+ */
+export async function reevaluateEmployeeBookings(
+  organizationId: string,
+  employeeId: string,
+  periods: StoredRecurringPeriod[]
+): Promise<{ itemIds: string[]; conflicts: ScheduleConflict[] }> {
+  if (periods.length === 0) return { itemIds: [], conflicts: [] };
+
+  const recurring = periods.map((p) => toRecurringPeriod(p, toDayKey));
+  const from = recurring.map((p) => p.start).sort()[0];
+  const { start } = dayKeyRangeToQueryBounds(from, from);
+  const [items, context] = await Promise.all([
+    storage.getScheduleItemsByOrg(organizationId, start),
+    loadConflictContext(organizationId),
+  ]);
+
+  const affected = items.filter((item) => {
+    if (item.employeeId !== employeeId) return false;
+    const day = toDayKey(item.date);
+    return recurring.some((p) => periodCoversDay(p, day));
+  });
+  if (affected.length === 0) return { itemIds: [], conflicts: [] };
+
+  const affectedDays = new Set(affected.map((item) => toDayKey(item.date)));
+  const sameDays = items.filter((item) => affectedDays.has(toDayKey(item.date)));
+  const affectedIds = new Set(affected.map((item) => item.id));
+  const conflicts = detectScheduleConflicts(sameDays, context).filter((conflict) =>
+    conflict.items.some((i) => affectedIds.has(i.id))
+  );
+
+  const stillBlocked = new Set(
+    conflicts.filter((c) => c.severity === "error").flatMap((c) => c.items.map((i) => i.id))
+  );
+  await Promise.all(
+    affected
+      .filter((item) => item.conflictOverrideReason && !stillBlocked.has(item.id))
+      .map((item) =>
+        storage.updateScheduleItem(item.id, {
+          conflictOverrideReason: null,
+          conflictOverriddenBy: null,
+          conflictOverriddenAt: null,
+        })
+      )
+  );
+
+  return { itemIds: Array.from(affectedIds), conflicts };
+}
@@ -0,0 +1,104 @@
+/**
+ * Customer and site directory
+ *
+ * Customers and their sites are picked on a booking instead of typing the customer and address
+ * each time. The booking keeps its own customer / address text (the calendar, conflict checks
+ * and travel times read those), with customer_id / site_id recording where they came from.
+ */
+
+import { z } from "zod";
+import { storage } from "@/lib/storage";
+import { extractPostcode } from "@/lib/travelTime";
+import { isUniqueViolation } from "@/lib/jobs";
+
+// ---------- Validation ----------
+
+const text = z.string().trim().max(2000).nullable().optional();
+
+const contactSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  role: z.string().trim().max(200).optional(),
+  email: z.string().trim().max(320).optional(),
+  phone: z.string().trim().max(50).optional(),
+});
+
+export const createCustomerSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  contacts: z.array(contactSchema).max(50).optional(),
+  billingReference: text,
+  notes: z.string().max(10_000).nullable().optional(),
+});
+
+export const updateCustomerSchema = createCustomerSchema.partial().extend({
+  version: z.number().int().optional(),
+});
+
+export const createSiteSchema = z.object({
+  customerId: z.string().min(1).nullable().optional(),
+  name: text,
+  address: z.string().trim().min(1).max(2000),
+  postcode: z.string().trim().max(10).nullable().optional(),
+  accessNotes: z.string().max(10_000).nullable().optional(),
+});
+
+export const updateSiteSchema = createSiteSchema.partial().extend({
+  version: z.number().int().optional(),
+});
+
+export const directoryQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  customerId: z.string().min(1).optional(),
+});
+
+/** Postcodes are stored as typed, in capitals with single spaces ("SW1A 1AA"). */
+export function normalizePostcode(value: string | null | undefined): string | null {
+  const trimmed = value?.trim().replace(/\s+/g, " ").toUpperCase();
+  return trimmed ? trimmed : null;
+}
+
+/** A site's postcode: as given, or else read from its address. */
+export function sitePostcode(address: string, postcode: string | null | undefined): string | null {
+  const given = normalizePostcode(postcode);
+  if (given) return given;
+  const found = extractPostcode(address);
+  return found ? `${found.slice(0, -3)} ${found.slice(-3)}` : null;
+}
+
+// ---------- Linking ----------
+
+/**
+ * Checks the customer and site a booking points at belong to the organization (and the site to
+ * the customer). Returns an error message, or null if they're fine or not set.
+ */
+export async function checkDirectoryLinks(
+  organizationId: string,
+  links: { customerId?: string | null; siteId?: string | null }
+): Promise<string | null> {
+  if (links.customerId) {
+    const customer = await storage.getCustomer(links.customerId);
+    if (!customer || customer.organizationId !== organizationId) return "Customer not found";
+  }
+  if (links.siteId) {
+    const site = await storage.getSite(links.siteId);
+    if (!site || site.organizationId !== organizationId) return "Site not found";
+    if (links.customerId && site.customerId && site.customerId !== links.customerId) {
+      return "The site belongs to a different customer";
+    }
+  }
+  return null;
+}
+
+/** Adds the names the directory doesn't have yet (compared ignoring case). */
+export async function addCustomersByName(organizationId: string, names: string[]): Promise<void> {
+  const existing = new Set((await storage.getCustomersByOrg(organizationId)).map((c) => c.name.toLowerCase()));
+  for (const name of names) {
+    if (existing.has(name.toLowerCase())) continue;
+    existing.add(name.toLowerCase());
+    try {
+      await storage.createCustomer({ organizationId, name });
+    } catch (error) {
+      // Added by someone else meanwhile
+      if (!isUniqueViolation(error)) throw error;
+    }
+  }
+}
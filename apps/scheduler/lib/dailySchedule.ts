@@ -0,0 +1,184 @@
+/**
+ * Daily schedule emails
+ *
+ * Everyone booked onto a crew for a day (operative and assistant items) can be emailed their
+ * day: the crew's jobs with customer, job number, address, start and on-site times, the vehicle
+ * they're on and who they're working with. Only approved bookings go out. Each send is
+ * recorded in email_dispatches with its outcome, and the calendar's "sent" badge reads those.
+ */
+
+import type { Crew, EmailDispatch, EmailDispatchStatus, Employee, ScheduleItem } from "@shared/schema";
+import { storage } from "@/lib/storage";
+import {
+  deliverEmail,
+  generateDailyScheduleEmailHtml,
+  generateDailyScheduleEmailText,
+  type DailyScheduleEmailContent,
+} from "@/lib/email";
+import { dayKeyRangeToQueryBounds, dayKeyToDate, toDayKey } from "@/lib/scheduleDates";
+
+export interface OperativeDay {
+  employee: Employee;
+  crews: Crew[];
+  content: DailyScheduleEmailContent;
+}
+
+// What the calendar shows for a day
+export interface DailyEmailSummary {
+  date: string;
+  lastSentAt: Date | null;
+  // Counted from each recipient's latest send, so a successful resend clears a failure
+  sent: number;
+  failed: number;
+  logged: number;
+}
+
+const isBooked = (item: ScheduleItem) => item.status === "approved";
+
+const hasEmail = (employee: Employee) => !!employee.email && employee.email.includes("@");
+
+/** e.g. "Tuesday, 3 June 2025" */
+export function dayLabel(day: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(new Date(`${day}T12:00:00Z`));
+}
+
+/** Each person booked on `day` (yyyy-MM-dd) with what their email will say. */
+export async function getOperativeDays(organizationId: string, day: string): Promise<OperativeDay[]> {
+  const { start, end } = dayKeyRangeToQueryBounds(day, day);
+  const [items, crews, employees, vehicles, depots, organization] = await Promise.all([
+    storage.getScheduleItemsByOrg(organizationId, start, end),
+    storage.getCrewsByOrg(organizationId),
+    storage.getEmployeesByOrg(organizationId),
+    storage.getVehiclesByOrg(organizationId),
+    storage.getDepotsByOrg(organizationId),
+    storage.getOrganization(organizationId),
+  ]);
+
+  const onDay = items.filter((item) => toDayKey(item.date) === day && isBooked(item));
+  const people = onDay.filter((item) => (item.type === "operative" || item.type === "assistant") && item.employeeId);
+  const byEmployee = new Map<string, ScheduleItem[]>();
+  for (const item of people) {
+    byEmployee.set(item.employeeId!, [...(byEmployee.get(item.employeeId!) ?? []), item]);
+  }
+
+  const result: OperativeDay[] = [];
+  for (const [employeeId, bookings] of byEmployee) {
+    const employee = employees.find((e) => e.id === employeeId);
+    if (!employee) continue;
+    // Usually one crew; someone split across crews gets all of them in one email
+    const crewIds = [...new Set(bookings.map((b) => b.crewId))];
+    const dayCrews = crewIds.map((id) => crews.find((c) => c.id === id)).filter((c): c is Crew => !!c);
+    const jobs = onDay
+      .filter((item) => item.type === "job" && item.jobStatus === "booked" && crewIds.includes(item.crewId))
+      .sort((a, b) => (a.startTime || "").localeCompare(b.startTime || ""));
+    const mateIds = new Set(
+      people.filter((item) => crewIds.includes(item.crewId) && item.employeeId !== employeeId).map((item) => item.employeeId!)
+    );
+    const vehicleNames = [...new Set(bookings.map((b) => vehicles.find((v) => v.id === b.vehicleId)?.name).filter(Boolean))];
+    const depotNames = [...new Set(dayCrews.map((c) => depots.find((d) => d.id === c.depotId)?.name).filter(Boolean))];
+
+    result.push({
+      employee,
+      crews: dayCrews,
+      content: {
+        employeeName: employee.name,
+        organizationName: organization?.name ?? "Your employer",
+        dayLabel: dayLabel(day),
+        crewName: dayCrews.map((c) => c.name).join(" / ") || "Unassigned",
+        depotName: depotNames.join(" / ") || null,
+        vehicleName: vehicleNames.join(", ") || null,
+        crewMates: employees.filter((e) => mateIds.has(e.id)).map((e) => e.name),
+        jobs: jobs.map((job) => ({
+          customer: job.customer,
+          jobNumber: job.jobNumber,
+          address: job.address,
+          startTime: job.startTime,
+          onsiteTime: job.onsiteTime,
+        })),
+      },
+    });
+  }
+  return result.sort((a, b) => a.employee.name.localeCompare(b.employee.name));
+}
+
+/**
+ * Email everyone booked on `day` (or just `employeeIds`) their schedule, recording each send.
+ * People without an email address are returned in `missingEmail` rather than sent anything.
+ */
+export async function sendDailyScheduleEmails(
+  organizationId: string,
+  userId: string,
+  day: string,
+  employeeIds?: string[]
+): Promise<{ dispatches: EmailDispatch[]; missingEmail: Array<{ id: string; name: string }> }> {
+  const operativeDays = (await getOperativeDays(organizationId, day)).filter(
+    (entry) => !employeeIds || employeeIds.includes(entry.employee.id)
+  );
+
+  const dispatches: EmailDispatch[] = [];
+  const missingEmail: Array<{ id: string; name: string }> = [];
+  for (const { employee, content } of operativeDays) {
+    if (!hasEmail(employee)) {
+      missingEmail.push({ id: employee.id, name: employee.name });
+      continue;
+    }
+    const subject = `Your schedule for ${content.dayLabel}`;
+    const result = await deliverEmail({
+      to: employee.email!,
+      subject,
+      html: generateDailyScheduleEmailHtml(content),
+      text: generateDailyScheduleEmailText(content),
+    });
+    const status: EmailDispatchStatus = !result.ok ? "failed" : result.delivered ? "sent" : "logged";
+    dispatches.push(
+      await storage.createEmailDispatch({
+        organizationId,
+        date: dayKeyToDate(day),
+        employeeId: employee.id,
+        recipient: employee.email!,
+        subject,
+        status,
+        error: result.error ?? null,
+        sentBy: userId,
+      })
+    );
+  }
+  return { dispatches, missingEmail };
+}
+
+/** Per-day totals of the schedule emails sent for days from..to. */
+export async function getDailyEmailSummaries(organizationId: string, from: string, to: string): Promise<DailyEmailSummary[]> {
+  const { start, end } = dayKeyRangeToQueryBounds(from, to);
+  const dispatches = await storage.getEmailDispatchesByOrg(organizationId, start, end);
+
+  // Oldest first, so later sends to the same person replace earlier ones
+  const latest = new Map<string, Map<string, EmailDispatch>>();
+  for (const dispatch of dispatches) {
+    const day = toDayKey(dispatch.date);
+    if (day < from || day > to) continue;
+    const forDay = latest.get(day) ?? new Map<string, EmailDispatch>();
+    forDay.set(dispatch.employeeId ?? dispatch.recipient, dispatch);
+    latest.set(day, forDay);
+  }
+
+  return [...latest.entries()]
+    .map(([date, forDay]) => {
+      const rows = [...forDay.values()];
+      const count = (status: EmailDispatchStatus) => rows.filter((r) => r.status === status).length;
+      const sentTimes = rows.filter((r) => r.status !== "failed" && r.createdAt).map((r) => r.createdAt!.getTime());
+      return {
+        date,
+        lastSentAt: sentTimes.length ? new Date(Math.max(...sentTimes)) : null,
+        sent: count("sent"),
+        failed: count("failed"),
+        logged: count("logged"),
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
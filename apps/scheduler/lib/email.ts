@@ -10,7 +10,19 @@ interface SendEmailOptions {
   text?: string;
 }
 
+export interface EmailDeliveryResult {
+  ok: boolean;
+  // False when no email service is configured and the email was only logged
+  delivered: boolean;
+  error?: string;
+}
+
 export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
+  return (await deliverEmail(options)).ok;
+}
+
+/** Send an email and report how it went, for callers that record the outcome. */
+export async function deliverEmail(options: SendEmailOptions): Promise<EmailDeliveryResult> {
   // Check if email service is configured
   const emailApiKey = process.env.RESEND_API_KEY || process.env.EMAIL_API_KEY;
   
@@ -21,7 +33,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
       subject: options.subject,
       // Don't log full HTML for privacy
     });
-    return true; // Return true so invites still work, but email won't be sent
+    return { ok: true, delivered: false }; // Invites still work, but email won't be sent
   }
 
   // If Resend API key is available, use Resend
@@ -43,15 +55,15 @@ export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
       });
 
       if (!res.ok) {
-        const error = await res.json();
+        const error = await res.json().catch(() => null);
         console.error("Failed to send email via Resend:", error);
-        return false;
+        return { ok: false, delivered: false, error: error?.message || `Email service responded ${res.status}` };
       }
 
-      return true;
+      return { ok: true, delivered: true };
     } catch (error) {
       console.error("Error sending email via Resend:", error);
-      return false;
+      return { ok: false, delivered: false, error: error instanceof Error ? error.message : "Email service unreachable" };
     }
   }
 
@@ -60,7 +72,7 @@ export async function sendEmail(options: SendEmailOptions): Promise<boolean> {
     to: options.to,
     subject: options.subject,
   });
-  return true;
+  return { ok: true, delivered: false };
 }
 
 export function generateInviteEmailHtml(
@@ -117,3 +129,327 @@ export function generateInviteEmailHtml(
 </html>
   `.trim();
 }
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+export function generateBillingNoticeEmailHtml(
+  title: string,
+  message: string,
+  actionUrl: string,
+  actionLabel: string = "Manage Billing"
+): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2563eb 0%, #1e40af 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${escapeHtml(title)}</h1>
+  </div>
+  
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p style="font-size: 16px; margin-bottom: 20px;">
+      ${escapeHtml(message)}
+    </p>
+    
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${escapeHtml(actionUrl)}" style="display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+        ${escapeHtml(actionLabel)}
+      </a>
+    </div>
+  </div>
+  
+  <div style="text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+    <p style="font-size: 12px; color: #9ca3af;">
+      This is an automated email from Sewer Swarm AI. Please do not reply to this email.
+    </p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export interface DailyScheduleEmailJob {
+  customer: string | null;
+  jobNumber: string | null;
+  address: string | null;
+  startTime: string | null;
+  onsiteTime: string | null;
+}
+
+export interface DailyScheduleEmailContent {
+  employeeName: string;
+  organizationName: string;
+  // e.g. "Tuesday, 3 June 2025"
+  dayLabel: string;
+  crewName: string;
+  depotName: string | null;
+  vehicleName: string | null;
+  crewMates: string[];
+  jobs: DailyScheduleEmailJob[];
+}
+
+export function generateDailyScheduleEmailHtml(content: DailyScheduleEmailContent): string {
+  const detail = (label: string, value: string | null) =>
+    value ? `<tr><td style="padding: 4px 12px 4px 0; color: #6b7280;">${label}</td><td style="padding: 4px 0;">${escapeHtml(value)}</td></tr>` : "";
+
+  const jobs = content.jobs.length
+    ? content.jobs
+        .map(
+          (job) => `
+    <div style="border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px 16px; margin-bottom: 12px;">
+      <div style="font-weight: 600; font-size: 16px;">${escapeHtml(job.customer || "Job")}${job.jobNumber ? ` <span style="color: #6b7280; font-weight: 400;">(${escapeHtml(job.jobNumber)})</span>` : ""}</div>
+      <table style="font-size: 14px; border-collapse: collapse; margin-top: 6px;">
+        ${detail("Address", job.address)}
+        ${detail("Start", job.startTime)}
+        ${detail("On site", job.onsiteTime)}
+      </table>
+    </div>`
+        )
+        .join("")
+    : `<p style="font-size: 14px; color: #6b7280;">No jobs are booked for your crew yet. Your supervisor will be in touch.</p>`;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2563eb 0%, #1e40af 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">Your schedule for ${escapeHtml(content.dayLabel)}</h1>
+  </div>
+  
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p style="font-size: 16px; margin-bottom: 20px;">
+      Hi ${escapeHtml(content.employeeName)}, here's where you're working.
+    </p>
+    
+    <table style="font-size: 14px; border-collapse: collapse; margin-bottom: 20px;">
+      ${detail("Crew", content.crewName)}
+      ${detail("Depot", content.depotName)}
+      ${detail("Vehicle", content.vehicleName)}
+      ${detail("Working with", content.crewMates.join(", ") || null)}
+    </table>
+    
+    ${jobs}
+  </div>
+  
+  <div style="text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+    <p style="font-size: 12px; color: #9ca3af;">
+      Sent by ${escapeHtml(content.organizationName)} via Sewer Swarm AI. Please do not reply to this email.
+    </p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export function generateDailyScheduleEmailText(content: DailyScheduleEmailContent): string {
+  const lines = [
+    `Hi ${content.employeeName}, here's your schedule for ${content.dayLabel}.`,
+    "",
+    `Crew: ${content.crewName}`,
+    content.depotName ? `Depot: ${content.depotName}` : null,
+    content.vehicleName ? `Vehicle: ${content.vehicleName}` : null,
+    content.crewMates.length ? `Working with: ${content.crewMates.join(", ")}` : null,
+    "",
+    ...(content.jobs.length
+      ? content.jobs.flatMap((job) => [
+          `${job.customer || "Job"}${job.jobNumber ? ` (${job.jobNumber})` : ""}`,
+          job.address ? `  Address: ${job.address}` : null,
+          job.startTime ? `  Start: ${job.startTime}` : null,
+          job.onsiteTime ? `  On site: ${job.onsiteTime}` : null,
+          "",
+        ])
+      : ["No jobs are booked for your crew yet."]),
+  ];
+  return lines.filter((line) => line !== null).join("\n").trim();
+}
+
+export interface ApprovalEmailBooking {
+  // e.g. "Job: Thames Water (J1234)" or "Operative: Sam Jones"
+  title: string;
+  // e.g. "Tuesday, 3 June 2025"
+  dayLabel: string;
+  crewName: string | null;
+  depotName: string | null;
+  address: string | null;
+  startTime: string | null;
+}
+
+export interface ApprovalRequestEmailContent {
+  approverName: string;
+  requesterName: string;
+  organizationName: string;
+  // `rule` says which approval rule the booking matched, e.g. "Night shifts (Night shift)"
+  bookings: Array<ApprovalEmailBooking & { approveUrl: string; rejectUrl: string; rule?: string }>;
+  // How long the links work for, e.g. "3 days"
+  linkLifetime: string;
+}
+
+export interface ApprovalOutcomeEmailContent {
+  requesterName: string;
+  approverName: string;
+  organizationName: string;
+  approved: boolean;
+  rejectionReason: string | null;
+  booking: ApprovalEmailBooking;
+  appUrl: string;
+}
+
+function approvalBookingDetails(booking: ApprovalEmailBooking): string {
+  const detail = (label: string, value: string | null) =>
+    value ? `<tr><td style="padding: 4px 12px 4px 0; color: #6b7280;">${label}</td><td style="padding: 4px 0;">${escapeHtml(value)}</td></tr>` : "";
+  return `
+      <div style="font-weight: 600; font-size: 16px;">${escapeHtml(booking.title)}</div>
+      <table style="font-size: 14px; border-collapse: collapse; margin-top: 6px;">
+        ${detail("Date", booking.dayLabel)}
+        ${detail("Crew", booking.crewName)}
+        ${detail("Depot", booking.depotName)}
+        ${detail("Address", booking.address)}
+        ${detail("Start", booking.startTime)}
+      </table>`;
+}
+
+function approvalBookingText(booking: ApprovalEmailBooking): string[] {
+  return [
+    booking.title,
+    `  Date: ${booking.dayLabel}`,
+    booking.crewName ? `  Crew: ${booking.crewName}` : null,
+    booking.depotName ? `  Depot: ${booking.depotName}` : null,
+    booking.address ? `  Address: ${booking.address}` : null,
+    booking.startTime ? `  Start: ${booking.startTime}` : null,
+  ].filter((line): line is string => line !== null);
+}
+
+export function generateApprovalRequestEmailHtml(content: ApprovalRequestEmailContent): string {
+  const bookings = content.bookings
+    .map(
+      (booking) => `
+    <div style="border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px 16px; margin-bottom: 12px;">
+      ${approvalBookingDetails(booking)}
+      ${booking.rule ? `<div style="font-size: 13px; color: #6b7280; margin-top: 6px;">Rule: ${escapeHtml(booking.rule)}</div>` : ""}
+      <div style="margin-top: 12px;">
+        <a href="${booking.approveUrl}" style="display: inline-block; background: #16a34a; color: white; padding: 8px 18px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 14px; margin-right: 8px;">Approve</a>
+        <a href="${booking.rejectUrl}" style="display: inline-block; background: #ffffff; color: #dc2626; padding: 7px 17px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 14px; border: 1px solid #fecaca;">Reject</a>
+      </div>
+    </div>`
+    )
+    .join("");
+  const count = content.bookings.length;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2563eb 0%, #1e40af 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">${count === 1 ? "A booking needs" : `${count} bookings need`} your approval</h1>
+  </div>
+  
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p style="font-size: 16px; margin-bottom: 20px;">
+      Hi ${escapeHtml(content.approverName)}, ${escapeHtml(content.requesterName)} has requested ${count === 1 ? "this booking" : "these bookings"}.
+    </p>
+    
+    ${bookings}
+    
+    <p style="font-size: 14px; color: #6b7280; margin-top: 20px;">
+      Each link works once and expires in ${escapeHtml(content.linkLifetime)}. Once anyone has decided, the other links stop working.
+    </p>
+  </div>
+  
+  <div style="text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+    <p style="font-size: 12px; color: #9ca3af;">
+      Sent by ${escapeHtml(content.organizationName)} via Sewer Swarm AI. Please do not reply to this email.
+    </p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export function generateApprovalRequestEmailText(content: ApprovalRequestEmailContent): string {
+  const lines = [
+    `Hi ${content.approverName}, ${content.requesterName} has requested ${content.bookings.length === 1 ? "this booking" : "these bookings"}.`,
+    "",
+    ...content.bookings.flatMap((booking) => [
+      ...approvalBookingText(booking),
+      ...(booking.rule ? [`  Rule: ${booking.rule}`] : []),
+      `  Approve: ${booking.approveUrl}`,
+      `  Reject: ${booking.rejectUrl}`,
+      "",
+    ]),
+    `Each link works once and expires in ${content.linkLifetime}.`,
+  ];
+  return lines.join("\n").trim();
+}
+
+export function generateApprovalOutcomeEmailHtml(content: ApprovalOutcomeEmailContent): string {
+  const outcome = content.approved ? "approved" : "rejected";
+  const reason = content.rejectionReason
+    ? `
+    <p style="font-size: 16px; margin-bottom: 20px;">
+      <strong>Reason:</strong> ${escapeHtml(content.rejectionReason)}
+    </p>`
+    : "";
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #2563eb 0%, #1e40af 100%); padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="color: white; margin: 0; font-size: 24px;">Your booking was ${outcome}</h1>
+  </div>
+  
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+    <p style="font-size: 16px; margin-bottom: 20px;">
+      Hi ${escapeHtml(content.requesterName)}, ${escapeHtml(content.approverName)} has ${outcome} your booking.
+    </p>
+    ${reason}
+    <div style="border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px 16px; margin-bottom: 12px;">
+      ${approvalBookingDetails(content.booking)}
+    </div>
+    
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${content.appUrl}" style="display: inline-block; background: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+        Open the schedule
+      </a>
+    </div>
+  </div>
+  
+  <div style="text-align: center; margin-top: 20px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+    <p style="font-size: 12px; color: #9ca3af;">
+      Sent by ${escapeHtml(content.organizationName)} via Sewer Swarm AI. Please do not reply to this email.
+    </p>
+  </div>
+</body>
+</html>
+  `.trim();
+}
+
+export function generateApprovalOutcomeEmailText(content: ApprovalOutcomeEmailContent): string {
+  const outcome = content.approved ? "approved" : "rejected";
+  const lines = [
+    `Hi ${content.requesterName}, ${content.approverName} has ${outcome} your booking.`,
+    content.rejectionReason ? `Reason: ${content.rejectionReason}` : null,
+    "",
+    ...approvalBookingText(content.booking),
+    "",
+    `Open the schedule: ${content.appUrl}`,
+  ];
+  return lines.filter((line) => line !== null).join("\n").trim();
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import type { OrganizationContext } from "@/lib/request-context";
+import type { LimitKey } from "@/lib/entitlements";
+import { checkLimit } from "@/lib/entitlementUsage";
+
+/**
+ * Entitlement guards for mutating routes. Each returns an error response to send back, or
+ * null when the request may go ahead:
+ *
+ *   const denied = checkWriteAccess(ctx);
+ *   if (denied) return denied;
+ */
+
+/**
+ * 402 once the organization's subscription has lapsed past its grace period (see
+ * lib/subscription.ts). Billing routes (checkout, portal, webhook) and sign-in are
+ * deliberately left unguarded so a lapsed organization can still pay.
+ */
+export function checkWriteAccess(ctx: Pick<OrganizationContext, "subscription">): NextResponse | null {
+  if (ctx.subscription.canWrite) return null;
+  return NextResponse.json(
+    {
+      error: ctx.subscription.message,
+      subscriptionRequired: true,
+      subscription: ctx.subscription,
+    },
+    { status: 402 }
+  );
+}
+
+/** 403 when the organization already has as many of `key` as its entitlements allow (see lib/entitlements.ts). */
+export async function checkQuota(
+  ctx: Pick<OrganizationContext, "organizationId" | "entitlements">,
+  key: LimitKey
+): Promise<NextResponse | null> {
+  const result = await checkLimit(ctx.organizationId, ctx.entitlements, key);
+  if (result.allowed) return null;
+  return NextResponse.json(
+    {
+      error: result.reason,
+      quotaExceeded: true,
+      currentUsage: result.currentUsage,
+      limit: result.limit,
+    },
+    { status: 403 }
+  );
+}
@@ -0,0 +1,65 @@
+import { storage } from "@/lib/storage";
+import {
+  LIMIT_KEYS,
+  LIMIT_LABELS,
+  limitReachedMessage,
+  limitUsage,
+  type EntitlementUsage,
+  type Entitlements,
+  type LimitKey,
+} from "@/lib/entitlements";
+
+export interface QuotaCheckResult {
+  allowed: boolean;
+  reason?: string;
+  currentUsage?: number;
+  limit?: number;
+}
+
+async function countUsage(organizationId: string, key: LimitKey): Promise<number> {
+  switch (key) {
+    case "depots":
+      return (await storage.getDepotsByOrg(organizationId)).length;
+    case "crews":
+      return (await storage.getCrewsByOrg(organizationId)).length;
+    case "employees":
+      return (await storage.getEmployeesByOrg(organizationId)).length;
+    case "vehicles":
+      return (await storage.getVehiclesByOrg(organizationId)).length;
+    case "members":
+      // Only members who have accepted their invite count
+      return (await storage.getMembershipsByOrg(organizationId)).filter((m) => m.acceptedAt !== null).length;
+  }
+}
+
+/** Current usage against every limit in the organization's entitlements. */
+export async function getEntitlementUsage(
+  organizationId: string,
+  entitlements: Entitlements
+): Promise<EntitlementUsage> {
+  const counts = await Promise.all(LIMIT_KEYS.map((key) => countUsage(organizationId, key)));
+  return Object.fromEntries(
+    LIMIT_KEYS.map((key, i) => [key, limitUsage(counts[i], entitlements.limits[key])])
+  ) as EntitlementUsage;
+}
+
+/** Whether the organization can add one more (or `adding` more) of `key`. */
+export async function checkLimit(
+  organizationId: string,
+  entitlements: Entitlements,
+  key: LimitKey,
+  adding = 1
+): Promise<QuotaCheckResult> {
+  const limit = entitlements.limits[key];
+  if (limit === null) return { allowed: true };
+
+  const used = await countUsage(organizationId, key);
+  if (used + adding > limit) {
+    const reason =
+      adding > 1 && used < limit
+        ? `Adding ${adding} ${LIMIT_LABELS[key].plural} would go over your ${entitlements.planName} plan's limit of ${limit} (${limit - used} left).`
+        : limitReachedMessage(key, entitlements);
+    return { allowed: false, reason, currentUsage: used, limit };
+  }
+  return { allowed: true, currentUsage: used, limit };
+}
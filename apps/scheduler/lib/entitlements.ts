@@ -0,0 +1,146 @@
+/**
+ * Plan entitlements
+ *
+ * The single source of what each plan allows: numeric limits (depots, crews, employees,
+ * vehicles, team members) and feature flags (approval workflow). An organization gets its
+ * plan's entitlements, with any per-organization overrides for negotiated contracts applied
+ * on top. Overrides live in organizations.entitlement_overrides and are set by us, not by the
+ * organization, e.g.
+ *
+ *   UPDATE organizations
+ *   SET entitlement_overrides = '{"limits":{"vehicles":150,"depots":null},"note":"Contract 2026-14"}'
+ *   WHERE id = '...';
+ *
+ * A null limit means unlimited. getRequestContext resolves the entitlements for each request;
+ * create routes check limits with checkQuota (lib/entitlementGuard.ts), and
+ * /api/organization/usage reports usage against them (lib/entitlementUsage.ts).
+ *
+ * Client-safe: no server imports.
+ */
+
+import { z } from "zod";
+
+export const PLAN_TYPES = ["starter", "pro"] as const;
+export type PlanType = (typeof PLAN_TYPES)[number];
+
+export const LIMIT_KEYS = ["depots", "crews", "employees", "vehicles", "members"] as const;
+export type LimitKey = (typeof LIMIT_KEYS)[number];
+
+export const FEATURE_KEYS = ["approvalWorkflow"] as const;
+export type FeatureKey = (typeof FEATURE_KEYS)[number];
+
+// null = unlimited
+export type PlanLimits = Record<LimitKey, number | null>;
+export type PlanFeatures = Record<FeatureKey, boolean>;
+
+export interface PlanDefinition {
+  name: string;
+  limits: PlanLimits;
+  features: PlanFeatures;
+}
+
+export const PLANS: Record<PlanType, PlanDefinition> = {
+  starter: {
+    name: "Starter",
+    limits: { depots: 1, crews: 3, employees: 25, vehicles: 10, members: 5 },
+    // Bookings by bookers are approved automatically
+    features: { approvalWorkflow: false },
+  },
+  pro: {
+    name: "Pro",
+    limits: { depots: null, crews: 30, employees: 250, vehicles: 100, members: null },
+    features: { approvalWorkflow: true },
+  },
+};
+
+export const LIMIT_LABELS: Record<LimitKey, { singular: string; plural: string }> = {
+  depots: { singular: "depot", plural: "depots" },
+  crews: { singular: "crew", plural: "crews" },
+  employees: { singular: "employee", plural: "employees" },
+  vehicles: { singular: "vehicle", plural: "vehicles" },
+  members: { singular: "team member", plural: "team members" },
+};
+
+export interface EntitlementOverrides {
+  limits?: Partial<PlanLimits>;
+  features?: Partial<PlanFeatures>;
+  // Why the organization has different entitlements, e.g. the contract reference
+  note?: string;
+}
+
+export const entitlementOverridesSchema = z.object({
+  limits: z.partialRecord(z.enum(LIMIT_KEYS), z.number().int().min(0).nullable()).optional(),
+  features: z.partialRecord(z.enum(FEATURE_KEYS), z.boolean()).optional(),
+  note: z.string().max(500).optional(),
+});
+
+export interface Entitlements {
+  plan: PlanType;
+  planName: string;
+  limits: PlanLimits;
+  features: PlanFeatures;
+  // Limits and features that differ from the plan because of overrides
+  overridden: Array<LimitKey | FeatureKey>;
+  note: string | null;
+}
+
+export function isPlanType(value: unknown): value is PlanType {
+  return typeof value === "string" && (PLAN_TYPES as readonly string[]).includes(value);
+}
+
+/** The organization's plan entitlements with its overrides applied. Unknown plans get Starter. */
+export function resolveEntitlements(org: {
+  plan: string;
+  entitlementOverrides?: EntitlementOverrides | null;
+}): Entitlements {
+  const plan = isPlanType(org.plan) ? org.plan : "starter";
+  const definition = PLANS[plan];
+  const limits = { ...definition.limits };
+  const features = { ...definition.features };
+  const overridden: Array<LimitKey | FeatureKey> = [];
+
+  // An invalid override is ignored rather than locking the organization out
+  const parsed = entitlementOverridesSchema.safeParse(org.entitlementOverrides ?? {});
+  const overrides = parsed.success ? parsed.data : {};
+  for (const key of LIMIT_KEYS) {
+    const value = overrides.limits?.[key];
+    if (value !== undefined && value !== limits[key]) {
+      limits[key] = value;
+      overridden.push(key);
+    }
+  }
+  for (const key of FEATURE_KEYS) {
+    const value = overrides.features?.[key];
+    if (value !== undefined && value !== features[key]) {
+      features[key] = value;
+      overridden.push(key);
+    }
+  }
+
+  return { plan, planName: definition.name, limits, features, overridden, note: overrides.note ?? null };
+}
+
+// ---------- Usage ----------
+
+export interface LimitUsage {
+  used: number;
+  // null = unlimited
+  limit: number | null;
+  remaining: number | null;
+}
+
+export type EntitlementUsage = Record<LimitKey, LimitUsage>;
+
+export function limitUsage(used: number, limit: number | null): LimitUsage {
+  return { used, limit, remaining: limit === null ? null : Math.max(0, limit - used) };
+}
+
+/** The error shown when the organization already has as many of `key` as it may. */
+export function limitReachedMessage(key: LimitKey, entitlements: Entitlements): string {
+  const { plural } = LIMIT_LABELS[key];
+  let message = `You have reached the maximum number of ${plural} (${entitlements.limits[key]}) for your ${entitlements.planName} plan.`;
+  if (entitlements.plan === "starter") {
+    message += PLANS.pro.limits[key] === null ? ` Upgrade to Pro for unlimited ${plural}.` : ` Upgrade to Pro for more ${plural}.`;
+  }
+  return message;
+}
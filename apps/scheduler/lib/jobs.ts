@@ -0,0 +1,119 @@
+/**
+ * Jobs
+ *
+ * A job owns the customer, job number, address, project manager, colour, status and notes of a
+ * piece of work. The days it's worked are schedule items linked by job_id ("allocations"), and
+ * they keep copies of the job's fields so the calendar, conflict checks and approvals read them
+ * as before. Changing those fields on the job writes them through to every allocation.
+ *
+ * Items are linked by job number: saving a job day with a number joins the job that has it,
+ * creating the job on first use. Free slots never belong to a job.
+ */
+
+import { z } from "zod";
+import { JOB_STATUSES, type JobStatus, type ScheduleItem } from "@shared/schema";
+import { storage } from "@/lib/storage";
+
+// Job fields copied onto each allocation
+export const JOB_ITEM_FIELDS = ["customer", "jobNumber", "address", "projectManager", "color"] as const;
+
+// ---------- Validation ----------
+
+const text = z.string().trim().max(2000).nullable().optional();
+
+export const createJobSchema = z.object({
+  customer: text,
+  jobNumber: z.string().trim().min(1).max(100).nullable().optional(),
+  address: text,
+  projectManager: text,
+  color: text,
+  status: z.enum(JOB_STATUSES).optional(),
+  notes: z.string().max(10_000).nullable().optional(),
+  // Planning details for the auto-scheduler
+  vehicleType: z.string().trim().min(1).max(100).nullable().optional(),
+  shift: z.enum(["day", "night"]).nullable().optional(),
+  duration: z.number().int().min(1).max(8).nullable().optional(),
+  earliestDate: z.coerce.date().nullable().optional(),
+  latestDate: z.coerce.date().nullable().optional(),
+});
+
+export const updateJobSchema = createJobSchema.partial().extend({
+  version: z.number().int().optional(),
+});
+
+// Shift every allocation by whole days (as dragging a job day with "move all" does)
+export const moveJobSchema = z.object({
+  days: z
+    .number()
+    .int()
+    .min(-366)
+    .max(366)
+    .refine((days) => days !== 0, "days must not be 0"),
+  version: z.number().int().optional(),
+});
+
+export type CreateJobInput = z.infer<typeof createJobSchema>;
+
+// ---------- Linking ----------
+
+export function normalizeJobNumber(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed === "" ? null : trimmed;
+}
+
+/** Whether a schedule item is a day of work that belongs to a job. */
+export function isJobAllocation(item: Pick<ScheduleItem, "type" | "jobStatus">): boolean {
+  return item.type === "job" && item.jobStatus !== "free";
+}
+
+/**
+ * The job a schedule item should be linked to, going by its job number. Creates the job from
+ * the item's details if the number is new. Null when the item isn't a job day or has no number.
+ */
+export async function resolveJobId(
+  organizationId: string,
+  userId: string,
+  item: Pick<ScheduleItem, "type" | "jobStatus"> & Partial<Pick<ScheduleItem, (typeof JOB_ITEM_FIELDS)[number]>>
+): Promise<string | null> {
+  const jobNumber = normalizeJobNumber(item.jobNumber);
+  if (!jobNumber || !isJobAllocation(item)) return null;
+
+  const existing = await storage.getJobByNumber(organizationId, jobNumber);
+  if (existing) return existing.id;
+
+  try {
+    const job = await storage.createJob({
+      organizationId,
+      jobNumber,
+      customer: item.customer ?? null,
+      address: item.address ?? null,
+      projectManager: item.projectManager ?? null,
+      color: item.color ?? null,
+      createdBy: userId,
+    });
+    return job.id;
+  } catch (error) {
+    // Created by a concurrent request since the lookup above
+    if (!isUniqueViolation(error)) throw error;
+    const created = await storage.getJobByNumber(organizationId, jobNumber);
+    if (!created) throw error;
+    return created.id;
+  }
+}
+
+/**
+ * The job status each allocation takes when a job moves to `status`: cancelling a job cancels
+ * its days, reopening it books them again. Completing it leaves them alone.
+ */
+export function allocationJobStatus(status: JobStatus): { from: string[]; to: "booked" | "cancelled" } | null {
+  if (status === "cancelled") return { from: ["booked"], to: "cancelled" };
+  if (status === "active") return { from: ["cancelled"], to: "booked" };
+  return null;
+}
+
+/** A duplicate job number (Postgres unique_violation), however the driver wraps it. */
+export function isUniqueViolation(error: unknown): boolean {
+  const err = error as { code?: string; cause?: { code?: string } } | null;
+  return err?.code === "23505" || err?.cause?.code === "23505";
+}
@@ -0,0 +1,212 @@
+/**
+ * Holiday allowance
+ *
+ * Works out how much annual leave an employee has used and has left in a leave year.
+ * Holiday absences (lib/absences.ts) use one day of allowance per working day, half a day
+ * for AM/PM absences. Bank holidays never use allowance, nor do weekends unless the
+ * organization counts them (LeaveSettings in lib/organizationSettings.ts).
+ *
+ * The allowance for a year is the employee's entitlement plus days carried over from the
+ * year before. Both come from the leave_allowances table when set for that year; otherwise
+ * the entitlement is the employee's most recent earlier entitlement (or the organization
+ * default), and carry-over is last year's unused entitlement up to maxCarryOverDays.
+ * Days carried into a year are not carried again.
+ */
+
+import { z } from "zod";
+import { format } from "date-fns";
+import { expandPeriod, toRecurringPeriod } from "@/lib/recurrence";
+import { addDaysToKey, eachDayKey } from "@/lib/scheduleDates";
+import { isHalfDay, type AbsencePeriod } from "@/lib/absences";
+import type { LeaveSettings } from "@/lib/organizationSettings";
+
+export interface LeaveYear {
+  // First and last day, inclusive (yyyy-MM-dd)
+  start: string;
+  end: string;
+}
+
+// The fields of a leave_allowances row the calculation needs
+export interface LeaveAllowanceValues {
+  employeeId: string;
+  leaveYearStart: string;
+  entitlementDays: number | null;
+  carryOverDays: number | null;
+}
+
+export interface LeaveBalance {
+  employeeId: string;
+  leaveYear: LeaveYear;
+  entitlementDays: number;
+  carryOverDays: number;
+  // Carry-over entered for this year rather than worked out from last year
+  carryOverIsManual: boolean;
+  totalDays: number;
+  // Holiday before today, and from today to the end of the leave year
+  takenDays: number;
+  bookedDays: number;
+  remainingDays: number;
+}
+
+type LeaveYearSettings = Pick<LeaveSettings, "leaveYearStartMonth" | "leaveYearStartDay">;
+type LeaveDaySettings = Pick<LeaveSettings, "countWeekends" | "bankHolidays">;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** The leave year that includes the day (yyyy-MM-dd). */
+export function leaveYearContaining(day: string, settings: LeaveYearSettings): LeaveYear {
+  const startIn = (year: number) => `${year}-${pad(settings.leaveYearStartMonth)}-${pad(settings.leaveYearStartDay)}`;
+  const year = Number(day.slice(0, 4));
+  const startYear = day >= startIn(year) ? year : year - 1;
+  return { start: startIn(startYear), end: addDaysToKey(startIn(startYear + 1), -1) };
+}
+
+export function previousLeaveYear(leaveYear: LeaveYear, settings: LeaveYearSettings): LeaveYear {
+  return leaveYearContaining(addDaysToKey(leaveYear.start, -1), settings);
+}
+
+/** Whether holiday on the day uses allowance. */
+export function usesAllowance(day: string, settings: LeaveDaySettings): boolean {
+  if (settings.bankHolidays.includes(day)) return false;
+  if (settings.countWeekends) return true;
+  const weekday = new Date(`${day}T12:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Allowance used on each day of from..to by the holiday absences in the list. Overlapping
+ * absences on the same day use at most one day between them.
+ */
+export function leaveDaysByDay(
+  absences: AbsencePeriod[],
+  from: string,
+  to: string,
+  settings: LeaveDaySettings,
+  toKey: (date: Date | string) => string
+): Map<string, number> {
+  const used = new Map<string, number>();
+  for (const absence of absences) {
+    if (absence.absenceType !== "holiday") continue;
+    const amount = isHalfDay(absence) ? 0.5 : 1;
+    for (const occurrence of expandPeriod(toRecurringPeriod(absence, toKey), from, to)) {
+      const first = occurrence.start < from ? from : occurrence.start;
+      const last = occurrence.end > to ? to : occurrence.end;
+      for (const day of eachDayKey(first, last)) {
+        if (!usesAllowance(day, settings)) continue;
+        used.set(day, Math.min(1, (used.get(day) ?? 0) + amount));
+      }
+    }
+  }
+  return used;
+}
+
+/** Total allowance used by the absences in from..to. */
+export function countLeaveDays(
+  absences: AbsencePeriod[],
+  from: string,
+  to: string,
+  settings: LeaveDaySettings,
+  toKey: (date: Date | string) => string
+): number {
+  let total = 0;
+  for (const days of leaveDaysByDay(absences, from, to, settings, toKey).values()) total += days;
+  return total;
+}
+
+function entitlementFor(
+  employeeAllowances: LeaveAllowanceValues[],
+  leaveYear: LeaveYear,
+  settings: LeaveSettings
+): number {
+  const latest = employeeAllowances
+    .filter((a) => a.leaveYearStart <= leaveYear.start && a.entitlementDays !== null)
+    .sort((a, b) => b.leaveYearStart.localeCompare(a.leaveYearStart))[0];
+  return latest?.entitlementDays ?? settings.defaultEntitlementDays;
+}
+
+/**
+ * The employee's allowance and holiday in a leave year. `absences` and `allowances` may
+ * include other employees; only the employee's own are used. `today` (yyyy-MM-dd) splits
+ * taken from booked days.
+ */
+export function computeLeaveBalance(input: {
+  employeeId: string;
+  leaveYear: LeaveYear;
+  absences: AbsencePeriod[];
+  allowances: LeaveAllowanceValues[];
+  settings: LeaveSettings;
+  today: string;
+  toKey: (date: Date | string) => string;
+}): LeaveBalance {
+  const { employeeId, leaveYear, settings, today, toKey } = input;
+  const absences = input.absences.filter((a) => a.employeeId === employeeId);
+  const allowances = input.allowances.filter((a) => a.employeeId === employeeId);
+
+  const entitlementDays = entitlementFor(allowances, leaveYear, settings);
+  const used = leaveDaysByDay(absences, leaveYear.start, leaveYear.end, settings, toKey);
+
+  let takenDays = 0;
+  let bookedDays = 0;
+  for (const [day, days] of used) {
+    if (day < today) takenDays += days;
+    else bookedDays += days;
+  }
+
+  const manualCarryOver = allowances.find((a) => a.leaveYearStart === leaveYear.start)?.carryOverDays ?? null;
+  let carryOverDays = manualCarryOver ?? 0;
+  if (manualCarryOver === null) {
+    const previous = previousLeaveYear(leaveYear, settings);
+    const previousUsed = countLeaveDays(absences, previous.start, previous.end, settings, toKey);
+    // Only carry over for years the employee was tracked in, so new starters don't
+    // inherit a whole unused year
+    const tracked = previousUsed > 0 || allowances.some((a) => a.leaveYearStart === previous.start);
+    if (tracked) {
+      const unused = entitlementFor(allowances, previous, settings) - previousUsed;
+      carryOverDays = Math.min(settings.maxCarryOverDays, Math.max(0, unused));
+    }
+  }
+
+  const totalDays = entitlementDays + carryOverDays;
+  return {
+    employeeId,
+    leaveYear,
+    entitlementDays,
+    carryOverDays,
+    carryOverIsManual: manualCarryOver !== null,
+    totalDays,
+    takenDays,
+    bookedDays,
+    remainingDays: totalDays - takenDays - bookedDays,
+  };
+}
+
+/** "12 days", "2.5 days", "1 day" */
+export function formatLeaveDays(days: number): string {
+  return `${Number.isInteger(days) ? days : days.toFixed(1)} day${days === 1 ? "" : "s"}`;
+}
+
+/** "1 Apr 2026 – 31 Mar 2027" */
+export function formatLeaveYear(leaveYear: LeaveYear): string {
+  const display = (day: string) => format(new Date(`${day}T12:00:00`), "d MMM yyyy");
+  return `${display(leaveYear.start)} – ${display(leaveYear.end)}`;
+}
+
+// ---------- Validation ----------
+
+const allowanceDays = z.number().min(0).max(366).multipleOf(0.5).nullable();
+
+export const leaveAllowanceSchema = z
+  .object({
+    leaveYearStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date (yyyy-MM-dd)"),
+    // null clears the value so the default applies again
+    entitlementDays: allowanceDays.optional(),
+    carryOverDays: allowanceDays.optional(),
+    notes: z
+      .string()
+      .trim()
+      .max(2000)
+      .nullable()
+      .transform((v) => v || null)
+      .optional(),
+  })
+  .strict();
@@ -0,0 +1,43 @@
+/**
+ * Server-side loading for holiday allowance balances (see lib/leaveAllowance.ts for the rules).
+ */
+
+import { storage } from "@/lib/storage";
+import { normalizeOrganizationSettings } from "@/lib/organizationSettings";
+import { computeLeaveBalance, leaveYearContaining, type LeaveBalance, type LeaveYear } from "@/lib/leaveAllowance";
+import { toDayKey } from "@/lib/scheduleDates";
+
+/**
+ * Balances for the leave year that includes `day`, for every employee in the organization
+ * or just those listed.
+ */
+export async function loadLeaveBalances(
+  organizationId: string,
+  day: string,
+  employeeIds?: string[]
+): Promise<{ leaveYear: LeaveYear; balances: LeaveBalance[] }> {
+  const [settingsRow, employees, absences, allowances] = await Promise.all([
+    storage.getOrganizationSettings(organizationId),
+    storage.getEmployeesByOrg(organizationId),
+    storage.getEmployeeAbsencesByOrg(organizationId),
+    storage.getLeaveAllowancesByOrg(organizationId),
+  ]);
+  const { leave } = normalizeOrganizationSettings(settingsRow);
+  const leaveYear = leaveYearContaining(day, leave);
+  const today = toDayKey(new Date());
+
+  const balances = employees
+    .filter((e) => !employeeIds || employeeIds.includes(e.id))
+    .map((e) =>
+      computeLeaveBalance({
+        employeeId: e.id,
+        leaveYear,
+        absences,
+        allowances,
+        settings: leave,
+        today,
+        toKey: toDayKey,
+      })
+    );
+  return { leaveYear, balances };
+}
@@ -0,0 +1,238 @@
+/**
+ * Organization settings
+ *
+ * Settings shared by every planner in an organization (start-time rules, approval workflow and
+ * rules, vehicle types, vehicle combinations, remembered client names, holiday allowance rules).
+ * Stored in the organization_settings table, one row per organization, and used by both the
+ * API routes and the client hooks.
+ *
+ * The row records the schemaVersion it was written with. When the shape of a section changes,
+ * bump ORGANIZATION_SETTINGS_VERSION and upgrade the older shape in normalizeOrganizationSettings.
+ */
+
+import { z } from "zod";
+import {
+  CANONICAL_VEHICLE_TYPES,
+  DEFAULT_VEHICLE_COMBINATION,
+  mergeAndSortVehicleTypes,
+  type VehicleCombinationConfig,
+} from "@/lib/vehicleTypes";
+import { approvalRuleSchema, approvalSettingsSchema, DEFAULT_APPROVAL_SETTINGS, type ApprovalSettings } from "@/lib/approvalPolicy";
+
+export const ORGANIZATION_SETTINGS_VERSION = 1;
+
+export interface SchedulingSettings {
+  // Whether to auto-calculate job start time from employee/depot location
+  autoCalculateStartFromLocation: boolean;
+  // Default start times for jobs (24h)
+  defaultDayStartTime: string;
+  defaultNightStartTime: string;
+  // Extra minutes before start for traffic / vehicle checks
+  preStartBufferMinutes: number;
+  // Approval workflow
+  requireApprovalForBookings: boolean;
+  approvalMethod: "email" | "internal";
+}
+
+export interface LeaveSettings {
+  // First day of the leave year, e.g. 1 January or 1 April
+  leaveYearStartMonth: number;
+  leaveYearStartDay: number;
+  // Holiday days per leave year for employees without their own entitlement
+  defaultEntitlementDays: number;
+  // Most unused days that carry into the next leave year
+  maxCarryOverDays: number;
+  // Whether holiday on a Saturday or Sunday uses allowance
+  countWeekends: boolean;
+  // Days (yyyy-MM-dd) that never use allowance
+  bankHolidays: string[];
+}
+
+export interface VehicleTypeSetting {
+  type: string;
+  defaultColor?: string;
+}
+
+export interface OrganizationSettingsData {
+  scheduling: SchedulingSettings;
+  vehicleTypes: VehicleTypeSetting[];
+  vehicleCombinations: VehicleCombinationConfig[];
+  clients: string[];
+  leave: LeaveSettings;
+  // Which bookings need approval and from whom (lib/approvalPolicy.ts)
+  approvals: ApprovalSettings;
+}
+
+export interface OrganizationSettings extends OrganizationSettingsData {
+  schemaVersion: number;
+  // Set once a browser's localStorage values have been imported (see /api/organization/settings/import)
+  importedAt: string | null;
+  updatedAt: string | null;
+}
+
+export const DEFAULT_SCHEDULING_SETTINGS: SchedulingSettings = {
+  autoCalculateStartFromLocation: true,
+  defaultDayStartTime: "08:30",
+  defaultNightStartTime: "20:00",
+  preStartBufferMinutes: 15,
+  requireApprovalForBookings: true,
+  approvalMethod: "internal",
+};
+
+export const DEFAULT_LEAVE_SETTINGS: LeaveSettings = {
+  leaveYearStartMonth: 1,
+  leaveYearStartDay: 1,
+  defaultEntitlementDays: 20,
+  maxCarryOverDays: 5,
+  countWeekends: false,
+  bankHolidays: [],
+};
+
+export const SCHEDULING_SETTING_KEYS = Object.keys(DEFAULT_SCHEDULING_SETTINGS) as Array<keyof SchedulingSettings>;
+
+export function getDefaultOrganizationSettings(): OrganizationSettingsData {
+  return {
+    scheduling: { ...DEFAULT_SCHEDULING_SETTINGS },
+    vehicleTypes: mergeAndSortVehicleTypes(CANONICAL_VEHICLE_TYPES.map((t) => ({ type: t.type }))),
+    vehicleCombinations: [DEFAULT_VEHICLE_COMBINATION],
+    clients: [],
+    leave: { ...DEFAULT_LEAVE_SETTINGS, bankHolidays: [] },
+    approvals: {
+      rules: DEFAULT_APPROVAL_SETTINGS.rules.map((rule) => ({ ...rule, steps: [...rule.steps] })),
+      depotManagers: {},
+    },
+  };
+}
+
+// ---------- Validation ----------
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a 24h time (HH:MM)");
+
+export const schedulingSettingsSchema = z.object({
+  autoCalculateStartFromLocation: z.boolean(),
+  defaultDayStartTime: timeOfDay,
+  defaultNightStartTime: timeOfDay,
+  preStartBufferMinutes: z.number().int().min(0).max(240),
+  requireApprovalForBookings: z.boolean(),
+  approvalMethod: z.enum(["email", "internal"]),
+});
+
+const dayKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date (yyyy-MM-dd)");
+const leaveDays = z.number().min(0).max(366).multipleOf(0.5);
+
+export const leaveSettingsSchema = z.object({
+  leaveYearStartMonth: z.number().int().min(1).max(12),
+  // Capped at 28 so the year starts on the same day every year
+  leaveYearStartDay: z.number().int().min(1).max(28),
+  defaultEntitlementDays: leaveDays,
+  maxCarryOverDays: leaveDays,
+  countWeekends: z.boolean(),
+  bankHolidays: z.array(dayKey).max(500),
+});
+
+const vehicleTypeSettingSchema = z.object({
+  type: z.string().trim().min(1).max(100),
+  defaultColor: z.string().max(50).optional(),
+});
+
+const vehicleCombinationSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  defaultColor: z.string().max(50),
+  groupA: z.array(z.string().max(100)).max(50),
+  groupB: z.array(z.string().max(100)).max(50),
+});
+
+const clientNameSchema = z.string().trim().min(1).max(200);
+
+export const organizationSettingsPatchSchema = z
+  .object({
+    scheduling: schedulingSettingsSchema.partial().optional(),
+    vehicleTypes: z.array(vehicleTypeSettingSchema).max(200).optional(),
+    vehicleCombinations: z.array(vehicleCombinationSchema).max(50).optional(),
+    clients: z.array(clientNameSchema).max(5000).optional(),
+    leave: leaveSettingsSchema.partial().optional(),
+    approvals: approvalSettingsSchema.partial().optional(),
+  })
+  .strict();
+
+export type OrganizationSettingsPatch = z.infer<typeof organizationSettingsPatchSchema>;
+
+// ---------- Normalization ----------
+
+/** Dedupe and sort remembered client names (the "Free" placeholder is never remembered). */
+export function normalizeClients(clients: string[]): string[] {
+  const unique = new Set(clients.map((c) => c.trim()).filter((c) => c && c !== "Free"));
+  return Array.from(unique).sort((a, b) => a.localeCompare(b));
+}
+
+/** Dedupe and sort bank holiday dates. */
+export function normalizeBankHolidays(days: string[]): string[] {
+  return Array.from(new Set(days)).sort();
+}
+
+/**
+ * Turn a stored row (possibly written by an older schema version, possibly with missing
+ * sections) into a complete settings object.
+ */
+export function normalizeOrganizationSettings(
+  row: {
+    schemaVersion?: number | null;
+    scheduling?: Partial<SchedulingSettings> | null;
+    vehicleTypes?: VehicleTypeSetting[] | null;
+    vehicleCombinations?: VehicleCombinationConfig[] | null;
+    clients?: string[] | null;
+    leave?: Partial<LeaveSettings> | null;
+    approvals?: Partial<ApprovalSettings> | null;
+    importedAt?: Date | string | null;
+    updatedAt?: Date | string | null;
+  } | null | undefined
+): OrganizationSettings {
+  const defaults = getDefaultOrganizationSettings();
+
+  // Drop unknown or invalid keys rather than failing the whole read
+  const scheduling = { ...defaults.scheduling };
+  const storedScheduling = schedulingSettingsSchema.partial().safeParse(row?.scheduling ?? {});
+  if (storedScheduling.success) {
+    Object.assign(scheduling, storedScheduling.data);
+  }
+
+  const leave = { ...defaults.leave };
+  const storedLeave = leaveSettingsSchema.partial().safeParse(row?.leave ?? {});
+  if (storedLeave.success) {
+    Object.assign(leave, storedLeave.data);
+    leave.bankHolidays = normalizeBankHolidays(leave.bankHolidays);
+  }
+
+  // Rules that no longer validate are dropped one by one; an empty list stays empty
+  const approvals = defaults.approvals;
+  if (Array.isArray(row?.approvals?.rules)) {
+    approvals.rules = row.approvals.rules.flatMap((rule) => {
+      const parsed = approvalRuleSchema.safeParse(rule);
+      return parsed.success ? [parsed.data] : [];
+    });
+  }
+  const storedManagers = approvalSettingsSchema.shape.depotManagers.safeParse(row?.approvals?.depotManagers ?? {});
+  if (storedManagers.success) approvals.depotManagers = storedManagers.data;
+
+  const vehicleCombinations =
+    Array.isArray(row?.vehicleCombinations) && row.vehicleCombinations.length > 0
+      ? row.vehicleCombinations
+      : defaults.vehicleCombinations;
+
+  const toIso = (value: Date | string | null | undefined) =>
+    value ? new Date(value).toISOString() : null;
+
+  return {
+    schemaVersion: ORGANIZATION_SETTINGS_VERSION,
+    scheduling,
+    vehicleTypes: Array.isArray(row?.vehicleTypes)
+      ? mergeAndSortVehicleTypes(row.vehicleTypes)
+      : defaults.vehicleTypes,
+    vehicleCombinations,
+    clients: Array.isArray(row?.clients) ? normalizeClients(row.clients) : defaults.clients,
+    leave,
+    approvals,
+    importedAt: toIso(row?.importedAt),
+    updatedAt: toIso(row?.updatedAt),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * OSRM-style routing adapter
+ *
+ * Routes between postcode centroids using a self-hosted OSRM (or API-compatible) server:
+ *   GET {baseUrl}/route/v1/{profile}/{lng},{lat};{lng},{lat}?overview=false
+ * Returns null on any failure so callers fall back to the offline estimate.
+ */
+
+import { lookupPostcode } from "@/lib/postcodeCentroids";
+import type { TravelTimeProvider, VehicleClass } from "@/lib/travelTime";
+
+export interface OsrmTravelTimeOptions {
+  baseUrl: string;
+  // OSRM profile name per vehicle class (a server usually exposes "driving" only)
+  profiles?: Partial<Record<VehicleClass, string>>;
+  // Routers return free-flow car times; scale them for slower vehicles
+  durationMultipliers?: Partial<Record<VehicleClass, number>>;
+  timeoutMs?: number;
+}
+
+const DEFAULT_DURATION_MULTIPLIERS: Record<VehicleClass, number> = {
+  car: 1,
+  van: 1.1,
+  hgv: 1.3,
+};
+
+export function createOsrmTravelTimeProvider(options: OsrmTravelTimeOptions): TravelTimeProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const timeoutMs = options.timeoutMs ?? 5000;
+
+  return {
+    name: "osrm",
+    async getTravelMinutes(fromPostcode, toPostcode, vehicleClass) {
+      const from = lookupPostcode(fromPostcode);
+      const to = lookupPostcode(toPostcode);
+      if (!from || !to) return null;
+
+      const profile = options.profiles?.[vehicleClass] || "driving";
+      const coords = `${from.coords[1]},${from.coords[0]};${to.coords[1]},${to.coords[0]}`;
+      const url = `${baseUrl}/route/v1/${profile}/${coords}?overview=false`;
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const res = await fetch(url, { signal: controller.signal });
+        if (!res.ok) {
+          console.error(`[osrmTravelTime] Router responded ${res.status} for ${url}`);
+          return null;
+        }
+
+        const data = await res.json();
+        const seconds = data?.code === "Ok" ? data.routes?.[0]?.duration : undefined;
+        if (typeof seconds !== "number") return null;
+
+        const multiplier =
+          options.durationMultipliers?.[vehicleClass] ?? DEFAULT_DURATION_MULTIPLIERS[vehicleClass];
+        // Planners work in 5 minute slots
+        return Math.max(5, Math.ceil(((seconds / 60) * multiplier) / 5) * 5);
+      } catch (error) {
+        console.error("[osrmTravelTime] Routing request failed:", error);
+        return null;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Minimal PDF writer (server only)
+ *
+ * Enough of PDF 1.4 for printed sheets: pages of text in the standard Helvetica fonts, lines
+ * and filled rectangles. Text is measured with the fonts' own widths so it can be wrapped or
+ * cut to fit a column. Coordinates are in points from the page's top-left corner.
+ */
+
+import { deflateSync } from "zlib";
+
+export const A4_PORTRAIT = { width: 595.28, height: 841.89 };
+export const A4_LANDSCAPE = { width: 841.89, height: 595.28 };
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  // "#RRGGBB"
+  color?: string;
+}
+
+// Glyph widths (1/1000 em) of characters 32-126, from the fonts' AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+};
+
+// The character's code in WinAnsiEncoding, or "?" when the standard fonts can't show it
+function winAnsiCode(char: string): number {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63;
+}
+
+/** Width of the text in points. */
+export function textWidth(text: string, style: TextStyle = {}): number {
+  const widths = style.bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * (style.size ?? 10)) / 1000;
+}
+
+/** The text cut to fit the width, ending in "…" when cut. */
+export function fitText(text: string, maxWidth: number, style: TextStyle = {}): string {
+  if (textWidth(text, style) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted && textWidth(`${fitted}…`, style) > maxWidth) fitted = fitted.slice(0, -1);
+  return fitted ? `${fitted.trimEnd()}…` : "";
+}
+
+/** The text broken into lines no wider than maxWidth, at spaces where possible. */
+export function wrapText(text: string, maxWidth: number, style: TextStyle = {}): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, style) <= maxWidth) {
+        line = candidate;
+      } else if (line) {
+        lines.push(line);
+        line = textWidth(word, style) <= maxWidth ? word : fitText(word, maxWidth, style);
+      } else {
+        lines.push(fitText(word, maxWidth, style));
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function pdfString(text: string): string {
+  let out = "(";
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (char === "(" || char === ")" || char === "\\") out += `\\${char}`;
+    else if (code < 128) out += String.fromCharCode(code);
+    else out += `\\${code.toString(8).padStart(3, "0")}`;
+  }
+  return `${out})`;
+}
+
+// "#RRGGBB" as PDF colour components
+function rgb(hex: string): string {
+  const value = /^#?([0-9a-f]{6})$/i.exec(hex)?.[1] ?? "000000";
+  return [0, 2, 4].map((i) => (parseInt(value.slice(i, i + 2), 16) / 255).toFixed(3)).join(" ");
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+export class PdfPage {
+  readonly width: number;
+  readonly height: number;
+  private readonly ops: string[] = [];
+
+  constructor(size: { width: number; height: number }) {
+    this.width = size.width;
+    this.height = size.height;
+  }
+
+  /** Draw text with its baseline at y. */
+  text(x: number, y: number, text: string, style: TextStyle = {}): void {
+    if (!text) return;
+    this.ops.push(
+      `BT /${style.bold ? "F2" : "F1"} ${num(style.size ?? 10)} Tf ${rgb(style.color ?? "#000000")} rg ` +
+        `${num(x)} ${num(this.height - y)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = "#000000", width = 0.5): void {
+    this.ops.push(
+      `${num(width)} w ${rgb(color)} RG ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  /** A rectangle from its top-left corner, filled and/or outlined. */
+  rect(x: number, y: number, width: number, height: number, options: { fill?: string; stroke?: string } = {}): void {
+    const path = `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`;
+    if (options.fill && options.stroke) this.ops.push(`0.5 w ${rgb(options.fill)} rg ${rgb(options.stroke)} RG ${path} B`);
+    else if (options.fill) this.ops.push(`${rgb(options.fill)} rg ${path} f`);
+    else this.ops.push(`0.5 w ${rgb(options.stroke ?? "#000000")} RG ${path} S`);
+  }
+
+  content(): string {
+    return this.ops.join("\n");
+  }
+}
+
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+
+  constructor(private readonly title: string) {}
+
+  addPage(size = A4_PORTRAIT): PdfPage {
+    const page = new PdfPage(size);
+    this.pages.push(page);
+    return page;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  toBuffer(): Buffer {
+    // Objects 1-5 are fixed; each page then takes two: the page and its content stream
+    const objects: Buffer[] = [];
+    const pageIds = this.pages.map((_, i) => 6 + i * 2);
+    objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"));
+    objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`));
+    objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"));
+    objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"));
+    objects.push(Buffer.from(`<< /Title ${pdfString(this.title)} /Producer (Scheduler) >>`));
+    this.pages.forEach((page, i) => {
+      const stream = deflateSync(Buffer.from(page.content(), "latin1"));
+      objects.push(
+        Buffer.from(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+        )
+      );
+      objects.push(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+          stream,
+          Buffer.from("\nendstream"),
+        ])
+      );
+    });
+
+    const parts: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = parts[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(offset);
+      const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from("\nendobj\n")]);
+      parts.push(object);
+      offset += object.length;
+    });
+    const xref =
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+      offsets.map((o) => `${o.toString().padStart(10, "0")} 00000 n \n`).join("") +
+      `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+    parts.push(Buffer.from(xref));
+    return Buffer.concat(parts);
+  }
+}
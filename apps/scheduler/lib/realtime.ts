@@ -0,0 +1,145 @@
+/**
+ * Real-time schedule changes
+ *
+ * /api/schedule/events streams the organization's changes to schedule items and resources
+ * to the schedule page as server-sent events, so planners see each other's edits straight
+ * away. Every change already lands in audit_events (lib/audit.ts), so the stream reads from
+ * there rather than from an in-memory bus: it works however many server instances are
+ * running, and the audit event id doubles as the SSE event id for catch-up.
+ *
+ * Each connection polls audit_events for the organization every POLL_INTERVAL_MS, reading on
+ * from the last event it sent by (created at, id), so events that share a timestamp are
+ * neither skipped nor sent twice. A client reconnecting with Last-Event-ID (or ?lastEventId=)
+ * first gets everything after that event. When there are more than CATCH_UP_LIMIT to send, or
+ * its last event is unknown, the stream sends `resync` and the client refetches everything;
+ * the resync carries the id of the newest event, so the client carries on from there rather
+ * than meeting the same backlog on every reconnect.
+ *
+ * Only schedule and resource changes are sent in full. Memberships, invites, leave allowances and
+ * calendar feeds are admin-only audit detail (/api/audit), so other members get just which row
+ * changed and refetch it through the API, which applies their permissions.
+ *
+ * Streams end after STREAM_LIFETIME_MS so they fit within serverless time limits; the
+ * browser reconnects on its own, carrying the last event id.
+ */
+
+import { storage, type AuditCursor } from "@/lib/storage";
+import type { AuditEntityType, AuditEvent } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 15_000;
+const STREAM_LIFETIME_MS = 55_000;
+// More events to send than this and the client refetches instead
+const CATCH_UP_LIMIT = 500;
+// How long the browser waits before reconnecting after the stream ends
+const RECONNECT_DELAY_MS = 1000;
+
+// Changes every member gets in full, to patch the schedule from
+const SCHEDULE_ENTITY_TYPES = new Set<AuditEntityType>([
+  "schedule_item",
+  "schedule_series",
+  "job",
+  "customer",
+  "site",
+  "depot",
+  "crew",
+  "employee",
+  "vehicle",
+  "employee_absence",
+  "vehicle_unavailability",
+]);
+
+const encoder = new TextEncoder();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function formatEvent(event: string, data: unknown, id?: string): Uint8Array {
+  const lines = [id ? `id: ${id}` : null, `event: ${event}`, `data: ${JSON.stringify(data)}`];
+  return encoder.encode(`${lines.filter(Boolean).join("\n")}\n\n`);
+}
+
+// The event as this member may see it: without who changed what for admin-only entities
+function visibleEvent(event: AuditEvent, isAdmin: boolean): AuditEvent {
+  if (isAdmin || SCHEDULE_ENTITY_TYPES.has(event.entityType)) return event;
+  return { ...event, actorId: null, changes: {} };
+}
+
+/**
+ * The organization's changes after `lastEventId` (or from now) as an SSE stream. Only admins
+ * get the details of membership, invite, leave allowance and calendar feed changes.
+ */
+export function scheduleEventStream(
+  organizationId: string,
+  lastEventId: string | null,
+  signal: AbortSignal,
+  isAdmin: boolean
+): ReadableStream<Uint8Array> {
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: Uint8Array) => {
+        if (!closed) controller.enqueue(chunk);
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      signal.addEventListener("abort", close);
+
+      try {
+        controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`));
+
+        let cursor: AuditCursor = { createdAt: new Date(), id: "" };
+        if (lastEventId) {
+          const last = await storage.getAuditEvent(lastEventId);
+          if (last && last.organizationId === organizationId) {
+            cursor = { createdAt: last.createdAt, id: last.id };
+          } else {
+            send(formatEvent("resync", { reason: "Unknown last event", lastEventId: null }));
+          }
+        }
+        send(formatEvent("ready", { since: cursor.createdAt.toISOString() }));
+
+        const startedAt = Date.now();
+        let lastWrite = Date.now();
+        while (!closed && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+          let events: AuditEvent[] = await storage.getAuditEventsAfter(organizationId, cursor, CATCH_UP_LIMIT);
+
+          if (events.length === CATCH_UP_LIMIT) {
+            // Too far behind to replay; skip to the newest event and have the client refetch
+            while (!closed && events.length > 0) {
+              const newest = events[events.length - 1];
+              cursor = { createdAt: newest.createdAt, id: newest.id };
+              if (events.length < CATCH_UP_LIMIT) break;
+              events = await storage.getAuditEventsAfter(organizationId, cursor, CATCH_UP_LIMIT);
+            }
+            send(formatEvent("resync", { reason: "Too many changes to catch up", lastEventId: cursor.id }, cursor.id));
+            lastWrite = Date.now();
+          } else {
+            for (const event of events) {
+              send(formatEvent("change", visibleEvent(event, isAdmin), event.id));
+              cursor = { createdAt: event.createdAt, id: event.id };
+              lastWrite = Date.now();
+            }
+          }
+
+          if (Date.now() - lastWrite >= HEARTBEAT_INTERVAL_MS) {
+            send(encoder.encode(": heartbeat\n\n"));
+            lastWrite = Date.now();
+          }
+          await sleep(POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error("[scheduleEventStream] Stream failed:", error);
+      } finally {
+        signal.removeEventListener("abort", close);
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
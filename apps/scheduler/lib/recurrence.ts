@@ -0,0 +1,235 @@
+/**
+ * Repeating date periods
+ *
+ * Time off and vehicle unavailability are stored as one period (start..end) plus a
+ * recurrence rule, not as a row per occurrence. These helpers expand the rule on read.
+ * Repeating bookings are the exception: see "Booking series" below.
+ * Everything works on calendar-day keys (yyyy-MM-dd): the server converts stored
+ * timestamps with toDayKey, the browser with its local date.
+ */
+
+import { addDaysToKey, daysBetweenKeys } from "@/lib/scheduleDates";
+
+export const RECURRENCE_FREQUENCIES = ["none", "weekly", "biweekly"] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export const RECURRENCE_LABELS: Record<RecurrenceFrequency, string> = {
+  none: "Does not repeat",
+  weekly: "Weekly",
+  biweekly: "Every other week",
+};
+
+export interface RecurringPeriod {
+  start: string;
+  end: string;
+  recurrence?: string | null;
+  // Last day an occurrence may start on; open-ended when missing
+  until?: string | null;
+}
+
+// A period as stored in the database (timestamps rather than day keys)
+export interface StoredRecurringPeriod {
+  startDate: Date | string;
+  endDate: Date | string;
+  recurrence?: string | null;
+  recurrenceUntil?: Date | string | null;
+}
+
+/** Convert a stored period to day keys. `toKey` is toDayKey on the server, the local date in the browser. */
+export function toRecurringPeriod(
+  period: StoredRecurringPeriod,
+  toKey: (date: Date | string) => string
+): RecurringPeriod {
+  return {
+    start: toKey(period.startDate),
+    end: toKey(period.endDate),
+    recurrence: period.recurrence,
+    until: period.recurrenceUntil ? toKey(period.recurrenceUntil) : null,
+  };
+}
+
+/** Problems with a period's dates once a create/update has been applied, or null. */
+export function validatePeriodDates(period: {
+  startDate: Date;
+  endDate: Date;
+  recurrence: string;
+  recurrenceUntil?: Date | null;
+}): string | null {
+  if (period.endDate < period.startDate) return "endDate must not be before startDate";
+  if (period.recurrence !== "none" && period.recurrenceUntil && period.recurrenceUntil < period.startDate) {
+    return "recurrenceUntil must not be before startDate";
+  }
+  return null;
+}
+
+const INTERVAL_DAYS: Record<Exclude<RecurrenceFrequency, "none">, number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
+function intervalOf(period: RecurringPeriod): number | null {
+  return period.recurrence === "weekly" || period.recurrence === "biweekly"
+    ? INTERVAL_DAYS[period.recurrence]
+    : null;
+}
+
+/** Whether any occurrence of the period includes the day. */
+export function periodCoversDay(period: RecurringPeriod, day: string): boolean {
+  if (day < period.start) return false;
+
+  const interval = intervalOf(period);
+  if (interval === null) return day <= period.end;
+
+  const length = daysBetweenKeys(period.start, period.end);
+  const offset = daysBetweenKeys(period.start, day);
+  const occurrenceStart = addDaysToKey(period.start, offset - (offset % interval));
+  if (period.until && occurrenceStart > period.until) {
+    // The day may still fall in the tail of the last occurrence
+    const lastIndex = Math.floor(daysBetweenKeys(period.start, period.until) / interval);
+    return offset - lastIndex * interval <= length;
+  }
+  return offset % interval <= length;
+}
+
+/** Occurrences of the period that overlap from..to (inclusive), in date order. */
+export function expandPeriod(period: RecurringPeriod, from: string, to: string): Array<{ start: string; end: string }> {
+  const interval = intervalOf(period);
+  if (interval === null) {
+    return period.end >= from && period.start <= to ? [{ start: period.start, end: period.end }] : [];
+  }
+
+  const length = daysBetweenKeys(period.start, period.end);
+  const occurrences: Array<{ start: string; end: string }> = [];
+  // Skip straight to the first occurrence that could reach `from`
+  const skip = Math.max(0, Math.floor((daysBetweenKeys(period.start, from) - length) / interval));
+
+  for (let start = addDaysToKey(period.start, skip * interval); start <= to; start = addDaysToKey(start, interval)) {
+    if (period.until && start > period.until) break;
+    const end = addDaysToKey(start, length);
+    if (end >= from) occurrences.push({ start, end });
+  }
+  return occurrences;
+}
+
+// ---------- Booking series ----------
+//
+// A repeating booking (schedule_series) follows an RRULE-style rule: every week or every
+// other week on chosen weekdays, ending on a date or after a number of occurrences, less any
+// exception days. Each occurrence is stored as its own schedule item.
+
+export const SERIES_FREQUENCIES = ["weekly", "biweekly"] as const;
+export type SeriesFrequency = (typeof SERIES_FREQUENCIES)[number];
+
+export const SERIES_FREQUENCY_LABELS: Record<SeriesFrequency, string> = {
+  weekly: "Every week",
+  biweekly: "Every other week",
+};
+
+// How an edit to one occurrence of a series applies to the others
+export const SERIES_EDIT_SCOPES = ["this", "following", "all"] as const;
+export type SeriesEditScope = (typeof SERIES_EDIT_SCOPES)[number];
+
+export const SERIES_EDIT_SCOPE_LABELS: Record<SeriesEditScope, string> = {
+  this: "This occurrence",
+  following: "This and following",
+  all: "Entire series",
+};
+
+// Sunday first, as Date.getDay() numbers them
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Occurrences are stored as rows, so a series can't run forever
+export const MAX_SERIES_OCCURRENCES = 366;
+
+export interface SeriesRule {
+  frequency: SeriesFrequency;
+  // 0 = Sunday ... 6 = Saturday
+  weekdays: number[];
+  // Day of the first occurrence
+  start: string;
+  // Last day an occurrence may fall on, and/or how many occurrences there are
+  until?: string | null;
+  count?: number | null;
+  // Days with no occurrence. They still count towards `count`, as EXDATE does in an RRULE.
+  exceptions?: string[];
+}
+
+// A series as stored in the database (timestamps rather than day keys)
+export interface StoredSeriesRule {
+  frequency: string;
+  weekdays: number[];
+  startDate: Date | string;
+  untilDate?: Date | string | null;
+  count?: number | null;
+  exceptions?: string[] | null;
+}
+
+/** Convert a stored series to a rule. `toKey` is toDayKey on the server, the local date in the browser. */
+export function toSeriesRule(series: StoredSeriesRule, toKey: (date: Date | string) => string): SeriesRule {
+  return {
+    frequency: series.frequency === "biweekly" ? "biweekly" : "weekly",
+    weekdays: series.weekdays,
+    start: toKey(series.startDate),
+    until: series.untilDate ? toKey(series.untilDate) : null,
+    count: series.count ?? null,
+    exceptions: series.exceptions ?? [],
+  };
+}
+
+/** Day of the week of a day key (0 = Sunday). */
+export function weekdayOfKey(day: string): number {
+  return new Date(`${day}T12:00:00Z`).getUTCDay();
+}
+
+// Monday of the week the day is in
+function weekStartOfKey(day: string): string {
+  return addDaysToKey(day, -((weekdayOfKey(day) + 6) % 7));
+}
+
+/**
+ * Every day the rule matches, in order, ignoring exceptions. Stops at `until`, after `count`
+ * matches, or at MAX_SERIES_OCCURRENCES.
+ */
+function ruleDays(rule: SeriesRule): string[] {
+  const weekdays = new Set(rule.weekdays);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const interval = rule.frequency === "biweekly" ? 2 : 1;
+  const firstWeek = weekStartOfKey(rule.start);
+  const days: string[] = [];
+  if (weekdays.size === 0) return days;
+
+  for (let day = rule.start; days.length < limit; day = addDaysToKey(day, 1)) {
+    if (rule.until && day > rule.until) break;
+    const week = Math.floor(daysBetweenKeys(firstWeek, day) / 7);
+    if (week % interval === 0 && weekdays.has(weekdayOfKey(day))) days.push(day);
+  }
+  return days;
+}
+
+/** Days of the series' occurrences, in order. */
+export function expandSeries(rule: SeriesRule): string[] {
+  const exceptions = new Set(rule.exceptions ?? []);
+  return ruleDays(rule).filter((day) => !exceptions.has(day));
+}
+
+/** How many of the rule's matches (exceptions included) fall before the day. */
+export function countSeriesDaysBefore(rule: SeriesRule, day: string): number {
+  return ruleDays(rule).filter((d) => d < day).length;
+}
+
+/** Problems with a rule, or null. */
+export function validateSeriesRule(rule: SeriesRule): string | null {
+  if (rule.weekdays.length === 0) return "Choose at least one weekday";
+  if (!rule.until && !rule.count) return "A series needs an end date or a number of occurrences";
+  if (rule.until && rule.until < rule.start) return "The end date must not be before the first occurrence";
+  return null;
+}
+
+/** "Every week on Mon, Thu", for showing a rule. */
+export function describeSeriesRule(rule: Pick<SeriesRule, "frequency" | "weekdays">): string {
+  const days = [...rule.weekdays]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((d) => WEEKDAY_LABELS[d])
+    .join(", ");
+  return `${SERIES_FREQUENCY_LABELS[rule.frequency]} on ${days}`;
+}
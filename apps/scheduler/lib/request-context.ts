@@ -1,19 +1,23 @@
-import { cookies } from "next/headers";
 import { storage } from "@/lib/storage";
+import { getSessionUserId } from "@/lib/session";
+import { getSubscriptionAccess, type SubscriptionAccess } from "@/lib/subscription";
+import { resolveEntitlements, type Entitlements, type PlanType } from "@/lib/entitlements";
+import { setAuditActor } from "@/lib/audit";
 
 export interface OrganizationContext {
   userId: string;
   organizationId: string;
   role: "admin" | "operations" | "user";
-  plan: "starter" | "pro";
+  plan: PlanType;
+  entitlements: Entitlements;
+  subscription: SubscriptionAccess;
 }
 
 export async function getRequestContext(): Promise<OrganizationContext> {
-  const cookieStore = await cookies();
-  const userId = cookieStore.get("userId")?.value;
+  const userId = await getSessionUserId();
 
   if (!userId) {
-    console.error("[getRequestContext] No userId cookie found");
+    console.error("[getRequestContext] No valid session found");
     throw new Error("Unauthorized: No user session found");
   }
 
@@ -28,6 +32,11 @@ export async function getRequestContext(): Promise<OrganizationContext> {
       throw new Error("Unauthorized: No organization membership found");
     }
 
+    const entitlements = resolveEntitlements(membership.organization);
+
+    // Attribute the request's changes to this user in the audit trail
+    setAuditActor({ userId });
+
     // Normalize role (member → user)
     const normalizedRole = membership.role === "member" ? "user" : membership.role;
 
@@ -35,7 +44,9 @@ export async function getRequestContext(): Promise<OrganizationContext> {
       userId,
       organizationId: membership.organizationId,
       role: normalizedRole as "admin" | "operations" | "user",
-      plan: membership.organization.plan,
+      plan: entitlements.plan,
+      entitlements,
+      subscription: getSubscriptionAccess(membership.organization),
     };
   } catch (error: any) {
     // If it's already an Error with a message, re-throw it
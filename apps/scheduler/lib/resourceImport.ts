@@ -0,0 +1,205 @@
+/**
+ * Bulk import of employees and vehicles
+ *
+ * A depot's people and vans arrive as a CSV or XLSX sheet. Its columns are mapped to resource
+ * fields (guessed from the header row, then adjusted in the import wizard), every row is checked,
+ * and the preview shows each row with its problems. Nothing is created until every row is valid
+ * and the whole batch fits the plan's limits; then it's created in one transaction.
+ *
+ * Shared by the import route and the wizard, so this module must stay free of server imports.
+ */
+
+import { z } from "zod";
+import { mergeAndSortVehicleTypes, normalizeVehicleTypeName, VEHICLE_COLOR_HEX, type VehicleTypesConfig } from "@/lib/vehicleTypes";
+
+export const RESOURCE_IMPORT_KINDS = ["employees", "vehicles"] as const;
+export type ResourceImportKind = (typeof RESOURCE_IMPORT_KINDS)[number];
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Header names (compared without case, spaces or punctuation) the column is guessed from
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: Record<ResourceImportKind, ImportField[]> = {
+  employees: [
+    { key: "name", label: "Name", required: true, aliases: ["name", "fullname", "employee", "employeename", "operative"] },
+    { key: "jobRole", label: "Job role", aliases: ["jobrole", "role", "position"] },
+    { key: "email", label: "Email", aliases: ["email", "emailaddress", "mail"] },
+    { key: "homePostcode", label: "Home postcode", aliases: ["homepostcode", "postcode", "home"] },
+    { key: "startsFromHome", label: "Starts from home", aliases: ["startsfromhome", "startfromhome", "fromhome"] },
+    { key: "depot", label: "Depot", aliases: ["depot", "base"] },
+  ],
+  vehicles: [
+    { key: "name", label: "Name", required: true, aliases: ["name", "vehicle", "vehiclename", "registration", "reg"] },
+    { key: "vehicleType", label: "Vehicle type", required: true, aliases: ["vehicletype", "type"] },
+    { key: "category", label: "Category", aliases: ["category"] },
+    { key: "color", label: "Colour", aliases: ["colour", "color"] },
+    { key: "depot", label: "Depot", aliases: ["depot", "base"] },
+  ],
+};
+
+// Field key -> column index, or null when the field isn't imported
+export type ImportMapping = Record<string, number | null>;
+
+export const importRequestSchema = z.object({
+  kind: z.enum(RESOURCE_IMPORT_KINDS),
+  fileName: z.string().trim().min(1).max(255),
+  // The file's bytes, base64 encoded
+  content: z.string().min(1).max(7_000_000),
+  // Rows with no depot column (or an empty one) go to this depot
+  depotId: z.string().min(1).optional(),
+  // Omitted on the first upload, when the mapping is guessed from the headers
+  mapping: z.record(z.string(), z.number().int().min(0).nullable()).optional(),
+  // False for a preview; true creates the rows if they're all valid
+  commit: z.boolean().optional(),
+});
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+export interface ImportPreviewRow {
+  // Row number in the sheet, counting the header as 1
+  row: number;
+  values: Record<string, string | boolean | null>;
+  errors: string[];
+}
+
+export interface ImportQuota {
+  used: number;
+  limit: number | null;
+  adding: number;
+  allowed: boolean;
+  message?: string;
+}
+
+export interface ImportPreview {
+  kind: ResourceImportKind;
+  headers: string[];
+  mapping: ImportMapping;
+  rows: ImportPreviewRow[];
+  quota: ImportQuota | null;
+  valid: boolean;
+}
+
+// What the rows are checked against
+export interface ImportContext {
+  depots: Array<{ id: string; name: string }>;
+  defaultDepotId?: string;
+  // Names already in use (employees or vehicles, matching the import)
+  existingNames: string[];
+  vehicleTypes?: VehicleTypesConfig;
+}
+
+const headerKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** The column each field is probably in, from the header row. */
+export function guessMapping(kind: ResourceImportKind, headers: string[]): ImportMapping {
+  const keys = headers.map(headerKey);
+  const used = new Set<number>();
+  const mapping: ImportMapping = {};
+  for (const field of IMPORT_FIELDS[kind]) {
+    const index = field.aliases.map((alias) => keys.findIndex((key, i) => key === alias && !used.has(i))).find((i) => i >= 0);
+    mapping[field.key] = index ?? null;
+    if (index !== undefined) used.add(index);
+  }
+  return mapping;
+}
+
+const YES = ["yes", "y", "true", "1", "home"];
+const NO = ["no", "n", "false", "0", "depot", ""];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const POSTCODE_PATTERN = /^([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})$/i;
+
+/**
+ * Each data row (after the header) with its cleaned values and problems. Blank rows are skipped.
+ * Names must be new to the organization and unique within the file.
+ */
+export function validateImportRows(
+  kind: ResourceImportKind,
+  rows: string[][],
+  mapping: ImportMapping,
+  context: ImportContext
+): ImportPreviewRow[] {
+  const fields = IMPORT_FIELDS[kind];
+  const seenNames = new Set(context.existingNames.map((name) => name.trim().toLowerCase()));
+  const fileNames = new Set<string>();
+  const vehicleTypes = mergeAndSortVehicleTypes(context.vehicleTypes);
+  const defaultDepot = context.depots.find((d) => d.id === context.defaultDepotId);
+  const article = kind === "employees" ? "An employee" : "A vehicle";
+
+  const preview: ImportPreviewRow[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    const cell = (key: string) => {
+      const column = mapping[key];
+      return column === null || column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+    if (fields.every((field) => cell(field.key) === "")) return;
+
+    const errors: string[] = [];
+    const values: ImportPreviewRow["values"] = {};
+    for (const field of fields) {
+      if (field.required && !cell(field.key)) errors.push(`${field.label} is required`);
+    }
+
+    const name = cell("name");
+    values.name = name || null;
+    if (name.length > 200) errors.push("Name is too long");
+    if (name && seenNames.has(name.toLowerCase())) {
+      errors.push(`${article} called "${name}" already exists`);
+    } else if (name && fileNames.has(name.toLowerCase())) {
+      errors.push(`"${name}" appears more than once in the file`);
+    }
+    if (name) fileNames.add(name.toLowerCase());
+
+    const depotName = cell("depot");
+    const depot = depotName
+      ? context.depots.find((d) => d.name.trim().toLowerCase() === depotName.toLowerCase())
+      : defaultDepot;
+    values.depot = depot?.name ?? (depotName || null);
+    values.depotId = depot?.id ?? null;
+    if (!depot) errors.push(depotName ? `No depot called "${depotName}"` : "Depot is required");
+
+    if (kind === "employees") {
+      const role = cell("jobRole").toLowerCase();
+      values.jobRole = role === "" ? "operative" : role;
+      if (role !== "" && role !== "operative" && role !== "assistant") {
+        errors.push(`Job role must be operative or assistant, not "${cell("jobRole")}"`);
+      }
+
+      const email = cell("email");
+      values.email = email || null;
+      if (email && !EMAIL_PATTERN.test(email)) errors.push(`"${email}" isn't an email address`);
+
+      const postcode = cell("homePostcode");
+      const parts = postcode.match(POSTCODE_PATTERN);
+      values.homePostcode = parts ? `${parts[1]} ${parts[2]}`.toUpperCase() : postcode || null;
+      if (postcode && !parts) errors.push(`"${postcode}" isn't a UK postcode`);
+
+      const fromHome = cell("startsFromHome").toLowerCase();
+      values.startsFromHome = YES.includes(fromHome);
+      if (!YES.includes(fromHome) && !NO.includes(fromHome)) {
+        errors.push(`Starts from home must be yes or no, not "${cell("startsFromHome")}"`);
+      } else if (values.startsFromHome && !postcode) {
+        errors.push("Starting from home needs a home postcode");
+      }
+    } else {
+      const typeName = cell("vehicleType");
+      const type = vehicleTypes.find((t) => normalizeVehicleTypeName(t.type) === normalizeVehicleTypeName(typeName));
+      values.vehicleType = type?.type ?? (typeName || null);
+      if (typeName && !type) errors.push(`Unknown vehicle type "${typeName}" (add it in settings first)`);
+
+      values.category = cell("category") || null;
+
+      const colour = cell("color");
+      const hex = /^#[0-9a-f]{6}$/i.test(colour) ? colour.toUpperCase() : VEHICLE_COLOR_HEX[colour.toLowerCase() === "grey" ? "gray" : colour.toLowerCase()];
+      values.color = hex ?? (type?.defaultColor ? VEHICLE_COLOR_HEX[type.defaultColor] ?? null : null);
+      if (colour && !hex) errors.push(`Unknown colour "${colour}"`);
+    }
+
+    preview.push({ row: index + 2, values, errors });
+  });
+  return preview;
+}
@@ -0,0 +1,431 @@
+/**
+ * Printable run sheets
+ *
+ * Supervisors hand each crew its day on paper. For a depot and a day (or a week from a day),
+ * every crew with something booked gets a page: its team with each person's own start time,
+ * its jobs in order with addresses and times, the day's notes, and a legend for the job
+ * colours used. A week also starts with a one-page week-at-a-glance grid of crews by day.
+ *
+ * Personal start times work back from the first job's on-site time using lib/travelTime.ts,
+ * from the person's home (if they start from home) or their depot, as the booking form does.
+ * Only approved bookings are printed, and free or cancelled jobs are left off.
+ */
+
+import { z } from "zod";
+import type { ColorLabel, Crew, Depot, Employee, ScheduleItem, Vehicle } from "@shared/schema";
+import { storage } from "@/lib/storage";
+import { normalizeOrganizationSettings, type SchedulingSettings } from "@/lib/organizationSettings";
+import { calculateStartTime, extractPostcode, getTravelTime, getVehicleClass } from "@/lib/travelTime";
+import { VEHICLE_COLOR_HEX } from "@/lib/vehicleTypes";
+import { dayLabel } from "@/lib/dailySchedule";
+import { A4_LANDSCAPE, A4_PORTRAIT, PdfDocument, PdfPage, fitText, textWidth, wrapText, type TextStyle } from "@/lib/pdf";
+import { addDaysToKey, dayKeyRangeToQueryBounds, eachDayKey, SCHEDULE_TIME_ZONE, toDayKey } from "@/lib/scheduleDates";
+
+export const RUN_SHEET_PERIODS = ["day", "week"] as const;
+
+export const runSheetQuerySchema = z.object({
+  depotId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "date must be yyyy-MM-dd"),
+  // A week is the seven days from `date`
+  period: z.enum(RUN_SHEET_PERIODS).default("day"),
+});
+
+export type RunSheetQuery = z.infer<typeof runSheetQuerySchema>;
+
+interface CrewDay {
+  day: string;
+  crew: Crew;
+  jobs: ScheduleItem[];
+  people: ScheduleItem[];
+  notes: ScheduleItem[];
+}
+
+interface TeamMember {
+  name: string;
+  role: string;
+  vehicle: string;
+  startsFrom: string;
+  startTime: string;
+}
+
+interface SheetContext {
+  depot: Depot;
+  // Every depot, for people based somewhere else
+  depots: Depot[];
+  employees: Employee[];
+  vehicles: Vehicle[];
+  colorLabels: ColorLabel[];
+  scheduling: SchedulingSettings;
+  printedAt: string;
+}
+
+const MARGIN = 36;
+const MUTED = "#64748B";
+const RULE = "#CBD5E1";
+const HEADER_FILL = "#F1F5F9";
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+const byTime = (a: ScheduleItem, b: ScheduleItem) =>
+  (a.startTime || a.onsiteTime || "").localeCompare(b.startTime || b.onsiteTime || "");
+
+function colorHex(color: string | null): string | null {
+  if (!color) return null;
+  return VEHICLE_COLOR_HEX[color] ?? (/^#[0-9a-f]{6}$/i.test(color) ? color : null);
+}
+
+function colorName(context: SheetContext, color: string): string {
+  return context.colorLabels.find((label) => label.color === color)?.label ?? capitalize(color);
+}
+
+/**
+ * Each person on the crew that day, with when they need to leave: the first job's on-site time
+ * (or the shift's default start) less the drive from where they start and the pre-start buffer.
+ */
+async function teamFor(crewDay: CrewDay, context: SheetContext): Promise<TeamMember[]> {
+  const { scheduling } = context;
+  const firstJob = [...crewDay.jobs].sort(byTime)[0];
+  const shiftStart = crewDay.crew.shift === "night" ? scheduling.defaultNightStartTime : scheduling.defaultDayStartTime;
+  const arriveBy = firstJob?.onsiteTime || shiftStart;
+
+  const team: TeamMember[] = [];
+  const seen = new Set<string>();
+  for (const person of crewDay.people) {
+    if (!person.employeeId || seen.has(person.employeeId)) continue;
+    seen.add(person.employeeId);
+    const employee = context.employees.find((e) => e.id === person.employeeId);
+    if (!employee) continue;
+    const vehicle = context.vehicles.find((v) => v.id === person.vehicleId);
+
+    const fromHome = employee.startsFromHome && !!employee.homePostcode;
+    const from = fromHome ? employee.homePostcode : context.depots.find((d) => d.id === employee.depotId)?.address;
+    let startTime = firstJob?.startTime || shiftStart;
+    if (scheduling.autoCalculateStartFromLocation && from && firstJob?.address) {
+      const vehicleClass = getVehicleClass(vehicle?.vehicleType);
+      // Wait for a routed time (when a router is configured) so calculateStartTime finds it cached
+      await getTravelTime(extractPostcode(from), extractPostcode(firstJob.address), vehicleClass);
+      startTime = calculateStartTime(arriveBy, from, firstJob.address, scheduling.preStartBufferMinutes, vehicleClass);
+    }
+
+    team.push({
+      name: employee.name,
+      role: capitalize(person.type),
+      vehicle: vehicle?.name ?? "",
+      startsFrom: fromHome ? `Home (${employee.homePostcode})` : "Depot",
+      startTime,
+    });
+  }
+  return team.sort((a, b) => a.role.localeCompare(b.role) || a.name.localeCompare(b.name));
+}
+
+// ---------- Drawing ----------
+
+interface Column {
+  title: string;
+  width: number;
+}
+
+/** Writes down a page, starting a new one (with the sheet's heading) when it runs out of room. */
+class SheetWriter {
+  page!: PdfPage;
+  y = 0;
+
+  constructor(
+    private readonly doc: PdfDocument,
+    private readonly heading: (page: PdfPage, continued: boolean) => number,
+    private readonly footer: string
+  ) {
+    this.newPage(false);
+  }
+
+  newPage(continued: boolean): void {
+    this.page = this.doc.addPage(A4_PORTRAIT);
+    this.y = this.heading(this.page, continued);
+    this.page.text(MARGIN, this.page.height - MARGIN / 2, this.footer, { size: 7, color: MUTED });
+  }
+
+  ensure(height: number): void {
+    if (this.y + height > this.page.height - MARGIN) this.newPage(true);
+  }
+
+  section(title: string): void {
+    this.ensure(40);
+    this.y += 18;
+    this.page.text(MARGIN, this.y, title, { size: 11, bold: true });
+    this.y += 6;
+  }
+
+  tableHeader(columns: Column[]): void {
+    const width = columns.reduce((sum, c) => sum + c.width, 0);
+    this.page.rect(MARGIN, this.y, width, 16, { fill: HEADER_FILL });
+    let x = MARGIN;
+    for (const column of columns) {
+      this.page.text(x + 4, this.y + 11, column.title, { size: 8, bold: true, color: MUTED });
+      x += column.width;
+    }
+    this.y += 16;
+  }
+
+  /** A row whose cells may wrap onto several lines; repeats the header after a page break. */
+  tableRow(columns: Column[], cells: string[], options: { swatch?: string | null; style?: TextStyle } = {}): void {
+    const style = { size: 9, ...options.style };
+    const lines = cells.map((cell, i) => wrapText(cell, columns[i].width - 8, style).slice(0, 4));
+    const height = Math.max(1, ...lines.map((l) => l.length)) * 11 + 6;
+    if (this.y + height > this.page.height - MARGIN) {
+      this.newPage(true);
+      this.tableHeader(columns);
+    }
+    let x = MARGIN;
+    lines.forEach((cellLines, i) => {
+      cellLines.forEach((line, n) => this.page.text(x + 4, this.y + 12 + n * 11, line, style));
+      x += columns[i].width;
+    });
+    if (options.swatch) this.page.rect(MARGIN - 6, this.y + 4, 3, height - 8, { fill: options.swatch });
+    this.y += height;
+    this.page.line(MARGIN, this.y, x, this.y, RULE);
+  }
+
+  paragraph(text: string, style: TextStyle = { size: 9 }): void {
+    for (const line of wrapText(text, this.page.width - MARGIN * 2, style)) {
+      this.ensure(12);
+      this.page.text(MARGIN, this.y + 10, line, style);
+      this.y += 12;
+    }
+  }
+}
+
+async function drawRunSheet(doc: PdfDocument, crewDay: CrewDay, context: SheetContext): Promise<void> {
+  const title = `${crewDay.crew.name} – ${dayLabel(crewDay.day)}`;
+  const writer = new SheetWriter(
+    doc,
+    (page, continued) => {
+      const style = { size: 16, bold: true };
+      page.text(MARGIN, MARGIN + 14, fitText(continued ? `${title} (continued)` : title, page.width - MARGIN * 2, style), style);
+      page.text(MARGIN, MARGIN + 30, `${context.depot.name} · ${capitalize(crewDay.crew.shift)} shift`, { size: 10, color: MUTED });
+      page.line(MARGIN, MARGIN + 38, page.width - MARGIN, MARGIN + 38, RULE, 1);
+      return MARGIN + 44;
+    },
+    `Run sheet · printed ${context.printedAt}`
+  );
+  const contentWidth = writer.page.width - MARGIN * 2;
+
+  const team = await teamFor(crewDay, context);
+  writer.section("Team");
+  if (team.length === 0) {
+    writer.paragraph("Nobody booked.", { size: 9, color: MUTED });
+  } else {
+    const columns: Column[] = [
+      { title: "Name", width: 150 },
+      { title: "Role", width: 70 },
+      { title: "Vehicle", width: 110 },
+      { title: "Starts from", width: contentWidth - 390 },
+      { title: "Start", width: 60 },
+    ];
+    writer.tableHeader(columns);
+    for (const member of team) {
+      writer.tableRow(columns, [member.name, member.role, member.vehicle, member.startsFrom, member.startTime]);
+    }
+  }
+
+  const jobs = [...crewDay.jobs].sort(byTime);
+  writer.section("Jobs");
+  if (jobs.length === 0) {
+    writer.paragraph("No jobs booked.", { size: 9, color: MUTED });
+  } else {
+    const columns: Column[] = [
+      { title: "Leave", width: 40 },
+      { title: "On site", width: 45 },
+      { title: "Hours", width: 36 },
+      { title: "Job no.", width: 64 },
+      { title: "Customer", width: 120 },
+      { title: "Address", width: contentWidth - 305 },
+    ];
+    writer.tableHeader(columns);
+    for (const job of jobs) {
+      const details = [
+        job.address || "",
+        job.projectManager ? `PM: ${job.projectManager}` : null,
+        job.color ? colorName(context, job.color) : null,
+      ].filter(Boolean);
+      writer.tableRow(
+        columns,
+        [
+          job.startTime || "",
+          job.onsiteTime || "",
+          job.duration != null ? String(job.duration) : "",
+          job.jobNumber || "",
+          job.customer || "",
+          details.join("\n"),
+        ],
+        { swatch: colorHex(job.color) }
+      );
+    }
+  }
+
+  if (crewDay.notes.length > 0) {
+    writer.section("Notes");
+    for (const note of crewDay.notes) {
+      writer.paragraph(note.noteContent || "");
+      writer.y += 4;
+    }
+  }
+
+  const colors = [...new Set(jobs.map((job) => job.color).filter((c): c is string => !!c && !!colorHex(c)))];
+  if (colors.length > 0) {
+    writer.section("Colour key");
+    writer.ensure(16);
+    let x = MARGIN;
+    for (const color of colors) {
+      const label = fitText(colorName(context, color), 120, { size: 9 });
+      const width = 14 + textWidth(label, { size: 9 }) + 16;
+      if (x + width > writer.page.width - MARGIN) {
+        x = MARGIN;
+        writer.y += 14;
+        writer.ensure(16);
+      }
+      writer.page.rect(x, writer.y + 3, 10, 10, { fill: colorHex(color)! });
+      writer.page.text(x + 14, writer.y + 12, label, { size: 9 });
+      x += width;
+    }
+    writer.y += 16;
+  }
+}
+
+/** One landscape page of crews (rows) by day (columns), continuing onto more pages if needed. */
+function drawWeekAtAGlance(doc: PdfDocument, days: string[], crews: Crew[], crewDays: CrewDay[], context: SheetContext): void {
+  const crewWidth = 110;
+  const dayWidth = (A4_LANDSCAPE.width - MARGIN * 2 - crewWidth) / days.length;
+  const jobStyle: TextStyle = { size: 7 };
+  const peopleStyle: TextStyle = { size: 6.5, color: MUTED };
+  const lineHeight = 8.5;
+
+  let page!: PdfPage;
+  let y = 0;
+  const startPage = (continued: boolean) => {
+    page = doc.addPage(A4_LANDSCAPE);
+    const title = `Week at a glance – ${context.depot.name}${continued ? " (continued)" : ""}`;
+    page.text(MARGIN, MARGIN + 12, title, { size: 14, bold: true });
+    page.text(MARGIN, MARGIN + 26, `${dayLabel(days[0])} to ${dayLabel(days[days.length - 1])}`, { size: 9, color: MUTED });
+    page.text(MARGIN, page.height - MARGIN / 2, `Week at a glance · printed ${context.printedAt}`, { size: 7, color: MUTED });
+    y = MARGIN + 36;
+    page.rect(MARGIN, y, crewWidth + dayWidth * days.length, 16, { fill: HEADER_FILL });
+    page.text(MARGIN + 4, y + 11, "Crew", { size: 8, bold: true, color: MUTED });
+    days.forEach((day, i) => {
+      const label = new Intl.DateTimeFormat("en-GB", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" }).format(
+        new Date(`${day}T12:00:00Z`)
+      );
+      page.text(MARGIN + crewWidth + dayWidth * i + 4, y + 11, label, { size: 8, bold: true, color: MUTED });
+    });
+    y += 16;
+  };
+  startPage(false);
+
+  for (const crew of crews) {
+    const cells = days.map((day) => {
+      const crewDay = crewDays.find((cd) => cd.crew.id === crew.id && cd.day === day);
+      if (!crewDay) return [];
+      const jobLines = [...crewDay.jobs].sort(byTime).flatMap((job) =>
+        wrapText(
+          [job.onsiteTime || job.startTime, job.customer || "Job", job.jobNumber ? `(${job.jobNumber})` : null].filter(Boolean).join(" "),
+          dayWidth - 8,
+          jobStyle
+        )
+          .slice(0, 2)
+          .map((text) => ({ text, style: jobStyle, color: colorHex(job.color) }))
+      );
+      const names = [...new Set(crewDay.people.map((p) => context.employees.find((e) => e.id === p.employeeId)?.name))]
+        .filter((name): name is string => !!name)
+        .join(", ");
+      const peopleLines = names ? wrapText(names, dayWidth - 8, peopleStyle).map((text) => ({ text, style: peopleStyle, color: null })) : [];
+      return [...jobLines, ...peopleLines];
+    });
+    const height = Math.max(2, ...cells.map((lines) => lines.length)) * lineHeight + 8;
+    if (y + height > page.height - MARGIN) startPage(true);
+
+    page.text(MARGIN + 4, y + 11, fitText(crew.name, crewWidth - 8, { size: 8, bold: true }), { size: 8, bold: true });
+    page.text(MARGIN + 4, y + 20, `${capitalize(crew.shift)} shift`, { size: 6.5, color: MUTED });
+    cells.forEach((lines, i) => {
+      const x = MARGIN + crewWidth + dayWidth * i;
+      lines.forEach((line, n) => {
+        if (line.color) page.rect(x + 2, y + 4 + n * lineHeight, 2, lineHeight - 1, { fill: line.color });
+        page.text(x + 6, y + 10.5 + n * lineHeight, line.text, line.style);
+      });
+      page.line(x, y, x, y + height, RULE);
+    });
+    y += height;
+    page.line(MARGIN, y, MARGIN + crewWidth + dayWidth * days.length, y, RULE);
+  }
+}
+
+// ---------- Building ----------
+
+/** The run sheets as a PDF, with a file name for the download. */
+export async function buildRunSheetsPdf(
+  organizationId: string,
+  query: RunSheetQuery
+): Promise<{ fileName: string; body: Buffer } | null> {
+  const depot = await storage.getDepot(query.depotId);
+  if (!depot || depot.organizationId !== organizationId) return null;
+
+  const to = query.period === "week" ? addDaysToKey(query.date, 6) : query.date;
+  const days = eachDayKey(query.date, to);
+  const { start, end } = dayKeyRangeToQueryBounds(query.date, to);
+  const [allItems, allCrews, depots, employees, vehicles, colorLabels, settingsRow] = await Promise.all([
+    storage.getScheduleItemsByOrg(organizationId, start, end),
+    storage.getCrewsByOrg(organizationId),
+    storage.getDepotsByOrg(organizationId),
+    storage.getEmployeesByOrg(organizationId),
+    storage.getVehiclesByOrg(organizationId),
+    storage.getColorLabelsByOrg(organizationId),
+    storage.getOrganizationSettings(organizationId),
+  ]);
+  const context: SheetContext = {
+    depot,
+    depots,
+    employees,
+    vehicles,
+    colorLabels,
+    scheduling: normalizeOrganizationSettings(settingsRow).scheduling,
+    printedAt: new Intl.DateTimeFormat("en-GB", { dateStyle: "medium", timeStyle: "short", timeZone: SCHEDULE_TIME_ZONE }).format(new Date()),
+  };
+
+  const items = allItems.filter((item) => {
+    const day = toDayKey(item.date);
+    return item.status === "approved" && item.depotId === depot.id && day >= query.date && day <= to;
+  });
+
+  const crewDays: CrewDay[] = [];
+  for (const day of days) {
+    for (const crew of allCrews) {
+      const onCrew = items.filter((item) => item.crewId === crew.id && toDayKey(item.date) === day);
+      const crewDay: CrewDay = {
+        day,
+        crew,
+        jobs: onCrew.filter((item) => item.type === "job" && item.jobStatus === "booked"),
+        people: onCrew.filter((item) => item.type === "operative" || item.type === "assistant"),
+        notes: onCrew.filter((item) => item.type === "note" && item.noteContent),
+      };
+      if (crewDay.jobs.length || crewDay.people.length || crewDay.notes.length) crewDays.push(crewDay);
+    }
+  }
+  // The depot's crews in board order (day shifts first), plus any archived crew with bookings
+  const crews = allCrews
+    .filter((crew) => crew.depotId === depot.id && (!crew.archivedAt || crewDays.some((cd) => cd.crew.id === crew.id)))
+    .sort((a, b) => a.shift.localeCompare(b.shift) || a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const crewOrder = (crew: Crew) => crews.findIndex((c) => c.id === crew.id);
+  crewDays.sort((a, b) => a.day.localeCompare(b.day) || crewOrder(a.crew) - crewOrder(b.crew));
+
+  const period = query.period === "week" ? `${query.date} to ${to}` : query.date;
+  const doc = new PdfDocument(`Run sheets – ${depot.name} – ${period}`);
+  if (query.period === "week") drawWeekAtAGlance(doc, days, crews, crewDays, context);
+  for (const crewDay of crewDays) {
+    await drawRunSheet(doc, crewDay, context);
+  }
+  if (doc.pageCount === 0) {
+    const page = doc.addPage(A4_PORTRAIT);
+    page.text(MARGIN, MARGIN + 14, `${depot.name} – ${dayLabel(query.date)}`, { size: 16, bold: true });
+    page.text(MARGIN, MARGIN + 34, "Nothing is booked for this depot on this day.", { size: 10, color: MUTED });
+  }
+
+  const slug = depot.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "depot";
+  return { fileName: `run-sheets-${slug}-${query.period === "week" ? `week-${query.date}` : query.date}.pdf`, body: doc.toBuffer() };
+}
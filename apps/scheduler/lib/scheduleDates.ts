@@ -0,0 +1,101 @@
+/**
+ * Calendar-day helpers for server-side scheduling logic
+ *
+ * The browser stores an item's date as local midnight converted to UTC, so in summer
+ * "2 June" arrives as 2025-06-01T23:00:00Z. Server code must not use the UTC date part;
+ * it resolves dates in the organization's scheduling time zone instead.
+ */
+
+export const SCHEDULE_TIME_ZONE = process.env.SCHEDULE_TIME_ZONE || "Europe/London";
+
+const dayKeyFormatter = new Intl.DateTimeFormat("en-CA", {
+  timeZone: SCHEDULE_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+/** Calendar day ("yyyy-MM-dd") of a date in the scheduling time zone. */
+export function toDayKey(date: Date | string): string {
+  if (typeof date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  return dayKeyFormatter.format(new Date(date));
+}
+
+const zoneTimeFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: SCHEDULE_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+  hourCycle: "h23",
+});
+
+// How far the scheduling time zone is ahead of UTC at an instant
+function zoneOffsetMs(instant: number): number {
+  const parts = Object.fromEntries(
+    zoneTimeFormatter.formatToParts(new Date(instant)).map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Midnight at the start of a day key in the scheduling time zone, stored the way the browser
+ * stores dates it creates.
+ */
+export function dayKeyToDate(dayKey: string): Date {
+  const utcMidnight = Date.parse(`${dayKey}T00:00:00Z`);
+  // Take the offset at (roughly) local midnight, as it can differ either side of a clock change
+  const guess = utcMidnight - zoneOffsetMs(utcMidnight);
+  return new Date(utcMidnight - zoneOffsetMs(guess));
+}
+
+/** The instant a wall-clock time ("HH:mm") on a day key happens in the scheduling time zone. */
+export function zonedTimeToDate(dayKey: string, time: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.parse(`${dayKey}T00:00:00Z`) + (hours * 60 + minutes) * 60_000;
+  const guess = wallClock - zoneOffsetMs(wallClock);
+  return new Date(wallClock - zoneOffsetMs(guess));
+}
+
+/** Add whole days to a day key. */
+export function addDaysToKey(dayKey: string, days: number): string {
+  const d = new Date(`${dayKey}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from one day key to another (negative if `to` is earlier). */
+export function daysBetweenKeys(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T12:00:00Z`) - Date.parse(`${from}T12:00:00Z`)) / 86_400_000);
+}
+
+/** Every day key from `from` to `to`, inclusive. */
+export function eachDayKey(from: string, to: string): string[] {
+  const keys: string[] = [];
+  for (let key = from; key <= to; key = addDaysToKey(key, 1)) {
+    keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * UTC instants that safely bracket a range of day keys, for database queries.
+ * Pads a day either side; filter the rows with toDayKey afterwards.
+ */
+export function dayKeyRangeToQueryBounds(from: string, to: string): { start: Date; end: Date } {
+  return {
+    start: new Date(`${addDaysToKey(from, -1)}T00:00:00Z`),
+    end: new Date(`${addDaysToKey(to, 1)}T23:59:59Z`),
+  };
+}
+
+/** Parse a `from`/`to` query parameter (yyyy-MM-dd or any ISO date) into a day key. */
+export function parseDayKeyParam(value: string | null): string | null {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : toDayKey(date);
+}
@@ -0,0 +1,144 @@
+/**
+ * Schedule export
+ *
+ * The office hands the week to payroll and to clients as a spreadsheet: one row per allocation,
+ * i.e. each job a crew has on a day, with the people and vans on that crew that day. A crew day
+ * with people but no jobs still gets a row, so nobody booked is missing from payroll. Only
+ * approved items are exported; free (ghost) jobs can be left out.
+ */
+
+import { z } from "zod";
+import type { ScheduleItem } from "@shared/schema";
+import { storage } from "@/lib/storage";
+import { writeCsv, writeXlsx, type SpreadsheetCell } from "@/lib/spreadsheet";
+import { dayKeyRangeToQueryBounds, toDayKey } from "@/lib/scheduleDates";
+
+export const SCHEDULE_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type ScheduleExportFormat = (typeof SCHEDULE_EXPORT_FORMATS)[number];
+
+const dayKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date (yyyy-MM-dd)");
+
+export const scheduleExportQuerySchema = z.object({
+  from: dayKey,
+  to: dayKey,
+  // Every depot when empty
+  depotIds: z.array(z.string().min(1)).max(200).default([]),
+  format: z.enum(SCHEDULE_EXPORT_FORMATS).default("csv"),
+  includeFree: z.boolean().default(true),
+});
+
+export type ScheduleExportQuery = z.infer<typeof scheduleExportQuerySchema>;
+
+export const SCHEDULE_EXPORT_HEADERS = [
+  "Date",
+  "Depot",
+  "Crew",
+  "Shift",
+  "Job number",
+  "Customer",
+  "Address",
+  "Operatives",
+  "Vehicles",
+  "Start time",
+  "On-site time",
+  "Duration (hours)",
+  "Job status",
+  "Colour label",
+];
+
+const isPerson = (item: ScheduleItem) => item.type === "operative" || item.type === "assistant";
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/** The export's rows, header first, sorted by date, depot, crew and start time. */
+export async function buildScheduleExportRows(organizationId: string, query: ScheduleExportQuery): Promise<SpreadsheetCell[][]> {
+  const { start, end } = dayKeyRangeToQueryBounds(query.from, query.to);
+  const [allItems, crews, employees, vehicles, depots, colorLabels] = await Promise.all([
+    storage.getScheduleItemsByOrg(organizationId, start, end),
+    storage.getCrewsByOrg(organizationId),
+    storage.getEmployeesByOrg(organizationId),
+    storage.getVehiclesByOrg(organizationId),
+    storage.getDepotsByOrg(organizationId),
+    storage.getColorLabelsByOrg(organizationId),
+  ]);
+
+  const items = allItems.filter((item) => {
+    const day = toDayKey(item.date);
+    return (
+      item.status === "approved" &&
+      day >= query.from &&
+      day <= query.to &&
+      (query.depotIds.length === 0 || query.depotIds.includes(item.depotId))
+    );
+  });
+
+  // Crew days, each with its jobs and its people
+  const crewDays = new Map<string, { day: string; crewId: string; depotId: string; jobs: ScheduleItem[]; people: ScheduleItem[] }>();
+  for (const item of items) {
+    const isJob = item.type === "job" && (query.includeFree || item.jobStatus !== "free");
+    if (!isJob && !isPerson(item)) continue;
+    const day = toDayKey(item.date);
+    const key = `${item.crewId}:${day}`;
+    const entry = crewDays.get(key) ?? { day, crewId: item.crewId, depotId: item.depotId, jobs: [], people: [] };
+    (isJob ? entry.jobs : entry.people).push(item);
+    crewDays.set(key, entry);
+  }
+
+  const nameOf = (list: Array<{ id: string; name: string }>, id: string | null) => (id ? list.find((entry) => entry.id === id)?.name : undefined);
+  const namesOf = (list: Array<{ id: string; name: string }>, ids: Array<string | null>) =>
+    [...new Set(ids)].map((id) => nameOf(list, id)).filter((name): name is string => !!name).join(", ");
+  const colorLabel = (color: string | null) =>
+    color ? (colorLabels.find((label) => label.color === color)?.label ?? capitalize(color)) : null;
+
+  const rows: Array<{ sort: string[]; cells: SpreadsheetCell[] }> = [];
+  for (const { day, crewId, depotId, jobs, people } of crewDays.values()) {
+    const crew = crews.find((c) => c.id === crewId);
+    const depot = nameOf(depots, depotId) ?? "";
+    const operatives = namesOf(employees, people.map((p) => p.employeeId));
+    const vans = namesOf(vehicles, people.map((p) => p.vehicleId));
+    const allocation = (job: ScheduleItem | null): SpreadsheetCell[] => [
+      day,
+      depot,
+      crew?.name ?? "",
+      crew ? capitalize(crew.shift) : "",
+      job?.jobNumber || null,
+      job?.customer || null,
+      job?.address || null,
+      operatives || null,
+      vans || null,
+      job?.startTime || null,
+      job?.onsiteTime || null,
+      job?.duration ?? null,
+      job ? capitalize(job.jobStatus) : null,
+      job ? colorLabel(job.color) : null,
+    ];
+
+    if (jobs.length === 0) {
+      rows.push({ sort: [day, depot, crew?.name ?? "", ""], cells: allocation(null) });
+      continue;
+    }
+    for (const job of jobs) {
+      rows.push({ sort: [day, depot, crew?.name ?? "", job.startTime || job.onsiteTime || ""], cells: allocation(job) });
+    }
+  }
+
+  rows.sort((a, b) => a.sort.reduce((order, value, i) => order || value.localeCompare(b.sort[i]), 0));
+  return [SCHEDULE_EXPORT_HEADERS, ...rows.map((row) => row.cells)];
+}
+
+/** The export as a file, with its name and content type. */
+export async function buildScheduleExport(
+  organizationId: string,
+  query: ScheduleExportQuery
+): Promise<{ fileName: string; contentType: string; body: Buffer }> {
+  const rows = await buildScheduleExportRows(organizationId, query);
+  const fileName = `schedule-${query.from}-to-${query.to}.${query.format}`;
+  if (query.format === "xlsx") {
+    return {
+      fileName,
+      contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      body: writeXlsx(rows, `${query.from} to ${query.to}`),
+    };
+  }
+  return { fileName, contentType: "text/csv; charset=utf-8", body: writeCsv(rows) };
+}
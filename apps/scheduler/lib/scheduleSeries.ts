@@ -0,0 +1,252 @@
+/**
+ * Repeating bookings
+ *
+ * A schedule series holds the rule (lib/recurrence.ts); every occurrence is an ordinary
+ * schedule item with series_id set, so the calendar, conflict checks and approvals treat them
+ * like any other booking. /api/schedule-series creates a series with its occurrences and
+ * edits them together:
+ * - "this occurrence" is a normal PATCH of the item. Moving it to another day takes it out of
+ *   the series; deleting it leaves an exception so the rule doesn't bring it back.
+ * - "this and following" splits the series at the occurrence: the old series ends the day
+ *   before and a new one, with the edit applied, takes over from there.
+ * - "entire series" edits the series in place. Occurrences before today are left as they
+ *   happened.
+ * Changing the rule adds and removes occurrences from the day the edit applies.
+ */
+
+import { z } from "zod";
+import type { InsertScheduleItem, InsertScheduleSeries, ScheduleItem, ScheduleSeries } from "@shared/schema";
+import type { ScheduleSeriesChanges } from "@/lib/storage";
+import type { ScheduleConflict } from "@/lib/conflicts";
+import { dayKeyToDate, toDayKey, addDaysToKey } from "@/lib/scheduleDates";
+import {
+  MAX_SERIES_OCCURRENCES,
+  SERIES_FREQUENCIES,
+  countSeriesDaysBefore,
+  expandSeries,
+  toSeriesRule,
+  validateSeriesRule,
+  type SeriesRule,
+} from "@/lib/recurrence";
+
+// ---------- Validation ----------
+
+const text = z.string().max(2000).nullable().optional();
+const id = z.string().min(1).nullable().optional();
+
+// What each occurrence is a copy of
+const itemFields = z.object({
+  type: z.enum(["job", "operative", "assistant", "note"]),
+  crewId: z.string().min(1),
+  depotId: z.string().min(1),
+  jobStatus: z.enum(["free", "booked", "cancelled"]).optional(),
+  customer: text,
+  jobNumber: text,
+  address: text,
+  projectManager: text,
+  startTime: text,
+  onsiteTime: text,
+  color: text,
+  duration: z.coerce.number().int().min(0).nullable().optional(),
+  employeeId: id,
+  vehicleId: id,
+  noteContent: text,
+  customerId: id,
+  siteId: id,
+});
+
+const ruleFields = z.object({
+  frequency: z.enum(SERIES_FREQUENCIES),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+  startDate: z.coerce.date(),
+  untilDate: z.coerce.date().nullable().optional(),
+  count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).nullable().optional(),
+});
+
+export const createSeriesSchema = z.object({
+  rule: ruleFields,
+  item: itemFields.extend({ status: z.enum(["approved", "pending"]).optional() }),
+  // An existing booking that becomes the first occurrence, rather than creating a copy of it
+  fromItemId: z.string().min(1).optional(),
+});
+
+// Calendar items carry every field, so unknown keys are dropped rather than rejected.
+// The type and day of each occurrence can't change here: the day comes from the rule.
+export const updateSeriesSchema = z
+  .object({
+    scope: z.enum(["following", "all"]),
+    // The occurrence the edit was made from; required for "following"
+    fromItemId: z.string().min(1).optional(),
+    changes: itemFields.omit({ type: true }).partial().default({}),
+    rule: ruleFields.omit({ startDate: true }).partial().optional(),
+    version: z.number().int().optional(),
+  })
+  .refine((input) => input.scope !== "following" || input.fromItemId, {
+    message: "fromItemId is required for this and following",
+    path: ["fromItemId"],
+  });
+
+export const deleteSeriesSchema = z
+  .object({
+    scope: z.enum(["following", "all"]).default("all"),
+    fromItemId: z.string().min(1).optional(),
+    version: z.coerce.number().int().optional(),
+  })
+  .refine((input) => input.scope !== "following" || input.fromItemId, {
+    message: "fromItemId is required for this and following",
+    path: ["fromItemId"],
+  });
+
+export type CreateSeriesInput = z.infer<typeof createSeriesSchema>;
+export type UpdateSeriesInput = z.infer<typeof updateSeriesSchema>;
+
+// ---------- Rules ----------
+
+/** The rule being created, as day keys. */
+export function ruleFromInput(rule: CreateSeriesInput["rule"]): SeriesRule {
+  return {
+    frequency: rule.frequency,
+    weekdays: rule.weekdays,
+    start: toDayKey(rule.startDate),
+    until: rule.untilDate ? toDayKey(rule.untilDate) : null,
+    count: rule.count ?? null,
+    exceptions: [],
+  };
+}
+
+/** A rule as the columns it's stored in. */
+export function ruleToColumns(rule: SeriesRule): Omit<InsertScheduleSeries, "organizationId" | "createdBy"> {
+  return {
+    frequency: rule.frequency,
+    weekdays: [...rule.weekdays].sort((a, b) => a - b),
+    startDate: dayKeyToDate(rule.start),
+    untilDate: rule.until ? dayKeyToDate(rule.until) : null,
+    count: rule.count ?? null,
+    exceptions: rule.exceptions ?? [],
+  };
+}
+
+/** The occurrences to create for a new series: the template on each day of the rule. */
+export function occurrencesOf(
+  rule: SeriesRule,
+  template: Omit<InsertScheduleItem, "date">,
+  skipDays: string[] = []
+): InsertScheduleItem[] {
+  return expandSeries(rule)
+    .filter((day) => !skipDays.includes(day))
+    .map((day) => ({ ...template, date: dayKeyToDate(day) }));
+}
+
+/** Ids of the items in blocking conflicts, to record the override on. */
+export function blockingItemIds(conflicts: ScheduleConflict[]): Set<string> {
+  return new Set(conflicts.filter((c) => c.severity === "error").flatMap((c) => c.items.map((i) => i.id)));
+}
+
+// ---------- Editing ----------
+
+// Fields copied from an existing occurrence when the rule adds new ones
+const TEMPLATE_OMIT = ["id", "date", "version", "approvedAt", "conflictOverrideReason", "conflictOverriddenBy", "conflictOverriddenAt"] as const;
+
+function templateFrom(item: ScheduleItem): InsertScheduleItem {
+  const template: Record<string, unknown> = { ...item };
+  for (const key of TEMPLATE_OMIT) delete template[key];
+  return template as InsertScheduleItem;
+}
+
+export interface SeriesEditPlan {
+  changes: ScheduleSeriesChanges;
+  // The occurrences as they'll look after the edit, for conflict checks (new ones have placeholder ids)
+  candidates: Array<ScheduleItem | (InsertScheduleItem & { id: string })>;
+}
+
+/**
+ * Work out an edit or delete of the series from `from` (a day key) onwards. Returns the changes
+ * to save, or an error message.
+ */
+export function planSeriesEdit(options: {
+  series: ScheduleSeries;
+  scope: "following" | "all";
+  occurrences: ScheduleItem[];
+  from: string;
+  changes?: Partial<InsertScheduleItem>;
+  rule?: UpdateSeriesInput["rule"];
+  remove?: boolean;
+}): SeriesEditPlan | { error: string } {
+  const { series, occurrences, from, changes = {}, remove = false } = options;
+  const current = toSeriesRule(series, toDayKey);
+  const earlierDays = countSeriesDaysBefore(current, from);
+  const affected = occurrences.filter((item) => toDayKey(item.date) >= from);
+
+  // The rule from `from` onwards
+  const ruleChanged = !!options.rule && Object.keys(options.rule).length > 0;
+  const next: SeriesRule = {
+    ...current,
+    ...(options.rule?.frequency ? { frequency: options.rule.frequency } : {}),
+    ...(options.rule?.weekdays ? { weekdays: options.rule.weekdays } : {}),
+    ...(options.rule && "untilDate" in options.rule
+      ? { until: options.rule.untilDate ? toDayKey(options.rule.untilDate) : null }
+      : {}),
+    ...(options.rule && "count" in options.rule ? { count: options.rule.count ?? null } : {}),
+  };
+
+  const plan: ScheduleSeriesChanges = { series: {}, create: [], update: [], remove: [] };
+  const earlier = {
+    untilDate: dayKeyToDate(addDaysToKey(from, -1)),
+    count: current.count ? earlierDays : null,
+    exceptions: (current.exceptions ?? []).filter((day) => day < from),
+  };
+
+  if (remove) {
+    plan.remove = affected.map((item) => item.id);
+    // Keep the series for the occurrences before `from`, if there are any
+    plan.series = earlierDays > 0 ? earlier : null;
+    return { changes: plan, candidates: [] };
+  }
+
+  let target = next;
+  if (options.scope === "following" && earlierDays > 0) {
+    // Occurrences already before `from`: end this series there and carry on in a new one
+    const remaining = current.count ? Math.max(current.count - earlierDays, 1) : null;
+    target = {
+      ...next,
+      start: from,
+      count: options.rule && "count" in options.rule ? next.count : remaining,
+      exceptions: (current.exceptions ?? []).filter((day) => day >= from),
+    };
+    plan.series = earlier;
+    plan.split = { ...ruleToColumns(target), organizationId: series.organizationId, createdBy: series.createdBy };
+  } else if (ruleChanged) {
+    plan.series = ruleToColumns(target);
+  }
+
+  const invalid = ruleChanged ? validateSeriesRule(target) : null;
+  if (invalid) return { error: invalid };
+
+  const candidates: SeriesEditPlan["candidates"] = [];
+  const days = new Set(ruleChanged ? expandSeries(target).filter((day) => day >= from) : []);
+  const covered = new Set<string>();
+  for (const item of affected) {
+    const day = toDayKey(item.date);
+    if (ruleChanged && !days.has(day)) {
+      plan.remove.push(item.id);
+      continue;
+    }
+    covered.add(day);
+    plan.update.push({ id: item.id, data: changes });
+    candidates.push({ ...item, ...changes } as ScheduleItem);
+  }
+
+  const missing = [...days].filter((day) => !covered.has(day));
+  if (missing.length > 0) {
+    const anchor = affected[0] ?? occurrences[occurrences.length - 1];
+    if (!anchor) return { error: "The series has no occurrences left to copy" };
+    const template = { ...templateFrom(anchor), ...changes };
+    missing.forEach((day, index) => {
+      const created = { ...template, date: dayKeyToDate(day) };
+      plan.create.push(created);
+      candidates.push({ ...created, id: `new-${index}` });
+    });
+  }
+
+  return { changes: plan, candidates };
+}
@@ -0,0 +1,100 @@
+/**
+ * Session cookie signing
+ *
+ * EDGE-SAFE: uses Web Crypto only (no node:crypto, no database) so middleware.ts can
+ * reject forged or expired cookies before a request reaches the app.
+ *
+ * Cookie value format: `<token>.<expiresAtSeconds>.<signature>`
+ * - token: opaque random value; only its SHA-256 hash is stored in the sessions table
+ * - signature: HMAC-SHA256 over `<token>.<expiresAtSeconds>` with SESSION_SECRET
+ */
+
+export const SESSION_COOKIE = "session";
+
+// Pre-sessions cookie that held the raw user id (see LEGACY_USERID_COOKIE_UNTIL in lib/session.ts)
+export const LEGACY_USER_COOKIE = "userId";
+
+const DEV_SESSION_SECRET = "sewer-swarm-dev-session-secret";
+
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET is not set. Sessions cannot be signed.");
+  }
+  return DEV_SESSION_SECRET;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+async function hmac(value: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(value));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function generateSessionToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+}
+
+export async function signSessionCookie(token: string, expiresAt: Date): Promise<string> {
+  const payload = `${token}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${await hmac(payload, getSessionSecret())}`;
+}
+
+/**
+ * Verify signature and expiry of a session cookie value.
+ * Returns the token if valid; the caller still has to check it hasn't been revoked.
+ */
+export async function verifySessionCookie(value: string | undefined): Promise<{ token: string; expiresAt: Date } | null> {
+  if (!value) return null;
+
+  const parts = value.split(".");
+  if (parts.length !== 3) return null;
+
+  const [token, expiresRaw, signature] = parts;
+  const expiresSeconds = Number(expiresRaw);
+  if (!token || !Number.isFinite(expiresSeconds)) return null;
+
+  const expected = await hmac(`${token}.${expiresRaw}`, getSessionSecret());
+  if (!timingSafeEqual(signature, expected)) return null;
+
+  const expiresAt = new Date(expiresSeconds * 1000);
+  if (expiresAt.getTime() <= Date.now()) return null;
+
+  return { token, expiresAt };
+}
+
+/**
+ * Whether raw `userId` cookies are still accepted (and exchanged for a real session).
+ * Controlled by LEGACY_USERID_COOKIE_UNTIL (ISO date); closed when unset.
+ */
+export function isLegacyCookieMigrationOpen(): boolean {
+  const until = process.env.LEGACY_USERID_COOKIE_UNTIL;
+  if (!until) return false;
+  const untilDate = new Date(until);
+  return !Number.isNaN(untilDate.getTime()) && untilDate.getTime() > Date.now();
+}
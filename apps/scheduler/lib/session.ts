@@ -0,0 +1,126 @@
+import { cookies } from "next/headers";
+import { createHash } from "crypto";
+import { storage } from "@/lib/storage";
+import {
+  SESSION_COOKIE,
+  LEGACY_USER_COOKIE,
+  generateSessionToken,
+  signSessionCookie,
+  verifySessionCookie,
+  isLegacyCookieMigrationOpen,
+} from "@/lib/session-token";
+
+/**
+ * Server-side sessions (Node runtime only - uses the database)
+ *
+ * Login/register/invite-accept call startSession(), which revokes the caller's previous
+ * session (rotation) and issues a new signed cookie. getSessionUserId() verifies the
+ * signature, then checks the sessions table so logout and password changes take effect
+ * immediately.
+ */
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+type CookieStore = Awaited<ReturnType<typeof cookies>>;
+
+export function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function sessionCookieOptions(expiresAt: Date) {
+  return {
+    httpOnly: true,
+    path: "/",
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    expires: expiresAt,
+  };
+}
+
+async function getActiveSession(cookieStore: CookieStore) {
+  const verified = await verifySessionCookie(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!verified) return undefined;
+
+  const session = await storage.getSessionByTokenHash(hashSessionToken(verified.token));
+  if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+    return undefined;
+  }
+  return session;
+}
+
+/**
+ * Create a session for the user and set the signed cookie.
+ * Any session already attached to this browser is revoked first.
+ */
+export async function startSession(userId: string, userAgent?: string | null): Promise<void> {
+  const cookieStore = await cookies();
+
+  const previous = await getActiveSession(cookieStore);
+  if (previous) {
+    await storage.revokeSession(previous.id);
+  }
+
+  const token = generateSessionToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await storage.createSession({
+    userId,
+    tokenHash: hashSessionToken(token),
+    expiresAt,
+    userAgent: userAgent ?? null,
+  });
+
+  cookieStore.set(SESSION_COOKIE, await signSessionCookie(token, expiresAt), sessionCookieOptions(expiresAt));
+  cookieStore.delete(LEGACY_USER_COOKIE);
+}
+
+/**
+ * Revoke the current browser's session and clear its cookies
+ */
+export async function endSession(): Promise<void> {
+  const cookieStore = await cookies();
+
+  const session = await getActiveSession(cookieStore);
+  if (session) {
+    await storage.revokeSession(session.id);
+  }
+
+  cookieStore.delete(SESSION_COOKIE);
+  cookieStore.delete(LEGACY_USER_COOKIE);
+}
+
+/**
+ * Resolve the signed-in user id, or null if there is no valid session.
+ *
+ * While LEGACY_USERID_COOKIE_UNTIL is in the future, a pre-sessions `userId` cookie is
+ * exchanged once for a real session so existing users aren't logged out by the deploy.
+ */
+export async function getSessionUserId(): Promise<string | null> {
+  const cookieStore = await cookies();
+
+  const session = await getActiveSession(cookieStore);
+  if (session) return session.userId;
+
+  const legacyUserId = cookieStore.get(LEGACY_USER_COOKIE)?.value;
+  if (!legacyUserId) return null;
+
+  if (!isLegacyCookieMigrationOpen()) {
+    try {
+      cookieStore.delete(LEGACY_USER_COOKIE);
+    } catch {
+      // Cookies are read-only outside route handlers
+    }
+    return null;
+  }
+
+  const user = await storage.getUser(legacyUserId);
+  if (!user) return null;
+
+  try {
+    await startSession(user.id);
+    console.log("[session] Migrated legacy userId cookie to a signed session:", user.id);
+  } catch (error) {
+    console.error("[session] Failed to migrate legacy userId cookie:", error);
+  }
+  return user.id;
+}
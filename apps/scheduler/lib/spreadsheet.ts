@@ -0,0 +1,405 @@
+/**
+ * Reading and writing spreadsheets (server only)
+ *
+ * CSV and XLSX files come back as rows of cell text, first row first. An XLSX file is a zip of
+ * XML parts; only the first worksheet is read, with shared strings resolved and every other
+ * cell taken as its stored text (numbers unformatted, TRUE/FALSE for booleans).
+ *
+ * Exports go the other way: rows of text and numbers become a CSV file, or a one-sheet workbook
+ * with a bold, frozen header row. Its zip is stored uncompressed, so no deflate is needed.
+ */
+
+import { inflateRawSync } from "zlib";
+
+export type SpreadsheetRows = string[][];
+
+// A cell to write: numbers stay numbers in XLSX, null is an empty cell
+export type SpreadsheetCell = string | number | null;
+
+// ---------- CSV ----------
+
+/** Rows of a CSV file. Accepts comma, semicolon or tab separators (whichever the header uses most). */
+export function parseCsv(text: string): SpreadsheetRows {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const separator = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: SpreadsheetRows = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---------- XLSX ----------
+
+// Limits on what an uploaded workbook can unpack to, so a small zip can't fill the server's memory
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+const TOO_LARGE = "The workbook is too large to import";
+
+// Excel's own limits, checked as cells are read so a stray reference can't size the rows
+const MAX_SHEET_ROWS = 1_048_576;
+const MAX_SHEET_COLUMNS = 16_384;
+
+// The files in a zip archive, by path
+function unzip(bytes: Buffer): Map<string, Buffer> {
+  // End of central directory record: the last 22+ bytes, found by its signature
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (bytes.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("The file is not a valid .xlsx workbook");
+
+  const files = new Map<string, Buffer>();
+  const count = bytes.readUInt16LE(end + 10);
+  if (count > MAX_ZIP_ENTRIES) throw new Error(TOO_LARGE);
+  let offset = bytes.readUInt32LE(end + 16);
+  let unzipped = 0;
+  for (let n = 0; n < count; n++) {
+    if (bytes.readUInt32LE(offset) !== 0x02014b50) throw new Error("The file is not a valid .xlsx workbook");
+    const method = bytes.readUInt16LE(offset + 10);
+    const compressedSize = bytes.readUInt32LE(offset + 20);
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const extraLength = bytes.readUInt16LE(offset + 30);
+    const commentLength = bytes.readUInt16LE(offset + 32);
+    const localOffset = bytes.readUInt32LE(offset + 42);
+    const name = bytes.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + bytes.readUInt16LE(localOffset + 26) + bytes.readUInt16LE(localOffset + 28);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    let file: Buffer | null = null;
+    if (method === 0) {
+      file = data;
+    } else if (method === 8) {
+      try {
+        file = inflateRawSync(data, { maxOutputLength: Math.max(1, MAX_UNZIPPED_BYTES - unzipped) });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw new Error(TOO_LARGE);
+        throw new Error("The file is not a valid .xlsx workbook");
+      }
+    }
+    if (file) {
+      unzipped += file.length;
+      if (unzipped > MAX_UNZIPPED_BYTES) throw new Error(TOO_LARGE);
+      files.set(name, file);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+}
+
+// The text of every <t> in a string item or inline string (rich text comes in several runs)
+const runText = (xml: string) =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join("");
+
+const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// "AB12" -> 27
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.replace(/\d+$/, "").toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Path of the workbook's first worksheet
+function firstSheetPath(files: Map<string, Buffer>): string {
+  const workbook = files.get("xl/workbook.xml")?.toString("utf8");
+  const rels = files.get("xl/_rels/workbook.xml.rels")?.toString("utf8");
+  const sheet = workbook?.match(/<sheet\s[^>]*>/)?.[0];
+  const relId = sheet && attribute(sheet, "r:id");
+  const rel = relId && rels ? [...rels.matchAll(/<Relationship\s[^>]*>/g)].find((m) => attribute(m[0], "Id") === relId) : undefined;
+  const target = rel && attribute(rel[0], "Target");
+  if (!target) return "xl/worksheets/sheet1.xml";
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+/** Rows of the first worksheet of an XLSX workbook, refusing any beyond `maxRows`. */
+export function readXlsx(bytes: Buffer, maxRows: number = MAX_SHEET_ROWS): SpreadsheetRows {
+  const files = unzip(bytes);
+  const sheet = files.get(firstSheetPath(files))?.toString("utf8");
+  if (!sheet) throw new Error("The workbook has no worksheet");
+  const sharedStrings = [...(files.get("xl/sharedStrings.xml")?.toString("utf8") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map(
+    (m) => runText(m[1])
+  );
+
+  const rows: SpreadsheetRows = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], "r")) || rows.length + 1;
+    if (rowNumber > maxRows) throw new Error("The sheet has too many rows to import");
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const tag = ` ${cellMatch[1]}`;
+      const body = cellMatch[2] ?? "";
+      const ref = attribute(tag, "r");
+      const type = attribute(tag, "t");
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = "";
+      if (type === "s") value = sharedStrings[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = runText(body);
+      else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+      else if (raw !== undefined) value = decodeXml(raw);
+      const column = ref ? columnIndex(ref) : row.length;
+      if (column >= MAX_SHEET_COLUMNS) throw new Error("The sheet has too many columns to import");
+      row[column] = value;
+    }
+    rows[rowNumber - 1] = Array.from(row, (value) => value ?? "");
+  }
+  return Array.from(rows, (row) => row ?? []);
+}
+
+// ---------- Uploads ----------
+
+/** Rows of an uploaded .csv or .xlsx file, by its name. */
+export function readSpreadsheet(fileName: string, bytes: Buffer, maxRows?: number): SpreadsheetRows {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "xlsx") return readXlsx(bytes, maxRows);
+  if (extension === "csv" || extension === "txt") return parseCsv(bytes.toString("utf8"));
+  throw new Error("Upload a .csv or .xlsx file");
+}
+
+// ---------- Writing ----------
+
+// Text a spreadsheet app would run as a formula when it opens a CSV
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** A CSV file (CRLF line ends, with a BOM so Excel reads it as UTF-8). */
+export function writeCsv(rows: SpreadsheetCell[][]): Buffer {
+  const field = (cell: SpreadsheetCell) => {
+    if (cell === null) return "";
+    if (typeof cell === "number") return String(cell);
+    const text = FORMULA_START.test(cell) ? `'${cell}` : cell;
+    return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return Buffer.from(`\uFEFF${rows.map((row) => row.map(field).join(",")).join("\r\n")}\r\n`, "utf8");
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// A zip archive of the files as given, stored without compression
+function zip(files: Array<{ name: string; data: Buffer }>): Buffer {
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const crc = crc32(file.data);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0800, 6); // UTF-8 names
+    header.writeUInt16LE(0, 8); // stored
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(file.data.length, 18);
+    header.writeUInt32LE(file.data.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, file.data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(0x0800, 8);
+    entry.writeUInt16LE(0, 10);
+    entry.writeUInt16LE(time, 12);
+    entry.writeUInt16LE(date, 14);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(file.data.length, 20);
+    entry.writeUInt32LE(file.data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += header.length + name.length + file.data.length;
+  }
+
+  const directorySize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...local, ...central, end]);
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters aren't allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+// 0 -> "A", 27 -> "AB"
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** A one-sheet XLSX workbook; the first row is the header. */
+export function writeXlsx(rows: SpreadsheetCell[][], sheetName = "Sheet1"): Buffer {
+  const columnCount = Math.max(1, ...rows.map((row) => row.length));
+  const widths = Array.from({ length: columnCount }, (_, c) =>
+    Math.min(60, Math.max(8, ...rows.map((row) => String(row[c] ?? "").length + 2)))
+  );
+  const lastCell = `${columnName(columnCount - 1)}${Math.max(1, rows.length)}`;
+
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : "";
+      if (cell === null || cell === "") return "";
+      if (typeof cell === "number") return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${encodeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+
+  const sheet =
+    XML_HEADER +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${widths.map((width, c) => `<col min="${c + 1}" max="${c + 1}" width="${width}" customWidth="1"/>`).join("")}</cols>` +
+    `<sheetData>${sheetRows.join("")}</sheetData>` +
+    (rows.length > 1 ? `<autoFilter ref="A1:${lastCell}"/>` : "") +
+    "</worksheet>";
+
+  // Sheet names can't have []:*?/\ and are at most 31 characters
+  const name = encodeXml(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet1");
+
+  return zip([
+    {
+      name: "[Content_Types].xml",
+      data: Buffer.from(
+        XML_HEADER +
+          '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+          '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+          "</Types>"
+      ),
+    },
+    {
+      name: "_rels/.rels",
+      data: Buffer.from(
+        XML_HEADER +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          "</Relationships>"
+      ),
+    },
+    {
+      name: "xl/workbook.xml",
+      data: Buffer.from(
+        XML_HEADER +
+          '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+          `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>` +
+          (rows.length > 1
+            ? `<definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">'${name.replace(/'/g, "''")}'!$A$1:$${columnName(columnCount - 1)}$${rows.length}</definedName></definedNames>`
+            : "") +
+          "</workbook>"
+      ),
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      data: Buffer.from(
+        XML_HEADER +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+          '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+          "</Relationships>"
+      ),
+    },
+    {
+      name: "xl/styles.xml",
+      data: Buffer.from(
+        XML_HEADER +
+          '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+          '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+          '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+          '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+          '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+          '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+          '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+          "</styleSheet>"
+      ),
+    },
+    { name: "xl/worksheets/sheet1.xml", data: Buffer.from(sheet) },
+  ]);
+}
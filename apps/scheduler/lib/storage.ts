@@ -9,10 +9,27 @@ import {
     type InsertEmployee,
     type EmployeeAbsence,
     type InsertEmployeeAbsence,
+    type LeaveAllowance,
+    type InsertLeaveAllowance,
     type Vehicle,
     type InsertVehicle,
+    type VehicleUnavailability,
+    type InsertVehicleUnavailability,
     type ScheduleItem,
     type InsertScheduleItem,
+    type ScheduleSeries,
+    type InsertScheduleSeries,
+    type Job,
+    type InsertJob,
+    type Customer,
+    type InsertCustomer,
+    type Site,
+    type InsertSite,
+    type JobStatus,
+    type EmailDispatch,
+    type InsertEmailDispatch,
+    type CalendarFeed,
+    type InsertCalendarFeed,
     type ColorLabel,
     type InsertColorLabel,
     type Organization,
@@ -21,22 +38,46 @@ import {
     type InsertMembership,
     type TeamInvite,
     type InsertTeamInvite,
+    type Session,
+    type InsertSession,
+    type StripeEvent,
+    type InsertStripeEvent,
+    type OrganizationSettingsRow,
+    type InsertOrganizationSettings,
     type MemberRole,
-    type PlanType,
+    type AuditEvent,
+    type AuditEntityType,
+    type AuditAction,
     users,
     depots,
     crews,
     employees,
     employeeAbsences,
+    leaveAllowances,
     vehicles,
+    vehicleUnavailability,
     scheduleItems,
+    scheduleSeries,
+    jobs,
+    customers,
+    sites,
+    emailDispatches,
+    calendarFeeds,
     colorLabels,
     organizations,
     organizationMemberships,
     teamInvites,
+    sessions,
+    stripeEvents,
+    organizationSettings,
+    auditEvents,
   } from "@shared/schema";
   import { db } from "@/lib/db";
-  import { eq, and, sql, desc, isNull, isNotNull, gte } from "drizzle-orm";
+  import { auditChanges, getAuditActor, type AuditEventFilters } from "@/lib/audit";
+  import { toDayKey } from "@/lib/scheduleDates";
+  import type { ScheduleItemApproval } from "@/lib/approvalPolicy";
+  import { eq, and, or, sql, desc, isNull, isNotNull, gt, gte, lte, lt, ne, ilike, inArray, TransactionRollbackError } from "drizzle-orm";
+  import type { PgColumn } from "drizzle-orm/pg-core";
   
   // Helper to ensure db is available
   function getDb() {
@@ -46,6 +87,24 @@ import {
     return db;
   }
 
+  // Optimistic concurrency: every update bumps the row's version, and an update made with the
+  // version the edit started from only applies if nobody has changed the row since
+  const nextVersion = (version: PgColumn) => sql`${version} + 1`;
+
+  function versionMatches(idColumn: PgColumn, id: string, versionColumn: PgColumn, expectedVersion?: number) {
+    return expectedVersion === undefined
+      ? eq(idColumn, id)
+      : and(eq(idColumn, id), eq(versionColumn, expectedVersion));
+  }
+
+  // A schedule item still waiting for approval, so two decisions can't both land
+  function pendingItemMatches(id: string, expectedVersion?: number) {
+    return and(versionMatches(scheduleItems.id, id, scheduleItems.version, expectedVersion), eq(scheduleItems.status, "pending"));
+  }
+
+  // A search term as an ILIKE pattern fragment, with its wildcards taken literally
+  const escapeLike = (term: string) => term.replace(/[%_\\]/g, "\\$&");
+
   // Helper to wrap database operations with better error handling
   async function handleDbError<T>(operation: () => Promise<T>, operationName: string): Promise<T> {
     try {
@@ -117,6 +176,56 @@ import {
     }
   }
   
+  /**
+   * One edit to a repeating booking and its occurrences, saved together (see lib/scheduleSeries.ts).
+   * Applied only if the series is still at `expectedVersion`, when given.
+   */
+  export interface ScheduleSeriesChanges {
+    expectedVersion?: number;
+    // New values for the series, or null to delete it
+    series: Partial<InsertScheduleSeries> | null;
+    // A new series that takes over the created and updated occurrences ("this and following")
+    split?: InsertScheduleSeries;
+    create: InsertScheduleItem[];
+    update: Array<{ id: string; data: Partial<InsertScheduleItem> }>;
+    remove: string[];
+  }
+
+  export interface ScheduleSeriesChangeResult {
+    series?: ScheduleSeries;
+    split?: ScheduleSeries;
+    created: ScheduleItem[];
+    updated: ScheduleItem[];
+    removed: ScheduleItem[];
+  }
+
+  export interface JobFilters {
+    // Matched against job number, customer and address
+    search?: string;
+    status?: JobStatus;
+  }
+
+  // A job with what's allocated to it; cancelled days don't count
+  export interface JobWithTotals extends Job {
+    allocatedDays: number;
+    allocatedHours: number;
+    firstDate: Date | null;
+    lastDate: Date | null;
+  }
+
+  /** How a job update is written through to its allocations (see lib/jobs.ts). */
+  export interface JobAllocationChanges {
+    fields: Partial<InsertScheduleItem>;
+    // Moves allocations whose job status is one of `from` to `to`
+    jobStatus?: { from: string[]; to: string };
+  }
+
+  export interface SiteFilters {
+    customerId?: string;
+    // Matched against site name, address and postcode
+    search?: string;
+  }
+
   export interface IStorage {
     // Users
     getUser(id: string): Promise<User | undefined>;
@@ -129,12 +238,30 @@ import {
       subscriptionStatus?: string;
       trialEndsAt?: Date;
     }): Promise<User | undefined>;
+    updateUserPassword(userId: string, passwordHash: string): Promise<User | undefined>;
+
+    // Sessions
+    createSession(session: InsertSession): Promise<Session>;
+    getSessionByTokenHash(tokenHash: string): Promise<Session | undefined>;
+    revokeSession(id: string): Promise<void>;
+    revokeUserSessions(userId: string): Promise<void>;
     
     // Organizations
     getOrganization(id: string): Promise<Organization | undefined>;
     getOrganizationByOwner(ownerId: string): Promise<Organization | undefined>;
     createOrganization(org: InsertOrganization): Promise<Organization>;
     updateOrganization(id: string, org: Partial<InsertOrganization>): Promise<Organization | undefined>;
+    getOrganizationByStripeCustomer(customerId: string): Promise<Organization | undefined>;
+    getOrganizationByStripeSubscription(subscriptionId: string): Promise<Organization | undefined>;
+
+    // Stripe webhook events
+    claimStripeEvent(event: InsertStripeEvent): Promise<{ event: StripeEvent; isNew: boolean }>;
+    updateStripeEvent(id: string, changes: Partial<InsertStripeEvent>): Promise<void>;
+
+    // Organization Settings
+    getOrganizationSettings(organizationId: string): Promise<OrganizationSettingsRow | undefined>;
+    upsertOrganizationSettings(organizationId: string, values: Partial<InsertOrganizationSettings>, updatedBy: string): Promise<OrganizationSettingsRow>;
+    importOrganizationSettings(organizationId: string, values: Partial<InsertOrganizationSettings>, updatedBy: string): Promise<OrganizationSettingsRow | undefined>;
     
   // Organization Memberships
   getMembership(userId: string, organizationId: string): Promise<OrganizationMembership | undefined>;
@@ -168,7 +295,7 @@ import {
     getDepots(userId: string): Promise<Depot[]>;
     getDepot(id: string): Promise<Depot | undefined>;
     createDepot(depot: InsertDepot): Promise<Depot>;
-    updateDepot(id: string, depot: Partial<InsertDepot>): Promise<Depot | undefined>;
+    updateDepot(id: string, depot: Partial<InsertDepot>, expectedVersion?: number): Promise<Depot | undefined>;
     archiveDepot(id: string): Promise<Depot | undefined>;
     restoreDepot(id: string): Promise<Depot | undefined>;
     deleteDepot(id: string): Promise<void>;
@@ -179,7 +306,7 @@ import {
     getCrews(userId: string): Promise<Crew[]>;
     getCrew(id: string): Promise<Crew | undefined>;
     createCrew(crew: InsertCrew): Promise<Crew>;
-    updateCrew(id: string, crew: Partial<InsertCrew>): Promise<Crew | undefined>;
+    updateCrew(id: string, crew: Partial<InsertCrew>, expectedVersion?: number): Promise<Crew | undefined>;
     archiveCrew(id: string): Promise<Crew | undefined>;
     restoreCrew(id: string): Promise<Crew | undefined>;
     
@@ -188,31 +315,106 @@ import {
     getEmployees(userId: string): Promise<Employee[]>;
     getEmployee(id: string): Promise<Employee | undefined>;
     createEmployee(employee: InsertEmployee): Promise<Employee>;
-    updateEmployee(id: string, employee: Partial<InsertEmployee>): Promise<Employee | undefined>;
+    updateEmployee(id: string, employee: Partial<InsertEmployee>, expectedVersion?: number): Promise<Employee | undefined>;
     deleteEmployee(id: string): Promise<void>;
 
     // Employee absences (by organization)
     getEmployeeAbsencesByOrg(organizationId: string): Promise<EmployeeAbsence[]>;
+    getEmployeeAbsence(id: string): Promise<EmployeeAbsence | undefined>;
     createEmployeeAbsence(absence: InsertEmployeeAbsence): Promise<EmployeeAbsence>;
+    updateEmployeeAbsence(id: string, absence: Partial<InsertEmployeeAbsence>): Promise<EmployeeAbsence | undefined>;
+    deleteEmployeeAbsence(id: string): Promise<void>;
+
+    // Leave allowances - holiday entitlement and carry-over per leave year (by organization)
+    getLeaveAllowancesByOrg(organizationId: string): Promise<LeaveAllowance[]>;
+    upsertLeaveAllowance(
+      organizationId: string,
+      employeeId: string,
+      leaveYearStart: string,
+      values: Partial<InsertLeaveAllowance>,
+      updatedBy: string
+    ): Promise<LeaveAllowance>;
     
     // Vehicles (by organization)
     getVehiclesByOrg(organizationId: string): Promise<Vehicle[]>;
     getVehicles(userId: string): Promise<Vehicle[]>;
     getVehicle(id: string): Promise<Vehicle | undefined>;
     createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
-    updateVehicle(id: string, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined>;
+    // Bulk import (lib/resourceImport.ts): every row is created, or none are
+    importResources(rows: { employees?: InsertEmployee[]; vehicles?: InsertVehicle[] }): Promise<{ employees: Employee[]; vehicles: Vehicle[] }>;
+    updateVehicle(id: string, vehicle: Partial<InsertVehicle>, expectedVersion?: number): Promise<Vehicle | undefined>;
     deleteVehicle(id: string): Promise<void>;
+
+    // Vehicle unavailability - off road / maintenance periods (by organization)
+    getVehicleUnavailabilityByOrg(organizationId: string): Promise<VehicleUnavailability[]>;
+    getVehicleUnavailability(id: string): Promise<VehicleUnavailability | undefined>;
+    createVehicleUnavailability(period: InsertVehicleUnavailability): Promise<VehicleUnavailability>;
+    updateVehicleUnavailability(id: string, period: Partial<InsertVehicleUnavailability>): Promise<VehicleUnavailability | undefined>;
+    deleteVehicleUnavailability(id: string): Promise<void>;
     
     // Schedule Items (by organization)
     getScheduleItemsByOrg(organizationId: string, startDate?: Date, endDate?: Date): Promise<ScheduleItem[]>;
+    // Date of the organization's last non-rejected item: how far ahead the diary is planned
+    getLatestScheduleItemDate(organizationId: string): Promise<Date | null>;
     getPendingScheduleItems(organizationId: string): Promise<ScheduleItem[]>;
-    approveScheduleItem(id: string, approverId: string): Promise<ScheduleItem | undefined>;
-    rejectScheduleItem(id: string, approverId: string, reason: string): Promise<ScheduleItem | undefined>;
+    // Undefined if the item is missing or no longer at the expected version
+    approveScheduleItem(id: string, approverId: string, expectedVersion?: number): Promise<ScheduleItem | undefined>;
+    rejectScheduleItem(id: string, approverId: string, reason: string, expectedVersion?: number): Promise<ScheduleItem | undefined>;
+    // Records an approved step of a multi-step approval; the item stays pending
+    recordApprovalStep(id: string, approval: ScheduleItemApproval, expectedVersion?: number): Promise<ScheduleItem | undefined>;
     getScheduleItems(userId: string, startDate?: Date, endDate?: Date): Promise<ScheduleItem[]>;
     getScheduleItem(id: string): Promise<ScheduleItem | undefined>;
     createScheduleItem(item: InsertScheduleItem): Promise<ScheduleItem>;
-    updateScheduleItem(id: string, item: Partial<InsertScheduleItem>): Promise<ScheduleItem | undefined>;
+    updateScheduleItem(id: string, item: Partial<InsertScheduleItem>, expectedVersion?: number): Promise<ScheduleItem | undefined>;
     deleteScheduleItem(id: string): Promise<void>;
+    // Several items changed together, all or nothing
+    updateScheduleItems(updates: Array<{ id: string; data: Partial<InsertScheduleItem> }>): Promise<ScheduleItem[]>;
+    createScheduleItems(items: InsertScheduleItem[]): Promise<ScheduleItem[]>;
+
+    // Jobs (allocated to days through schedule items)
+    getJobsByOrg(organizationId: string, filters?: JobFilters): Promise<JobWithTotals[]>;
+    getJob(id: string): Promise<Job | undefined>;
+    getJobByNumber(organizationId: string, jobNumber: string): Promise<Job | undefined>;
+    getScheduleItemsByJob(jobId: string): Promise<ScheduleItem[]>;
+    createJob(job: InsertJob): Promise<Job>;
+    // Undefined if the job is missing or no longer at the expected version
+    updateJob(
+      id: string,
+      job: Partial<InsertJob>,
+      allocations?: JobAllocationChanges,
+      expectedVersion?: number
+    ): Promise<{ job: Job; items: ScheduleItem[] } | undefined>;
+    // Its allocations stay on the schedule, no longer linked
+    deleteJob(id: string): Promise<void>;
+
+    // Customer directory (by organization)
+    getCustomersByOrg(organizationId: string, search?: string): Promise<Customer[]>;
+    getCustomer(id: string): Promise<Customer | undefined>;
+    createCustomer(customer: InsertCustomer): Promise<Customer>;
+    updateCustomer(id: string, customer: Partial<InsertCustomer>, expectedVersion?: number): Promise<Customer | undefined>;
+    // Its sites go with it; bookings keep their customer and address text
+    deleteCustomer(id: string): Promise<void>;
+
+    // Sites (by organization)
+    getSitesByOrg(organizationId: string, filters?: SiteFilters): Promise<Site[]>;
+    getSite(id: string): Promise<Site | undefined>;
+    createSite(site: InsertSite): Promise<Site>;
+    updateSite(id: string, site: Partial<InsertSite>, expectedVersion?: number): Promise<Site | undefined>;
+    deleteSite(id: string): Promise<void>;
+
+    // Schedule Series (repeating bookings)
+    getScheduleSeries(id: string): Promise<ScheduleSeries | undefined>;
+    getScheduleItemsBySeries(seriesId: string): Promise<ScheduleItem[]>;
+    // Creates the series with its occurrences; `adoptItemIds` are existing items that become occurrences
+    createScheduleSeries(
+      series: InsertScheduleSeries,
+      items: InsertScheduleItem[],
+      adoptItemIds?: string[]
+    ): Promise<{ series: ScheduleSeries; items: ScheduleItem[] }>;
+    // Undefined if the series is missing or no longer at the expected version
+    applyScheduleSeriesChanges(id: string, changes: ScheduleSeriesChanges): Promise<ScheduleSeriesChangeResult | undefined>;
+    // Record a day that no longer has an occurrence, so later rule changes don't recreate it
+    addScheduleSeriesException(id: string, day: string): Promise<void>;
     
     // Color Labels (by organization)
     getColorLabelsByOrg(organizationId: string): Promise<ColorLabel[]>;
@@ -220,7 +422,32 @@ import {
     getColorLabel(id: string): Promise<ColorLabel | undefined>;
     upsertColorLabel(userId: string, color: string, label: string, organizationId?: string): Promise<ColorLabel>;
     deleteColorLabel(id: string): Promise<void>;
+
+    // Schedule emails sent to operatives (by organization), oldest first
+    getEmailDispatchesByOrg(organizationId: string, startDate: Date, endDate: Date): Promise<EmailDispatch[]>;
+    createEmailDispatch(dispatch: InsertEmailDispatch): Promise<EmailDispatch>;
+
+    // Calendar feeds (by organization)
+    getCalendarFeedsByOrg(organizationId: string): Promise<CalendarFeed[]>;
+    getCalendarFeed(id: string): Promise<CalendarFeed | undefined>;
+    getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+    getCalendarFeedBySubject(organizationId: string, scope: string, subjectId: string): Promise<CalendarFeed | undefined>;
+    createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed>;
+    rotateCalendarFeedToken(id: string, token: string): Promise<CalendarFeed | undefined>;
+    deleteCalendarFeed(id: string): Promise<void>;
+
+    // Audit events (by organization), newest first
+    getAuditEvents(organizationId: string, filters: AuditEventFilters): Promise<Array<AuditEvent & { actorName: string | null }>>;
+    getAuditEvent(id: string): Promise<AuditEvent | undefined>;
+    // Oldest first, strictly after the cursor event, for streaming changes (lib/realtime.ts)
+    getAuditEventsAfter(organizationId: string, after: AuditCursor, limit: number): Promise<AuditEvent[]>;
   }
+
+  // Where a stream of audit events has got to: events are ordered by when they happened, then id
+  export type AuditCursor = { createdAt: Date; id: string };
+
+  // A row whose changes are audited
+  type AuditedRow = Record<string, unknown> & { id: string; organizationId: string | null };
   
   export class DatabaseStorage implements IStorage {
     // ============= USERS =============
@@ -268,6 +495,42 @@ import {
       const result = await getDb().update(users).set(stripeInfo).where(eq(users.id, userId)).returning();
       return result[0];
     }
+
+    async updateUserPassword(userId: string, passwordHash: string): Promise<User | undefined> {
+      const result = await getDb().update(users).set({ password: passwordHash }).where(eq(users.id, userId)).returning();
+      return result[0];
+    }
+
+    // ============= SESSIONS =============
+    async createSession(session: InsertSession): Promise<Session> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb().insert(sessions).values(session).returning();
+          return result[0];
+        },
+        'createSession'
+      );
+    }
+
+    async getSessionByTokenHash(tokenHash: string): Promise<Session | undefined> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb().select().from(sessions).where(eq(sessions.tokenHash, tokenHash));
+          return result[0];
+        },
+        'getSessionByTokenHash'
+      );
+    }
+
+    async revokeSession(id: string): Promise<void> {
+      await getDb().update(sessions).set({ revokedAt: new Date() }).where(eq(sessions.id, id));
+    }
+
+    async revokeUserSessions(userId: string): Promise<void> {
+      await getDb().update(sessions).set({ revokedAt: new Date() }).where(
+        and(eq(sessions.userId, userId), isNull(sessions.revokedAt))
+      );
+    }
   
     // ============= ORGANIZATIONS =============
     async getOrganization(id: string): Promise<Organization | undefined> {
@@ -294,6 +557,103 @@ import {
       const result = await getDb().update(organizations).set(org).where(eq(organizations.id, id)).returning();
       return result[0];
     }
+
+    async getOrganizationByStripeCustomer(customerId: string): Promise<Organization | undefined> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb().select().from(organizations).where(eq(organizations.stripeCustomerId, customerId));
+          return result[0];
+        },
+        'getOrganizationByStripeCustomer'
+      );
+    }
+
+    async getOrganizationByStripeSubscription(subscriptionId: string): Promise<Organization | undefined> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb().select().from(organizations).where(eq(organizations.stripeSubscriptionId, subscriptionId));
+          return result[0];
+        },
+        'getOrganizationByStripeSubscription'
+      );
+    }
+
+    // ============= STRIPE EVENTS =============
+    // Record an incoming event. isNew is false when the event id was seen before.
+    async claimStripeEvent(event: InsertStripeEvent): Promise<{ event: StripeEvent; isNew: boolean }> {
+      return await handleDbError(
+        async () => {
+          const inserted = await getDb().insert(stripeEvents).values(event).onConflictDoNothing().returning();
+          if (inserted[0]) return { event: inserted[0], isNew: true };
+          const existing = await getDb().select().from(stripeEvents).where(eq(stripeEvents.id, event.id));
+          return { event: existing[0], isNew: false };
+        },
+        'claimStripeEvent'
+      );
+    }
+
+    async updateStripeEvent(id: string, changes: Partial<InsertStripeEvent>): Promise<void> {
+      await handleDbError(
+        async () => {
+          await getDb().update(stripeEvents).set(changes).where(eq(stripeEvents.id, id));
+        },
+        'updateStripeEvent'
+      );
+    }
+
+    // ============= ORGANIZATION SETTINGS =============
+    async getOrganizationSettings(organizationId: string): Promise<OrganizationSettingsRow | undefined> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb().select().from(organizationSettings).where(eq(organizationSettings.organizationId, organizationId));
+          return result[0];
+        },
+        'getOrganizationSettings'
+      );
+    }
+
+    async upsertOrganizationSettings(
+      organizationId: string,
+      values: Partial<InsertOrganizationSettings>,
+      updatedBy: string
+    ): Promise<OrganizationSettingsRow> {
+      return await handleDbError(
+        async () => {
+          const changes = { ...values, updatedBy, updatedAt: new Date() };
+          const result = await getDb()
+            .insert(organizationSettings)
+            .values({ ...changes, organizationId })
+            .onConflictDoUpdate({ target: organizationSettings.organizationId, set: changes })
+            .returning();
+          return result[0];
+        },
+        'upsertOrganizationSettings'
+      );
+    }
+
+    // Only applies while the organization has never imported; returns undefined if it already has.
+    async importOrganizationSettings(
+      organizationId: string,
+      values: Partial<InsertOrganizationSettings>,
+      updatedBy: string
+    ): Promise<OrganizationSettingsRow | undefined> {
+      return await handleDbError(
+        async () => {
+          const changes = { ...values, importedAt: new Date(), updatedBy, updatedAt: new Date() };
+          const result = await getDb()
+            .insert(organizationSettings)
+            .values({ ...changes, organizationId })
+            .onConflictDoUpdate({
+              target: organizationSettings.organizationId,
+              set: changes,
+              setWhere: isNull(organizationSettings.importedAt),
+            })
+            .returning();
+          return result[0];
+        },
+        'importOrganizationSettings'
+      );
+    }
   
     // ============= ORGANIZATION MEMBERSHIPS =============
     async getMembership(userId: string, organizationId: string): Promise<OrganizationMembership | undefined> {
@@ -341,6 +701,7 @@ import {
       return await handleDbError(
         async () => {
           const result = await getDb().insert(organizationMemberships).values(membership).returning();
+          await this.recordAudit("membership", "create", undefined, result[0]);
           return result[0];
         },
         'createMembership'
@@ -348,12 +709,15 @@ import {
     }
   
     async updateMembershipRole(id: string, role: MemberRole): Promise<OrganizationMembership | undefined> {
+      const before = await this.getMembershipById(id);
       const result = await getDb().update(organizationMemberships).set({ role }).where(eq(organizationMemberships.id, id)).returning();
+      if (result[0]) await this.recordAudit("membership", "update", before, result[0]);
       return result[0];
     }
   
     async deleteMembership(id: string): Promise<void> {
-      await getDb().delete(organizationMemberships).where(eq(organizationMemberships.id, id));
+      const result = await getDb().delete(organizationMemberships).where(eq(organizationMemberships.id, id)).returning();
+      await this.recordAudit("membership", "delete", result[0], undefined);
     }
   
     // ============= TEAM INVITES =============
@@ -373,16 +737,20 @@ import {
   
     async createInvite(invite: InsertTeamInvite): Promise<TeamInvite> {
       const result = await getDb().insert(teamInvites).values(invite).returning();
+      await this.recordAudit("invite", "create", undefined, result[0]);
       return result[0];
     }
   
     async updateInvite(id: string, data: { token: string; expiresAt: Date }): Promise<TeamInvite | undefined> {
+      const before = await this.getInviteById(id);
       const result = await getDb().update(teamInvites).set(data).where(eq(teamInvites.id, id)).returning();
+      if (result[0]) await this.recordAudit("invite", "update", before, result[0]);
       return result[0];
     }
   
     async deleteInvite(id: string): Promise<void> {
-      await getDb().delete(teamInvites).where(eq(teamInvites.id, id));
+      const result = await getDb().delete(teamInvites).where(eq(teamInvites.id, id)).returning();
+      await this.recordAudit("invite", "delete", result[0], undefined);
     }
   
     // ============= QUOTA CHECKING =============
@@ -437,10 +805,11 @@ import {
     async createDepot(depot: InsertDepot): Promise<Depot> {
       const result = await getDb().insert(depots).values(depot).returning();
       const createdDepot = result[0];
+      await this.recordAudit("depot", "create", undefined, createdDepot);
       
       // Automatically create day and night crews for the new depot
       try {
-        await getDb().insert(crews).values([
+        const createdCrews = await getDb().insert(crews).values([
           {
             name: "Day Shift",
             depotId: createdDepot.id,
@@ -455,7 +824,10 @@ import {
             userId: depot.userId,
             organizationId: depot.organizationId,
           },
-        ]);
+        ]).returning();
+        for (const crew of createdCrews) {
+          await this.recordAudit("crew", "create", undefined, crew);
+        }
       } catch (crewError) {
         // Log error but don't fail depot creation
         console.error("Failed to create default crews for depot:", crewError);
@@ -464,21 +836,32 @@ import {
       return createdDepot;
     }
   
-    async updateDepot(id: string, depot: Partial<InsertDepot>): Promise<Depot | undefined> {
-      const result = await getDb().update(depots).set(depot).where(eq(depots.id, id)).returning();
+    async updateDepot(id: string, depot: Partial<InsertDepot>, expectedVersion?: number): Promise<Depot | undefined> {
+      const before = await this.getDepot(id);
+      const result = await getDb()
+        .update(depots)
+        .set({ ...depot, version: nextVersion(depots.version) })
+        .where(versionMatches(depots.id, id, depots.version, expectedVersion))
+        .returning();
+      if (result[0]) await this.recordAudit("depot", "update", before, result[0]);
       return result[0];
     }
   
     async archiveDepot(id: string): Promise<Depot | undefined> {
-      const result = await getDb().update(depots).set({ archivedAt: new Date() }).where(eq(depots.id, id)).returning();
+      const before = await this.getDepot(id);
+      const result = await getDb().update(depots).set({ archivedAt: new Date(), version: nextVersion(depots.version) }).where(eq(depots.id, id)).returning();
+      if (result[0]) await this.recordAudit("depot", "archive", before, result[0]);
       return result[0];
     }
     async restoreDepot(id: string): Promise<Depot | undefined> {
-      const result = await getDb().update(depots).set({ archivedAt: null }).where(eq(depots.id, id)).returning();
+      const before = await this.getDepot(id);
+      const result = await getDb().update(depots).set({ archivedAt: null, version: nextVersion(depots.version) }).where(eq(depots.id, id)).returning();
+      if (result[0]) await this.recordAudit("depot", "restore", before, result[0]);
       return result[0];
     }
     async deleteDepot(id: string): Promise<void> {
-      await getDb().delete(depots).where(eq(depots.id, id));
+      const result = await getDb().delete(depots).where(eq(depots.id, id)).returning();
+      await this.recordAudit("depot", "delete", result[0], undefined);
     }
   
     // ============= CREWS =============
@@ -505,11 +888,18 @@ import {
   
     async createCrew(crew: InsertCrew): Promise<Crew> {
       const result = await getDb().insert(crews).values(crew).returning();
+      await this.recordAudit("crew", "create", undefined, result[0]);
       return result[0];
     }
   
-    async updateCrew(id: string, crew: Partial<InsertCrew>): Promise<Crew | undefined> {
-      const result = await getDb().update(crews).set(crew).where(eq(crews.id, id)).returning();
+    async updateCrew(id: string, crew: Partial<InsertCrew>, expectedVersion?: number): Promise<Crew | undefined> {
+      const before = await this.getCrew(id);
+      const result = await getDb()
+        .update(crews)
+        .set({ ...crew, version: nextVersion(crews.version) })
+        .where(versionMatches(crews.id, id, crews.version, expectedVersion))
+        .returning();
+      if (result[0]) await this.recordAudit("crew", "update", before, result[0]);
       return result[0];
     }
   
@@ -523,12 +913,16 @@ import {
       // The database schema has onDelete: "cascade" on crewId, but since we're only
       // archiving (setting archivedAt) and NOT deleting the crew row, the cascade
       // will NOT trigger. All schedule items remain in the database.
-      const result = await getDb().update(crews).set({ archivedAt: new Date() }).where(eq(crews.id, id)).returning();
+      const before = await this.getCrew(id);
+      const result = await getDb().update(crews).set({ archivedAt: new Date(), version: nextVersion(crews.version) }).where(eq(crews.id, id)).returning();
+      if (result[0]) await this.recordAudit("crew", "archive", before, result[0]);
       return result[0];
     }
   
     async restoreCrew(id: string): Promise<Crew | undefined> {
-      const result = await getDb().update(crews).set({ archivedAt: null }).where(eq(crews.id, id)).returning();
+      const before = await this.getCrew(id);
+      const result = await getDb().update(crews).set({ archivedAt: null, version: nextVersion(crews.version) }).where(eq(crews.id, id)).returning();
+      if (result[0]) await this.recordAudit("crew", "restore", before, result[0]);
       return result[0];
     }
   
@@ -548,16 +942,24 @@ import {
   
     async createEmployee(employee: InsertEmployee): Promise<Employee> {
       const result = await getDb().insert(employees).values(employee).returning();
+      await this.recordAudit("employee", "create", undefined, result[0]);
       return result[0];
     }
   
-    async updateEmployee(id: string, employee: Partial<InsertEmployee>): Promise<Employee | undefined> {
-      const result = await getDb().update(employees).set(employee).where(eq(employees.id, id)).returning();
+    async updateEmployee(id: string, employee: Partial<InsertEmployee>, expectedVersion?: number): Promise<Employee | undefined> {
+      const before = await this.getEmployee(id);
+      const result = await getDb()
+        .update(employees)
+        .set({ ...employee, version: nextVersion(employees.version) })
+        .where(versionMatches(employees.id, id, employees.version, expectedVersion))
+        .returning();
+      if (result[0]) await this.recordAudit("employee", "update", before, result[0]);
       return result[0];
     }
   
     async deleteEmployee(id: string): Promise<void> {
-      await getDb().delete(employees).where(eq(employees.id, id));
+      const result = await getDb().delete(employees).where(eq(employees.id, id)).returning();
+      await this.recordAudit("employee", "delete", result[0], undefined);
     }
 
     // ============= EMPLOYEE ABSENCES =============
@@ -580,11 +982,93 @@ import {
             .insert(employeeAbsences)
             .values(absence)
             .returning();
+          await this.recordAudit("employee_absence", "create", undefined, result[0]);
           return result[0];
         },
         "createEmployeeAbsence"
       );
     }
+
+    async getEmployeeAbsence(id: string): Promise<EmployeeAbsence | undefined> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb()
+            .select()
+            .from(employeeAbsences)
+            .where(eq(employeeAbsences.id, id));
+          return result[0];
+        },
+        "getEmployeeAbsence"
+      );
+    }
+
+    async updateEmployeeAbsence(id: string, absence: Partial<InsertEmployeeAbsence>): Promise<EmployeeAbsence | undefined> {
+      return await handleDbError(
+        async () => {
+          const before = await this.getEmployeeAbsence(id);
+          const result = await getDb()
+            .update(employeeAbsences)
+            .set({ ...absence, updatedAt: new Date() })
+            .where(eq(employeeAbsences.id, id))
+            .returning();
+          if (result[0]) await this.recordAudit("employee_absence", "update", before, result[0]);
+          return result[0];
+        },
+        "updateEmployeeAbsence"
+      );
+    }
+
+    async deleteEmployeeAbsence(id: string): Promise<void> {
+      await handleDbError(
+        async () => {
+          const result = await getDb().delete(employeeAbsences).where(eq(employeeAbsences.id, id)).returning();
+          await this.recordAudit("employee_absence", "delete", result[0], undefined);
+        },
+        "deleteEmployeeAbsence"
+      );
+    }
+
+    // ============= LEAVE ALLOWANCES =============
+    async getLeaveAllowancesByOrg(organizationId: string): Promise<LeaveAllowance[]> {
+      return await handleDbError(
+        async () => {
+          return await getDb()
+            .select()
+            .from(leaveAllowances)
+            .where(eq(leaveAllowances.organizationId, organizationId));
+        },
+        "getLeaveAllowancesByOrg"
+      );
+    }
+
+    async upsertLeaveAllowance(
+      organizationId: string,
+      employeeId: string,
+      leaveYearStart: string,
+      values: Partial<InsertLeaveAllowance>,
+      updatedBy: string
+    ): Promise<LeaveAllowance> {
+      return await handleDbError(
+        async () => {
+          const changes = { ...values, updatedBy, updatedAt: new Date() };
+          const existing = await getDb()
+            .select()
+            .from(leaveAllowances)
+            .where(and(eq(leaveAllowances.employeeId, employeeId), eq(leaveAllowances.leaveYearStart, leaveYearStart)));
+          const result = await getDb()
+            .insert(leaveAllowances)
+            .values({ ...changes, organizationId, employeeId, leaveYearStart })
+            .onConflictDoUpdate({
+              target: [leaveAllowances.employeeId, leaveAllowances.leaveYearStart],
+              set: changes,
+            })
+            .returning();
+          await this.recordAudit("leave_allowance", existing[0] ? "update" : "create", existing[0], result[0]);
+          return result[0];
+        },
+        "upsertLeaveAllowance"
+      );
+    }
   
     // ============= VEHICLES =============
     async getVehiclesByOrg(organizationId: string): Promise<Vehicle[]> {
@@ -607,27 +1091,129 @@ import {
   
     async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
       const result = await getDb().insert(vehicles).values(vehicle).returning();
+      await this.recordAudit("vehicle", "create", undefined, result[0]);
       return result[0];
     }
+
+    async importResources(rows: { employees?: InsertEmployee[]; vehicles?: InsertVehicle[] }): Promise<{ employees: Employee[]; vehicles: Vehicle[] }> {
+      const result = await getDb().transaction(async (tx) => ({
+        employees: rows.employees?.length ? await tx.insert(employees).values(rows.employees).returning() : [],
+        vehicles: rows.vehicles?.length ? await tx.insert(vehicles).values(rows.vehicles).returning() : [],
+      }));
+      for (const employee of result.employees) {
+        await this.recordAudit("employee", "create", undefined, employee);
+      }
+      for (const vehicle of result.vehicles) {
+        await this.recordAudit("vehicle", "create", undefined, vehicle);
+      }
+      return result;
+    }
   
-    async updateVehicle(id: string, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
-      const result = await getDb().update(vehicles).set(vehicle).where(eq(vehicles.id, id)).returning();
+    async updateVehicle(id: string, vehicle: Partial<InsertVehicle>, expectedVersion?: number): Promise<Vehicle | undefined> {
+      const before = await this.getVehicle(id);
+      const result = await getDb()
+        .update(vehicles)
+        .set({ ...vehicle, version: nextVersion(vehicles.version) })
+        .where(versionMatches(vehicles.id, id, vehicles.version, expectedVersion))
+        .returning();
+      if (result[0]) await this.recordAudit("vehicle", "update", before, result[0]);
       return result[0];
     }
   
     async deleteVehicle(id: string): Promise<void> {
-      await getDb().delete(vehicles).where(eq(vehicles.id, id));
+      const result = await getDb().delete(vehicles).where(eq(vehicles.id, id)).returning();
+      await this.recordAudit("vehicle", "delete", result[0], undefined);
+    }
+
+    // ============= VEHICLE UNAVAILABILITY =============
+    async getVehicleUnavailabilityByOrg(organizationId: string): Promise<VehicleUnavailability[]> {
+      return await handleDbError(
+        async () => {
+          return await getDb()
+            .select()
+            .from(vehicleUnavailability)
+            .where(eq(vehicleUnavailability.organizationId, organizationId))
+            .orderBy(vehicleUnavailability.startDate);
+        },
+        "getVehicleUnavailabilityByOrg"
+      );
+    }
+
+    async getVehicleUnavailability(id: string): Promise<VehicleUnavailability | undefined> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb()
+            .select()
+            .from(vehicleUnavailability)
+            .where(eq(vehicleUnavailability.id, id));
+          return result[0];
+        },
+        "getVehicleUnavailability"
+      );
+    }
+
+    async createVehicleUnavailability(period: InsertVehicleUnavailability): Promise<VehicleUnavailability> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb()
+            .insert(vehicleUnavailability)
+            .values(period)
+            .returning();
+          await this.recordAudit("vehicle_unavailability", "create", undefined, result[0]);
+          return result[0];
+        },
+        "createVehicleUnavailability"
+      );
+    }
+
+    async updateVehicleUnavailability(id: string, period: Partial<InsertVehicleUnavailability>): Promise<VehicleUnavailability | undefined> {
+      return await handleDbError(
+        async () => {
+          const before = await this.getVehicleUnavailability(id);
+          const result = await getDb()
+            .update(vehicleUnavailability)
+            .set({ ...period, updatedAt: new Date() })
+            .where(eq(vehicleUnavailability.id, id))
+            .returning();
+          if (result[0]) await this.recordAudit("vehicle_unavailability", "update", before, result[0]);
+          return result[0];
+        },
+        "updateVehicleUnavailability"
+      );
+    }
+
+    async deleteVehicleUnavailability(id: string): Promise<void> {
+      await handleDbError(
+        async () => {
+          const result = await getDb().delete(vehicleUnavailability).where(eq(vehicleUnavailability.id, id)).returning();
+          await this.recordAudit("vehicle_unavailability", "delete", result[0], undefined);
+        },
+        "deleteVehicleUnavailability"
+      );
     }
   
     // ============= SCHEDULE ITEMS =============
     async getScheduleItemsByOrg(organizationId: string, startDate?: Date, endDate?: Date): Promise<ScheduleItem[]> {
       return await handleDbError(
         async () => {
-          return await getDb().select().from(scheduleItems).where(eq(scheduleItems.organizationId, organizationId));
+          const conditions = [eq(scheduleItems.organizationId, organizationId)];
+          if (startDate) conditions.push(gte(scheduleItems.date, startDate));
+          if (endDate) conditions.push(lte(scheduleItems.date, endDate));
+          return await getDb().select().from(scheduleItems).where(and(...conditions));
         },
         'getScheduleItemsByOrg'
       );
     }
+
+    async getLatestScheduleItemDate(organizationId: string): Promise<Date | null> {
+      const [row] = await getDb()
+        .select({ date: scheduleItems.date })
+        .from(scheduleItems)
+        .where(and(eq(scheduleItems.organizationId, organizationId), ne(scheduleItems.status, "rejected")))
+        .orderBy(desc(scheduleItems.date))
+        .limit(1);
+      return row?.date ?? null;
+    }
   
     async getPendingScheduleItems(organizationId: string): Promise<ScheduleItem[]> {
       return await getDb().select().from(scheduleItems).where(
@@ -635,21 +1221,37 @@ import {
       );
     }
   
-    async approveScheduleItem(id: string, approverId: string): Promise<ScheduleItem | undefined> {
+    async approveScheduleItem(id: string, approverId: string, expectedVersion?: number): Promise<ScheduleItem | undefined> {
+      const before = await this.getScheduleItem(id);
       const result = await getDb().update(scheduleItems).set({
         status: "approved",
         approvedBy: approverId,
         approvedAt: new Date(),
-      }).where(eq(scheduleItems.id, id)).returning();
+        version: nextVersion(scheduleItems.version),
+      }).where(pendingItemMatches(id, expectedVersion)).returning();
+      if (result[0]) await this.recordAudit("schedule_item", "approve", before, result[0]);
       return result[0];
     }
   
-    async rejectScheduleItem(id: string, approverId: string, reason: string): Promise<ScheduleItem | undefined> {
+    async rejectScheduleItem(id: string, approverId: string, reason: string, expectedVersion?: number): Promise<ScheduleItem | undefined> {
+      const before = await this.getScheduleItem(id);
       const result = await getDb().update(scheduleItems).set({
         status: "rejected",
         approvedBy: approverId,
         rejectionReason: reason,
-      }).where(eq(scheduleItems.id, id)).returning();
+        version: nextVersion(scheduleItems.version),
+      }).where(pendingItemMatches(id, expectedVersion)).returning();
+      if (result[0]) await this.recordAudit("schedule_item", "reject", before, result[0]);
+      return result[0];
+    }
+
+    async recordApprovalStep(id: string, approval: ScheduleItemApproval, expectedVersion?: number): Promise<ScheduleItem | undefined> {
+      const before = await this.getScheduleItem(id);
+      const result = await getDb().update(scheduleItems).set({
+        approval,
+        version: nextVersion(scheduleItems.version),
+      }).where(pendingItemMatches(id, expectedVersion)).returning();
+      if (result[0]) await this.recordAudit("schedule_item", "approve", before, result[0]);
       return result[0];
     }
   
@@ -675,16 +1277,441 @@ import {
   
     async createScheduleItem(item: InsertScheduleItem): Promise<ScheduleItem> {
       const result = await getDb().insert(scheduleItems).values(item).returning();
+      await this.recordAudit("schedule_item", "create", undefined, result[0]);
       return result[0];
     }
   
-    async updateScheduleItem(id: string, item: Partial<InsertScheduleItem>): Promise<ScheduleItem | undefined> {
-      const result = await getDb().update(scheduleItems).set(item).where(eq(scheduleItems.id, id)).returning();
+    async updateScheduleItem(id: string, item: Partial<InsertScheduleItem>, expectedVersion?: number): Promise<ScheduleItem | undefined> {
+      const before = await this.getScheduleItem(id);
+      const result = await getDb()
+        .update(scheduleItems)
+        .set({ ...item, version: nextVersion(scheduleItems.version) })
+        .where(versionMatches(scheduleItems.id, id, scheduleItems.version, expectedVersion))
+        .returning();
+      if (result[0]) await this.recordAudit("schedule_item", "update", before, result[0]);
       return result[0];
     }
   
     async deleteScheduleItem(id: string): Promise<void> {
-      await getDb().delete(scheduleItems).where(eq(scheduleItems.id, id));
+      const result = await getDb().delete(scheduleItems).where(eq(scheduleItems.id, id)).returning();
+      await this.recordAudit("schedule_item", "delete", result[0], undefined);
+      if (result[0]?.seriesId) {
+        await this.addScheduleSeriesException(result[0].seriesId, toDayKey(result[0].date));
+      }
+    }
+
+    async updateScheduleItems(updates: Array<{ id: string; data: Partial<InsertScheduleItem> }>): Promise<ScheduleItem[]> {
+      if (updates.length === 0) return [];
+      const ids = updates.map((u) => u.id);
+      const before = await getDb().select().from(scheduleItems).where(inArray(scheduleItems.id, ids));
+      const updated = await getDb().transaction(async (tx) => {
+        const rows: ScheduleItem[] = [];
+        for (const { id, data } of updates) {
+          const [row] = await tx
+            .update(scheduleItems)
+            .set({ ...data, version: nextVersion(scheduleItems.version) })
+            .where(eq(scheduleItems.id, id))
+            .returning();
+          if (row) rows.push(row);
+        }
+        return rows;
+      });
+      for (const item of updated) {
+        await this.recordAudit("schedule_item", "update", before.find((i) => i.id === item.id), item);
+      }
+      return updated;
+    }
+
+    async createScheduleItems(items: InsertScheduleItem[]): Promise<ScheduleItem[]> {
+      if (items.length === 0) return [];
+      const created = await getDb().insert(scheduleItems).values(items).returning();
+      for (const item of created) {
+        await this.recordAudit("schedule_item", "create", undefined, item);
+      }
+      return created;
+    }
+
+    // ============= JOBS =============
+    async getJobsByOrg(organizationId: string, filters: JobFilters = {}): Promise<JobWithTotals[]> {
+      return await handleDbError(
+        async () => {
+          const totals = getDb()
+            .select({
+              jobId: scheduleItems.jobId,
+              allocatedDays: sql<number>`count(distinct ${scheduleItems.date})::int`.as("allocated_days"),
+              allocatedHours: sql<number>`coalesce(sum(${scheduleItems.duration}), 0)::int`.as("allocated_hours"),
+              firstDate: sql<Date>`min(${scheduleItems.date})`.mapWith(scheduleItems.date).as("first_date"),
+              lastDate: sql<Date>`max(${scheduleItems.date})`.mapWith(scheduleItems.date).as("last_date"),
+            })
+            .from(scheduleItems)
+            .where(and(isNotNull(scheduleItems.jobId), ne(scheduleItems.jobStatus, "cancelled")))
+            .groupBy(scheduleItems.jobId)
+            .as("totals");
+
+          const conditions = [eq(jobs.organizationId, organizationId)];
+          if (filters.status) conditions.push(eq(jobs.status, filters.status));
+          if (filters.search) {
+            const pattern = `%${escapeLike(filters.search)}%`;
+            conditions.push(
+              or(ilike(jobs.jobNumber, pattern), ilike(jobs.customer, pattern), ilike(jobs.address, pattern))!
+            );
+          }
+
+          const rows = await getDb()
+            .select({
+              job: jobs,
+              allocatedDays: totals.allocatedDays,
+              allocatedHours: totals.allocatedHours,
+              firstDate: totals.firstDate,
+              lastDate: totals.lastDate,
+            })
+            .from(jobs)
+            .leftJoin(totals, eq(totals.jobId, jobs.id))
+            .where(and(...conditions))
+            .orderBy(desc(jobs.createdAt));
+          return rows.map(({ job, allocatedDays, allocatedHours, firstDate, lastDate }) => ({
+            ...job,
+            allocatedDays: allocatedDays ?? 0,
+            allocatedHours: allocatedHours ?? 0,
+            firstDate: firstDate ?? null,
+            lastDate: lastDate ?? null,
+          }));
+        },
+        "getJobsByOrg"
+      );
+    }
+
+    async getJob(id: string): Promise<Job | undefined> {
+      const result = await getDb().select().from(jobs).where(eq(jobs.id, id));
+      return result[0];
+    }
+
+    async getJobByNumber(organizationId: string, jobNumber: string): Promise<Job | undefined> {
+      const result = await getDb()
+        .select()
+        .from(jobs)
+        .where(and(eq(jobs.organizationId, organizationId), eq(jobs.jobNumber, jobNumber)));
+      return result[0];
+    }
+
+    async getScheduleItemsByJob(jobId: string): Promise<ScheduleItem[]> {
+      return await getDb()
+        .select()
+        .from(scheduleItems)
+        .where(eq(scheduleItems.jobId, jobId))
+        .orderBy(scheduleItems.date);
+    }
+
+    async createJob(job: InsertJob): Promise<Job> {
+      const result = await getDb().insert(jobs).values(job).returning();
+      await this.recordAudit("job", "create", undefined, result[0]);
+      return result[0];
+    }
+
+    async updateJob(
+      id: string,
+      job: Partial<InsertJob>,
+      allocations?: JobAllocationChanges,
+      expectedVersion?: number
+    ): Promise<{ job: Job; items: ScheduleItem[] } | undefined> {
+      const before = await this.getJob(id);
+      if (!before) return undefined;
+      const itemsBefore = allocations ? await this.getScheduleItemsByJob(id) : [];
+
+      const result = await getDb().transaction(async (tx) => {
+        const [updated] = await tx
+          .update(jobs)
+          .set({ ...job, updatedAt: new Date(), version: nextVersion(jobs.version) })
+          .where(versionMatches(jobs.id, id, jobs.version, expectedVersion))
+          .returning();
+        if (!updated) return tx.rollback();
+
+        const items = new Map<string, ScheduleItem>();
+        if (allocations && Object.keys(allocations.fields).length > 0) {
+          const rows = await tx
+            .update(scheduleItems)
+            .set({ ...allocations.fields, version: nextVersion(scheduleItems.version) })
+            .where(eq(scheduleItems.jobId, id))
+            .returning();
+          rows.forEach((row) => items.set(row.id, row));
+        }
+        if (allocations?.jobStatus) {
+          const rows = await tx
+            .update(scheduleItems)
+            .set({ jobStatus: allocations.jobStatus.to, version: nextVersion(scheduleItems.version) })
+            .where(and(eq(scheduleItems.jobId, id), inArray(scheduleItems.jobStatus, allocations.jobStatus.from)))
+            .returning();
+          rows.forEach((row) => items.set(row.id, row));
+        }
+        return { job: updated, items: [...items.values()] };
+      }).catch((error) => {
+        if (error instanceof TransactionRollbackError) return undefined;
+        throw error;
+      });
+      if (!result) return undefined;
+
+      await this.recordAudit("job", "update", before, result.job);
+      for (const item of result.items) {
+        await this.recordAudit("schedule_item", "update", itemsBefore.find((i) => i.id === item.id), item);
+      }
+      return result;
+    }
+
+    async deleteJob(id: string): Promise<void> {
+      const result = await getDb().transaction(async (tx) => {
+        // Unlinked here rather than by the foreign key, so the change to each item is audited
+        const unlinked = await tx
+          .update(scheduleItems)
+          .set({ jobId: null, version: nextVersion(scheduleItems.version) })
+          .where(eq(scheduleItems.jobId, id))
+          .returning();
+        const [deleted] = await tx.delete(jobs).where(eq(jobs.id, id)).returning();
+        return { unlinked, deleted };
+      });
+      for (const item of result.unlinked) {
+        await this.recordAudit("schedule_item", "update", { ...item, jobId: id }, item);
+      }
+      await this.recordAudit("job", "delete", result.deleted, undefined);
+    }
+
+    // ============= CUSTOMERS =============
+    async getCustomersByOrg(organizationId: string, search?: string): Promise<Customer[]> {
+      const conditions = [eq(customers.organizationId, organizationId)];
+      if (search) conditions.push(ilike(customers.name, `%${escapeLike(search)}%`));
+      return await getDb()
+        .select()
+        .from(customers)
+        .where(and(...conditions))
+        .orderBy(sql`lower(${customers.name})`);
+    }
+
+    async getCustomer(id: string): Promise<Customer | undefined> {
+      const result = await getDb().select().from(customers).where(eq(customers.id, id));
+      return result[0];
+    }
+
+    async createCustomer(customer: InsertCustomer): Promise<Customer> {
+      const result = await getDb().insert(customers).values(customer).returning();
+      await this.recordAudit("customer", "create", undefined, result[0]);
+      return result[0];
+    }
+
+    async updateCustomer(id: string, customer: Partial<InsertCustomer>, expectedVersion?: number): Promise<Customer | undefined> {
+      const before = await this.getCustomer(id);
+      const result = await getDb()
+        .update(customers)
+        .set({ ...customer, updatedAt: new Date(), version: nextVersion(customers.version) })
+        .where(versionMatches(customers.id, id, customers.version, expectedVersion))
+        .returning();
+      if (result[0]) await this.recordAudit("customer", "update", before, result[0]);
+      return result[0];
+    }
+
+    async deleteCustomer(id: string): Promise<void> {
+      const result = await getDb().transaction(async (tx) => {
+        const siteIds = tx.select({ id: sites.id }).from(sites).where(eq(sites.customerId, id));
+        const linked = or(eq(scheduleItems.customerId, id), inArray(scheduleItems.siteId, siteIds))!;
+        // Unlinked here rather than by the foreign keys, so the change to each item is audited
+        const itemsBefore = await tx.select().from(scheduleItems).where(linked);
+        const unlinked = await tx
+          .update(scheduleItems)
+          .set({ customerId: null, siteId: null, version: nextVersion(scheduleItems.version) })
+          .where(linked)
+          .returning();
+        const removedSites = await tx.delete(sites).where(eq(sites.customerId, id)).returning();
+        const [deleted] = await tx.delete(customers).where(eq(customers.id, id)).returning();
+        return { itemsBefore, unlinked, removedSites, deleted };
+      });
+      for (const item of result.unlinked) {
+        await this.recordAudit("schedule_item", "update", result.itemsBefore.find((i) => i.id === item.id), item);
+      }
+      for (const site of result.removedSites) {
+        await this.recordAudit("site", "delete", site, undefined);
+      }
+      await this.recordAudit("customer", "delete", result.deleted, undefined);
+    }
+
+    // ============= SITES =============
+    async getSitesByOrg(organizationId: string, filters: SiteFilters = {}): Promise<Site[]> {
+      const conditions = [eq(sites.organizationId, organizationId)];
+      if (filters.customerId) conditions.push(eq(sites.customerId, filters.customerId));
+      if (filters.search) {
+        const pattern = `%${escapeLike(filters.search)}%`;
+        conditions.push(or(ilike(sites.name, pattern), ilike(sites.address, pattern), ilike(sites.postcode, pattern))!);
+      }
+      return await getDb()
+        .select()
+        .from(sites)
+        .where(and(...conditions))
+        .orderBy(sites.address);
+    }
+
+    async getSite(id: string): Promise<Site | undefined> {
+      const result = await getDb().select().from(sites).where(eq(sites.id, id));
+      return result[0];
+    }
+
+    async createSite(site: InsertSite): Promise<Site> {
+      const result = await getDb().insert(sites).values(site).returning();
+      await this.recordAudit("site", "create", undefined, result[0]);
+      return result[0];
+    }
+
+    async updateSite(id: string, site: Partial<InsertSite>, expectedVersion?: number): Promise<Site | undefined> {
+      const before = await this.getSite(id);
+      const result = await getDb()
+        .update(sites)
+        .set({ ...site, updatedAt: new Date(), version: nextVersion(sites.version) })
+        .where(versionMatches(sites.id, id, sites.version, expectedVersion))
+        .returning();
+      if (result[0]) await this.recordAudit("site", "update", before, result[0]);
+      return result[0];
+    }
+
+    async deleteSite(id: string): Promise<void> {
+      const result = await getDb().transaction(async (tx) => {
+        const unlinked = await tx
+          .update(scheduleItems)
+          .set({ siteId: null, version: nextVersion(scheduleItems.version) })
+          .where(eq(scheduleItems.siteId, id))
+          .returning();
+        const [deleted] = await tx.delete(sites).where(eq(sites.id, id)).returning();
+        return { unlinked, deleted };
+      });
+      for (const item of result.unlinked) {
+        await this.recordAudit("schedule_item", "update", { ...item, siteId: id }, item);
+      }
+      await this.recordAudit("site", "delete", result.deleted, undefined);
+    }
+
+    // ============= SCHEDULE SERIES =============
+    async getScheduleSeries(id: string): Promise<ScheduleSeries | undefined> {
+      const result = await getDb().select().from(scheduleSeries).where(eq(scheduleSeries.id, id));
+      return result[0];
+    }
+
+    async getScheduleItemsBySeries(seriesId: string): Promise<ScheduleItem[]> {
+      return await getDb()
+        .select()
+        .from(scheduleItems)
+        .where(eq(scheduleItems.seriesId, seriesId))
+        .orderBy(scheduleItems.date);
+    }
+
+    async createScheduleSeries(
+      series: InsertScheduleSeries,
+      items: InsertScheduleItem[],
+      adoptItemIds: string[] = []
+    ): Promise<{ series: ScheduleSeries; items: ScheduleItem[] }> {
+      const adoptedBefore = adoptItemIds.length
+        ? await getDb().select().from(scheduleItems).where(inArray(scheduleItems.id, adoptItemIds))
+        : [];
+      const result = await getDb().transaction(async (tx) => {
+        const [created] = await tx.insert(scheduleSeries).values(series).returning();
+        const inserted = items.length
+          ? await tx.insert(scheduleItems).values(items.map((item) => ({ ...item, seriesId: created.id }))).returning()
+          : [];
+        const adopted = adoptItemIds.length
+          ? await tx
+              .update(scheduleItems)
+              .set({ seriesId: created.id, version: nextVersion(scheduleItems.version) })
+              .where(inArray(scheduleItems.id, adoptItemIds))
+              .returning()
+          : [];
+        return { series: created, inserted, adopted };
+      });
+
+      await this.recordAudit("schedule_series", "create", undefined, result.series);
+      for (const item of result.inserted) {
+        await this.recordAudit("schedule_item", "create", undefined, item);
+      }
+      for (const item of result.adopted) {
+        await this.recordAudit("schedule_item", "update", adoptedBefore.find((i) => i.id === item.id), item);
+      }
+      return {
+        series: result.series,
+        items: [...result.adopted, ...result.inserted].sort((a, b) => a.date.getTime() - b.date.getTime()),
+      };
+    }
+
+    async applyScheduleSeriesChanges(id: string, changes: ScheduleSeriesChanges): Promise<ScheduleSeriesChangeResult | undefined> {
+      const before = await this.getScheduleSeries(id);
+      if (!before) return undefined;
+      const touchedIds = [...changes.update.map((u) => u.id), ...changes.remove];
+      const itemsBefore = touchedIds.length
+        ? await getDb().select().from(scheduleItems).where(inArray(scheduleItems.id, touchedIds))
+        : [];
+
+      const result = await getDb().transaction(async (tx) => {
+        const seriesMatch = versionMatches(scheduleSeries.id, id, scheduleSeries.version, changes.expectedVersion);
+        // Remove occurrences first, so deleting the series doesn't unlink them
+        const removed = changes.remove.length
+          ? await tx.delete(scheduleItems).where(inArray(scheduleItems.id, changes.remove)).returning()
+          : [];
+        let series: ScheduleSeries | undefined;
+        if (changes.series) {
+          [series] = await tx
+            .update(scheduleSeries)
+            .set({ ...changes.series, updatedAt: new Date(), version: nextVersion(scheduleSeries.version) })
+            .where(seriesMatch)
+            .returning();
+          if (!series) return tx.rollback();
+        } else {
+          const deleted = await tx.delete(scheduleSeries).where(seriesMatch).returning();
+          if (deleted.length === 0) return tx.rollback();
+        }
+
+        const split = changes.split
+          ? (await tx.insert(scheduleSeries).values(changes.split).returning())[0]
+          : undefined;
+        const seriesId = split?.id ?? series?.id ?? null;
+        const created = changes.create.length
+          ? await tx.insert(scheduleItems).values(changes.create.map((item) => ({ ...item, seriesId }))).returning()
+          : [];
+        const updated: ScheduleItem[] = [];
+        for (const { id: itemId, data } of changes.update) {
+          const [row] = await tx
+            .update(scheduleItems)
+            .set({ ...data, ...(split ? { seriesId } : {}), version: nextVersion(scheduleItems.version) })
+            .where(eq(scheduleItems.id, itemId))
+            .returning();
+          if (row) updated.push(row);
+        }
+        return { series, split, created, updated, removed };
+      }).catch((error) => {
+        if (error instanceof TransactionRollbackError) return undefined;
+        throw error;
+      });
+      if (!result) return undefined;
+
+      if (result.series) await this.recordAudit("schedule_series", "update", before, result.series);
+      else await this.recordAudit("schedule_series", "delete", before, undefined);
+      if (result.split) await this.recordAudit("schedule_series", "create", undefined, result.split);
+      for (const item of result.removed) {
+        await this.recordAudit("schedule_item", "delete", item, undefined);
+      }
+      for (const item of result.created) {
+        await this.recordAudit("schedule_item", "create", undefined, item);
+      }
+      for (const item of result.updated) {
+        await this.recordAudit("schedule_item", "update", itemsBefore.find((i) => i.id === item.id), item);
+      }
+      return result;
+    }
+
+    async addScheduleSeriesException(id: string, day: string): Promise<void> {
+      const before = await this.getScheduleSeries(id);
+      if (!before || before.exceptions.includes(day)) return;
+      const result = await getDb()
+        .update(scheduleSeries)
+        .set({
+          exceptions: sql`${scheduleSeries.exceptions} || ${JSON.stringify([day])}::jsonb`,
+          updatedAt: new Date(),
+          version: nextVersion(scheduleSeries.version),
+        })
+        .where(eq(scheduleSeries.id, id))
+        .returning();
+      if (result[0]) await this.recordAudit("schedule_series", "update", before, result[0]);
     }
   
     // ============= COLOR LABELS =============
@@ -733,6 +1760,161 @@ import {
     async deleteColorLabel(id: string): Promise<void> {
       await getDb().delete(colorLabels).where(eq(colorLabels.id, id));
     }
+
+    // ============= EMAIL DISPATCHES =============
+    async getEmailDispatchesByOrg(organizationId: string, startDate: Date, endDate: Date): Promise<EmailDispatch[]> {
+      return await getDb()
+        .select()
+        .from(emailDispatches)
+        .where(
+          and(
+            eq(emailDispatches.organizationId, organizationId),
+            gte(emailDispatches.date, startDate),
+            lte(emailDispatches.date, endDate)
+          )
+        )
+        .orderBy(emailDispatches.createdAt);
+    }
+
+    async createEmailDispatch(dispatch: InsertEmailDispatch): Promise<EmailDispatch> {
+      const result = await getDb().insert(emailDispatches).values(dispatch).returning();
+      return result[0];
+    }
+
+    // ============= CALENDAR FEEDS =============
+    async getCalendarFeedsByOrg(organizationId: string): Promise<CalendarFeed[]> {
+      return await getDb()
+        .select()
+        .from(calendarFeeds)
+        .where(eq(calendarFeeds.organizationId, organizationId))
+        .orderBy(calendarFeeds.createdAt);
+    }
+
+    async getCalendarFeed(id: string): Promise<CalendarFeed | undefined> {
+      const result = await getDb().select().from(calendarFeeds).where(eq(calendarFeeds.id, id));
+      return result[0];
+    }
+
+    async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+      const result = await getDb().select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+      return result[0];
+    }
+
+    async getCalendarFeedBySubject(organizationId: string, scope: string, subjectId: string): Promise<CalendarFeed | undefined> {
+      const result = await getDb()
+        .select()
+        .from(calendarFeeds)
+        .where(
+          and(
+            eq(calendarFeeds.organizationId, organizationId),
+            eq(calendarFeeds.scope, scope),
+            eq(calendarFeeds.subjectId, subjectId)
+          )
+        );
+      return result[0];
+    }
+
+    async createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed> {
+      const result = await getDb().insert(calendarFeeds).values(feed).returning();
+      await this.recordAudit("calendar_feed", "create", undefined, result[0]);
+      return result[0];
+    }
+
+    async rotateCalendarFeedToken(id: string, token: string): Promise<CalendarFeed | undefined> {
+      const before = await this.getCalendarFeed(id);
+      const result = await getDb()
+        .update(calendarFeeds)
+        .set({ token, rotatedAt: new Date() })
+        .where(eq(calendarFeeds.id, id))
+        .returning();
+      if (result[0]) await this.recordAudit("calendar_feed", "update", before, result[0]);
+      return result[0];
+    }
+
+    async deleteCalendarFeed(id: string): Promise<void> {
+      const result = await getDb().delete(calendarFeeds).where(eq(calendarFeeds.id, id)).returning();
+      await this.recordAudit("calendar_feed", "delete", result[0], undefined);
+    }
+
+    // ============= AUDIT EVENTS =============
+    async getAuditEvents(organizationId: string, filters: AuditEventFilters): Promise<Array<AuditEvent & { actorName: string | null }>> {
+      return await handleDbError(
+        async () => {
+          const conditions = [eq(auditEvents.organizationId, organizationId)];
+          if (filters.entityType) conditions.push(eq(auditEvents.entityType, filters.entityType));
+          if (filters.entityId) conditions.push(eq(auditEvents.entityId, filters.entityId));
+          if (filters.actorId) conditions.push(eq(auditEvents.actorId, filters.actorId));
+          if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+          if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+          if (filters.to) conditions.push(lte(auditEvents.createdAt, filters.to));
+          if (filters.before) conditions.push(lt(auditEvents.createdAt, filters.before));
+          const rows = await getDb()
+            .select({ event: auditEvents, actorName: users.username })
+            .from(auditEvents)
+            .leftJoin(users, eq(auditEvents.actorId, users.id))
+            .where(and(...conditions))
+            .orderBy(desc(auditEvents.createdAt))
+            .limit(filters.limit);
+          return rows.map(({ event, actorName }) => ({ ...event, actorName }));
+        },
+        "getAuditEvents"
+      );
+    }
+
+    async getAuditEvent(id: string): Promise<AuditEvent | undefined> {
+      return await handleDbError(
+        async () => {
+          const result = await getDb().select().from(auditEvents).where(eq(auditEvents.id, id));
+          return result[0];
+        },
+        "getAuditEvent"
+      );
+    }
+
+    async getAuditEventsAfter(organizationId: string, after: AuditCursor, limit: number): Promise<AuditEvent[]> {
+      // Compared to the millisecond, as Dates can't hold the database's microseconds
+      const createdAt = sql`date_trunc('milliseconds', ${auditEvents.createdAt})`;
+      const cursorAt = after.createdAt.toISOString();
+      return await handleDbError(
+        async () => {
+          return await getDb()
+            .select()
+            .from(auditEvents)
+            .where(
+              and(
+                eq(auditEvents.organizationId, organizationId),
+                or(gt(createdAt, cursorAt), and(eq(createdAt, cursorAt), gt(auditEvents.id, after.id)))
+              )
+            )
+            .orderBy(createdAt, auditEvents.id)
+            .limit(limit);
+        },
+        "getAuditEventsAfter"
+      );
+    }
+
+    /**
+     * Record a change in the audit trail. Called after the change is saved, so a failure to
+     * record it is logged rather than failing the request.
+     */
+    private async recordAudit(entityType: AuditEntityType, action: AuditAction, before?: AuditedRow, after?: AuditedRow) {
+      const row = after ?? before;
+      if (!row?.organizationId) return;
+      const changes = auditChanges(before, after);
+      if (action === "update" && Object.keys(changes).length === 0) return;
+      try {
+        await getDb().insert(auditEvents).values({
+          organizationId: row.organizationId,
+          actorId: getAuditActor()?.userId ?? null,
+          entityType,
+          entityId: row.id,
+          action,
+          changes,
+        });
+      } catch (error) {
+        console.error(`Failed to record audit event (${entityType} ${action} ${row.id}):`, error);
+      }
+    }
   }
   
   export const storage = new DatabaseStorage();
@@ -90,23 +90,18 @@ export async function createCheckoutSession(params: {
 
 /**
  * Verify and construct Stripe webhook event
- * Raw body MUST be provided by API route later
+ * Raw body must be the exact request body Stripe signed. Only STRIPE_WEBHOOK_SECRET is
+ * needed, so signed fixture events can be replayed locally without API keys.
  */
 export function constructStripeEvent(
-  rawBody: Buffer,
+  rawBody: string | Buffer,
   signature: string
 ): Stripe.Event {
-  assertStripeConfigured();
-  
-  if (!stripe) {
-    throw new Error("Stripe client is not initialized");
-  }
-  
   if (!process.env.STRIPE_WEBHOOK_SECRET) {
     throw new Error("STRIPE_WEBHOOK_SECRET is not set");
   }
 
-  return stripe.webhooks.constructEvent(
+  return Stripe.webhooks.constructEvent(
     rawBody,
     signature,
     process.env.STRIPE_WEBHOOK_SECRET
@@ -0,0 +1,219 @@
+/**
+ * Stripe webhook handling
+ *
+ * Keeps each organization's plan, subscriptionStatus and trialEndsAt in step with Stripe.
+ * Events are matched to an organization by the organizationId metadata set at checkout,
+ * then by the Stripe subscription or customer id stored on the organization.
+ *
+ * Handlers only copy state from the event, so applying an event twice is harmless; the
+ * stripe_events table still makes sure each event id is processed once. Events older
+ * than the last one applied (organizations.billingEventAt) are ignored, as Stripe does
+ * not guarantee delivery order.
+ */
+
+import type Stripe from "stripe";
+import { stripe } from "@/lib/stripe";
+import { storage } from "@/lib/storage";
+import { sendEmail, generateBillingNoticeEmailHtml } from "@/lib/email";
+import { isPlanType, type PlanType } from "@/lib/entitlements";
+import type { Organization } from "@shared/schema";
+
+export interface StripeEventOutcome {
+  status: "processed" | "ignored";
+  organizationId: string | null;
+  // Why an event was ignored, for the stripe_events row
+  reason?: string;
+}
+
+const ignored = (reason: string, organizationId: string | null = null): StripeEventOutcome => ({
+  status: "ignored",
+  organizationId,
+  reason,
+});
+
+const idOf = (value: string | { id: string } | null | undefined): string | null =>
+  typeof value === "string" ? value : value?.id ?? null;
+
+const fromUnix = (seconds: number | null | undefined) => (seconds ? new Date(seconds * 1000) : null);
+
+function appUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_APP_URL ||
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000")
+  );
+}
+
+async function findOrganization(refs: {
+  organizationId?: string | null;
+  subscriptionId?: string | null;
+  customerId?: string | null;
+}): Promise<Organization | undefined> {
+  if (refs.organizationId) {
+    const org = await storage.getOrganization(refs.organizationId);
+    if (org) return org;
+  }
+  if (refs.subscriptionId) {
+    const org = await storage.getOrganizationByStripeSubscription(refs.subscriptionId);
+    if (org) return org;
+  }
+  if (refs.customerId) {
+    return await storage.getOrganizationByStripeCustomer(refs.customerId);
+  }
+  return undefined;
+}
+
+/**
+ * The plan a subscription pays for: the `tier` metadata on its price or product (as used
+ * by /api/stripe/products), falling back to the plan recorded at checkout.
+ */
+async function planForSubscription(subscription: Stripe.Subscription): Promise<PlanType | null> {
+  const price = subscription.items?.data?.[0]?.price;
+  if (price) {
+    if (isPlanType(price.metadata?.tier)) return price.metadata.tier;
+    const product = price.product;
+    if (typeof product === "object" && "metadata" in product && isPlanType(product.metadata?.tier)) {
+      return product.metadata.tier;
+    }
+    if (typeof product === "string" && stripe) {
+      const fetched = await stripe.products.retrieve(product);
+      if (isPlanType(fetched.metadata?.tier)) return fetched.metadata.tier;
+    }
+  }
+  return isPlanType(subscription.metadata?.plan) ? subscription.metadata.plan : null;
+}
+
+function isStale(org: Organization, eventCreated: Date): boolean {
+  return !!org.billingEventAt && org.billingEventAt > eventCreated;
+}
+
+async function notifyOwner(org: Organization, subject: string, message: string) {
+  const owner = await storage.getUser(org.ownerId);
+  if (!owner?.email) return;
+  await sendEmail({
+    to: owner.email,
+    subject,
+    html: generateBillingNoticeEmailHtml(subject, message, `${appUrl()}/schedule`),
+    text: message,
+  });
+}
+
+// ---------- Handlers ----------
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<StripeEventOutcome> {
+  if (session.mode !== "subscription") return ignored("Not a subscription checkout");
+
+  const org = await findOrganization({
+    organizationId: session.client_reference_id || session.metadata?.organizationId,
+    customerId: idOf(session.customer),
+  });
+  if (!org) return ignored("No matching organization");
+
+  // Link the organization to its Stripe records; plan and status follow in the
+  // customer.subscription.* events Stripe sends for the same checkout
+  await storage.updateOrganization(org.id, {
+    stripeCustomerId: idOf(session.customer) ?? org.stripeCustomerId,
+    stripeSubscriptionId: idOf(session.subscription) ?? org.stripeSubscriptionId,
+  });
+  return { status: "processed", organizationId: org.id };
+}
+
+async function handleSubscriptionChange(
+  subscription: Stripe.Subscription,
+  eventType: string,
+  eventCreated: Date
+): Promise<StripeEventOutcome> {
+  const org = await findOrganization({
+    organizationId: subscription.metadata?.organizationId,
+    subscriptionId: subscription.id,
+    customerId: idOf(subscription.customer),
+  });
+  if (!org) return ignored("No matching organization");
+
+  // A replaced subscription being updated or cancelled doesn't affect the current one
+  if (
+    eventType !== "customer.subscription.created" &&
+    org.stripeSubscriptionId &&
+    org.stripeSubscriptionId !== subscription.id
+  ) {
+    return ignored("Not the organization's current subscription", org.id);
+  }
+  if (isStale(org, eventCreated)) return ignored("Older than the last billing event applied", org.id);
+
+  const plan = await planForSubscription(subscription);
+  await storage.updateOrganization(org.id, {
+    ...(plan ? { plan } : {}),
+    subscriptionStatus: subscription.status,
+    trialEndsAt: fromUnix(subscription.trial_end),
+    stripeCustomerId: idOf(subscription.customer),
+    stripeSubscriptionId: subscription.id,
+    billingEventAt: eventCreated,
+  });
+  return { status: "processed", organizationId: org.id };
+}
+
+async function handleTrialWillEnd(subscription: Stripe.Subscription): Promise<StripeEventOutcome> {
+  const org = await findOrganization({
+    organizationId: subscription.metadata?.organizationId,
+    subscriptionId: subscription.id,
+    customerId: idOf(subscription.customer),
+  });
+  if (!org) return ignored("No matching organization");
+
+  const trialEnd = fromUnix(subscription.trial_end);
+  if (trialEnd) {
+    await storage.updateOrganization(org.id, { trialEndsAt: trialEnd });
+  }
+  await notifyOwner(
+    org,
+    `Your ${org.name} trial is ending soon`,
+    `The free trial for ${org.name} on Sewer Swarm AI ends${
+      trialEnd ? ` on ${trialEnd.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })}` : " soon"
+    }. Add a payment method before then to keep full access to your schedule.`
+  );
+  return { status: "processed", organizationId: org.id };
+}
+
+async function handlePaymentFailed(invoice: Stripe.Invoice, eventCreated: Date): Promise<StripeEventOutcome> {
+  // Newer API versions nest the subscription under `parent`; older payloads have it at the top level
+  const legacySubscription = (invoice as unknown as { subscription?: string | { id: string } | null }).subscription;
+  const subscriptionId =
+    idOf(invoice.parent?.subscription_details?.subscription) ?? idOf(legacySubscription);
+
+  const org = await findOrganization({
+    organizationId: invoice.parent?.subscription_details?.metadata?.organizationId,
+    subscriptionId,
+    customerId: idOf(invoice.customer),
+  });
+  if (!org) return ignored("No matching organization");
+
+  // Stripe also sends customer.subscription.updated with the new status; marking it here
+  // means access reflects the failure even if that event is delayed
+  if (!isStale(org, eventCreated) && ["active", "trialing"].includes(org.subscriptionStatus ?? "")) {
+    await storage.updateOrganization(org.id, { subscriptionStatus: "past_due", billingEventAt: eventCreated });
+  }
+  await notifyOwner(
+    org,
+    `Payment failed for ${org.name}`,
+    `We couldn't take the latest payment for ${org.name} on Sewer Swarm AI. Please update your payment details to avoid losing access to your schedule.`
+  );
+  return { status: "processed", organizationId: org.id };
+}
+
+/** Apply a verified Stripe event. Throws if it should be retried. */
+export async function handleStripeEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
+  const created = new Date(event.created * 1000);
+  switch (event.type) {
+    case "checkout.session.completed":
+      return handleCheckoutCompleted(event.data.object);
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      return handleSubscriptionChange(event.data.object, event.type, created);
+    case "customer.subscription.trial_will_end":
+      return handleTrialWillEnd(event.data.object);
+    case "invoice.payment_failed":
+      return handlePaymentFailed(event.data.object, created);
+    default:
+      return ignored(`Unhandled event type ${event.type}`);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Subscription access
+ *
+ * Decides what an organization may do from its billing state (kept in step with Stripe by
+ * lib/stripeWebhooks.ts). Active subscriptions and running trials have full access. Once a
+ * trial ends or a subscription is past due or cancelled the organization has lapsed: it keeps
+ * full access for SUBSCRIPTION_GRACE_DAYS, with a warning, then becomes read-only until billing
+ * is sorted out. Mutating API routes enforce this with checkWriteAccess
+ * (lib/entitlementGuard.ts); the schedule page shows the same state from /api/me.
+ *
+ * Client-safe: no server imports.
+ */
+
+import { format } from "date-fns";
+
+export const SUBSCRIPTION_GRACE_DAYS = 7;
+
+export type SubscriptionAccessState = "active" | "grace" | "read_only";
+
+export interface SubscriptionAccess {
+  state: SubscriptionAccessState;
+  subscriptionStatus: string;
+  // Why access is limited; null while active
+  reason: "trial_expired" | "payment_failed" | "canceled" | null;
+  trialEndsAt: string | null;
+  // When the trial ended or the subscription stopped being paid, and when the grace period ends
+  lapsedAt: string | null;
+  graceEndsAt: string | null;
+  canWrite: boolean;
+  // Shown in the schedule banner and returned by blocked API requests
+  message: string | null;
+}
+
+// Stripe statuses that stop payment; anything else unrecognised keeps full access
+const UNPAID_STATUSES = ["past_due", "unpaid", "incomplete"];
+const ENDED_STATUSES = ["canceled", "incomplete_expired", "paused"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const displayDate = (date: Date) => format(date, "d MMM yyyy");
+
+function lapseMessage(reason: NonNullable<SubscriptionAccess["reason"]>, lapsedAt: Date | null): string {
+  switch (reason) {
+    case "trial_expired":
+      return lapsedAt ? `Your free trial ended on ${displayDate(lapsedAt)}.` : "Your free trial has ended.";
+    case "payment_failed":
+      return "Your latest subscription payment failed.";
+    case "canceled":
+      return "Your subscription has been cancelled.";
+  }
+}
+
+/**
+ * Access for an organization at `now`. billingEventAt is when the last Stripe event was
+ * applied, which for a past due or cancelled subscription is when it lapsed; without it the
+ * grace period is treated as over.
+ */
+export function getSubscriptionAccess(
+  org: {
+    subscriptionStatus: string | null;
+    trialEndsAt: Date | string | null;
+    billingEventAt: Date | string | null;
+  },
+  now: Date = new Date()
+): SubscriptionAccess {
+  const subscriptionStatus = org.subscriptionStatus || "trialing";
+  const trialEndsAt = org.trialEndsAt ? new Date(org.trialEndsAt) : null;
+
+  let reason: SubscriptionAccess["reason"] = null;
+  let lapsedAt: Date | null = null;
+  if (subscriptionStatus === "trialing") {
+    if (trialEndsAt && trialEndsAt <= now) {
+      reason = "trial_expired";
+      lapsedAt = trialEndsAt;
+    }
+  } else if (UNPAID_STATUSES.includes(subscriptionStatus) || ENDED_STATUSES.includes(subscriptionStatus)) {
+    reason = UNPAID_STATUSES.includes(subscriptionStatus) ? "payment_failed" : "canceled";
+    lapsedAt = org.billingEventAt ? new Date(org.billingEventAt) : null;
+  }
+
+  const base = {
+    subscriptionStatus,
+    trialEndsAt: trialEndsAt?.toISOString() ?? null,
+  };
+  if (!reason) {
+    return { ...base, state: "active", reason, lapsedAt: null, graceEndsAt: null, canWrite: true, message: null };
+  }
+
+  const graceEndsAt = lapsedAt ? new Date(lapsedAt.getTime() + SUBSCRIPTION_GRACE_DAYS * DAY_MS) : null;
+  const inGrace = !!graceEndsAt && now < graceEndsAt;
+  const lapsed = lapseMessage(reason, lapsedAt);
+  const fix = reason === "trial_expired" ? "Choose a plan" : "Update your billing";
+  return {
+    ...base,
+    state: inGrace ? "grace" : "read_only",
+    reason,
+    lapsedAt: lapsedAt?.toISOString() ?? null,
+    graceEndsAt: graceEndsAt?.toISOString() ?? null,
+    canWrite: inGrace,
+    message: inGrace
+      ? `${lapsed} ${fix} by ${displayDate(graceEndsAt!)} to keep editing the schedule.`
+      : `${lapsed} The schedule is read-only until ${reason === "trial_expired" ? "you choose a plan" : "your billing is updated"}.`,
+  };
+}
@@ -1,48 +1,271 @@
 /**
  * Travel time calculation utilities
  * 
- * For now, uses a simple mock calculation based on postcode distance.
- * In production, this would integrate with a mapping API like Google Maps, Mapbox, or similar.
+ * Travel times come from a pluggable TravelTimeProvider. The default provider is fully offline:
+ * it resolves postcodes to their area's centroid in the bundled dataset (lib/postcodeCentroids.ts)
+ * and converts haversine distance into minutes using a road factor and a per-vehicle-class speed
+ * profile. Trips within an area are estimated from a typical hop rather than measured.
+ * Set NEXT_PUBLIC_ROUTING_URL to route through a self-hosted OSRM-compatible server instead
+ * (see lib/osrmTravelTime.ts); the offline estimate is still used until the router has answered.
  */
 
+import { haversineKm, lookupPostcode } from "@/lib/postcodeCentroids";
+import { createOsrmTravelTimeProvider } from "@/lib/osrmTravelTime";
+import { normalizeVehicleTypeName } from "@/lib/vehicleTypes";
+
+export type VehicleClass = "car" | "van" | "hgv";
+
+export interface TravelTimeProvider {
+  name: string;
+  /**
+   * Travel time in minutes between two postcodes, or null if the provider cannot answer.
+   * Providers backed by a network service may return a promise; synchronous callers then
+   * get the offline estimate until the routed value lands in the cache.
+   */
+  getTravelMinutes(
+    fromPostcode: string,
+    toPostcode: string,
+    vehicleClass: VehicleClass
+  ): number | null | Promise<number | null>;
+}
+
+// Default travel time if postcodes are missing or can't be resolved
+const DEFAULT_TRAVEL_MINUTES = 45;
+
+// Average door-to-door speeds (km/h) including urban sections, per vehicle class
+export const VEHICLE_SPEED_PROFILES: Record<VehicleClass, number> = {
+  car: 56,
+  van: 50,
+  hgv: 42,
+};
+
+// Roads are never straight: multiply great-circle distance to approximate driven distance
+const ROAD_FACTOR = 1.3;
+
+// Fixed time for getting away / parking up at the other end
+const FIXED_OVERHEAD_MINUTES = 5;
+
+// When both postcodes resolve to the same centroid we can't measure a distance,
+// so assume a typical hop within a district / within an area.
+const SAME_DISTRICT_KM = 2;
+const SAME_AREA_KM = 8;
+
+// Tanker-based units (jet vac, recycler, lining rigs) drive on HGV speed limits
+const HGV_VEHICLE_TYPES = new Set(["jetvac", "recycler", "lining"]);
+
 /**
- * Extract postcode from a UK address string
- * UK postcodes are typically in formats like: "SW1A 2AA", "M1 1AA", "B33 8TH"
+ * Map a vehicle type (as configured in Vehicle Types) to the speed profile used for routing
  */
-export function extractPostcode(address: string): string | null {
-  if (!address) return null;
-  
-  // UK postcode pattern: 1-2 letters, 1-2 digits, optional space, 1 digit, 2 letters
-  const postcodeRegex = /([A-Z]{1,2}\d{1,2}\s?\d[A-Z]{2})/i;
-  const match = address.match(postcodeRegex);
-  return match ? match[1].toUpperCase().replace(/\s/g, '') : null;
+export function getVehicleClass(vehicleType?: string | null): VehicleClass {
+  if (!vehicleType) return "van";
+  return HGV_VEHICLE_TYPES.has(normalizeVehicleTypeName(vehicleType)) ? "hgv" : "van";
+}
+
+/**
+ * Offline provider built on the bundled postcode-centroid dataset
+ */
+export function createOfflineTravelTimeProvider(
+  speeds: Record<VehicleClass, number> = VEHICLE_SPEED_PROFILES,
+  roadFactor: number = ROAD_FACTOR
+): TravelTimeProvider {
+  return {
+    name: "offline",
+    getTravelMinutes(fromPostcode, toPostcode, vehicleClass) {
+      const from = lookupPostcode(fromPostcode);
+      const to = lookupPostcode(toPostcode);
+      if (!from || !to) return null;
+
+      let km = haversineKm(from.coords, to.coords) * roadFactor;
+      if (from.outward === to.outward) {
+        km = Math.max(km, SAME_DISTRICT_KM);
+      } else if (from.coords === to.coords) {
+        km = Math.max(km, SAME_AREA_KM);
+      }
+
+      const minutes = FIXED_OVERHEAD_MINUTES + (km / speeds[vehicleClass]) * 60;
+      // Planners work in 5 minute slots
+      return Math.ceil(minutes / 5) * 5;
+    },
+  };
+}
+
+const offlineProvider = createOfflineTravelTimeProvider();
+
+function createDefaultProvider(): TravelTimeProvider {
+  const routingUrl = process.env.NEXT_PUBLIC_ROUTING_URL;
+  if (routingUrl) {
+    return createOsrmTravelTimeProvider({ baseUrl: routingUrl });
+  }
+  return offlineProvider;
+}
+
+let activeProvider: TravelTimeProvider = createDefaultProvider();
+
+// Cache per postcode pair + vehicle class so CalendarGrid recalculations stay cheap
+const MAX_CACHE_ENTRIES = 5000;
+const travelTimeCache = new Map<string, number>();
+const pendingLookups = new Map<string, Promise<number>>();
+
+function cacheKey(fromPostcode: string, toPostcode: string, vehicleClass: VehicleClass): string {
+  return `${fromPostcode}|${toPostcode}|${vehicleClass}`;
+}
+
+function cacheSet(key: string, minutes: number) {
+  if (travelTimeCache.size >= MAX_CACHE_ENTRIES) {
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    const oldest = travelTimeCache.keys().next().value;
+    if (oldest !== undefined) travelTimeCache.delete(oldest);
+  }
+  travelTimeCache.set(key, minutes);
+}
+
+function offlineEstimate(fromPostcode: string, toPostcode: string, vehicleClass: VehicleClass): number {
+  const minutes = offlineProvider.getTravelMinutes(fromPostcode, toPostcode, vehicleClass);
+  return typeof minutes === "number" ? minutes : DEFAULT_TRAVEL_MINUTES;
+}
+
+function normalizePostcodeKey(postcode: string): string {
+  return postcode.toUpperCase().replace(/\s/g, "");
+}
+
+/**
+ * Replace the active travel time provider (clears the cache)
+ */
+export function setTravelTimeProvider(provider: TravelTimeProvider) {
+  activeProvider = provider;
+  clearTravelTimeCache();
+}
+
+export function getTravelTimeProvider(): TravelTimeProvider {
+  return activeProvider;
+}
+
+export function clearTravelTimeCache() {
+  travelTimeCache.clear();
+  pendingLookups.clear();
+}
+
+function trackLookup(
+  key: string,
+  from: string,
+  to: string,
+  vehicleClass: VehicleClass,
+  lookup: Promise<number | null>
+): Promise<number> {
+  const tracked = lookup
+    .catch((error) => {
+      console.error(`[travelTime] ${activeProvider.name} provider failed:`, error);
+      return null;
+    })
+    .then((minutes) => {
+      const resolved = typeof minutes === "number" ? minutes : offlineEstimate(from, to, vehicleClass);
+      cacheSet(key, resolved);
+      return resolved;
+    })
+    .finally(() => {
+      pendingLookups.delete(key);
+    });
+
+  pendingLookups.set(key, tracked);
+  return tracked;
+}
+
+function askProvider(from: string, to: string, vehicleClass: VehicleClass): number | null | Promise<number | null> {
+  try {
+    return activeProvider.getTravelMinutes(from, to, vehicleClass);
+  } catch (error) {
+    console.error(`[travelTime] ${activeProvider.name} provider failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Resolve travel time through the active provider, waiting for network-backed providers.
+ * Use this on the server or anywhere an async result is acceptable.
+ */
+export async function getTravelTime(
+  fromPostcode: string | null,
+  toPostcode: string | null,
+  vehicleClass: VehicleClass = "van"
+): Promise<number> {
+  if (!fromPostcode || !toPostcode) return DEFAULT_TRAVEL_MINUTES;
+
+  const from = normalizePostcodeKey(fromPostcode);
+  const to = normalizePostcodeKey(toPostcode);
+  const key = cacheKey(from, to, vehicleClass);
+
+  const cached = travelTimeCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const pending = pendingLookups.get(key);
+  if (pending) return pending;
+
+  const result = askProvider(from, to, vehicleClass);
+  if (result instanceof Promise) {
+    return trackLookup(key, from, to, vehicleClass, result);
+  }
+
+  const minutes = typeof result === "number" ? result : offlineEstimate(from, to, vehicleClass);
+  cacheSet(key, minutes);
+  return minutes;
 }
 
 /**
  * Calculate approximate travel time in minutes between two UK postcodes
- * This is a mock implementation - in production, use a real mapping API
+ * 
+ * Synchronous: returns the cached value for the pair, or asks the active provider.
+ * If the provider is network-backed, the offline estimate is returned now and the
+ * routed value is cached for the next recalculation.
  * 
  * @param fromPostcode Starting postcode
  * @param toPostcode Destination postcode
- * @returns Travel time in minutes (mock: 30-90 minutes based on postcode difference)
+ * @param vehicleClass Speed profile to use (defaults to van)
+ * @returns Travel time in minutes
  */
-export function calculateTravelTime(fromPostcode: string | null, toPostcode: string | null): number {
+export function calculateTravelTime(
+  fromPostcode: string | null,
+  toPostcode: string | null,
+  vehicleClass: VehicleClass = "van"
+): number {
   if (!fromPostcode || !toPostcode) {
-    // Default travel time if postcodes are missing
-    return 45; // 45 minutes default
+    return DEFAULT_TRAVEL_MINUTES;
   }
 
-  // Mock calculation: simple hash-based distance
-  // In production, replace with actual distance API call
-  const hash1 = fromPostcode.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const hash2 = toPostcode.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
-  const diff = Math.abs(hash1 - hash2);
-  
-  // Return travel time between 20-90 minutes based on "distance"
-  const minutes = 20 + (diff % 70);
+  const from = normalizePostcodeKey(fromPostcode);
+  const to = normalizePostcodeKey(toPostcode);
+  const key = cacheKey(from, to, vehicleClass);
+
+  const cached = travelTimeCache.get(key);
+  if (cached !== undefined) return cached;
+
+  if (pendingLookups.has(key)) {
+    return offlineEstimate(from, to, vehicleClass);
+  }
+
+  const result = askProvider(from, to, vehicleClass);
+  if (result instanceof Promise) {
+    void trackLookup(key, from, to, vehicleClass, result);
+    return offlineEstimate(from, to, vehicleClass);
+  }
+
+  const minutes = typeof result === "number" ? result : offlineEstimate(from, to, vehicleClass);
+  cacheSet(key, minutes);
   return minutes;
 }
 
+/**
+ * Extract postcode from a UK address string
+ * UK postcodes are typically in formats like: "SW1A 2AA", "M1 1AA", "B33 8TH"
+ */
+export function extractPostcode(address: string): string | null {
+  if (!address) return null;
+  
+  // UK postcode pattern: 1-2 letters, 1-2 digits, optional space, 1 digit, 2 letters
+  const postcodeRegex = /([A-Z]{1,2}\d{1,2}\s?\d[A-Z]{2})/i;
+  const match = address.match(postcodeRegex);
+  return match ? match[1].toUpperCase().replace(/\s/g, '') : null;
+}
+
 /**
  * Calculate start time based on:
  * - Default shift start time (day/night)
@@ -54,13 +277,15 @@ export function calculateTravelTime(fromPostcode: string | null, toPostcode: str
  * @param employeeStartLocation Employee's home postcode or depot address
  * @param jobAddress Job site address
  * @param preStartBufferMinutes Minutes to add before default start (for vehicle checks, traffic)
+ * @param vehicleClass Speed profile of the vehicle being driven
  * @returns Calculated start time in HH:MM format
  */
 export function calculateStartTime(
   defaultStartTime: string,
   employeeStartLocation: string | null,
   jobAddress: string | null,
-  preStartBufferMinutes: number = 15
+  preStartBufferMinutes: number = 15,
+  vehicleClass: VehicleClass = "van"
 ): string {
   if (!employeeStartLocation || !jobAddress) {
     // If we don't have both locations, just return default
@@ -77,7 +302,7 @@ export function calculateStartTime(
   }
 
   // Calculate travel time
-  const travelMinutes = calculateTravelTime(fromPostcode, toPostcode);
+  const travelMinutes = calculateTravelTime(fromPostcode, toPostcode, vehicleClass);
   
   // Total time needed: travel time + pre-start buffer
   const totalMinutes = travelMinutes + preStartBufferMinutes;
@@ -130,18 +355,20 @@ export function calculateNextJobStartTime(previousJobEndTime: string): string {
  * @param startTime Start time (leave time) in HH:MM format
  * @param fromAddress Address of previous location
  * @param toAddress Address of job site
+ * @param vehicleClass Speed profile of the vehicle being driven
  * @returns Onsite time in HH:MM format (arrival time)
  */
 export function calculateOnsiteTime(
   startTime: string,
   fromAddress: string | null,
-  toAddress: string | null
+  toAddress: string | null,
+  vehicleClass: VehicleClass = "van"
 ): string {
   if (!startTime) return "09:00";
   
   // Calculate travel time
   const travelMinutes = fromAddress && toAddress 
-    ? calculateTravelTime(extractPostcode(fromAddress), extractPostcode(toAddress))
+    ? calculateTravelTime(extractPostcode(fromAddress), extractPostcode(toAddress), vehicleClass)
     : 30; // Default 30 minutes if addresses missing
   
   // Parse start time
@@ -107,3 +107,19 @@ export function getVehicleTypeDisplayName(requestedType: string | undefined, veh
   return found?.type || requestedType;
 }
 
+
+// The colours vehicles (in the depot modal) and jobs (in the booking form) can be given, by name
+export const VEHICLE_COLOR_HEX: Record<string, string> = {
+  blue: "#3B82F6",
+  green: "#22C55E",
+  yellow: "#EAB308",
+  orange: "#F97316",
+  red: "#EF4444",
+  purple: "#A855F7",
+  pink: "#EC4899",
+  teal: "#14B8A6",
+  gray: "#64748B",
+  indigo: "#6366F1",
+  cyan: "#06B6D4",
+  lime: "#84CC16",
+};
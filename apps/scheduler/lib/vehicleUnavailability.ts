@@ -0,0 +1,71 @@
+/**
+ * Vehicle unavailability
+ *
+ * Dated off-road / maintenance periods (vehicle_unavailability table). vehicles.status says
+ * what state a vehicle is in right now; a period only takes the vehicle out on the days it
+ * covers, including its repeats (see lib/recurrence.ts). Shared by the API routes, the
+ * conflict engine and the calendar.
+ */
+
+import { z } from "zod";
+import {
+  RECURRENCE_FREQUENCIES,
+  periodCoversDay,
+  toRecurringPeriod,
+  type StoredRecurringPeriod,
+} from "@/lib/recurrence";
+
+export const VEHICLE_UNAVAILABILITY_REASONS = ["off_road", "maintenance", "other"] as const;
+
+export const VEHICLE_UNAVAILABILITY_REASON_LABELS: Record<(typeof VEHICLE_UNAVAILABILITY_REASONS)[number], string> = {
+  off_road: "VOR / Off Road",
+  maintenance: "Maintenance",
+  other: "Other",
+};
+
+export interface VehicleUnavailabilityPeriod extends StoredRecurringPeriod {
+  vehicleId: string;
+  reason: string;
+}
+
+// ---------- Validation ----------
+
+const periodFields = z.object({
+  vehicleId: z.string().min(1),
+  reason: z.enum(VEHICLE_UNAVAILABILITY_REASONS),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  recurrence: z.enum(RECURRENCE_FREQUENCIES),
+  recurrenceUntil: z.coerce.date().nullable(),
+  notes: z
+    .string()
+    .trim()
+    .max(2000)
+    .nullable()
+    .transform((v) => v || null),
+});
+
+export const createVehicleUnavailabilitySchema = periodFields.extend({
+  endDate: z.coerce.date().optional(),
+  recurrence: periodFields.shape.recurrence.default("none"),
+  recurrenceUntil: periodFields.shape.recurrenceUntil.optional(),
+  notes: periodFields.shape.notes.optional(),
+});
+
+// The vehicle can't change; delete and re-create instead
+export const updateVehicleUnavailabilitySchema = periodFields.omit({ vehicleId: true }).partial().strict();
+
+// ---------- Lookup ----------
+
+/**
+ * The period that takes the vehicle off the road on the day (yyyy-MM-dd), if any.
+ * `toKey` turns stored dates into day keys (toDayKey on the server, the local date in the browser).
+ */
+export function findVehicleUnavailability<T extends VehicleUnavailabilityPeriod>(
+  periods: T[],
+  vehicleId: string,
+  day: string,
+  toKey: (date: Date | string) => string
+): T | undefined {
+  return periods.find((p) => p.vehicleId === vehicleId && periodCoversDay(toRecurringPeriod(p, toKey), day));
+}
@@ -1,31 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  SESSION_COOKIE,
+  LEGACY_USER_COOKIE,
+  verifySessionCookie,
+  isLegacyCookieMigrationOpen,
+} from "@/lib/session-token";
 
 /**
  * EDGE-SAFE middleware
  * - Auth only
  * - No database access
  * - No pg / drizzle imports
+ *
+ * Verifies the session cookie's HMAC signature and expiry. Revocation is checked
+ * server-side in getRequestContext (lib/session.ts), which has database access.
  */
 
-export function middleware(req: NextRequest) {
+export async function middleware(req: NextRequest) {
   const pathname = req.nextUrl.pathname;
 
   // Allow public routes
   if (
     pathname.startsWith("/api/health") ||
     pathname.startsWith("/api/invites") ||
+    pathname.startsWith("/api/approvals") ||
     pathname.startsWith("/login") ||
     pathname.startsWith("/register") ||
     pathname.startsWith("/invite") ||
+    pathname.startsWith("/approvals") ||
     pathname.startsWith("/_next")
   ) {
     return NextResponse.next();
   }
 
-  // Example: read auth cookie (adjust later for NextAuth)
-  const userId = req.cookies.get("userId")?.value;
+  const session = await verifySessionCookie(req.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    // Let pre-sessions cookies through while the migration window is open;
+    // the first API call exchanges them for a signed session.
+    const hasLegacyCookie = !!req.cookies.get(LEGACY_USER_COOKIE)?.value;
+    if (hasLegacyCookie && isLegacyCookieMigrationOpen()) {
+      return NextResponse.next();
+    }
 
-  if (!userId) {
     return NextResponse.redirect(new URL("/login", req.url));
   }
 
@@ -40,8 +57,8 @@ export const config = {
      * - api routes
      * - static files
      * - next internals
-     * - public routes (login, register, invite)
+     * - public routes (login, register, invite, emailed approval links)
      */
-    "/((?!api|_next/static|_next/image|favicon.ico|login|register|invite).*)",
+    "/((?!api|_next/static|_next/image|favicon.ico|login|register|invite|approvals).*)",
   ],
 };
@@ -122,6 +122,281 @@ async function runMigration() {
         END $$;
       `);
 
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "sessions" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "user_id" varchar NOT NULL,
+          "token_hash" text NOT NULL UNIQUE,
+          "expires_at" timestamp NOT NULL,
+          "revoked_at" timestamp,
+          "user_agent" text,
+          "created_at" timestamp DEFAULT now(),
+          FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS "sessions_user_id_idx" ON "sessions" ("user_id");
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "organization_settings" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL UNIQUE,
+          "schema_version" integer NOT NULL DEFAULT 1,
+          "scheduling" jsonb,
+          "vehicle_types" jsonb,
+          "vehicle_combinations" jsonb,
+          "clients" jsonb,
+          "imported_at" timestamp,
+          "updated_by" varchar,
+          "updated_at" timestamp DEFAULT now(),
+          "created_at" timestamp DEFAULT now(),
+          FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE
+        );
+      `);
+
+      await client.query(`
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "conflict_override_reason" text;
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "conflict_overridden_by" varchar REFERENCES "users"("id");
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "conflict_overridden_at" timestamp;
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "vehicle_unavailability" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL,
+          "vehicle_id" varchar NOT NULL,
+          "reason" text NOT NULL,
+          "start_date" timestamp NOT NULL,
+          "end_date" timestamp NOT NULL,
+          "recurrence" text DEFAULT 'none' NOT NULL,
+          "recurrence_until" timestamp,
+          "notes" text,
+          "created_by" varchar,
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now(),
+          FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE,
+          FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("id") ON DELETE CASCADE,
+          FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL
+        );
+        CREATE INDEX IF NOT EXISTS "vehicle_unavailability_org_idx" ON "vehicle_unavailability" ("organization_id");
+      `);
+
+      await client.query(`
+        ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "day_part" text DEFAULT 'full' NOT NULL;
+        ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "recurrence" text DEFAULT 'none' NOT NULL;
+        ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "recurrence_until" timestamp;
+        ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "notes" text;
+        ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now();
+      `);
+
+      await client.query(`
+        ALTER TABLE "organization_settings" ADD COLUMN IF NOT EXISTS "leave" jsonb;
+        CREATE TABLE IF NOT EXISTS "leave_allowances" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL,
+          "employee_id" varchar NOT NULL,
+          "leave_year_start" text NOT NULL,
+          "entitlement_days" numeric(5, 1),
+          "carry_over_days" numeric(5, 1),
+          "notes" text,
+          "updated_by" varchar,
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now(),
+          FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE,
+          FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE,
+          FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE SET NULL
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS "leave_allowances_employee_year_idx" ON "leave_allowances" ("employee_id", "leave_year_start");
+        CREATE INDEX IF NOT EXISTS "leave_allowances_org_idx" ON "leave_allowances" ("organization_id");
+      `);
+
+      await client.query(`
+        ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "billing_event_at" timestamp;
+        CREATE TABLE IF NOT EXISTS "stripe_events" (
+          "id" varchar PRIMARY KEY NOT NULL,
+          "type" text NOT NULL,
+          "status" text DEFAULT 'processing' NOT NULL,
+          "organization_id" varchar,
+          "payload" jsonb NOT NULL,
+          "error" text,
+          "created_at" timestamp NOT NULL,
+          "received_at" timestamp DEFAULT now(),
+          "processed_at" timestamp,
+          FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL
+        );
+        CREATE INDEX IF NOT EXISTS "stripe_events_org_idx" ON "stripe_events" ("organization_id");
+        CREATE INDEX IF NOT EXISTS "organizations_stripe_customer_idx" ON "organizations" ("stripe_customer_id");
+      `);
+
+      await client.query(`
+        ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "entitlement_overrides" jsonb;
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "audit_events" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL,
+          "actor_id" varchar,
+          "entity_type" text NOT NULL,
+          "entity_id" varchar NOT NULL,
+          "action" text NOT NULL,
+          "changes" jsonb NOT NULL,
+          "created_at" timestamp DEFAULT now() NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS "audit_events_org_created_idx" ON "audit_events" ("organization_id", "created_at");
+        CREATE INDEX IF NOT EXISTS "audit_events_entity_idx" ON "audit_events" ("entity_type", "entity_id");
+        CREATE OR REPLACE FUNCTION "audit_events_append_only"() RETURNS trigger AS $fn$
+        BEGIN
+          RAISE EXCEPTION 'audit_events is append-only';
+        END;
+        $fn$ LANGUAGE plpgsql;
+        DROP TRIGGER IF EXISTS "audit_events_no_change" ON "audit_events";
+        CREATE TRIGGER "audit_events_no_change" BEFORE UPDATE OR DELETE ON "audit_events"
+          FOR EACH ROW EXECUTE FUNCTION "audit_events_append_only"();
+      `);
+
+      await client.query(`
+        ALTER TABLE schedule_items ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE depots ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE crews ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE employees ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "schedule_series" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+          "frequency" text NOT NULL,
+          "weekdays" jsonb NOT NULL,
+          "start_date" timestamp NOT NULL,
+          "until_date" timestamp,
+          "count" integer,
+          "exceptions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+          "created_by" varchar REFERENCES "users"("id"),
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now(),
+          "version" integer DEFAULT 1 NOT NULL
+        );
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "series_id" varchar REFERENCES "schedule_series"("id") ON DELETE SET NULL;
+        CREATE INDEX IF NOT EXISTS "schedule_items_series_idx" ON "schedule_items" ("series_id");
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "jobs" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+          "customer" text,
+          "job_number" text,
+          "address" text,
+          "project_manager" text,
+          "color" text,
+          "status" text DEFAULT 'active' NOT NULL,
+          "notes" text,
+          "created_by" varchar REFERENCES "users"("id"),
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now(),
+          "version" integer DEFAULT 1 NOT NULL
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS "jobs_org_job_number_idx" ON "jobs" ("organization_id", "job_number");
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "job_id" varchar REFERENCES "jobs"("id") ON DELETE SET NULL;
+        CREATE INDEX IF NOT EXISTS "schedule_items_job_idx" ON "schedule_items" ("job_id");
+
+        -- Existing multi-day jobs were grouped by job number: make each group a job, taking its
+        -- details from the latest day
+        INSERT INTO "jobs" ("organization_id", "customer", "job_number", "address", "project_manager", "color", "created_by")
+        SELECT DISTINCT ON ("organization_id", btrim("job_number"))
+          "organization_id", "customer", btrim("job_number"), "address", "project_manager", "color", "user_id"
+        FROM "schedule_items"
+        WHERE "type" = 'job' AND "organization_id" IS NOT NULL AND "job_status" <> 'free'
+          AND "job_number" IS NOT NULL AND btrim("job_number") <> ''
+        ORDER BY "organization_id", btrim("job_number"), "date" DESC
+        ON CONFLICT DO NOTHING;
+        UPDATE "schedule_items" AS i SET "job_id" = j."id"
+        FROM "jobs" AS j
+        WHERE i."job_id" IS NULL AND i."type" = 'job' AND i."job_status" <> 'free'
+          AND j."organization_id" = i."organization_id" AND j."job_number" = btrim(i."job_number");
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "customers" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+          "name" text NOT NULL,
+          "contacts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+          "billing_reference" text,
+          "notes" text,
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now(),
+          "version" integer DEFAULT 1 NOT NULL
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS "customers_org_name_idx" ON "customers" ("organization_id", lower("name"));
+        CREATE TABLE IF NOT EXISTS "sites" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+          "customer_id" varchar REFERENCES "customers"("id") ON DELETE CASCADE,
+          "name" text,
+          "address" text NOT NULL,
+          "postcode" text,
+          "access_notes" text,
+          "created_at" timestamp DEFAULT now(),
+          "updated_at" timestamp DEFAULT now(),
+          "version" integer DEFAULT 1 NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS "sites_customer_idx" ON "sites" ("customer_id");
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "customer_id" varchar REFERENCES "customers"("id") ON DELETE SET NULL;
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "site_id" varchar REFERENCES "sites"("id") ON DELETE SET NULL;
+
+        -- The saved client names become customers
+        INSERT INTO "customers" ("organization_id", "name")
+        SELECT DISTINCT ON (s."organization_id", lower(btrim(c.name))) s."organization_id", btrim(c.name)
+        FROM "organization_settings" AS s, jsonb_array_elements_text(COALESCE(s."clients", '[]'::jsonb)) AS c(name)
+        WHERE btrim(c.name) <> '' AND btrim(c.name) <> 'Free'
+        ON CONFLICT DO NOTHING;
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "email_dispatches" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+          "date" timestamp NOT NULL,
+          "employee_id" varchar REFERENCES "employees"("id") ON DELETE SET NULL,
+          "recipient" text NOT NULL,
+          "subject" text NOT NULL,
+          "status" text NOT NULL,
+          "error" text,
+          "sent_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+          "created_at" timestamp DEFAULT now()
+        );
+        CREATE INDEX IF NOT EXISTS "email_dispatches_org_date_idx" ON "email_dispatches" ("organization_id", "date");
+      `);
+
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+          "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+          "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+          "scope" text NOT NULL,
+          "subject_id" varchar NOT NULL,
+          "token" text NOT NULL UNIQUE,
+          "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+          "created_at" timestamp DEFAULT now(),
+          "rotated_at" timestamp
+        );
+        CREATE UNIQUE INDEX IF NOT EXISTS "calendar_feeds_subject_idx" ON "calendar_feeds" ("organization_id", "scope", "subject_id");
+      `);
+
+      await client.query(`
+        ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "vehicle_type" text;
+        ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "shift" text;
+        ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "duration" integer;
+        ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "earliest_date" timestamp;
+        ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "latest_date" timestamp;
+      `);
+
+      await client.query(`
+        ALTER TABLE "organization_settings" ADD COLUMN IF NOT EXISTS "approvals" jsonb;
+        ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "approval" jsonb;
+      `);
+
       await client.query('COMMIT');
       console.log('Database schema updated (missing columns added).');
       return;
@@ -296,6 +571,281 @@ async function runMigration() {
       );
     `);
 
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "sessions" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "user_id" varchar NOT NULL,
+        "token_hash" text NOT NULL UNIQUE,
+        "expires_at" timestamp NOT NULL,
+        "revoked_at" timestamp,
+        "user_agent" text,
+        "created_at" timestamp DEFAULT now(),
+        FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+      );
+      CREATE INDEX IF NOT EXISTS "sessions_user_id_idx" ON "sessions" ("user_id");
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "organization_settings" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL UNIQUE,
+        "schema_version" integer NOT NULL DEFAULT 1,
+        "scheduling" jsonb,
+        "vehicle_types" jsonb,
+        "vehicle_combinations" jsonb,
+        "clients" jsonb,
+        "imported_at" timestamp,
+        "updated_by" varchar,
+        "updated_at" timestamp DEFAULT now(),
+        "created_at" timestamp DEFAULT now(),
+        FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE
+      );
+    `);
+
+    await client.query(`
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "conflict_override_reason" text;
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "conflict_overridden_by" varchar REFERENCES "users"("id");
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "conflict_overridden_at" timestamp;
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "vehicle_unavailability" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL,
+        "vehicle_id" varchar NOT NULL,
+        "reason" text NOT NULL,
+        "start_date" timestamp NOT NULL,
+        "end_date" timestamp NOT NULL,
+        "recurrence" text DEFAULT 'none' NOT NULL,
+        "recurrence_until" timestamp,
+        "notes" text,
+        "created_by" varchar,
+        "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now(),
+        FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE,
+        FOREIGN KEY ("vehicle_id") REFERENCES "vehicles"("id") ON DELETE CASCADE,
+        FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+      CREATE INDEX IF NOT EXISTS "vehicle_unavailability_org_idx" ON "vehicle_unavailability" ("organization_id");
+    `);
+
+    await client.query(`
+      ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "day_part" text DEFAULT 'full' NOT NULL;
+      ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "recurrence" text DEFAULT 'none' NOT NULL;
+      ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "recurrence_until" timestamp;
+      ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "notes" text;
+      ALTER TABLE "employee_absences" ADD COLUMN IF NOT EXISTS "updated_at" timestamp DEFAULT now();
+    `);
+
+    await client.query(`
+      ALTER TABLE "organization_settings" ADD COLUMN IF NOT EXISTS "leave" jsonb;
+      CREATE TABLE IF NOT EXISTS "leave_allowances" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL,
+        "employee_id" varchar NOT NULL,
+        "leave_year_start" text NOT NULL,
+        "entitlement_days" numeric(5, 1),
+        "carry_over_days" numeric(5, 1),
+        "notes" text,
+        "updated_by" varchar,
+        "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now(),
+        FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE,
+        FOREIGN KEY ("employee_id") REFERENCES "employees"("id") ON DELETE CASCADE,
+        FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE SET NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS "leave_allowances_employee_year_idx" ON "leave_allowances" ("employee_id", "leave_year_start");
+      CREATE INDEX IF NOT EXISTS "leave_allowances_org_idx" ON "leave_allowances" ("organization_id");
+    `);
+
+    await client.query(`
+      ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "billing_event_at" timestamp;
+      CREATE TABLE IF NOT EXISTS "stripe_events" (
+        "id" varchar PRIMARY KEY NOT NULL,
+        "type" text NOT NULL,
+        "status" text DEFAULT 'processing' NOT NULL,
+        "organization_id" varchar,
+        "payload" jsonb NOT NULL,
+        "error" text,
+        "created_at" timestamp NOT NULL,
+        "received_at" timestamp DEFAULT now(),
+        "processed_at" timestamp,
+        FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE SET NULL
+      );
+      CREATE INDEX IF NOT EXISTS "stripe_events_org_idx" ON "stripe_events" ("organization_id");
+      CREATE INDEX IF NOT EXISTS "organizations_stripe_customer_idx" ON "organizations" ("stripe_customer_id");
+    `);
+
+    await client.query(`
+      ALTER TABLE "organizations" ADD COLUMN IF NOT EXISTS "entitlement_overrides" jsonb;
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "audit_events" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL,
+        "actor_id" varchar,
+        "entity_type" text NOT NULL,
+        "entity_id" varchar NOT NULL,
+        "action" text NOT NULL,
+        "changes" jsonb NOT NULL,
+        "created_at" timestamp DEFAULT now() NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS "audit_events_org_created_idx" ON "audit_events" ("organization_id", "created_at");
+      CREATE INDEX IF NOT EXISTS "audit_events_entity_idx" ON "audit_events" ("entity_type", "entity_id");
+      CREATE OR REPLACE FUNCTION "audit_events_append_only"() RETURNS trigger AS $fn$
+      BEGIN
+        RAISE EXCEPTION 'audit_events is append-only';
+      END;
+      $fn$ LANGUAGE plpgsql;
+      DROP TRIGGER IF EXISTS "audit_events_no_change" ON "audit_events";
+      CREATE TRIGGER "audit_events_no_change" BEFORE UPDATE OR DELETE ON "audit_events"
+        FOR EACH ROW EXECUTE FUNCTION "audit_events_append_only"();
+    `);
+
+    await client.query(`
+      ALTER TABLE schedule_items ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE depots ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE crews ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE employees ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "schedule_series" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "frequency" text NOT NULL,
+        "weekdays" jsonb NOT NULL,
+        "start_date" timestamp NOT NULL,
+        "until_date" timestamp,
+        "count" integer,
+        "exceptions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+        "created_by" varchar REFERENCES "users"("id"),
+        "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now(),
+        "version" integer DEFAULT 1 NOT NULL
+      );
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "series_id" varchar REFERENCES "schedule_series"("id") ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS "schedule_items_series_idx" ON "schedule_items" ("series_id");
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "jobs" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "customer" text,
+        "job_number" text,
+        "address" text,
+        "project_manager" text,
+        "color" text,
+        "status" text DEFAULT 'active' NOT NULL,
+        "notes" text,
+        "created_by" varchar REFERENCES "users"("id"),
+        "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now(),
+        "version" integer DEFAULT 1 NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS "jobs_org_job_number_idx" ON "jobs" ("organization_id", "job_number");
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "job_id" varchar REFERENCES "jobs"("id") ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS "schedule_items_job_idx" ON "schedule_items" ("job_id");
+
+      -- Existing multi-day jobs were grouped by job number: make each group a job, taking its
+      -- details from the latest day
+      INSERT INTO "jobs" ("organization_id", "customer", "job_number", "address", "project_manager", "color", "created_by")
+      SELECT DISTINCT ON ("organization_id", btrim("job_number"))
+        "organization_id", "customer", btrim("job_number"), "address", "project_manager", "color", "user_id"
+      FROM "schedule_items"
+      WHERE "type" = 'job' AND "organization_id" IS NOT NULL AND "job_status" <> 'free'
+        AND "job_number" IS NOT NULL AND btrim("job_number") <> ''
+      ORDER BY "organization_id", btrim("job_number"), "date" DESC
+      ON CONFLICT DO NOTHING;
+      UPDATE "schedule_items" AS i SET "job_id" = j."id"
+      FROM "jobs" AS j
+      WHERE i."job_id" IS NULL AND i."type" = 'job' AND i."job_status" <> 'free'
+        AND j."organization_id" = i."organization_id" AND j."job_number" = btrim(i."job_number");
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "customers" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "name" text NOT NULL,
+        "contacts" jsonb DEFAULT '[]'::jsonb NOT NULL,
+        "billing_reference" text,
+        "notes" text,
+        "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now(),
+        "version" integer DEFAULT 1 NOT NULL
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS "customers_org_name_idx" ON "customers" ("organization_id", lower("name"));
+      CREATE TABLE IF NOT EXISTS "sites" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "customer_id" varchar REFERENCES "customers"("id") ON DELETE CASCADE,
+        "name" text,
+        "address" text NOT NULL,
+        "postcode" text,
+        "access_notes" text,
+        "created_at" timestamp DEFAULT now(),
+        "updated_at" timestamp DEFAULT now(),
+        "version" integer DEFAULT 1 NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS "sites_customer_idx" ON "sites" ("customer_id");
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "customer_id" varchar REFERENCES "customers"("id") ON DELETE SET NULL;
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "site_id" varchar REFERENCES "sites"("id") ON DELETE SET NULL;
+
+      -- The saved client names become customers
+      INSERT INTO "customers" ("organization_id", "name")
+      SELECT DISTINCT ON (s."organization_id", lower(btrim(c.name))) s."organization_id", btrim(c.name)
+      FROM "organization_settings" AS s, jsonb_array_elements_text(COALESCE(s."clients", '[]'::jsonb)) AS c(name)
+      WHERE btrim(c.name) <> '' AND btrim(c.name) <> 'Free'
+      ON CONFLICT DO NOTHING;
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "email_dispatches" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "date" timestamp NOT NULL,
+        "employee_id" varchar REFERENCES "employees"("id") ON DELETE SET NULL,
+        "recipient" text NOT NULL,
+        "subject" text NOT NULL,
+        "status" text NOT NULL,
+        "error" text,
+        "sent_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+        "created_at" timestamp DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS "email_dispatches_org_date_idx" ON "email_dispatches" ("organization_id", "date");
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+        "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+        "organization_id" varchar NOT NULL REFERENCES "organizations"("id") ON DELETE CASCADE,
+        "scope" text NOT NULL,
+        "subject_id" varchar NOT NULL,
+        "token" text NOT NULL UNIQUE,
+        "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+        "created_at" timestamp DEFAULT now(),
+        "rotated_at" timestamp
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS "calendar_feeds_subject_idx" ON "calendar_feeds" ("organization_id", "scope", "subject_id");
+    `);
+
+    await client.query(`
+      ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "vehicle_type" text;
+      ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "shift" text;
+      ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "duration" integer;
+      ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "earliest_date" timestamp;
+      ALTER TABLE "jobs" ADD COLUMN IF NOT EXISTS "latest_date" timestamp;
+    `);
+
+    await client.query(`
+      ALTER TABLE "organization_settings" ADD COLUMN IF NOT EXISTS "approvals" jsonb;
+      ALTER TABLE "schedule_items" ADD COLUMN IF NOT EXISTS "approval" jsonb;
+    `);
+
     await client.query('COMMIT');
     console.log('Database migration completed successfully (tables created).');
   } catch (err) {
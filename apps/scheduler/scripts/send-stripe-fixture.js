@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+
+/**
+ * Send Stripe Fixture Script
+ *
+ * Signs a fixture event from scripts/stripe-fixtures with STRIPE_WEBHOOK_SECRET and posts it
+ * to the local webhook endpoint, so billing changes can be tested without a Stripe account.
+ * Usage: node scripts/send-stripe-fixture.js <fixture> [organizationId] [--replay]
+ *
+ * {{ORGANIZATION_ID}} in the fixture is replaced with organizationId. Each send gets a new
+ * event id and the current time unless --replay is given, which resends the fixture's own
+ * id to check that duplicates are only applied once.
+ *
+ * Example:
+ *   node scripts/send-stripe-fixture.js customer.subscription.updated 3f0c...e1
+ *
+ * Set WEBHOOK_URL to post somewhere other than http://localhost:3000/api/stripe/webhook.
+ */
+
+const Stripe = require('stripe');
+const fs = require('fs');
+const path = require('path');
+
+// Load .env.local file
+function loadEnvFile() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  if (fs.existsSync(envPath)) {
+    const envContent = fs.readFileSync(envPath, 'utf8');
+    envContent.split('\n').forEach(line => {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#') && trimmed.includes('=')) {
+        const [key, ...valueParts] = trimmed.split('=');
+        const value = valueParts.join('=').trim();
+        // Remove quotes if present
+        const cleanValue = value.replace(/^["']|["']$/g, '');
+        if (key && cleanValue && !process.env[key.trim()]) {
+          process.env[key.trim()] = cleanValue;
+        }
+      }
+    });
+  }
+}
+
+// Load environment variables
+loadEnvFile();
+
+const FIXTURES_DIR = path.join(__dirname, 'stripe-fixtures');
+
+function listFixtures() {
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''));
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const replay = args.includes('--replay');
+  const [fixture, organizationId] = args.filter(arg => arg !== '--replay');
+
+  if (!fixture || !listFixtures().includes(fixture)) {
+    console.error('Usage: node scripts/send-stripe-fixture.js <fixture> [organizationId] [--replay]');
+    console.error('\nFixtures:');
+    listFixtures().forEach(name => console.error(`  ${name}`));
+    process.exit(1);
+  }
+
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ STRIPE_WEBHOOK_SECRET is not set (add it to .env.local, e.g. whsec_local_test)');
+    process.exit(1);
+  }
+
+  let raw = fs.readFileSync(path.join(FIXTURES_DIR, `${fixture}.json`), 'utf8');
+  if (organizationId) {
+    raw = raw.split('{{ORGANIZATION_ID}}').join(organizationId);
+  }
+  const event = JSON.parse(raw);
+  if (!replay) {
+    event.id = `${event.id}_${Date.now()}`;
+    event.created = Math.floor(Date.now() / 1000);
+  }
+
+  const payload = JSON.stringify(event, null, 2);
+  const header = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const url = process.env.WEBHOOK_URL || 'http://localhost:3000/api/stripe/webhook';
+
+  console.log(`\n📨 Sending ${event.type} (${event.id}) to ${url}\n`);
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Stripe-Signature': header },
+    body: payload,
+  });
+  const text = await res.text();
+  console.log(`${res.ok ? '✅' : '❌'} ${res.status} ${text}`);
+  process.exit(res.ok ? 0 : 1);
+}
+
+main().catch(err => {
+  console.error('❌ Error:', err.message);
+  process.exit(1);
+});
@@ -1,7 +1,11 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { LeaveSettings, SchedulingSettings, VehicleTypeSetting } from "@/lib/organizationSettings";
+import type { VehicleCombinationConfig } from "@/lib/vehicleTypes";
+import type { EntitlementOverrides } from "@/lib/entitlements";
+import type { ApprovalSettings, ScheduleItemApproval } from "@/lib/approvalPolicy";
 
 // ================= ORGANIZATIONS =================
 export const organizations = pgTable("organizations", {
@@ -13,17 +17,50 @@ export const organizations = pgTable("organizations", {
   stripeSubscriptionId: text("stripe_subscription_id"),
   subscriptionStatus: text("subscription_status").default("trialing"),
   trialEndsAt: timestamp("trial_ends_at"),
+  // Created time of the last Stripe event applied to the fields above, so older events
+  // delivered late don't overwrite newer state
+  billingEventAt: timestamp("billing_event_at"),
+  // Per-organization changes to the plan's limits and features (see lib/entitlements.ts)
+  entitlementOverrides: jsonb("entitlement_overrides").$type<EntitlementOverrides>(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   id: true,
+  entitlementOverrides: true,
   createdAt: true,
 });
 
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
 export type Organization = typeof organizations.$inferSelect;
 
+// ================= ORGANIZATION SETTINGS =================
+// One row per organization. JSON sections are normalized on read by lib/organizationSettings.ts;
+// a null section means "not configured yet, use defaults".
+export const organizationSettings = pgTable("organization_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().unique().references(() => organizations.id, { onDelete: "cascade" }),
+  schemaVersion: integer("schema_version").notNull().default(1),
+  scheduling: jsonb("scheduling").$type<Partial<SchedulingSettings>>(),
+  vehicleTypes: jsonb("vehicle_types").$type<VehicleTypeSetting[]>(),
+  vehicleCombinations: jsonb("vehicle_combinations").$type<VehicleCombinationConfig[]>(),
+  clients: jsonb("clients").$type<string[]>(),
+  leave: jsonb("leave").$type<Partial<LeaveSettings>>(),
+  approvals: jsonb("approvals").$type<Partial<ApprovalSettings>>(),
+  importedAt: timestamp("imported_at"),
+  updatedBy: varchar("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertOrganizationSettingsSchema = createInsertSchema(organizationSettings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOrganizationSettings = z.infer<typeof insertOrganizationSettingsSchema>;
+export type OrganizationSettingsRow = typeof organizationSettings.$inferSelect;
+
 // ================= ORGANIZATION MEMBERSHIPS =================
 export type MemberRole = "admin" | "operations" | "user";
 
@@ -91,6 +128,52 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// ================= SESSIONS =================
+// Only a SHA-256 hash of the session token is stored; the raw token lives in the signed cookie.
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type Session = typeof sessions.$inferSelect;
+
+// ================= STRIPE EVENTS =================
+// Every webhook event received, keyed by Stripe's event id so redelivered events are only
+// applied once (see lib/stripeWebhooks.ts).
+export type StripeEventStatus = "processing" | "processed" | "ignored" | "failed";
+
+export const stripeEvents = pgTable("stripe_events", {
+  id: varchar("id").primaryKey(),
+  type: text("type").notNull(),
+  status: text("status").notNull().default("processing"),
+  organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "set null" }),
+  payload: jsonb("payload").notNull(),
+  // Why the event failed or was ignored
+  error: text("error"),
+  // When Stripe created the event, and when we finished with it
+  createdAt: timestamp("created_at").notNull(),
+  receivedAt: timestamp("received_at").defaultNow(),
+  processedAt: timestamp("processed_at"),
+});
+
+export const insertStripeEventSchema = createInsertSchema(stripeEvents).omit({
+  receivedAt: true,
+});
+
+export type InsertStripeEvent = z.infer<typeof insertStripeEventSchema>;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+
 // ================= DEPOTS =================
 export const depots = pgTable("depots", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -99,10 +182,13 @@ export const depots = pgTable("depots", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
   archivedAt: timestamp("archived_at"),
+  // Optimistic concurrency, as on schedule items
+  version: integer("version").notNull().default(1),
 });
 
 export const insertDepotSchema = createInsertSchema(depots).omit({
   id: true,
+  version: true,
 });
 
 export type InsertDepot = z.infer<typeof insertDepotSchema>;
@@ -117,10 +203,13 @@ export const crews = pgTable("crews", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
   archivedAt: timestamp("archived_at"),
+  // Optimistic concurrency, as on schedule items
+  version: integer("version").notNull().default(1),
 });
 
 export const insertCrewSchema = createInsertSchema(crews).omit({
   id: true,
+  version: true,
 });
 
 export type InsertCrew = z.infer<typeof insertCrewSchema>;
@@ -139,17 +228,22 @@ export const employees = pgTable("employees", {
   depotId: varchar("depot_id").notNull().references(() => depots.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  // Optimistic concurrency, as on schedule items
+  version: integer("version").notNull().default(1),
 });
 
 export const insertEmployeeSchema = createInsertSchema(employees).omit({
   id: true,
+  version: true,
 });
 
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
 export type Employee = typeof employees.$inferSelect;
 
 // ================= EMPLOYEE ABSENCES =================
-export type EmployeeAbsenceType = "holiday" | "sick";
+export type EmployeeAbsenceType = "holiday" | "sick" | "training" | "other" | "unpaid";
+// Half-day absences cover the morning or afternoon of each day in the period
+export type AbsenceDayPart = "full" | "am" | "pm";
 
 export const employeeAbsences = pgTable("employee_absences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -162,18 +256,56 @@ export const employeeAbsences = pgTable("employee_absences", {
   absenceType: text("absence_type").notNull(),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
+  dayPart: text("day_part").notNull().default("full"),
+  // start..end repeats weekly/biweekly until recurrenceUntil (open-ended when null); see lib/recurrence.ts
+  recurrence: text("recurrence").notNull().default("none"),
+  recurrenceUntil: timestamp("recurrence_until"),
+  notes: text("notes"),
   createdBy: varchar("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertEmployeeAbsenceSchema = createInsertSchema(employeeAbsences).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
 });
 
 export type InsertEmployeeAbsence = z.infer<typeof insertEmployeeAbsenceSchema>;
 export type EmployeeAbsence = typeof employeeAbsences.$inferSelect;
 
+// ================= LEAVE ALLOWANCES =================
+// An employee's holiday allowance for one leave year (see lib/leaveAllowance.ts). Null values
+// fall back: entitlement to the employee's previous year, then the organization default;
+// carry-over to the unused part of the previous year's entitlement, capped by the org setting.
+export const leaveAllowances = pgTable("leave_allowances", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  employeeId: varchar("employee_id")
+    .notNull()
+    .references(() => employees.id, { onDelete: "cascade" }),
+  // First day of the leave year (yyyy-MM-dd); unique per employee
+  leaveYearStart: text("leave_year_start").notNull(),
+  entitlementDays: numeric("entitlement_days", { precision: 5, scale: 1, mode: "number" }),
+  carryOverDays: numeric("carry_over_days", { precision: 5, scale: 1, mode: "number" }),
+  notes: text("notes"),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertLeaveAllowanceSchema = createInsertSchema(leaveAllowances).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertLeaveAllowance = z.infer<typeof insertLeaveAllowanceSchema>;
+export type LeaveAllowance = typeof leaveAllowances.$inferSelect;
+
 // ================= VEHICLES =================
 export const vehicles = pgTable("vehicles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -185,15 +317,192 @@ export const vehicles = pgTable("vehicles", {
   depotId: varchar("depot_id").notNull().references(() => depots.id, { onDelete: "cascade" }),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   organizationId: varchar("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  // Optimistic concurrency, as on schedule items
+  version: integer("version").notNull().default(1),
 });
 
 export const insertVehicleSchema = createInsertSchema(vehicles).omit({
   id: true,
+  version: true,
 });
 
 export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
 export type Vehicle = typeof vehicles.$inferSelect;
 
+// ================= VEHICLE UNAVAILABILITY =================
+export type VehicleUnavailabilityReason = "off_road" | "maintenance" | "other";
+
+export const vehicleUnavailability = pgTable("vehicle_unavailability", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  vehicleId: varchar("vehicle_id")
+    .notNull()
+    .references(() => vehicles.id, { onDelete: "cascade" }),
+  reason: text("reason").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  // start..end repeats weekly/biweekly until recurrenceUntil (open-ended when null); see lib/recurrence.ts
+  recurrence: text("recurrence").notNull().default("none"),
+  recurrenceUntil: timestamp("recurrence_until"),
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertVehicleUnavailabilitySchema = createInsertSchema(vehicleUnavailability).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertVehicleUnavailability = z.infer<typeof insertVehicleUnavailabilitySchema>;
+export type VehicleUnavailability = typeof vehicleUnavailability.$inferSelect;
+
+// ================= CUSTOMERS =================
+// The organization's customer directory, replacing the saved client names in organization
+// settings. Names are unique per organization, ignoring case (customers_org_name_idx).
+export interface CustomerContact {
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+}
+
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  contacts: jsonb("contacts").$type<CustomerContact[]>().notNull().default(sql`'[]'::jsonb`),
+  // Purchase order / account reference to quote on invoices
+  billingReference: text("billing_reference"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  // Optimistic concurrency, as on schedule items
+  version: integer("version").notNull().default(1),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  version: true,
+});
+
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+// ================= SITES =================
+// A place work is done for a customer. Picking one on a booking fills in its address.
+export const sites = pgTable("sites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "cascade" }),
+  name: text("name"),
+  address: text("address").notNull(),
+  postcode: text("postcode"),
+  // Gate codes, parking, who to report to on arrival
+  accessNotes: text("access_notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  version: integer("version").notNull().default(1),
+});
+
+export const insertSiteSchema = createInsertSchema(sites).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  version: true,
+});
+
+export type InsertSite = z.infer<typeof insertSiteSchema>;
+export type Site = typeof sites.$inferSelect;
+
+// ================= JOBS =================
+// A piece of work for a customer. Its day allocations are schedule items linked through
+// schedule_items.job_id, which keep copies of the job's fields for the calendar (see lib/jobs.ts).
+// job_number is unique per organization (jobs_org_job_number_idx).
+export const JOB_STATUSES = ["active", "completed", "cancelled"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  customer: text("customer"),
+  jobNumber: text("job_number"),
+  address: text("address"),
+  projectManager: text("project_manager"),
+  color: text("color"),
+  // One of JOB_STATUSES
+  status: text("status").notNull().default("active"),
+  notes: text("notes"),
+  // What a job waiting to be scheduled needs, for the weekly auto-scheduler (lib/autoSchedule.ts).
+  // Its postcode is taken from the address. Null means any vehicle, any shift, a full shift, any day.
+  vehicleType: text("vehicle_type"),
+  shift: text("shift"),
+  duration: integer("duration"),
+  earliestDate: timestamp("earliest_date"),
+  latestDate: timestamp("latest_date"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  // Optimistic concurrency, as on schedule items
+  version: integer("version").notNull().default(1),
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  version: true,
+});
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
+// ================= SCHEDULE SERIES =================
+// A repeating booking: the rule its occurrences follow (see lib/recurrence.ts). Each occurrence
+// is still an ordinary schedule item, linked back through schedule_items.series_id.
+export const scheduleSeries = pgTable("schedule_series", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  // "weekly" or "biweekly", on the given weekdays (0 = Sunday ... 6 = Saturday)
+  frequency: text("frequency").notNull(),
+  weekdays: jsonb("weekdays").$type<number[]>().notNull(),
+  startDate: timestamp("start_date").notNull(),
+  // Ends on untilDate or after `count` occurrences
+  untilDate: timestamp("until_date"),
+  count: integer("count"),
+  // Days (yyyy-MM-dd) the rule matches that have no occurrence: deleted or moved away
+  exceptions: jsonb("exceptions").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  // Optimistic concurrency, as on schedule items
+  version: integer("version").notNull().default(1),
+});
+
+export const insertScheduleSeriesSchema = createInsertSchema(scheduleSeries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  version: true,
+});
+
+export type InsertScheduleSeries = z.infer<typeof insertScheduleSeriesSchema>;
+export type ScheduleSeries = typeof scheduleSeries.$inferSelect;
+
 // ================= SCHEDULE ITEMS =================
 export type ScheduleStatus = "approved" | "pending" | "rejected";
 
@@ -212,6 +521,8 @@ export const scheduleItems = pgTable("schedule_items", {
   approvedBy: varchar("approved_by").references(() => users.id),
   approvedAt: timestamp("approved_at"),
   rejectionReason: text("rejection_reason"),
+  // The approval rule a pending booking matched and the steps approved so far (lib/approvalPolicy.ts)
+  approval: jsonb("approval").$type<ScheduleItemApproval>(),
   
   // Job status (free/booked/cancelled) - separate from approval status
   jobStatus: text("job_status").notNull().default("booked"),
@@ -232,11 +543,30 @@ export const scheduleItems = pgTable("schedule_items", {
   
   // Note fields
   noteContent: text("note_content"),
+
+  // Set when a scheduling conflict (double booking, absence, unavailable vehicle) was overridden
+  conflictOverrideReason: text("conflict_override_reason"),
+  conflictOverriddenBy: varchar("conflict_overridden_by").references(() => users.id),
+  conflictOverriddenAt: timestamp("conflict_overridden_at"),
+
+  // The repeating booking this is an occurrence of, if any
+  seriesId: varchar("series_id").references(() => scheduleSeries.id, { onDelete: "set null" }),
+
+  // The job this day is allocated to, if any
+  jobId: varchar("job_id").references(() => jobs.id, { onDelete: "set null" }),
+
+  // Directory entries picked for the customer and address; the text fields above keep their values
+  customerId: varchar("customer_id").references(() => customers.id, { onDelete: "set null" }),
+  siteId: varchar("site_id").references(() => sites.id, { onDelete: "set null" }),
+
+  // Incremented on every update; edits send the version they started from (lib/concurrency.ts)
+  version: integer("version").notNull().default(1),
 });
 
 export const insertScheduleItemSchema = createInsertSchema(scheduleItems).omit({
   id: true,
   approvedAt: true,
+  version: true,
 });
 
 export type InsertScheduleItem = z.infer<typeof insertScheduleItemSchema>;
@@ -258,24 +588,112 @@ export const insertColorLabelSchema = createInsertSchema(colorLabels).omit({
 export type InsertColorLabel = z.infer<typeof insertColorLabelSchema>;
 export type ColorLabel = typeof colorLabels.$inferSelect;
 
-// ================= PLAN LIMITS =================
-export const PLAN_LIMITS = {
-  starter: {
-    depots: 1,
-    crews: 3,
-    employees: 25,
-    vehicles: 10,
-    teamMembers: 5,
-    approvalWorkflow: false,
-  },
-  pro: {
-    depots: -1,
-    crews: 30,
-    employees: 250,
-    vehicles: 60,
-    teamMembers: -1,
-    approvalWorkflow: true,
-  },
-} as const;
-
-export type PlanType = keyof typeof PLAN_LIMITS;
\ No newline at end of file
+// ================= EMAIL DISPATCHES =================
+// One row per schedule email sent to an operative (lib/dailySchedule.ts), with how it went.
+// "logged" means no email service is configured, so the message only went to the server log.
+export const EMAIL_DISPATCH_STATUSES = ["sent", "failed", "logged"] as const;
+export type EmailDispatchStatus = (typeof EMAIL_DISPATCH_STATUSES)[number];
+
+export const emailDispatches = pgTable("email_dispatches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  // The schedule day the email covers, stored like schedule item dates
+  date: timestamp("date").notNull(),
+  employeeId: varchar("employee_id").references(() => employees.id, { onDelete: "set null" }),
+  recipient: text("recipient").notNull(),
+  subject: text("subject").notNull(),
+  // One of EMAIL_DISPATCH_STATUSES
+  status: text("status").notNull(),
+  error: text("error"),
+  sentBy: varchar("sent_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertEmailDispatchSchema = createInsertSchema(emailDispatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEmailDispatch = z.infer<typeof insertEmailDispatchSchema>;
+export type EmailDispatch = typeof emailDispatches.$inferSelect;
+
+// ================= CALENDAR FEEDS =================
+// Subscribable ICS feeds (lib/calendarFeeds.ts) for one employee, crew or depot. The token in the
+// feed URL is the only credential, so rotating it cuts off everyone subscribed to the old URL.
+export const CALENDAR_FEED_SCOPES = ["employee", "crew", "depot"] as const;
+export type CalendarFeedScope = (typeof CALENDAR_FEED_SCOPES)[number];
+
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  // One of CALENDAR_FEED_SCOPES
+  scope: text("scope").notNull(),
+  // The employee, crew or depot the feed is for
+  subjectId: varchar("subject_id").notNull(),
+  token: text("token").notNull().unique(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  rotatedAt: timestamp("rotated_at"),
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  createdAt: true,
+  rotatedAt: true,
+});
+
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+
+// ================= AUDIT EVENTS =================
+// Append-only record of every change to schedule items, resources and memberships, written by
+// lib/storage.ts (see lib/audit.ts). A database trigger rejects updates and deletes. There is
+// deliberately no foreign key on organization_id or entity_id so history outlives the rows.
+export const AUDIT_ENTITY_TYPES = [
+  "schedule_item",
+  "schedule_series",
+  "job",
+  "customer",
+  "site",
+  "depot",
+  "crew",
+  "employee",
+  "vehicle",
+  "employee_absence",
+  "vehicle_unavailability",
+  "leave_allowance",
+  "membership",
+  "invite",
+  "calendar_feed",
+] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "archive", "restore", "approve", "reject"] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Changed fields only: the value before (null when created) and after (null when deleted)
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  // The signed-in user who made the change; null for system changes (scripts, webhooks)
+  actorId: varchar("actor_id"),
+  entityType: text("entity_type").notNull().$type<AuditEntityType>(),
+  entityId: varchar("entity_id").notNull(),
+  action: text("action").notNull().$type<AuditAction>(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;